@@ -1,4 +1,7 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // Runs src/instrumentation.ts at server start (chat provider check)
+  experimental: { instrumentationHook: true },
+};
 
 export default nextConfig;
@@ -0,0 +1,56 @@
+import {
+  evaluarEscenarios,
+  evaluarEscenariosCSV,
+  leerEscenariosCSV,
+  MAX_ESCENARIOS,
+  type ResultadoEscenario,
+} from '@/lib/batch';
+import { serializarResultadoEscenario } from '@/lib/serialization';
+import { jsonResponse } from '@/lib/http';
+import { TABLA_TASAS_VACIA, tablaTasasDesde } from '@/lib/currency';
+import type { ApiErrorResponse, BatchResponse } from '@/types/api';
+
+const demasiadosEscenarios = () =>
+  jsonResponse({ error: `Máximo ${MAX_ESCENARIOS} escenarios por solicitud` } satisfies ApiErrorResponse, 413);
+
+/**
+ * Accepts either JSON `{ escenarios: [{ nombre, parametros }], tasas? }`
+ * or a multi-client CSV body (Content-Type: text/csv). CSV bodies carry no
+ * rate table, so a scenario with products outside its moneda_reporte is
+ * reported as an error instead of being added up unconverted.
+ */
+export async function POST(request: Request) {
+  const contentType = request.headers.get('content-type') ?? '';
+  let resultados: ResultadoEscenario[];
+
+  try {
+    if (contentType.includes('text/csv')) {
+      const leidos = leerEscenariosCSV(await request.text());
+      if (leidos.grupos.length > MAX_ESCENARIOS) return demasiadosEscenarios();
+      resultados = evaluarEscenariosCSV(leidos);
+    } else {
+      const body = (await request.json()) as { escenarios?: unknown; tasas?: unknown };
+      if (!Array.isArray(body?.escenarios)) {
+        return jsonResponse(
+          { error: 'Se esperaba { escenarios: [...] } o un CSV' } satisfies ApiErrorResponse,
+          400
+        );
+      }
+      if (body.escenarios.length > MAX_ESCENARIOS) return demasiadosEscenarios();
+      const tasas = body.tasas === undefined ? TABLA_TASAS_VACIA : tablaTasasDesde(body.tasas);
+      if (!tasas) {
+        return jsonResponse({ error: 'Tabla de tasas de cambio inválida' } satisfies ApiErrorResponse, 400);
+      }
+      resultados = evaluarEscenarios(body.escenarios, tasas);
+    }
+  } catch {
+    return jsonResponse({ error: 'El cuerpo de la solicitud no es válido' } satisfies ApiErrorResponse, 400);
+  }
+
+  const totalOk = resultados.filter((r) => r.ok).length;
+  return jsonResponse({
+    escenarios: resultados.map(serializarResultadoEscenario),
+    totalOk,
+    totalError: resultados.length - totalOk,
+  } satisfies BatchResponse);
+}
@@ -0,0 +1,47 @@
+import { calcularTodo, productoMargenMinimo, productosConDeducciones, productosSeleccionados } from '@/lib/roas-engine';
+import { validarParametros } from '@/lib/validation';
+import { serializarResultados } from '@/lib/serialization';
+import { jsonResponse } from '@/lib/http';
+import { TABLA_TASAS_VACIA, tablaTasasDesde, validarConversion } from '@/lib/currency';
+import type { ApiErrorResponse, CalculateResponse } from '@/types/api';
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: 'El cuerpo de la solicitud no es JSON válido' } satisfies ApiErrorResponse, 400);
+  }
+
+  const validation = validarParametros(body);
+  if (!validation.ok) {
+    return jsonResponse(
+      { error: 'Parámetros inválidos', detalles: validation.errors } satisfies ApiErrorResponse,
+      400
+    );
+  }
+
+  // Optional exchange rates for portfolios priced in several currencies
+  const tasasBody = (body as { tasas?: unknown }).tasas;
+  const tasas = tasasBody === undefined ? TABLA_TASAS_VACIA : tablaTasasDesde(tasasBody);
+  if (!tasas) {
+    return jsonResponse({ error: 'Tabla de tasas de cambio inválida' } satisfies ApiErrorResponse, 400);
+  }
+  const conversion = validarConversion(validation.value, tasas);
+  if (!conversion.ok) {
+    return jsonResponse(
+      { error: 'Faltan tasas de cambio', detalles: conversion.errors } satisfies ApiErrorResponse,
+      400
+    );
+  }
+
+  try {
+    const params = conversion.value;
+    return jsonResponse({
+      resultados: serializarResultados(calcularTodo(params)),
+      productoCritico: productoMargenMinimo(productosConDeducciones(productosSeleccionados(params), params.deducciones)),
+    } satisfies CalculateResponse);
+  } catch {
+    return jsonResponse({ error: 'Error al procesar la solicitud' } satisfies ApiErrorResponse, 500);
+  }
+}
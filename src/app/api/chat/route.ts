@@ -1,15 +1,17 @@
-import Groq from 'groq-sdk';
-
-function getGroqClient() {
-  return new Groq({ apiKey: process.env.GROQ_API_KEY });
-}
+import type { ApiErrorResponse } from '@/types/api';
+import { conversarConHerramientas } from '@/lib/chat-tools';
+import { crearClienteLLM, describirErroresConfig, leerConfigLLM } from '@/lib/llm-config';
+import type { MensajeLLM } from '@/lib/llm';
+import { jsonResponse } from '@/lib/http';
+import { esMensajeConversacion, recortarHistorial } from '@/lib/chat-history';
+import { contextoParaPrompt, validarContextoChat, type ContextoChat } from '@/lib/chat-context';
 
 const SYSTEM_PROMPT = `Eres un asistente experto en la metodología IP-ROAS de SaleADS.ai. Siempre respondes en español.
 
 ## Fórmulas que dominas:
 
 - **IP-ROAS** = 1 + (TF + IE) / IP
-- **VUM** = ⌈(TF + IP + IE) / m*⌉ donde m* = min(μᵢ × pᵢ) (margen absoluto mínimo del portafolio)
+- **VUM** = ⌈(TF + IP + IE) / m*⌉ donde m* = min(μᵢ × pᵢ − dᵢ) (margen de contribución neto mínimo del portafolio)
 - **ROAS_min_tradicional** = (p* × VUM) / IP
 - **CPR** = IP / VUM
 
@@ -18,8 +20,9 @@ Donde:
 - TF = Tarifa Fija (fee de la agencia)
 - IE = Ingreso Esperado (utilidad objetivo de la agencia)
 - VUM = Ventas de Utilidad Mínima (unidades mínimas a vender)
-- m* = margen absoluto mínimo del portafolio (precio × margen bruto del producto crítico)
-- p* = precio del producto con margen mínimo
+- dᵢ = deducciones por unidad del producto i: porcentajes sobre el precio (IVA, comisiones) más montos fijos (envío), propias y globales; 0 si no hay
+- m* = margen neto mínimo del portafolio (precio × margen bruto − deducciones del producto crítico); en modo mezcla, el margen neto ponderado por participación
+- p* = precio del producto con margen neto mínimo
 - CPR = Costo Por Resultado
 
 ## Tus capacidades:
@@ -28,80 +31,92 @@ Donde:
 2. **Interpretar resultados**: Cuando recibes los valores actuales de la calculadora, explicas qué significan para el negocio del usuario.
 3. **Recomendar acciones**: Basado en los resultados, sugieres si ajustar IP, TF, IE o mejorar márgenes del portafolio.
 
+## Herramientas:
+
+- **calcular_resultados**: métricas actuales de la calculadora.
+- **simular_escenario**: qué pasa si cambian IP, TF, IE, precios, márgenes o el modo de margen.
+- **calcular_sensibilidad**: cómo varían IP-ROAS y ROAS tradicional al mover una variable.
+- **proponer_cambios**: cuando recomiendes un cambio concreto (p. ej. subir el IP o ajustar un precio), propónlo con esta herramienta para que el usuario lo aplique con un botón en lugar de escribirlo a mano.
+
 ## Reglas:
 - Responde siempre en español.
 - Sé conciso pero claro.
-- Usa las fórmulas cuando sea relevante para respaldar tus explicaciones.
+- Nunca calcules métricas por tu cuenta: cada cifra que des debe venir de una herramienta. Usa las fórmulas solo para explicar.
 - Si el usuario tiene datos cargados en la calculadora, úsalos para dar respuestas personalizadas.
 - Si no hay datos cargados, guía al usuario para que empiece a usar la calculadora.`;
 
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 export async function POST(request: Request) {
+  // Read per request so a fixed .env takes effect without a rebuild
+  const config = leerConfigLLM();
+  if (!config.ok) {
+    return jsonResponse(
+      { error: describirErroresConfig(config.errors), detalles: config.errors } satisfies ApiErrorResponse,
+      503
+    );
+  }
+
+  let body: unknown;
   try {
-    const { messages, context } = (await request.json()) as {
-      messages: ChatMessage[];
-      context?: string;
-    };
-
-    const systemMessages = [
-      { role: 'system' as const, content: SYSTEM_PROMPT },
-    ];
-
-    if (context) {
-      systemMessages.push({
-        role: 'system' as const,
-        content: `## Datos actuales de la calculadora del usuario:\n${context}`,
-      });
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: 'El cuerpo de la solicitud no es JSON válido' } satisfies ApiErrorResponse, 400);
+  }
+  if (!isRecord(body)) {
+    return jsonResponse({ error: 'Se esperaba un objeto { messages, contexto? }' } satisfies ApiErrorResponse, 400);
+  }
+
+  // Calculator snapshot, already in the reporting currency; the tools run on its params
+  let contexto: ContextoChat | null = null;
+  if (body.contexto !== undefined) {
+    const validation = validarContextoChat(body.contexto);
+    if (!validation.ok) {
+      return jsonResponse({ error: 'Contexto inválido', detalles: validation.errors } satisfies ApiErrorResponse, 400);
     }
+    contexto = validation.value;
+  }
 
-    const groq = getGroqClient();
-    const stream = await groq.chat.completions.create({
-      model: 'llama-3.3-70b-versatile',
-      messages: [
-        ...systemMessages,
-        ...messages.map((m) => ({ role: m.role, content: m.content })),
-      ],
-      stream: true,
-      temperature: 0.7,
-      max_tokens: 1024,
-    });
-
-    const encoder = new TextEncoder();
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          for await (const chunk of stream) {
-            const content = chunk.choices[0]?.delta?.content;
-            if (content) {
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ content })}\n\n`));
-            }
-          }
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        } catch {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({ error: 'Error en el streaming' })}\n\n`)
-          );
-          controller.close();
-        }
-      },
-    });
-
-    return new Response(readable, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-      },
-    });
-  } catch {
-    return new Response(
-      JSON.stringify({ error: 'Error al procesar la solicitud' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+  const mensajes: MensajeLLM[] = [{ role: 'system', content: SYSTEM_PROMPT }];
+  if (contexto) {
+    mensajes.push({ role: 'system', content: `## Datos actuales de la calculadora del usuario:\n${contextoParaPrompt(contexto)}` });
   }
+  // The client already trims long histories; trimming again bounds what any caller can send
+  const recibidos = Array.isArray(body.messages) ? body.messages.filter(esMensajeConversacion) : [];
+  const historial = recortarHistorial(recibidos);
+  const omitidosCliente = typeof body.omitidos === 'number' && Number.isInteger(body.omitidos) ? Math.max(body.omitidos, 0) : 0;
+  const omitidos = historial.omitidos + omitidosCliente;
+  if (omitidos > 0) {
+    mensajes.push({ role: 'system', content: `(Se omitieron los ${omitidos} mensajes más antiguos de esta conversación.)` });
+  }
+  mensajes.push(...historial.mensajes);
+
+  const eventos = conversarConHerramientas(crearClienteLLM(config.value), mensajes, contexto?.params ?? null);
+  const encoder = new TextEncoder();
+  const enviar = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+  const readable = new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const evento of eventos) {
+          if (evento.tipo === 'texto') controller.enqueue(enviar({ content: evento.texto }));
+          else if (evento.tipo === 'herramienta') controller.enqueue(enviar({ herramienta: evento.nombre }));
+          else controller.enqueue(enviar({ propuesta: evento.propuesta }));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      } catch {
+        controller.enqueue(enviar({ error: 'Error en el streaming' }));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(readable, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
 }
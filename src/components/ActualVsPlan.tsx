@@ -0,0 +1,285 @@
+'use client';
+
+import { useMemo, useRef } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import type { Moneda, ParametrosCliente, ResultadosIPROAS } from '@/types/roas';
+import { formatCurrency, formatNumber } from '@/lib/format';
+import { compararConPlan, parseRendimientoCSV, type RendimientoImportado } from '@/lib/actual-vs-plan';
+
+interface ActualVsPlanProps {
+  params: ParametrosCliente;
+  resultados: ResultadosIPROAS;
+  moneda: Moneda;
+  rendimiento: { archivo: string; datos: RendimientoImportado } | null;
+  duracionDias: number;
+  onRendimientoChange: (rendimiento: { archivo: string; datos: RendimientoImportado } | null) => void;
+  onDuracionChange: (dias: number) => void;
+}
+
+const SERIES: Record<string, string> = {
+  real: 'Unidades vendidas (acumulado)',
+  plan: 'Ritmo planeado',
+};
+
+function ritmoColor(ritmo: number): string {
+  return ritmo >= 1 ? 'text-[#10b981]' : ritmo >= 0.8 ? 'text-[#f97316]' : 'text-red-400';
+}
+
+export default function ActualVsPlan({
+  params,
+  resultados,
+  moneda,
+  rendimiento,
+  duracionDias,
+  onRendimientoChange,
+  onDuracionChange,
+}: ActualVsPlanProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const comparacion = useMemo(
+    () =>
+      rendimiento
+        ? compararConPlan(rendimiento.datos.registros, rendimiento.datos.conIngresos, params, resultados, duracionDias)
+        : null,
+    [rendimiento, params, resultados, duracionDias]
+  );
+
+  const chartData = useMemo(() => {
+    if (!rendimiento || !comparacion) return [];
+    const inicio = Date.parse(comparacion.desde);
+    let acumulado = 0;
+    return rendimiento.datos.registros.map((r) => {
+      acumulado += r.conversiones;
+      const dia = Math.round((Date.parse(r.fecha) - inicio) / 86_400_000) + 1;
+      return { fecha: r.fecha, real: acumulado, plan: (resultados.vum * Math.min(dia, duracionDias)) / duracionDias };
+    });
+  }, [rendimiento, comparacion, resultados.vum, duracionDias]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    onRendimientoChange({ archivo: file.name, datos: parseRendimientoCSV(await file.text()) });
+  };
+
+  const datos = rendimiento?.datos;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-200">Real vs Plan</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Cargue el reporte diario de la campa&ntilde;a (fecha, gasto, conversiones, ingresos) en formato gen&eacute;rico o
+          exportado de Meta Ads, Google Ads o TikTok Ads. Los montos deben estar en {moneda}.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt"
+          onChange={handleFile}
+          className="text-sm text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-[#a78bfa] file:text-white file:font-medium file:cursor-pointer hover:file:bg-[#8b5cf6] transition"
+        />
+        <div>
+          <label className="block text-sm text-[#a78bfa] font-medium mb-1">
+            Duraci&oacute;n de la campa&ntilde;a (d&iacute;as)
+          </label>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={duracionDias}
+            onChange={(e) => Number(e.target.value) >= 1 && onDuracionChange(Math.round(Number(e.target.value)))}
+            className="w-28 bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+          />
+        </div>
+        {rendimiento && (
+          <button
+            onClick={() => onRendimientoChange(null)}
+            className="pb-2 text-sm text-slate-400 hover:text-red-400 transition"
+          >
+            Quitar reporte
+          </button>
+        )}
+      </div>
+
+      {rendimiento && datos && (
+        <div
+          className={`rounded-lg border p-3 text-sm ${
+            datos.formato && datos.registros.length > 0
+              ? 'border-slate-700 bg-[#0f0f23] text-slate-300'
+              : 'border-[#f97316] bg-[#f97316]/10 text-orange-200'
+          }`}
+        >
+          {datos.formato ? (
+            <p>
+              {rendimiento.archivo}: formato <strong>{datos.formato.nombre}</strong>, {datos.registros.length} d&iacute;as
+              {datos.conIngresos ? '' : ' (sin columna de ingresos)'}.
+            </p>
+          ) : (
+            <p>
+              {rendimiento.archivo}: no se reconocieron las columnas. Se esperan fecha, gasto y conversiones (o los
+              nombres de Meta, Google o TikTok Ads).
+            </p>
+          )}
+          {datos.omitidas.length > 0 && (
+            <ul className="mt-2 max-h-24 overflow-y-auto text-xs text-orange-200/80 space-y-0.5">
+              {datos.omitidas.map((o) => (
+                <li key={o.fila}>
+                  Fila {o.fila}: {o.motivo}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {comparacion && resultados.vum > 0 && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+            <div className="bg-[#0f0f23] rounded-lg p-4">
+              <p className="text-sm text-slate-400">Avance hacia el VUM</p>
+              <p className="text-2xl font-bold text-white">
+                {comparacion.unidades.toLocaleString('en-US', { maximumFractionDigits: 1 })} /{' '}
+                {resultados.vum.toLocaleString('en-US')} u.
+              </p>
+              <div className="mt-2 h-2 rounded bg-slate-800">
+                <div
+                  className="h-2 rounded bg-[#10b981]"
+                  style={{ width: `${Math.min(100, comparacion.progresoVum * 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-slate-500 mt-1">
+                {(comparacion.progresoVum * 100).toFixed(1)}% del VUM con {(comparacion.avanceTiempo * 100).toFixed(0)}%
+                del tiempo ({comparacion.dias} de {duracionDias} d&iacute;as)
+              </p>
+            </div>
+
+            <div className="bg-[#0f0f23] rounded-lg p-4">
+              <p className="text-sm text-slate-400">D&iacute;as para el punto de equilibrio</p>
+              <p className="text-2xl font-bold text-white">
+                {comparacion.diasParaEquilibrio === null
+                  ? 'Sin ventas aún'
+                  : comparacion.diasParaEquilibrio === 0
+                    ? 'Alcanzado'
+                    : `${comparacion.diasParaEquilibrio} días`}
+              </p>
+              <p className={`text-xs mt-1 ${comparacion.equilibrioEnPlazo ? 'text-[#10b981]' : 'text-orange-300'}`}>
+                {comparacion.equilibrioEnPlazo
+                  ? 'Al ritmo actual se alcanza dentro de la campaña.'
+                  : 'Al ritmo actual no se alcanza dentro de la campaña.'}
+              </p>
+            </div>
+
+            <div className="bg-[#0f0f23] rounded-lg p-4">
+              <p className="text-sm text-slate-400">Ritmo vs plan</p>
+              <p className="text-sm mt-1">
+                Gasto:{' '}
+                <span className={`font-semibold ${ritmoColor(comparacion.ritmoGasto)}`}>
+                  {(comparacion.ritmoGasto * 100).toFixed(0)}%
+                </span>{' '}
+                <span className="text-slate-500">
+                  ({formatCurrency(comparacion.gasto, moneda)} de {formatCurrency(params.inversionPublicitaria, moneda)})
+                </span>
+              </p>
+              <p className="text-sm mt-1">
+                Unidades:{' '}
+                <span className={`font-semibold ${ritmoColor(comparacion.ritmoUnidades)}`}>
+                  {(comparacion.ritmoUnidades * 100).toFixed(0)}%
+                </span>
+              </p>
+              <p className="text-xs text-slate-500 mt-1">100% = en l&iacute;nea con un plan uniforme en el tiempo.</p>
+            </div>
+          </div>
+
+          <table className="w-full text-sm bg-[#0f0f23] rounded-lg">
+            <thead>
+              <tr className="text-left text-slate-400 border-b border-slate-700">
+                <th className="p-2"></th>
+                <th className="p-2">Plan</th>
+                <th className="p-2">Real</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-slate-800">
+                <td className="p-2 text-slate-400">CPR</td>
+                <td className="p-2">{formatCurrency(resultados.cprEstimado, moneda)}</td>
+                <td className={`p-2 ${comparacion.cprReal <= resultados.cprEstimado ? 'text-[#10b981]' : 'text-orange-300'}`}>
+                  {formatCurrency(comparacion.cprReal, moneda)}
+                </td>
+              </tr>
+              <tr className="border-b border-slate-800">
+                <td className="p-2 text-slate-400">ROAS (m&iacute;nimo tradicional)</td>
+                <td className="p-2">{formatNumber(resultados.roasMinTradicional)}</td>
+                <td
+                  className={`p-2 ${
+                    comparacion.roasReal === null
+                      ? 'text-slate-500'
+                      : comparacion.roasReal >= resultados.roasMinTradicional
+                        ? 'text-[#10b981]'
+                        : 'text-orange-300'
+                  }`}
+                >
+                  {comparacion.roasReal === null ? 'Sin ingresos' : formatNumber(comparacion.roasReal)}
+                </td>
+              </tr>
+              <tr>
+                <td className="p-2 text-slate-400">Gasto</td>
+                <td className="p-2">{formatCurrency(params.inversionPublicitaria, moneda)}</td>
+                <td className="p-2">{formatCurrency(comparacion.gasto, moneda)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="w-full h-[320px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 10, right: 30, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+                <XAxis dataKey="fecha" stroke="#94a3b8" tick={{ fill: '#94a3b8', fontSize: 11 }} />
+                <YAxis stroke="#94a3b8" tick={{ fill: '#94a3b8', fontSize: 12 }} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#1a1a2e',
+                    border: '1px solid #333',
+                    borderRadius: '8px',
+                    color: '#e2e8f0',
+                    fontSize: '13px',
+                  }}
+                  formatter={(value, name) => [
+                    `${Number(value).toLocaleString('en-US', { maximumFractionDigits: 1 })} u.`,
+                    SERIES[String(name)] ?? name,
+                  ]}
+                />
+                <Legend verticalAlign="top" formatter={(value: string) => SERIES[value] ?? value} />
+                <ReferenceLine
+                  y={resultados.vum}
+                  stroke="#f97316"
+                  strokeDasharray="4 2"
+                  label={{ value: 'VUM', fill: '#f97316', fontSize: 12 }}
+                />
+                <Line type="monotone" dataKey="real" stroke="#10b981" strokeWidth={2} />
+                <Line type="monotone" dataKey="plan" stroke="#a78bfa" strokeWidth={2} strokeDasharray="5 3" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      {rendimiento && resultados.vum === 0 && (
+        <p className="text-slate-500 text-sm">Agregue productos y costos para comparar contra el VUM planeado.</p>
+      )}
+    </div>
+  );
+}
@@ -1,129 +1,513 @@
 'use client';
 
-import { useState, useMemo, useCallback, useRef } from 'react';
-import type { Producto, ParametrosCliente, ResultadosIPROAS } from '@/types/roas';
-import { SENSITIVITY_CONFIGS } from '@/types/roas';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
+import type {
+  Producto,
+  ParametrosCliente,
+  ResultadosIPROAS,
+  GoalSeekMetric,
+  GoalSeekVariable,
+  GoalSeekResult,
+  EscenarioGuardado,
+  ModoMargen,
+  Moneda,
+  TablaTasas,
+  Deduccion,
+  MesPlan,
+  TornadoMetric,
+  RangoSensibilidad,
+  SensitivityType,
+} from '@/types/roas';
+import { SENSITIVITY_CONFIGS, SENSITIVITY_2D_PAIRS, MODOS_MARGEN, TORNADO_VARIABLES, SIN_CATEGORIA } from '@/types/roas';
 import {
   calcularTodo,
   margenAbsoluto,
+  margenNeto,
   costosTotales,
   productoMargenMinimo,
-  parseCSV,
-  calcularSensibilidad,
+  productosConDeducciones,
+  desgloseMargen,
+  compararModosMargen,
+  parseCSVConReporte,
+  calcularCurvaSensibilidad,
+  rangoSensibilidadPorDefecto,
+  calcularSensibilidad2D,
+  calcularTornado,
+  ordenarTornado,
+  goalSeek,
+  estaSeleccionado,
+  categoriasDe,
+  calcularPorCategoria,
 } from '@/lib/roas-engine';
-import SensitivityChart from './SensitivityChart';
+import type { DesgloseMargen, ResultadoCategoria } from '@/lib/roas-engine';
+import type { Delimitador } from '@/lib/csv';
+import { formatCurrency, formatNumber, MONEDA_POR_DEFECTO } from '@/lib/format';
+import { ExchangeRateMemory, MONEDAS_COMUNES, TABLA_TASAS_VACIA, convertirParametros } from '@/lib/currency';
+import { tarjetasMetricas, construirPropuesta } from '@/lib/proposal';
+import { descargarArchivo } from '@/lib/download';
+import { portafolioCSV, sensibilidadCSV, exportarXLSX } from '@/lib/data-export';
+import { leerLibroExcel, tablaDesdeCSV, type HojaImportada } from '@/lib/spreadsheet-import';
+import {
+  MappingMemory,
+  mapeoCompleto,
+  sugerirMapeo,
+  type MapeoColumnas,
+  type ResultadoImportacion,
+} from '@/lib/column-mapping';
+import SensitivityChart, { SALTOS_VISIBLES } from './SensitivityChart';
+import SensitivityHeatmap from './SensitivityHeatmap';
+import ScenarioManager from './ScenarioManager';
+import ScenarioComparison from './ScenarioComparison';
+import ImportWizard from './ImportWizard';
+import ExchangeRatesPanel from './ExchangeRatesPanel';
+import DeductionsEditor from './DeductionsEditor';
+import MonthlyPlanner from './MonthlyPlanner';
+import MonteCarloPanel from './MonteCarloPanel';
+import type { ConfigSimulacion } from '@/lib/monte-carlo';
+import ActualVsPlan from './ActualVsPlan';
+import PortfolioTable from './PortfolioTable';
+import TornadoChart, { TORNADO_METRIC_LABELS, formatTornadoMetric } from './TornadoChart';
+import { DURACION_CAMPANA_DEFECTO, type RendimientoImportado } from '@/lib/actual-vs-plan';
+import { validarRangoSensibilidad } from '@/lib/validation';
+import { crearHistorial, deshacer, esNombreDuplicado, registrar, rehacer, vumSiSoloSeVende } from '@/lib/portfolio';
+import {
+  createScenarioStore,
+  nuevoEscenario,
+  duplicarEscenario,
+  renombrarEscenario,
+  type ScenarioStore,
+} from '@/lib/scenario-store';
+import {
+  URL_STATE_PARAM,
+  encodeUrlState,
+  decodeUrlState,
+  type CalculatorTab,
+} from '@/lib/url-state';
 import ChatBot from './ChatBot';
-
-function formatCurrency(n: number): string {
-  if (!isFinite(n)) return '$--';
-  return '$' + n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-}
-
-function formatNumber(n: number, decimals = 4): string {
-  if (!isFinite(n)) return '--';
-  return n.toFixed(decimals);
-}
+import { aplicarAcciones, type AccionCalculadora } from '@/lib/chat-actions';
+import { contextoChatJSON } from '@/lib/chat-context';
 
 export default function Calculator() {
   // ---------- STATE (equivalent to st.session_state) ----------
   const [ip, setIp] = useState(0);
   const [tf, setTf] = useState(0);
   const [ie, setIe] = useState(0);
-  const [productos, setProductos] = useState<Producto[]>([]);
-  const [activeTab, setActiveTab] = useState<'resumen' | 'IP' | 'TF' | 'IE' | 'Margen'>('resumen');
+  const [historialProductos, setHistorialProductos] = useState(() => crearHistorial<Producto[]>([]));
+  const productos = historialProductos.presente;
+  // Every portfolio change goes through the undo history
+  const setProductos = useCallback((valor: Producto[] | ((prev: Producto[]) => Producto[])) => {
+    setHistorialProductos((h) => registrar(h, typeof valor === 'function' ? valor(h.presente) : valor));
+  }, []);
+  const [modoMargen, setModoMargen] = useState<ModoMargen>('peorCaso');
+  const [moneda, setMoneda] = useState<Moneda>(MONEDA_POR_DEFECTO);
+  const [tasas, setTasas] = useState<TablaTasas>(TABLA_TASAS_VACIA);
+  const [deducciones, setDeducciones] = useState<Deduccion[]>([]);
+  const [categorias, setCategorias] = useState<string[]>([]); // [] = every category
+  const [plan, setPlan] = useState<MesPlan[] | null>(null); // null = even split of IP/TF/IE
+  const [simulacion, setSimulacion] = useState<ConfigSimulacion | null>(null); // null = inputs fixed
+  const [rangosSensibilidad, setRangosSensibilidad] = useState<Partial<Record<SensitivityType, RangoSensibilidad>>>({});
+  const [rendimiento, setRendimiento] = useState<{ archivo: string; datos: RendimientoImportado } | null>(null);
+  const [duracionCampana, setDuracionCampana] = useState(DURACION_CAMPANA_DEFECTO);
+  const [activeTab, setActiveTab] = useState<CalculatorTab>('resumen');
+
+  // Shareable URL: restored once on mount, then kept in sync with the inputs
+  const [urlRestored, setUrlRestored] = useState(false);
+  const [urlNotice, setUrlNotice] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // Add product form
   const [prodNombre, setProdNombre] = useState('');
   const [prodPrecio, setProdPrecio] = useState('');
   const [prodMargen, setProdMargen] = useState('');
+  const [prodParticipacion, setProdParticipacion] = useState('');
+  const [prodMoneda, setProdMoneda] = useState(''); // '' = reporting currency
+  const [prodSku, setProdSku] = useState('');
+  const [prodCategoria, setProdCategoria] = useState('');
+  const [prodDeducciones, setProdDeducciones] = useState<Deduccion[]>([]);
 
-  // CSV upload ref
+  // File upload ref, the report of the last import and the pending mapping step
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ archivo: string; hojas: HojaImportada[] } | null>(null);
+  const mappingMemoryRef = useRef<MappingMemory | null>(null);
+  const ratesMemoryRef = useRef<ExchangeRateMemory | null>(null);
+
+  // Saved scenarios (browser-only store, created after mount)
+  const storeRef = useRef<ScenarioStore | null>(null);
+  const [escenarios, setEscenarios] = useState<EscenarioGuardado[]>([]);
+
+  const refreshEscenarios = useCallback(async () => {
+    if (storeRef.current) setEscenarios(await storeRef.current.list());
+  }, []);
+
+  useEffect(() => {
+    storeRef.current = createScenarioStore();
+    refreshEscenarios();
+    mappingMemoryRef.current = new MappingMemory(window.localStorage);
+    ratesMemoryRef.current = new ExchangeRateMemory(window.localStorage);
+    setTasas((actual) => (actual === TABLA_TASAS_VACIA ? ratesMemoryRef.current!.cargar() : actual));
+  }, [refreshEscenarios]);
+
+  const handleTasasChange = useCallback((nuevas: TablaTasas) => {
+    setTasas(nuevas);
+    ratesMemoryRef.current?.guardar(nuevas);
+  }, []);
 
   // ---------- DERIVED CALCULATIONS ----------
-  const params: ParametrosCliente = useMemo(
+  // Inputs as entered (saved, shared); prices may be in several currencies
+  const paramsEntrada: ParametrosCliente = useMemo(
     () => ({
       inversionPublicitaria: ip,
       tarifaFija: tf,
       ingresoEsperado: ie,
       productos,
+      modoMargen,
+      moneda,
+      ...(deducciones.length > 0 && { deducciones }),
+      ...(categorias.length > 0 && { categorias }),
     }),
-    [ip, tf, ie, productos]
+    [ip, tf, ie, productos, modoMargen, moneda, deducciones, categorias]
   );
 
+  // Everything in the reporting currency, as the engine expects
+  const conversion = useMemo(() => convertirParametros(paramsEntrada, tasas), [paramsEntrada, tasas]);
+  const params = conversion.params;
+
   const resultados: ResultadosIPROAS = useMemo(() => calcularTodo(params), [params]);
+  const resultadosPorModo = useMemo(() => compararModosMargen(params), [params]);
+  const resultadosPorCategoria = useMemo(() => calcularPorCategoria(params), [params]);
+
+  useEffect(() => {
+    const encoded = new URLSearchParams(window.location.search).get(URL_STATE_PARAM);
+    if (encoded) {
+      const decoded = decodeUrlState(encoded);
+      if (decoded.ok) {
+        setIp(decoded.state.params.inversionPublicitaria);
+        setTf(decoded.state.params.tarifaFija);
+        setIe(decoded.state.params.ingresoEsperado);
+        setHistorialProductos(crearHistorial(decoded.state.params.productos));
+        setModoMargen(decoded.state.params.modoMargen ?? 'peorCaso');
+        setMoneda(decoded.state.params.moneda ?? MONEDA_POR_DEFECTO);
+        setDeducciones(decoded.state.params.deducciones ?? []);
+        setCategorias(decoded.state.params.categorias ?? []);
+        if (decoded.state.tasas) setTasas(decoded.state.tasas);
+        if (decoded.state.plan) setPlan(decoded.state.plan);
+        setActiveTab(decoded.state.tab);
+      } else {
+        setUrlNotice(`${decoded.error} Se cargaron los valores por defecto.`);
+      }
+    }
+    setUrlRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (!urlRestored) return;
+    const url = new URL(window.location.href);
+    const isEmpty =
+      costosTotales(paramsEntrada) === 0 &&
+      paramsEntrada.productos.length === 0 &&
+      activeTab === 'resumen' &&
+      modoMargen === 'peorCaso' &&
+      moneda === MONEDA_POR_DEFECTO &&
+      deducciones.length === 0 &&
+      categorias.length === 0 &&
+      plan === null;
+    if (isEmpty) url.searchParams.delete(URL_STATE_PARAM);
+    else url.searchParams.set(URL_STATE_PARAM, encodeUrlState({ params: paramsEntrada, tab: activeTab, tasas, plan: plan ?? undefined }));
+    window.history.replaceState(window.history.state, '', url);
+  }, [urlRestored, paramsEntrada, activeTab, modoMargen, moneda, deducciones, categorias, tasas, plan]);
+
+  const handleExportProposal = useCallback(async () => {
+    setExportingPdf(true);
+    setExportError(null);
+    try {
+      const { generarPropuestaPDF } = await import('@/lib/proposal-pdf');
+      const pdf = await generarPropuestaPDF(construirPropuesta(params));
+      const fecha = new Date().toISOString().slice(0, 10);
+      descargarArchivo(pdf, `propuesta-ip-roas-${fecha}.pdf`, 'application/pdf');
+    } catch {
+      setExportError('No se pudo generar la propuesta en PDF. Intenta de nuevo.');
+    } finally {
+      setExportingPdf(false);
+    }
+  }, [params]);
+
+  const handleExportPortfolioCSV = useCallback(() => {
+    const csv = portafolioCSV(productos, deducciones, categorias, { moneda, tasas });
+    descargarArchivo(csv, 'portafolio.csv', 'text/csv;charset=utf-8');
+  }, [productos, deducciones, categorias, moneda, tasas]);
 
-  const productoCritico = useMemo(() => productoMargenMinimo(productos), [productos]);
-
-  const chatContext = useMemo(() => {
-    const lines: string[] = [];
-    lines.push(`Inversión Publicitaria (IP): $${ip.toLocaleString()}`);
-    lines.push(`Tarifa Fija (TF): $${tf.toLocaleString()}`);
-    lines.push(`Ingreso Esperado (IE): $${ie.toLocaleString()}`);
-    if (productos.length > 0) {
-      lines.push(`\nProductos (${productos.length}):`);
-      productos.forEach((p) => {
-        lines.push(`- ${p.nombre}: precio=$${p.precio.toLocaleString()}, margen=${(p.margenBruto * 100).toFixed(1)}%, margen_abs=$${margenAbsoluto(p).toLocaleString()}`);
-      });
-      lines.push(`\nResultados:`);
-      lines.push(`- IP-ROAS: ${resultados.ipRoas.toFixed(4)}`);
-      lines.push(`- VUM: ${resultados.vum} unidades`);
-      lines.push(`- ROAS Tradicional Mínimo: ${resultados.roasMinTradicional.toFixed(4)}`);
-      lines.push(`- CPR Estimado: $${resultados.cprEstimado.toFixed(2)}`);
-      lines.push(`- Costos Totales: $${resultados.costosTotales.toLocaleString()}`);
-      lines.push(`- Producto Crítico: ${resultados.productoCritico} (margen abs mínimo: $${resultados.margenMinimoUsado.toFixed(2)})`);
-    } else {
-      lines.push(`\nNo hay productos cargados aún.`);
+  const handleExportXLSX = useCallback(async () => {
+    setExportError(null);
+    try {
+      const xlsx = await exportarXLSX(paramsEntrada, { moneda, tasas });
+      descargarArchivo(xlsx, 'ip-roas.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } catch {
+      setExportError('No se pudo generar el archivo Excel. Intenta de nuevo.');
     }
-    return lines.join('\n');
-  }, [ip, tf, ie, productos, resultados]);
+  }, [paramsEntrada, moneda, tasas]);
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable (insecure context); the URL bar is still up to date
+    }
+  }, []);
+
+  // Net margins include the global deductions; the breakdown keeps them apart
+  const productosNetos = useMemo(
+    () => productosConDeducciones(params.productos, params.deducciones),
+    [params.productos, params.deducciones]
+  );
+  // The critical product is picked among the products selected for the campaign
+  const productoCritico = useMemo(() => {
+    const critico = productoMargenMinimo(
+      productosNetos.filter((_, i) => estaSeleccionado(params.productos[i], params.categorias))
+    );
+    return critico ? params.productos[productosNetos.indexOf(critico)] : null;
+  }, [params.productos, params.categorias, productosNetos]);
+  const desglose = useMemo(
+    () => (productoCritico ? desgloseMargen(productoCritico, params.deducciones) : null),
+    [productoCritico, params.deducciones]
+  );
+
+  // Net margin per entered product (reporting currency), null when left out for lack of a rate
+  const margenesNetos = useMemo(() => {
+    let j = 0;
+    return productos.map((p) => (conversion.excluidos.includes(p) ? null : margenNeto(productosNetos[j++])));
+  }, [productos, conversion.excluidos, productosNetos]);
+  const hayDeducciones = deducciones.length > 0 || productos.some((p) => p.deducciones?.length);
+  const seleccionados = useMemo(() => productos.map((p) => estaSeleccionado(p, categorias)), [productos, categorias]);
+  const categoriasDisponibles = useMemo(() => categoriasDe(productos), [productos]);
+
+  // Per entered product: VUM if sold alone, and which row is the critical product
+  const vumsSolo = useMemo(() => {
+    let j = 0;
+    return productos.map((p) => (conversion.excluidos.includes(p) ? null : vumSiSoloSeVende(params, params.productos[j++])));
+  }, [productos, conversion.excluidos, params]);
+  const indiceCritico = useMemo(() => {
+    let j = 0;
+    return productos.findIndex((p) => !conversion.excluidos.includes(p) && params.productos[j++] === productoCritico);
+  }, [productos, conversion.excluidos, params.productos, productoCritico]);
+
+  const chatContext = useMemo(
+    () => contextoChatJSON(params, resultados, conversion.sinTasa),
+    [params, resultados, conversion.sinTasa]
+  );
 
   // ---------- HANDLERS ----------
   const handleAddProduct = useCallback(() => {
     const precio = parseFloat(prodPrecio);
     const margen = parseFloat(prodMargen);
+    const participacion = prodParticipacion.trim() === '' ? undefined : parseFloat(prodParticipacion);
     if (!prodNombre.trim() || isNaN(precio) || precio <= 0 || isNaN(margen) || margen <= 0 || margen > 100) {
       return;
     }
-    setProductos((prev) => [...prev, { nombre: prodNombre.trim(), precio, margenBruto: margen / 100 }]);
+    if (participacion !== undefined && (isNaN(participacion) || participacion < 0)) return;
+    const producto: Producto = { nombre: prodNombre.trim(), precio, margenBruto: margen / 100 };
+    if (participacion !== undefined) producto.participacion = participacion;
+    if (prodMoneda) producto.moneda = prodMoneda;
+    if (prodDeducciones.length > 0) producto.deducciones = prodDeducciones;
+    if (prodSku.trim()) producto.sku = prodSku.trim();
+    if (prodCategoria.trim()) producto.categoria = prodCategoria.trim();
+    setProductos((prev) => [...prev, producto]);
     setProdNombre('');
+    setProdSku('');
     setProdPrecio('');
     setProdMargen('');
-  }, [prodNombre, prodPrecio, prodMargen]);
+    setProdParticipacion('');
+    setProdDeducciones([]);
+  }, [
+    prodNombre,
+    prodPrecio,
+    prodMargen,
+    prodParticipacion,
+    prodMoneda,
+    prodDeducciones,
+    prodSku,
+    prodCategoria,
+    setProductos,
+  ]);
+
 
-  const handleRemoveProduct = useCallback((index: number) => {
-    setProductos((prev) => prev.filter((_, i) => i !== index));
+  const handleApplyGoalSeek = useCallback((variable: GoalSeekVariable, valor: number) => {
+    if (variable === 'IP') setIp(valor);
+    else if (variable === 'TF') setTf(valor);
+    else setIe(valor);
   }, []);
 
-  const handleCSVUpload = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+  // Assistant proposals: previewed against the current inputs, applied only on click
+  const handlePreviewActions = useCallback(
+    (acciones: AccionCalculadora[]) => {
+      const aplicada = aplicarAcciones(paramsEntrada, acciones, tasas);
+      if (!aplicada.ok) return aplicada;
+      const despues = calcularTodo(convertirParametros(aplicada.value, tasas).params);
+      return { ok: true as const, value: { antes: resultados, despues } };
+    },
+    [paramsEntrada, tasas, resultados]
+  );
+
+  const handleApplyActions = useCallback(
+    (acciones: AccionCalculadora[]) => {
+      const aplicada = aplicarAcciones(paramsEntrada, acciones, tasas);
+      if (!aplicada.ok) return;
+      setIp(aplicada.value.inversionPublicitaria);
+      setTf(aplicada.value.tarifaFija);
+      setIe(aplicada.value.ingresoEsperado);
+      setProductos(aplicada.value.productos); // Same list = no history entry
+    },
+    [paramsEntrada, tasas, setProductos]
+  );
+
+  const handleSaveScenario = useCallback(
+    async (nombre: string) => {
+      if (!storeRef.current) return;
+      await storeRef.current.save(nuevoEscenario(nombre, paramsEntrada, tasas));
+      await refreshEscenarios();
+    },
+    [paramsEntrada, tasas, refreshEscenarios]
+  );
+
+  const handleLoadScenario = useCallback((escenario: EscenarioGuardado) => {
+    setIp(escenario.parametros.inversionPublicitaria);
+    setTf(escenario.parametros.tarifaFija);
+    setIe(escenario.parametros.ingresoEsperado);
+    setProductos(escenario.parametros.productos);
+    setModoMargen(escenario.parametros.modoMargen ?? 'peorCaso');
+    setMoneda(escenario.parametros.moneda ?? MONEDA_POR_DEFECTO);
+    setDeducciones(escenario.parametros.deducciones ?? []);
+    setCategorias(escenario.parametros.categorias ?? []);
+    // Scenarios saved before rates were kept use the table loaded now
+    if (escenario.tasas) setTasas(escenario.tasas);
+  }, [setProductos]);
+
+  const handleDuplicateScenario = useCallback(
+    async (id: string) => {
+      if (!storeRef.current) return;
+      await duplicarEscenario(storeRef.current, id);
+      await refreshEscenarios();
+    },
+    [refreshEscenarios]
+  );
+
+  const handleRenameScenario = useCallback(
+    async (id: string, nombre: string) => {
+      if (!storeRef.current) return;
+      await renombrarEscenario(storeRef.current, id, nombre);
+      await refreshEscenarios();
+    },
+    [refreshEscenarios]
+  );
+
+  const handleDeleteScenario = useCallback(
+    async (id: string) => {
+      if (!storeRef.current) return;
+      await storeRef.current.remove(id);
+      await refreshEscenarios();
+    },
+    [refreshEscenarios]
+  );
+
+  const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
     if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const parsed = parseCSV(text);
-      if (parsed.length > 0) {
-        setProductos(parsed);
+
+    try {
+      if (/\.xlsx$/i.test(file.name)) {
+        const hojas = await leerLibroExcel(await file.arrayBuffer());
+        setPendingImport({ archivo: file.name, hojas });
+        return;
       }
-    };
-    reader.readAsText(file);
-    if (fileInputRef.current) fileInputRef.current.value = '';
-  }, []);
+
+      const text = await file.text();
+      // Headers without known aliases go through the mapping step instead of importing nothing
+      const tabla = tablaDesdeCSV(text);
+      if (tabla.filas.length > 0 && !mapeoCompleto(sugerirMapeo(tabla.headers))) {
+        setPendingImport({ archivo: file.name, hojas: [{ nombre: file.name, tabla }] });
+        return;
+      }
+
+      const report = parseCSVConReporte(text);
+      setImportReport(report);
+      if (report.productos.length > 0) {
+        setProductos(report.productos);
+      }
+    } catch {
+      setImportReport({ productos: [], omitidas: [], separadorDecimal: '.', error: 'No se pudo leer el archivo.' });
+    }
+  }, [setProductos]);
+
+  const handleConfirmImport = useCallback(
+    (resultado: ResultadoImportacion, headers: string[], mapeo: MapeoColumnas) => {
+      mappingMemoryRef.current?.recordar(headers, mapeo);
+      setProductos(resultado.productos);
+      setImportReport(resultado);
+      setPendingImport(null);
+    },
+    [setProductos]
+  );
 
   // ---------- TABS ----------
   const tabs = [
     { key: 'resumen' as const, label: 'Resumen' },
     ...SENSITIVITY_CONFIGS.map((c) => ({ key: c.type as typeof activeTab, label: `Sens. ${c.type}` })),
+    { key: 'tornado' as const, label: 'Tornado' },
+    { key: 'plan' as const, label: 'Plan mensual' },
+    { key: 'riesgo' as const, label: 'Riesgo' },
+    { key: 'real' as const, label: 'Real vs plan' },
+    { key: 'mapa' as const, label: 'Mapa 2D' },
+    { key: 'comparar' as const, label: 'Comparar' },
   ];
 
   return (
     <div className="min-h-screen bg-[#0f0f23] text-white">
       {/* HEADER */}
-      <header className="bg-gradient-to-r from-[#1a1a3e] to-[#2a2a5e] p-6 rounded-xl mb-6 mx-4 mt-4">
-        <h1 className="text-2xl font-bold text-[#a78bfa]">Calculadora IP-ROAS</h1>
-        <p className="text-sm text-slate-400">SaleADS.ai — Metodolog&iacute;a IP-ROAS v1.3</p>
+      <header className="bg-gradient-to-r from-[#1a1a3e] to-[#2a2a5e] p-6 rounded-xl mb-6 mx-4 mt-4 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[#a78bfa]">Calculadora IP-ROAS</h1>
+          <p className="text-sm text-slate-400">SaleADS.ai — Metodolog&iacute;a IP-ROAS v1.3</p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            onClick={handleExportProposal}
+            disabled={exportingPdf}
+            className="text-sm bg-[#a78bfa] hover:bg-[#8b5cf6] text-white px-3 py-1.5 rounded-lg transition whitespace-nowrap disabled:opacity-50"
+          >
+            {exportingPdf ? 'Generando...' : 'Exportar propuesta'}
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="text-sm border border-[#a78bfa] text-[#a78bfa] hover:bg-[#a78bfa] hover:text-white px-3 py-1.5 rounded-lg transition whitespace-nowrap"
+          >
+            {linkCopied ? 'Enlace copiado' : 'Copiar enlace'}
+          </button>
+        </div>
       </header>
 
+      {urlNotice && (
+        <div className="mx-4 mb-6 flex items-start justify-between gap-4 rounded-xl border border-[#f97316] bg-[#f97316]/10 px-4 py-3 text-sm text-orange-200">
+          <span>{urlNotice}</span>
+          <button onClick={() => setUrlNotice(null)} className="text-orange-300 hover:text-white" aria-label="Cerrar aviso">
+            &times;
+          </button>
+        </div>
+      )}
+
+      {exportError && (
+        <div className="mx-4 mb-6 flex items-start justify-between gap-4 rounded-xl border border-red-500 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+          <span>{exportError}</span>
+          <button onClick={() => setExportError(null)} className="text-red-300 hover:text-white" aria-label="Cerrar error">
+            &times;
+          </button>
+        </div>
+      )}
+
       <div className="flex flex-col lg:flex-row gap-6 px-4 pb-8">
         {/* SIDEBAR */}
         <aside className="lg:w-80 flex-shrink-0 space-y-6">
@@ -169,19 +553,67 @@ export default function Calculator() {
                 className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
               />
             </div>
+
+            <div>
+              <label className="block text-sm text-[#a78bfa] font-medium mb-1">Margen para VUM</label>
+              <select
+                value={modoMargen}
+                onChange={(e) => setModoMargen(e.target.value as ModoMargen)}
+                className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+              >
+                {MODOS_MARGEN.map((m) => (
+                  <option key={m.value} value={m.value}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
+          {/* Global deductions */}
+          <div className="bg-[#1a1a2e] rounded-xl p-5 space-y-3">
+            <h2 className="text-lg font-semibold text-slate-200">Deducciones por Unidad</h2>
+            <p className="text-xs text-slate-500">
+              Impuestos, comisiones y costos que se descuentan del margen de todos los productos. Los montos fijos van en{' '}
+              {moneda}.
+            </p>
+            <DeductionsEditor deducciones={deducciones} moneda={moneda} onChange={setDeducciones} />
+          </div>
+
+          {/* Currencies */}
+          <ExchangeRatesPanel
+            moneda={moneda}
+            tasas={tasas}
+            sinTasa={conversion.sinTasa}
+            onMonedaChange={setMoneda}
+            onTasasChange={handleTasasChange}
+          />
+
+          {/* Saved Scenarios */}
+          <ScenarioManager
+            escenarios={escenarios}
+            onSave={handleSaveScenario}
+            onLoad={handleLoadScenario}
+            onDuplicate={handleDuplicateScenario}
+            onRename={handleRenameScenario}
+            onDelete={handleDeleteScenario}
+          />
+
+          {/* Goal Seek */}
+          <GoalSeekPanel params={params} onApply={handleApplyGoalSeek} />
+
           {/* CSV Upload */}
           <div className="bg-[#1a1a2e] rounded-xl p-5 space-y-3">
-            <h2 className="text-lg font-semibold text-slate-200">Cargar Productos (CSV)</h2>
-            <p className="text-xs text-slate-500">Formato: nombre,precio,margen</p>
+            <h2 className="text-lg font-semibold text-slate-200">Cargar Productos (CSV / Excel)</h2>
+            <p className="text-xs text-slate-500">Formato: nombre,precio,margen (tambi&eacute;n ; o tabulador) o un libro .xlsx</p>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
-              onChange={handleCSVUpload}
+              accept=".csv,.tsv,.txt,.xlsx"
+              onChange={handleFileUpload}
               className="w-full text-sm text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-[#a78bfa] file:text-white file:font-medium file:cursor-pointer hover:file:bg-[#8b5cf6] transition"
             />
+            {importReport && <ImportReportNotice report={importReport} onDismiss={() => setImportReport(null)} />}
           </div>
 
           {/* Add Product */}
@@ -195,6 +627,9 @@ export default function Calculator() {
               placeholder="Nombre del producto"
               className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
             />
+            {esNombreDuplicado(prodNombre, productos) && (
+              <p className="text-xs text-orange-300">Ya existe un producto con este nombre.</p>
+            )}
             <input
               type="number"
               min={0}
@@ -214,6 +649,57 @@ export default function Calculator() {
               placeholder="Margen bruto (%)"
               className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
             />
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={prodParticipacion}
+              onChange={(e) => setProdParticipacion(e.target.value)}
+              placeholder="Participación en ventas (opcional)"
+              className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                value={prodSku}
+                onChange={(e) => setProdSku(e.target.value)}
+                placeholder="SKU (opcional)"
+                className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+              />
+              <input
+                type="text"
+                value={prodCategoria}
+                onChange={(e) => setProdCategoria(e.target.value)}
+                placeholder="Categoría (opcional)"
+                list="categorias-portafolio"
+                className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+              />
+              <datalist id="categorias-portafolio">
+                {categoriasDisponibles
+                  .filter((c) => c !== SIN_CATEGORIA)
+                  .map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+              </datalist>
+            </div>
+            <select
+              value={prodMoneda}
+              onChange={(e) => setProdMoneda(e.target.value)}
+              className="w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+            >
+              <option value="">Precio en {moneda}</option>
+              {Array.from(new Set([...MONEDAS_COMUNES, tasas.base, ...Object.keys(tasas.tasas)]))
+                .filter((m) => m !== moneda)
+                .map((m) => (
+                  <option key={m} value={m}>
+                    Precio en {m}
+                  </option>
+                ))}
+            </select>
+            <div>
+              <label className="block text-sm text-[#a78bfa] font-medium mb-1">Deducciones propias (opcional)</label>
+              <DeductionsEditor deducciones={prodDeducciones} moneda={prodMoneda || moneda} onChange={setProdDeducciones} />
+            </div>
 
             <button
               onClick={handleAddProduct}
@@ -228,10 +714,9 @@ export default function Calculator() {
         <main className="flex-1 space-y-6">
           {/* Metric Cards */}
           <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
-            <MetricCard color="purple" value={formatNumber(resultados.ipRoas)} label="IP-ROAS" description="&iquest;Cu&aacute;nto debe generar cada peso invertido?" />
-            <MetricCard color="green" value={`${resultados.vum.toLocaleString()} unidades`} label="VUM" description="&iquest;Cu&aacute;ntas unidades debo vender?" />
-            <MetricCard color="orange" value={formatNumber(resultados.roasMinTradicional)} label="ROAS Tradicional" description="&iquest;Retorno m&iacute;nimo en ventas totales?" />
-            <MetricCard color="cyan" value={formatCurrency(resultados.cprEstimado)} label="CPR Estimado" description="&iquest;Cu&aacute;nto me cuesta cada venta?" />
+            {tarjetasMetricas(resultados, moneda).map((t) => (
+              <MetricCard key={t.label} color={t.color} value={t.value} label={t.label} description={t.description} />
+            ))}
           </div>
 
           {/* Tabs */}
@@ -257,12 +742,56 @@ export default function Calculator() {
               <SummaryTab
                 productos={productos}
                 productoCritico={productoCritico}
+                desglose={desglose}
+                margenesNetos={hayDeducciones ? margenesNetos : null}
+                moneda={moneda}
+                sinTasa={conversion.sinTasa}
+                modoMargen={modoMargen}
+                resultadosPorModo={resultadosPorModo}
                 costos={costosTotales(params)}
-                onRemove={handleRemoveProduct}
+                vumsSolo={vumsSolo}
+                indiceCritico={indiceCritico}
+                seleccionados={seleccionados}
+                categorias={categoriasDisponibles}
+                categoriasSeleccionadas={categorias}
+                onCategoriasChange={setCategorias}
+                resultadosPorCategoria={resultadosPorCategoria}
+                puedeDeshacer={historialProductos.pasado.length > 0}
+                puedeRehacer={historialProductos.futuro.length > 0}
+                onChange={setProductos}
+                onUndo={() => setHistorialProductos(deshacer)}
+                onRedo={() => setHistorialProductos(rehacer)}
                 onClear={() => setProductos([])}
+                onExportCSV={handleExportPortfolioCSV}
+                onExportXLSX={handleExportXLSX}
               />
+            ) : activeTab === 'comparar' ? (
+              <ScenarioComparison escenarios={escenarios} actual={paramsEntrada} tasas={tasas} />
+            ) : activeTab === 'plan' ? (
+              <MonthlyPlanner params={params} plan={plan} moneda={moneda} onPlanChange={setPlan} />
+            ) : activeTab === 'riesgo' ? (
+              <MonteCarloPanel params={params} config={simulacion} moneda={moneda} onConfigChange={setSimulacion} />
+            ) : activeTab === 'real' ? (
+              <ActualVsPlan
+                params={params}
+                resultados={resultados}
+                moneda={moneda}
+                rendimiento={rendimiento}
+                duracionDias={duracionCampana}
+                onRendimientoChange={setRendimiento}
+                onDuracionChange={setDuracionCampana}
+              />
+            ) : activeTab === 'tornado' ? (
+              <TornadoTab params={params} />
+            ) : activeTab === 'mapa' ? (
+              <HeatmapTab params={params} />
             ) : (
-              <SensitivityTab type={activeTab} params={params} />
+              <SensitivityTab
+                type={activeTab}
+                params={params}
+                rango={rangosSensibilidad[activeTab]}
+                onRangoChange={(rango) => setRangosSensibilidad((prev) => ({ ...prev, [activeTab]: rango }))}
+              />
             )}
           </div>
         </main>
@@ -275,8 +804,23 @@ export default function Calculator() {
         Desarrollado por Juan Pablo Fern&aacute;ndez Guti&eacute;rrez | &Aacute;rea de Tecnolog&iacute;a
       </footer>
 
+      {pendingImport && (
+        <ImportWizard
+          archivo={pendingImport.archivo}
+          hojas={pendingImport.hojas}
+          recordados={mappingMemoryRef.current?.cargar() ?? {}}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {/* Chatbot */}
-      <ChatBot calculatorContext={chatContext} />
+      <ChatBot
+        calculatorContext={chatContext}
+        moneda={moneda}
+        onPreviewActions={handlePreviewActions}
+        onApplyActions={handleApplyActions}
+      />
     </div>
   );
 }
@@ -312,7 +856,7 @@ function MetricCard({
       <div className="text-xs text-slate-400 mt-1">
         {label}
         <br />
-        <span dangerouslySetInnerHTML={{ __html: description }} />
+        {description}
       </div>
     </div>
   );
@@ -321,64 +865,112 @@ function MetricCard({
 function SummaryTab({
   productos,
   productoCritico,
+  desglose,
+  margenesNetos,
+  moneda,
+  sinTasa,
+  modoMargen,
+  resultadosPorModo,
   costos,
-  onRemove,
+  vumsSolo,
+  indiceCritico,
+  seleccionados,
+  categorias,
+  categoriasSeleccionadas,
+  onCategoriasChange,
+  resultadosPorCategoria,
+  puedeDeshacer,
+  puedeRehacer,
+  onChange,
+  onUndo,
+  onRedo,
   onClear,
+  onExportCSV,
+  onExportXLSX,
 }: {
   productos: Producto[];
   productoCritico: Producto | null;
+  desglose: DesgloseMargen | null;
+  margenesNetos: (number | null)[] | null; // Only when some deduction applies
+  moneda: Moneda;
+  sinTasa: Moneda[];
+  modoMargen: ModoMargen;
+  resultadosPorModo: Record<ModoMargen, ResultadosIPROAS>;
   costos: number;
-  onRemove: (i: number) => void;
+  vumsSolo: (number | null)[];
+  indiceCritico: number;
+  seleccionados: boolean[];
+  categorias: string[]; // Every category in the portfolio
+  categoriasSeleccionadas: string[]; // [] = every category
+  onCategoriasChange: (categorias: string[]) => void;
+  resultadosPorCategoria: ResultadoCategoria[];
+  puedeDeshacer: boolean;
+  puedeRehacer: boolean;
+  onChange: (productos: Producto[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onClear: () => void;
+  onExportCSV: () => void;
+  onExportXLSX: () => void;
 }) {
+  const conCategorias = categorias.some((c) => c !== SIN_CATEGORIA);
+  const alternarCategoria = (categoria: string) =>
+    onCategoriasChange(
+      categoriasSeleccionadas.includes(categoria)
+        ? categoriasSeleccionadas.filter((c) => c !== categoria)
+        : [...categoriasSeleccionadas, categoria]
+    );
+  const chipClass = (activo: boolean) =>
+    `px-3 py-1 rounded-full text-xs border transition ${
+      activo
+        ? 'border-[#a78bfa] bg-[#a78bfa]/20 text-white'
+        : 'border-slate-700 text-slate-400 hover:border-[#a78bfa] hover:text-white'
+    }`;
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Left - Portfolio */}
       <div>
         <h3 className="text-lg font-semibold mb-3 text-slate-200">Portafolio de Productos</h3>
-        {productos.length > 0 ? (
-          <>
-            <div className="overflow-x-auto">
-              <table className="w-full text-sm">
-                <thead>
-                  <tr className="text-left text-slate-400 border-b border-slate-700">
-                    <th className="pb-2 pr-3">Nombre</th>
-                    <th className="pb-2 pr-3">Precio</th>
-                    <th className="pb-2 pr-3">Margen %</th>
-                    <th className="pb-2 pr-3">Margen $</th>
-                    <th className="pb-2"></th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {productos.map((p, i) => (
-                    <tr key={i} className="border-b border-slate-800">
-                      <td className="py-2 pr-3">{p.nombre}</td>
-                      <td className="py-2 pr-3">{formatCurrency(p.precio)}</td>
-                      <td className="py-2 pr-3">{(p.margenBruto * 100).toFixed(1)}%</td>
-                      <td className="py-2 pr-3">{formatCurrency(margenAbsoluto(p))}</td>
-                      <td className="py-2">
-                        <button
-                          onClick={() => onRemove(i)}
-                          className="text-red-400 hover:text-red-300 text-xs"
-                        >
-                          Eliminar
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
-            <button
-              onClick={onClear}
-              className="mt-3 text-sm text-slate-400 hover:text-red-400 transition"
-            >
-              Limpiar productos
+        {conCategorias && (
+          <div className="mb-3 flex flex-wrap items-center gap-2">
+            <span className="text-sm text-[#a78bfa] font-medium">Categor&iacute;as:</span>
+            <button onClick={() => onCategoriasChange([])} className={chipClass(categoriasSeleccionadas.length === 0)}>
+              Todas
             </button>
-          </>
+            {categorias.map((c) => (
+              <button key={c} onClick={() => alternarCategoria(c)} className={chipClass(categoriasSeleccionadas.includes(c))}>
+                {c}
+              </button>
+            ))}
+          </div>
+        )}
+        {productos.length > 0 ? (
+          <PortfolioTable
+            productos={productos}
+            moneda={moneda}
+            sinTasa={sinTasa}
+            margenesNetos={margenesNetos}
+            vumsSolo={vumsSolo}
+            indiceCritico={indiceCritico}
+            seleccionados={seleccionados}
+            puedeDeshacer={puedeDeshacer}
+            puedeRehacer={puedeRehacer}
+            onChange={onChange}
+            onUndo={onUndo}
+            onRedo={onRedo}
+            onClear={onClear}
+            onExportCSV={onExportCSV}
+            onExportXLSX={onExportXLSX}
+          />
         ) : (
           <p className="text-slate-500 text-sm">
             No hay productos cargados. Use el panel lateral para agregar productos.
+            {puedeDeshacer && (
+              <button onClick={onUndo} className="ml-2 text-slate-400 hover:text-[#a78bfa] transition">
+                Deshacer
+              </button>
+            )}
           </p>
         )}
       </div>
@@ -390,23 +982,42 @@ function SummaryTab({
           <div className="border-2 border-[#f97316] rounded-xl p-4 bg-gradient-to-br from-[#1e1e2e] to-[#2d2d44]">
             <div className="text-[#f97316] font-bold text-lg mb-2">{productoCritico.nombre}</div>
             <div className="space-y-1 text-sm text-slate-300">
-              <p><strong className="text-white">Precio:</strong> {formatCurrency(productoCritico.precio)}</p>
+              <p><strong className="text-white">Precio:</strong> {formatCurrency(productoCritico.precio, moneda)}</p>
               <p><strong className="text-white">Margen %:</strong> {(productoCritico.margenBruto * 100).toFixed(1)}%</p>
-              <p><strong className="text-white">Margen $:</strong> {formatCurrency(margenAbsoluto(productoCritico))}</p>
+              <p><strong className="text-white">Margen $:</strong> {formatCurrency(margenAbsoluto(productoCritico), moneda)}</p>
             </div>
+            {desglose && desglose.lineas.length > 0 && <MarginBreakdown desglose={desglose} moneda={moneda} />}
             <p className="text-xs text-slate-500 mt-3">
-              Este es el producto con menor margen absoluto. Los c&aacute;lculos de VUM, ROAS Tradicional y CPR se basan en este producto.
+              {modoMargen === 'peorCaso'
+                ? `Este es el producto con menor margen ${desglose?.lineas.length ? 'neto' : 'absoluto'}. Los cálculos de VUM, ROAS Tradicional y CPR se basan en este producto.`
+                : `Este es el producto con menor margen ${desglose?.lineas.length ? 'neto' : 'absoluto'}. Con la mezcla de ventas, VUM, ROAS Tradicional y CPR usan el margen y precio promedio ponderados por participación.`}
             </p>
           </div>
         ) : (
-          <p className="text-slate-500 text-sm">Agregue al menos un producto para ver el producto cr&iacute;tico.</p>
+          <p className="text-slate-500 text-sm">
+            {productos.length > 0
+              ? 'Ningún producto seleccionado: incluya productos en la campaña o cambie el filtro de categorías.'
+              : 'Agregue al menos un producto para ver el producto crítico.'}
+          </p>
+        )}
+
+        {productoCritico && (
+          <MarginModeComparison modoMargen={modoMargen} moneda={moneda} resultadosPorModo={resultadosPorModo} />
+        )}
+
+        {conCategorias && resultadosPorCategoria.length > 0 && (
+          <CategoryResults
+            resultados={resultadosPorCategoria}
+            seleccionadas={categoriasSeleccionadas}
+            moneda={moneda}
+          />
         )}
 
         <div>
           <h3 className="text-lg font-semibold text-slate-200">Resumen de Costos</h3>
           <div className="mt-2 bg-[#0f0f23] rounded-lg p-4">
             <p className="text-sm text-slate-400">Costos Totales (IP + TF + IE)</p>
-            <p className="text-2xl font-bold text-white">{formatCurrency(costos)}</p>
+            <p className="text-2xl font-bold text-white">{formatCurrency(costos, moneda)}</p>
           </div>
         </div>
       </div>
@@ -414,18 +1025,536 @@ function SummaryTab({
   );
 }
 
-function SensitivityTab({ type, params }: { type: 'IP' | 'TF' | 'IE' | 'Margen'; params: ParametrosCliente }) {
+/** Current results as if the campaign promoted only each category */
+function CategoryResults({
+  resultados,
+  seleccionadas,
+  moneda,
+}: {
+  resultados: ResultadoCategoria[];
+  seleccionadas: string[];
+  moneda: Moneda;
+}) {
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-slate-200">Resultados por Categor&iacute;a</h3>
+      <div className="mt-2 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="pb-2 pr-3">Categor&iacute;a</th>
+              <th className="pb-2 pr-3">Cr&iacute;tico</th>
+              <th className="pb-2 pr-3">VUM</th>
+              <th className="pb-2 pr-3">ROAS Trad.</th>
+              <th className="pb-2">CPR</th>
+            </tr>
+          </thead>
+          <tbody>
+            {resultados.map(({ categoria, productos, resultados: r }) => (
+              <tr
+                key={categoria}
+                className={`border-b border-slate-800 ${seleccionadas.includes(categoria) ? 'text-white' : 'text-slate-300'}`}
+              >
+                <td className="py-2 pr-3">
+                  {categoria}
+                  <span className="ml-1 text-xs text-slate-500">({productos})</span>
+                </td>
+                <td className="py-2 pr-3">{r.productoCritico}</td>
+                <td className="py-2 pr-3">{r.vum > 0 ? `${r.vum.toLocaleString('en-US')} u.` : '--'}</td>
+                <td className="py-2 pr-3">{r.vum > 0 ? formatNumber(r.roasMinTradicional) : '--'}</td>
+                <td className="py-2">{r.vum > 0 ? formatCurrency(r.cprEstimado, moneda) : '--'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-500 mt-2">
+        Cada fila usa los costos totales de la campa&ntilde;a y solo los productos incluidos de esa categor&iacute;a.
+      </p>
+    </div>
+  );
+}
+
+function MarginBreakdown({ desglose, moneda }: { desglose: DesgloseMargen; moneda: Moneda }) {
+  return (
+    <table className="mt-3 w-full text-sm">
+      <tbody>
+        <tr className="text-slate-300">
+          <td className="py-0.5">Margen bruto</td>
+          <td className="py-0.5 text-right">{formatCurrency(desglose.bruto, moneda)}</td>
+        </tr>
+        {desglose.lineas.map((l, i) => (
+          <tr key={i} className="text-slate-400">
+            <td className="py-0.5">
+              &minus; {l.concepto}
+              {l.alcance === 'global' && <span className="ml-1 text-xs text-slate-500">(global)</span>}
+            </td>
+            <td className="py-0.5 text-right">{formatCurrency(-l.monto, moneda)}</td>
+          </tr>
+        ))}
+        <tr className="border-t border-slate-700 font-semibold text-white">
+          <td className="pt-1">Margen neto</td>
+          <td className={`pt-1 text-right ${desglose.neto <= 0 ? 'text-red-400' : ''}`}>
+            {formatCurrency(desglose.neto, moneda)}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+function MarginModeComparison({
+  modoMargen,
+  moneda,
+  resultadosPorModo,
+}: {
+  modoMargen: ModoMargen;
+  moneda: Moneda;
+  resultadosPorModo: Record<ModoMargen, ResultadosIPROAS>;
+}) {
+  const filas: { label: string; valor: (r: ResultadosIPROAS) => string }[] = [
+    { label: 'VUM', valor: (r) => `${r.vum.toLocaleString('en-US')} u.` },
+    { label: 'ROAS Tradicional', valor: (r) => formatNumber(r.roasMinTradicional) },
+    { label: 'CPR Estimado', valor: (r) => formatCurrency(r.cprEstimado, moneda) },
+    { label: 'Margen $ usado', valor: (r) => formatCurrency(r.margenMinimoUsado, moneda) },
+  ];
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-slate-200">Comparaci&oacute;n de m&eacute;todos</h3>
+      <table className="mt-2 w-full text-sm bg-[#0f0f23] rounded-lg">
+        <thead>
+          <tr className="text-left text-slate-400 border-b border-slate-700">
+            <th className="p-2"></th>
+            {MODOS_MARGEN.map((m) => (
+              <th key={m.value} className={`p-2 ${m.value === modoMargen ? 'text-[#a78bfa]' : ''}`}>
+                {m.value === 'peorCaso' ? 'Peor caso' : 'Mezcla'}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {filas.map((f) => (
+            <tr key={f.label} className="border-b border-slate-800 last:border-0">
+              <td className="p-2 text-slate-400">{f.label}</td>
+              {MODOS_MARGEN.map((m) => (
+                <td key={m.value} className={`p-2 ${m.value === modoMargen ? 'text-white font-semibold' : 'text-slate-300'}`}>
+                  {f.valor(resultadosPorModo[m.value])}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Outcome of the last file import: CSV report or confirmed mapping */
+type ImportReport = ResultadoImportacion & { delimitador?: Delimitador; error?: string };
+
+const DELIMITER_LABELS: Record<Delimitador, string> = {
+  ',': 'coma',
+  ';': 'punto y coma',
+  '\t': 'tabulador',
+  '|': 'barra vertical',
+};
+
+function ImportReportNotice({ report, onDismiss }: { report: ImportReport; onDismiss: () => void }) {
+  const hasErrors = report.omitidas.length > 0 || report.error !== undefined;
+  return (
+    <div
+      className={`rounded-lg p-3 text-xs space-y-1 border ${
+        hasErrors ? 'border-[#f97316] bg-[#f97316]/10' : 'border-[#10b981] bg-[#10b981]/10'
+      }`}
+    >
+      <div className="flex justify-between gap-2">
+        <p className="text-slate-200">
+          {report.error ?? `${report.productos.length} productos importados`}
+          {report.productos.length === 0 && ' — el portafolio no se modific\u00f3.'}
+        </p>
+        <button onClick={onDismiss} className="text-slate-400 hover:text-white" aria-label="Cerrar reporte">
+          &times;
+        </button>
+      </div>
+      {!report.error && (
+        <p className="text-slate-500">
+          {report.delimitador && <>Separador: {DELIMITER_LABELS[report.delimitador]} &middot; </>}
+          Decimales: &quot;{report.separadorDecimal}&quot;
+        </p>
+      )}
+      {report.omitidas.length > 0 && (
+        <>
+          <p className="text-orange-200">{report.omitidas.length} filas omitidas:</p>
+          <ul className="max-h-32 overflow-y-auto space-y-0.5 text-orange-200/80">
+            {report.omitidas.map((o) => (
+              <li key={o.fila}>
+                Fila {o.fila}: {o.motivo}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+const GOAL_SEEK_METRICS: { value: GoalSeekMetric; label: string }[] = [
+  { value: 'ipRoas', label: 'IP-ROAS' },
+  { value: 'vum', label: 'VUM máximo (unidades)' },
+  { value: 'roasTradicional', label: 'ROAS Tradicional' },
+];
+
+const GOAL_SEEK_VARIABLES: { value: GoalSeekVariable; label: string }[] = [
+  { value: 'IP', label: 'Inversión Publicitaria (IP)' },
+  { value: 'TF', label: 'Tarifa Fija (TF)' },
+  { value: 'IE', label: 'Ingreso Esperado (IE)' },
+];
+
+function GoalSeekPanel({
+  params,
+  onApply,
+}: {
+  params: ParametrosCliente;
+  onApply: (variable: GoalSeekVariable, valor: number) => void;
+}) {
+  const [metrica, setMetrica] = useState<GoalSeekMetric>('ipRoas');
+  const [variable, setVariable] = useState<GoalSeekVariable>('IP');
+  const [objetivo, setObjetivo] = useState('');
+  const [resultado, setResultado] = useState<GoalSeekResult | null | undefined>(undefined);
+
+  const handleSolve = () => {
+    setResultado(goalSeek(params, metrica, variable, parseFloat(objetivo)));
+  };
+
+  const fieldClass =
+    'w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div className="bg-[#1a1a2e] rounded-xl p-5 space-y-3">
+      <h2 className="text-lg font-semibold text-slate-200">Goal Seek</h2>
+      <p className="text-xs text-slate-500">Encuentra el valor de entrada que alcanza una meta.</p>
+
+      <select
+        value={metrica}
+        onChange={(e) => {
+          setMetrica(e.target.value as GoalSeekMetric);
+          setResultado(undefined);
+        }}
+        className={fieldClass}
+      >
+        {GOAL_SEEK_METRICS.map((m) => (
+          <option key={m.value} value={m.value}>{m.label}</option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={objetivo}
+        onChange={(e) => {
+          setObjetivo(e.target.value);
+          setResultado(undefined);
+        }}
+        placeholder="Valor objetivo"
+        className={fieldClass}
+      />
+      <select
+        value={variable}
+        onChange={(e) => {
+          setVariable(e.target.value as GoalSeekVariable);
+          setResultado(undefined);
+        }}
+        className={fieldClass}
+      >
+        {GOAL_SEEK_VARIABLES.map((v) => (
+          <option key={v.value} value={v.value}>Ajustar {v.label}</option>
+        ))}
+      </select>
+
+      <button
+        onClick={handleSolve}
+        className="w-full bg-[#a78bfa] hover:bg-[#8b5cf6] text-white font-medium py-2 rounded-lg transition"
+      >
+        Calcular
+      </button>
+
+      {resultado === null && (
+        <p className="text-xs text-red-400">La meta no es alcanzable con un valor no negativo.</p>
+      )}
+      {resultado && (
+        <div className="bg-[#0f0f23] rounded-lg p-3 space-y-2 text-sm">
+          <p className="text-slate-300">
+            <strong className="text-white">{resultado.variable}:</strong> {formatCurrency(resultado.valor, params.moneda)}
+          </p>
+          <p className="text-xs text-slate-500">
+            Resultado: {resultado.metrica === 'vum' ? `${resultado.alcanzado} unidades` : formatNumber(resultado.alcanzado)}
+            {resultado.metodo === 'numerico' && ' (búsqueda numérica)'}
+          </p>
+          <button
+            onClick={() => onApply(resultado.variable, resultado.valor)}
+            className="w-full border border-[#a78bfa] text-[#a78bfa] hover:bg-[#a78bfa] hover:text-white text-sm py-1.5 rounded-lg transition"
+          >
+            Aplicar
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SensitivityTabProps {
+  type: SensitivityType;
+  params: ParametrosCliente;
+  /** undefined = default ±50% range around the current value */
+  rango: RangoSensibilidad | undefined;
+  onRangoChange: (rango: RangoSensibilidad | undefined) => void;
+}
+
+function SensitivityTab({ type, params, rango, onRangoChange }: SensitivityTabProps) {
   const config = SENSITIVITY_CONFIGS.find((c) => c.type === type)!;
-  const data = useMemo(() => calcularSensibilidad(type, params, 50), [type, params]);
+  const porDefecto = useMemo(() => rangoSensibilidadPorDefecto(type, params), [type, params]);
+  const actual = rango ?? porDefecto;
+  const validacion = useMemo(() => (actual ? validarRangoSensibilidad(type, actual) : null), [type, actual]);
+  const curva = useMemo(
+    () => (actual && validacion?.ok ? calcularCurvaSensibilidad(type, params, actual) : null),
+    [type, params, actual, validacion]
+  );
 
-  if (!data || params.productos.length === 0) {
+  if (!actual || params.productos.length === 0) {
     return <p className="text-slate-500">Agregue productos para ver el an&aacute;lisis de sensibilidad.</p>;
   }
 
+  // Margin is edited in percent, amounts as they are
+  const factor = config.xFormat === 'percent' ? 100 : 1;
+  const mostrar = (v: number) => Number((v * factor).toPrecision(6));
+  const errores = validacion && !validacion.ok ? validacion.errors : [];
+  const inputClass =
+    'w-28 bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">{config.title}</h3>
+        {curva && (
+          <button
+            onClick={() =>
+              descargarArchivo(sensibilidadCSV(type, curva.muestras), `sensibilidad-${type}.csv`, 'text/csv;charset=utf-8')
+            }
+            className="text-sm text-slate-400 hover:text-[#a78bfa] transition"
+          >
+            Descargar CSV
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        {(['min', 'max', 'paso'] as const).map((campo) => (
+          <label key={campo} className="text-xs text-slate-400">
+            {campo === 'min' ? 'Mínimo' : campo === 'max' ? 'Máximo' : 'Paso'}
+            {factor === 100 ? ' (%)' : ''}
+            <input
+              type="number"
+              step="any"
+              value={mostrar(actual[campo])}
+              onChange={(e) => onRangoChange({ ...actual, [campo]: Number(e.target.value) / factor })}
+              className={`block mt-1 ${inputClass}`}
+            />
+          </label>
+        ))}
+        {type === 'IP' && (
+          <label className="text-xs text-slate-400">
+            Escala
+            <select
+              value={actual.escala}
+              onChange={(e) => onRangoChange({ ...actual, escala: e.target.value as RangoSensibilidad['escala'] })}
+              className={`block mt-1 ${inputClass}`}
+            >
+              <option value="lineal">Lineal</option>
+              <option value="log">Logar&iacute;tmica</option>
+            </select>
+          </label>
+        )}
+        {rango && (
+          <button
+            onClick={() => onRangoChange(undefined)}
+            className="pb-2 text-sm text-slate-400 hover:text-[#a78bfa] transition"
+          >
+            Restablecer (&plusmn;50%)
+          </button>
+        )}
+      </div>
+
+      {errores.length > 0 && (
+        <ul className="mb-4 text-xs text-red-400 space-y-0.5">
+          {errores.map((e) => (
+            <li key={e.campo + e.mensaje}>
+              {e.campo === 'min' ? 'Mínimo' : e.campo === 'max' ? 'Máximo' : e.campo === 'paso' ? 'Paso' : 'Escala'}:{' '}
+              {e.mensaje}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {curva && (
+        <>
+          <SensitivityChart
+            data={curva.puntos}
+            xLabel={config.xLabel}
+            xFormat={config.xFormat}
+            moneda={params.moneda}
+            actual={curva.actual}
+            saltos={curva.saltos}
+            escala={curva.rango.escala}
+          />
+          <p className="text-xs text-slate-500 mt-2">
+            {curva.saltosTotales === Infinity
+              ? 'El margen unitario llega a 0 dentro del rango: el VUM crece sin límite cerca de ese punto.'
+              : curva.saltosTotales > SALTOS_VISIBLES
+                ? `El VUM cambia ${curva.saltosTotales.toLocaleString('en-US')} veces en el rango; acote el rango para ver cada salto marcado.`
+                : curva.saltosTotales > 0
+                  ? `Las líneas naranjas marcan los ${curva.saltosTotales} puntos donde el VUM (redondeado hacia arriba) cambia de valor.`
+                  : 'El VUM no cambia dentro del rango.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function HeatmapTab({ params }: { params: ParametrosCliente }) {
+  const [pairIndex, setPairIndex] = useState(0);
+  const [metric, setMetric] = useState<'ipRoas' | 'roasTradicional'>('ipRoas');
+  const pair = SENSITIVITY_2D_PAIRS[pairIndex];
+  const grid = useMemo(() => calcularSensibilidad2D(pair.x, pair.y, params, 25), [pair, params]);
+
+  if (!grid || params.productos.length === 0) {
+    return <p className="text-slate-500">Agregue productos para ver el mapa de sensibilidad.</p>;
+  }
+
   return (
     <div>
-      <h3 className="text-lg font-semibold text-slate-200 mb-4">{config.title}</h3>
-      <SensitivityChart data={data} xLabel={config.xLabel} xFormat={config.xFormat} />
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200">{pair.title}</h3>
+        <div className="flex gap-2">
+          <select
+            value={pairIndex}
+            onChange={(e) => setPairIndex(Number(e.target.value))}
+            className="bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition"
+          >
+            {SENSITIVITY_2D_PAIRS.map((p, i) => (
+              <option key={i} value={i}>{p.x} &times; {p.y}</option>
+            ))}
+          </select>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as typeof metric)}
+            className="bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition"
+          >
+            <option value="ipRoas">IP-ROAS</option>
+            <option value="roasTradicional">ROAS Tradicional</option>
+          </select>
+        </div>
+      </div>
+      <SensitivityHeatmap grid={grid} metric={metric} moneda={params.moneda} />
+    </div>
+  );
+}
+
+const TORNADO_METRICS: TornadoMetric[] = ['ipRoas', 'roasTradicional', 'vum'];
+
+function TornadoTab({ params }: { params: ParametrosCliente }) {
+  const [variacionPct, setVariacionPct] = useState(20);
+  const [metric, setMetric] = useState<TornadoMetric>('ipRoas');
+  const resultado = useMemo(() => calcularTornado(params, variacionPct / 100), [params, variacionPct]);
+
+  if (!resultado) {
+    return <p className="text-slate-500">Agregue productos para ver el an&aacute;lisis de tornado.</p>;
+  }
+
+  const ranking = ordenarTornado(resultado, metric);
+  const sinMargen = ranking.filter((b) => !isFinite(b.metricas[metric].swing));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-slate-200">&iquest;Qu&eacute; entrada mueve m&aacute;s el resultado?</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Cada entrada se mueve &plusmn;{variacionPct}% manteniendo las dem&aacute;s fijas. Precio y margen son los
+            del producto cr&iacute;tico (o la mezcla).
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <label className="flex items-center gap-1 text-sm text-slate-400">
+            &plusmn;
+            <input
+              type="number"
+              min={1}
+              max={90}
+              step={5}
+              value={variacionPct}
+              onChange={(e) => {
+                const v = Math.round(Number(e.target.value));
+                if (v >= 1 && v <= 90) setVariacionPct(v);
+              }}
+              className="w-20 bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition"
+            />
+            %
+          </label>
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as TornadoMetric)}
+            className="bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition"
+          >
+            {TORNADO_METRICS.map((m) => (
+              <option key={m} value={m}>{TORNADO_METRIC_LABELS[m]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <TornadoChart resultado={resultado} metric={metric} moneda={params.moneda} />
+      {sinMargen.length > 0 && (
+        <p className="text-xs text-orange-300">
+          Sin margen positivo en un extremo (fuera del gr&aacute;fico):{' '}
+          {sinMargen.map((b) => TORNADO_VARIABLES.find((v) => v.variable === b.variable)!.label).join(', ')}
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="pb-2 pr-3">#</th>
+              <th className="pb-2 pr-3">Entrada</th>
+              {TORNADO_METRICS.map((m) => (
+                <th key={m} className={`pb-2 pr-3 ${m === metric ? 'text-[#a78bfa]' : ''}`}>
+                  Variaci&oacute;n {TORNADO_METRIC_LABELS[m]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ranking.map((b, i) => (
+              <tr key={b.variable} className="border-b border-slate-800">
+                <td className="py-2 pr-3 text-slate-500">{i + 1}</td>
+                <td className="py-2 pr-3 text-slate-300">
+                  {TORNADO_VARIABLES.find((v) => v.variable === b.variable)!.label}
+                </td>
+                {TORNADO_METRICS.map((m) => (
+                  <td
+                    key={m}
+                    className="py-2 pr-3"
+                    title={`${formatTornadoMetric(m, b.metricas[m].bajo)} → ${formatTornadoMetric(m, b.metricas[m].alto)}`}
+                  >
+                    {isFinite(b.metricas[m].swing) ? formatTornadoMetric(m, b.metricas[m].swing) : 'Sin margen'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,87 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Moneda, ResultadosIPROAS } from '@/types/roas';
+import type { AccionCalculadora, PropuestaCambios } from '@/lib/chat-actions';
+import { describirAccion } from '@/lib/chat-actions';
+import type { ValidationResult } from '@/lib/validation';
+import { formatCurrency, formatNumber } from '@/lib/format';
+
+/** Results before and after applying a proposal to the current inputs */
+export interface ComparacionPropuesta {
+  antes: ResultadosIPROAS;
+  despues: ResultadosIPROAS;
+}
+
+interface ChatActionProposalProps {
+  propuesta: PropuestaCambios;
+  moneda: Moneda;
+  onPreview: (acciones: AccionCalculadora[]) => ValidationResult<ComparacionPropuesta>;
+  onApply: (acciones: AccionCalculadora[]) => void;
+}
+
+const METRICAS: { key: keyof ResultadosIPROAS; label: string; formato: (n: number, moneda: Moneda) => string }[] = [
+  { key: 'ipRoas', label: 'IP-ROAS', formato: (n) => formatNumber(n) },
+  { key: 'vum', label: 'VUM', formato: (n) => `${n.toLocaleString('en-US')} u.` },
+  { key: 'roasMinTradicional', label: 'ROAS Trad.', formato: (n) => formatNumber(n) },
+  { key: 'cprEstimado', label: 'CPR', formato: formatCurrency },
+  { key: 'costosTotales', label: 'Costos', formato: formatCurrency },
+];
+
+export default function ChatActionProposal({ propuesta, moneda, onPreview, onApply }: ChatActionProposalProps) {
+  const [aplicada, setAplicada] = useState(false);
+  // Recomputed against the current inputs, so the diff stays right if the user edits meanwhile
+  const comparacion = useMemo(() => onPreview(propuesta.acciones), [onPreview, propuesta.acciones]);
+
+  return (
+    <div className="mb-3 ml-1 mr-6 rounded-xl border border-[#7C3AED]/60 bg-[#1a1a2e] p-3 text-sm">
+      <p className="text-slate-200 font-medium">{propuesta.descripcion}</p>
+      <ul className="mt-1 list-disc pl-5 text-xs text-slate-400 space-y-0.5">
+        {propuesta.acciones.map((a, i) => (
+          <li key={i}>{describirAccion(a, moneda)}</li>
+        ))}
+      </ul>
+
+      {!aplicada &&
+        (comparacion.ok ? (
+          <table className="mt-2 w-full text-xs">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="pb-1 font-normal"></th>
+                <th className="pb-1 font-normal">Antes</th>
+                <th className="pb-1 font-normal">Despu&eacute;s</th>
+              </tr>
+            </thead>
+            <tbody>
+              {METRICAS.map(({ key, label, formato }) => {
+                const antes = comparacion.value.antes[key] as number;
+                const despues = comparacion.value.despues[key] as number;
+                return (
+                  <tr key={key}>
+                    <td className="py-0.5 pr-2 text-slate-400">{label}</td>
+                    <td className="py-0.5 pr-2 text-slate-300">{formato(antes, moneda)}</td>
+                    <td className={`py-0.5 ${antes === despues ? 'text-slate-300' : 'text-[#a78bfa] font-medium'}`}>
+                      {formato(despues, moneda)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-2 text-xs text-red-400">{comparacion.errors.map((e) => e.mensaje).join('. ')}</p>
+        ))}
+
+      <button
+        onClick={() => {
+          onApply(propuesta.acciones);
+          setAplicada(true);
+        }}
+        disabled={aplicada || !comparacion.ok}
+        className="mt-2 rounded-lg bg-gradient-to-br from-[#5B21B6] to-[#7C3AED] px-3 py-1 text-xs text-white hover:from-[#6D28D9] hover:to-[#8B5CF6] disabled:opacity-50 disabled:cursor-not-allowed transition"
+      >
+        {aplicada ? 'Aplicado' : 'Aplicar'}
+      </button>
+    </div>
+  );
+}
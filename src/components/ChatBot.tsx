@@ -3,23 +3,119 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
 import ChatMessage from './ChatMessage';
 import ChatButton from './ChatButton';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import ChatActionProposal, { type ComparacionPropuesta } from './ChatActionProposal';
+import ChatHistory from './ChatHistory';
+import type { Moneda } from '@/types/roas';
+import type { ContextoChatJSON } from '@/types/api';
+import { validarPropuesta, type AccionCalculadora } from '@/lib/chat-actions';
+import {
+  actualizarConversacion,
+  conversacionAMarkdown,
+  createConversationStore,
+  nombreArchivoConversacion,
+  nuevaConversacion,
+  recortarHistorial,
+  type Conversacion,
+  type ConversationStore,
+  type MensajeConversacion,
+} from '@/lib/chat-history';
+import { descargarArchivo } from '@/lib/download';
+import type { ValidationResult } from '@/lib/validation';
 
 interface ChatBotProps {
-  calculatorContext: string;
+  calculatorContext: ContextoChatJSON; // Reporting currency; the assistant's tools calculate on its params
+  moneda: Moneda;
+  onPreviewActions: (acciones: AccionCalculadora[]) => ValidationResult<ComparacionPropuesta>;
+  onApplyActions: (acciones: AccionCalculadora[]) => void;
 }
 
-export default function ChatBot({ calculatorContext }: ChatBotProps) {
+/** Status shown while the server runs a tool for the assistant */
+const HERRAMIENTA_LABELS: Record<string, string> = {
+  calcular_resultados: 'Calculando resultados...',
+  simular_escenario: 'Simulando escenario...',
+  calcular_sensibilidad: 'Calculando sensibilidad...',
+};
+
+export default function ChatBot({
+  calculatorContext,
+  moneda,
+  onPreviewActions,
+  onApplyActions,
+}: ChatBotProps) {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<MensajeConversacion[]>([]);
+  const [conversacion, setConversacion] = useState<Conversacion | null>(null); // null until the first message
+  const [conversaciones, setConversaciones] = useState<Conversacion[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [avisoGuardado, setAvisoGuardado] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
+  const [herramienta, setHerramienta] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const storeRef = useRef<ConversationStore | null>(null);
+
+  // Reopen the most recent conversation
+  useEffect(() => {
+    storeRef.current = createConversationStore();
+    storeRef.current?.list().then((lista) => {
+      setConversaciones(lista);
+      if (lista[0]) {
+        setConversacion(lista[0]);
+        setMessages(lista[0].mensajes);
+      }
+    });
+  }, []);
+
+  const guardarConversacion = useCallback(
+    async (base: Conversacion, mensajes: MensajeConversacion[]) => {
+      const actualizada = actualizarConversacion(base, mensajes, calculatorContext);
+      setConversacion(actualizada);
+      const store = storeRef.current;
+      if (!store) return;
+      try {
+        await store.save(actualizada);
+        setAvisoGuardado(null);
+      } catch {
+        // The store already evicted older conversations; this one alone does not fit
+        setAvisoGuardado('No se pudo guardar esta conversación: el almacenamiento del navegador está lleno.');
+      }
+      setConversaciones(await store.list());
+    },
+    [calculatorContext]
+  );
+
+  const handleNew = useCallback(() => {
+    setConversacion(null);
+    setMessages([]);
+    setShowHistory(false);
+  }, []);
+
+  const handleOpen = useCallback((c: Conversacion) => {
+    setConversacion(c);
+    setMessages(c.mensajes);
+    setShowHistory(false);
+  }, []);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      const store = storeRef.current;
+      if (!store) return;
+      await store.remove(id);
+      setConversaciones(await store.list());
+      if (conversacion?.id === id) handleNew();
+    },
+    [conversacion, handleNew]
+  );
+
+  const handleExport = useCallback(() => {
+    if (!conversacion) return;
+    descargarArchivo(
+      conversacionAMarkdown(conversacion),
+      nombreArchivoConversacion(conversacion),
+      'text/markdown;charset=utf-8'
+    );
+  }, [conversacion]);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -39,78 +135,84 @@ export default function ChatBot({ calculatorContext }: ChatBotProps) {
     const trimmed = input.trim();
     if (!trimmed || isStreaming) return;
 
-    const userMessage: Message = { role: 'user', content: trimmed };
-    const newMessages = [...messages, userMessage];
-    setMessages(newMessages);
+    const base = conversacion ?? nuevaConversacion();
+    const newMessages: MensajeConversacion[] = [...messages, { role: 'user', content: trimmed }];
+    let respuesta: MensajeConversacion = { role: 'assistant', content: '' };
+    const mostrar = (r: MensajeConversacion) => {
+      respuesta = r;
+      setMessages([...newMessages, r]);
+    };
+    mostrar(respuesta);
     setInput('');
     setIsStreaming(true);
 
-    const assistantMessage: Message = { role: 'assistant', content: '' };
-    setMessages([...newMessages, assistantMessage]);
-
     try {
+      const historial = recortarHistorial(newMessages);
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          messages: newMessages,
-          context: calculatorContext,
+          messages: historial.mensajes,
+          omitidos: historial.omitidos,
+          contexto: calculatorContext,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Error en la respuesta del servidor');
+        const cuerpo = await response.json().catch(() => null);
+        throw new Error(cuerpo?.error ?? 'Error en la respuesta del servidor');
       }
 
       const reader = response.body?.getReader();
       if (!reader) throw new Error('No se pudo leer la respuesta');
 
+      // A data line can span two reads: keep the incomplete tail for the next one
       const decoder = new TextDecoder();
-      let accumulated = '';
+      let pendiente = '';
+      let terminado = false;
 
-      while (true) {
+      while (!terminado) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const text = decoder.decode(value, { stream: true });
-        const lines = text.split('\n');
+        pendiente += decoder.decode(value, { stream: true });
+        const lines = pendiente.split('\n');
+        pendiente = lines.pop() ?? '';
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') break;
-            try {
-              const parsed = JSON.parse(data);
-              if (parsed.content) {
-                accumulated += parsed.content;
-                setMessages((prev) => {
-                  const updated = [...prev];
-                  updated[updated.length - 1] = {
-                    role: 'assistant',
-                    content: accumulated,
-                  };
-                  return updated;
-                });
-              }
-            } catch {
-              // skip malformed chunks
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6);
+          if (data === '[DONE]') {
+            terminado = true;
+            break;
+          }
+          try {
+            const parsed = JSON.parse(data);
+            if (parsed.error) throw new Error(parsed.error);
+            if (parsed.herramienta) setHerramienta(parsed.herramienta);
+            if (parsed.content) mostrar({ ...respuesta, content: respuesta.content + parsed.content });
+            const propuesta = parsed.propuesta && validarPropuesta(parsed.propuesta);
+            if (propuesta && propuesta.ok) {
+              mostrar({ ...respuesta, propuestas: [...(respuesta.propuestas ?? []), propuesta.value] });
             }
+          } catch (e) {
+            if (!(e instanceof SyntaxError)) throw e;
+            // skip malformed chunks
           }
         }
       }
-    } catch {
-      setMessages((prev) => {
-        const updated = [...prev];
-        updated[updated.length - 1] = {
-          role: 'assistant',
-          content: 'Lo siento, hubo un error al procesar tu mensaje. Verifica que la API key de Groq est\u00e9 configurada correctamente.',
-        };
-        return updated;
+      if (terminado) await reader.cancel();
+    } catch (e) {
+      mostrar({
+        role: 'assistant',
+        content: `Lo siento, hubo un error al procesar tu mensaje. ${e instanceof Error ? e.message : ''}`.trim(),
       });
     } finally {
       setIsStreaming(false);
+      setHerramienta(null);
+      await guardarConversacion(base, [...newMessages, respuesta]);
     }
-  }, [input, isStreaming, messages, calculatorContext]);
+  }, [input, isStreaming, messages, conversacion, calculatorContext, guardarConversacion]);
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
@@ -144,69 +246,119 @@ export default function ChatBot({ calculatorContext }: ChatBotProps) {
         <div className="flex items-center justify-between px-4 py-3 bg-gradient-to-r from-[#5B21B6] to-[#7C3AED] flex-shrink-0">
           <div>
             <h2 className="text-white font-semibold text-sm">Asistente IP-ROAS</h2>
-            <p className="text-purple-200 text-xs">SaleADS.ai</p>
+            <p className="text-purple-200 text-xs truncate max-w-[180px]">{conversacion?.titulo ?? 'SaleADS.ai'}</p>
           </div>
-          <button
-            onClick={() => setIsOpen(false)}
-            className="text-white/80 hover:text-white transition"
-            aria-label="Cerrar chat"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              className="h-5 w-5"
-              fill="none"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
-              strokeWidth={2}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              disabled={isStreaming}
+              className={`text-xs transition disabled:opacity-50 ${showHistory ? 'text-white' : 'text-white/80 hover:text-white'}`}
             >
-              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+              Historial
+            </button>
+            <button
+              onClick={handleNew}
+              disabled={isStreaming || messages.length === 0}
+              className="text-xs text-white/80 hover:text-white disabled:opacity-50 transition"
+            >
+              Nueva
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={isStreaming || !conversacion}
+              className="text-xs text-white/80 hover:text-white disabled:opacity-50 transition"
+              title="Exportar conversaci&oacute;n como Markdown"
+            >
+              Exportar
+            </button>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="text-white/80 hover:text-white transition"
+              aria-label="Cerrar chat"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                strokeWidth={2}
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
         </div>
 
         {/* Messages */}
         <div className="flex-1 overflow-y-auto px-4 py-4">
-          {messages.length === 0 && (
-            <div className="text-center text-slate-500 text-sm mt-8 space-y-3">
-              <div className="w-12 h-12 mx-auto rounded-full bg-gradient-to-br from-[#5B21B6] to-[#7C3AED] flex items-center justify-center">
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-6 w-6 text-white"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                  strokeWidth={2}
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
-                  />
-                </svg>
-              </div>
-              <p className="font-medium text-slate-400">Asistente IP-ROAS</p>
-              <p>Preg&uacute;ntame sobre tus m&eacute;tricas, c&oacute;mo usar la calculadora o qu&eacute; significan tus resultados.</p>
-            </div>
-          )}
-          {messages.map((msg, i) => (
-            <ChatMessage key={i} role={msg.role} content={msg.content} />
-          ))}
-          {isStreaming && messages[messages.length - 1]?.content === '' && (
-            <div className="flex justify-start mb-3">
-              <div className="bg-[#1e1e2e] border border-slate-700 rounded-2xl rounded-bl-md px-4 py-3">
-                <div className="flex gap-1">
-                  <span className="w-2 h-2 bg-[#7C3AED] rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
-                  <span className="w-2 h-2 bg-[#7C3AED] rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
-                  <span className="w-2 h-2 bg-[#7C3AED] rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+          {showHistory ? (
+            <ChatHistory
+              conversaciones={conversaciones}
+              actualId={conversacion?.id ?? null}
+              onOpen={handleOpen}
+              onDelete={handleDelete}
+            />
+          ) : (
+            <>
+              {messages.length === 0 && (
+                <div className="text-center text-slate-500 text-sm mt-8 space-y-3">
+                  <div className="w-12 h-12 mx-auto rounded-full bg-gradient-to-br from-[#5B21B6] to-[#7C3AED] flex items-center justify-center">
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-6 w-6 text-white"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={2}
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
+                      />
+                    </svg>
+                  </div>
+                  <p className="font-medium text-slate-400">Asistente IP-ROAS</p>
+                  <p>Preg&uacute;ntame sobre tus m&eacute;tricas, c&oacute;mo usar la calculadora o qu&eacute; significan tus resultados.</p>
+                </div>
+              )}
+              {messages.map((msg, i) => (
+                <div key={i}>
+                  <ChatMessage role={msg.role} content={msg.content} />
+                  {msg.propuestas?.map((propuesta, j) => (
+                    <ChatActionProposal
+                      key={j}
+                      propuesta={propuesta}
+                      moneda={moneda}
+                      onPreview={onPreviewActions}
+                      onApply={onApplyActions}
+                    />
+                  ))}
+                </div>
+              ))}
+              {isStreaming && messages[messages.length - 1]?.content === '' && (
+                <div className="flex justify-start mb-3">
+                  <div className="bg-[#1e1e2e] border border-slate-700 rounded-2xl rounded-bl-md px-4 py-3">
+                    <div className="flex gap-1">
+                      <span className="w-2 h-2 bg-[#7C3AED] rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
+                      <span className="w-2 h-2 bg-[#7C3AED] rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
+                      <span className="w-2 h-2 bg-[#7C3AED] rounded-full animate-bounce" style={{ animationDelay: '300ms' }} />
+                    </div>
+                    {herramienta && (
+                      <p className="mt-2 text-xs text-slate-400">{HERRAMIENTA_LABELS[herramienta] ?? 'Consultando la calculadora...'}</p>
+                    )}
+                  </div>
                 </div>
-              </div>
-            </div>
+              )}
+            </>
           )}
           <div ref={messagesEndRef} />
         </div>
 
         {/* Input */}
         <div className="flex-shrink-0 border-t border-slate-700 px-4 py-3 bg-[#0f0f23]">
+          {avisoGuardado && <p className="mb-2 text-xs text-red-400">{avisoGuardado}</p>}
           <div className="flex gap-2">
             <textarea
               ref={inputRef}
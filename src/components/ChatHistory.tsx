@@ -0,0 +1,43 @@
+'use client';
+
+import type { Conversacion } from '@/lib/chat-history';
+
+interface ChatHistoryProps {
+  conversaciones: Conversacion[];
+  actualId: string | null;
+  onOpen: (conversacion: Conversacion) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ChatHistory({ conversaciones, actualId, onOpen, onDelete }: ChatHistoryProps) {
+  if (conversaciones.length === 0) {
+    return <p className="text-center text-slate-500 text-sm mt-8">A&uacute;n no hay conversaciones guardadas.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {conversaciones.map((c) => (
+        <li
+          key={c.id}
+          className={`flex items-start gap-2 rounded-lg border px-3 py-2 ${
+            c.id === actualId ? 'border-[#7C3AED] bg-[#1a1a2e]' : 'border-slate-700 hover:bg-[#1a1a2e]'
+          } transition`}
+        >
+          <button onClick={() => onOpen(c)} className="flex-1 min-w-0 text-left">
+            <p className="truncate text-sm text-slate-200">{c.titulo}</p>
+            <p className="text-xs text-slate-500">
+              {new Date(c.actualizadoEn).toLocaleString('es')} &middot; {c.mensajes.length} mensajes
+            </p>
+          </button>
+          <button
+            onClick={() => onDelete(c.id)}
+            className="text-slate-500 hover:text-red-400 text-xs transition"
+            aria-label={`Eliminar conversación ${c.titulo}`}
+          >
+            &#x2715;
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
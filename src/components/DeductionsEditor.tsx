@@ -0,0 +1,90 @@
+'use client';
+
+import type { Deduccion, Moneda } from '@/types/roas';
+import { DEDUCCIONES_SUGERIDAS } from '@/types/roas';
+
+interface DeductionsEditorProps {
+  deducciones: Deduccion[];
+  moneda: Moneda;
+  onChange: (deducciones: Deduccion[]) => void;
+}
+
+/**
+ * Editable list of per-unit deductions with one-click presets. Percentages
+ * are typed as 0-100 and stored as decimals of precio, like margenBruto.
+ */
+export default function DeductionsEditor({ deducciones, moneda, onChange }: DeductionsEditorProps) {
+  const actualizar = (index: number, cambios: Partial<Deduccion>) => {
+    onChange(deducciones.map((d, i) => (i === index ? { ...d, ...cambios } : d)));
+  };
+
+  const quitar = (index: number) => {
+    onChange(deducciones.filter((_, i) => i !== index));
+  };
+
+  const sugeridas = DEDUCCIONES_SUGERIDAS.filter((s) => !deducciones.some((d) => d.concepto === s.concepto));
+
+  return (
+    <div className="space-y-2">
+      {deducciones.length > 0 && (
+        <ul className="space-y-1">
+          {deducciones.map((d, i) => (
+            <li key={i} className="flex items-center gap-1 text-sm">
+              <input
+                type="text"
+                value={d.concepto}
+                onChange={(e) => actualizar(i, { concepto: e.target.value })}
+                onBlur={() => d.concepto.trim() === '' && actualizar(i, { concepto: 'Deducción' })}
+                aria-label="Concepto"
+                className="flex-1 min-w-0 bg-[#0f0f23] border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition"
+              />
+              <input
+                type="number"
+                min={0}
+                max={d.tipo === 'porcentaje' ? 100 : undefined}
+                step="any"
+                value={d.tipo === 'porcentaje' ? +(d.valor * 100).toFixed(4) : d.valor}
+                onChange={(e) => {
+                  const n = Math.max(0, Number(e.target.value));
+                  actualizar(i, { valor: d.tipo === 'porcentaje' ? Math.min(n, 100) / 100 : n });
+                }}
+                aria-label="Valor"
+                className="w-20 bg-[#0f0f23] border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition"
+              />
+              <select
+                value={d.tipo}
+                onChange={(e) => actualizar(i, { tipo: e.target.value as Deduccion['tipo'], valor: 0 })}
+                aria-label="Tipo"
+                className="w-16 bg-[#0f0f23] border border-slate-700 rounded-lg px-1 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition"
+              >
+                <option value="porcentaje">%</option>
+                <option value="fijo">{moneda}</option>
+              </select>
+              <button onClick={() => quitar(i)} className="text-red-400 hover:text-red-300 text-xs" aria-label="Quitar">
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {sugeridas.map((s) => (
+          <button
+            key={s.concepto}
+            onClick={() => onChange([...deducciones, s])}
+            className="text-xs border border-slate-600 text-slate-300 hover:border-[#a78bfa] hover:text-[#a78bfa] px-2 py-1 rounded-lg transition"
+          >
+            + {s.concepto}
+          </button>
+        ))}
+        <button
+          onClick={() => onChange([...deducciones, { concepto: 'Otra deducción', tipo: 'porcentaje', valor: 0 }])}
+          className="text-xs border border-slate-600 text-slate-300 hover:border-[#a78bfa] hover:text-[#a78bfa] px-2 py-1 rounded-lg transition"
+        >
+          + Otra
+        </button>
+      </div>
+    </div>
+  );
+}
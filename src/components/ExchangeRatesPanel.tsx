@@ -0,0 +1,167 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { Moneda, TablaTasas } from '@/types/roas';
+import { MONEDAS_COMUNES, esCodigoMoneda, parseTasasCSV } from '@/lib/currency';
+import type { FilaOmitida } from '@/lib/csv';
+
+interface ExchangeRatesPanelProps {
+  moneda: Moneda;
+  tasas: TablaTasas;
+  sinTasa: Moneda[];
+  onMonedaChange: (moneda: Moneda) => void;
+  onTasasChange: (tasas: TablaTasas) => void;
+}
+
+export default function ExchangeRatesPanel({
+  moneda,
+  tasas,
+  sinTasa,
+  onMonedaChange,
+  onTasasChange,
+}: ExchangeRatesPanelProps) {
+  const [nuevoCodigo, setNuevoCodigo] = useState('');
+  const [nuevaTasa, setNuevaTasa] = useState('');
+  const [omitidas, setOmitidas] = useState<FilaOmitida[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const monedas = Array.from(new Set([...MONEDAS_COMUNES, tasas.base, moneda, ...Object.keys(tasas.tasas)]));
+
+  const setTasa = (codigo: Moneda, valor: number) => {
+    onTasasChange({ ...tasas, tasas: { ...tasas.tasas, [codigo]: valor } });
+  };
+
+  const sinCodigo = (registro: Record<Moneda, number>, codigo: Moneda) =>
+    Object.fromEntries(Object.entries(registro).filter(([k]) => k !== codigo));
+
+  const removeTasa = (codigo: Moneda) => {
+    onTasasChange({ ...tasas, tasas: sinCodigo(tasas.tasas, codigo) });
+  };
+
+  const handleAdd = () => {
+    const codigo = nuevoCodigo.trim().toUpperCase();
+    const valor = parseFloat(nuevaTasa);
+    if (!esCodigoMoneda(codigo) || codigo === tasas.base || !(valor > 0)) return;
+    setTasa(codigo, valor);
+    setNuevoCodigo('');
+    setNuevaTasa('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    const importadas = parseTasasCSV(await file.text());
+    onTasasChange({ ...tasas, tasas: { ...tasas.tasas, ...sinCodigo(importadas.tasas, tasas.base) } });
+    setOmitidas(importadas.omitidas);
+  };
+
+  const inputClass =
+    'w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div className="bg-[#1a1a2e] rounded-xl p-5 space-y-3">
+      <h2 className="text-lg font-semibold text-slate-200">Monedas</h2>
+
+      <div>
+        <label className="block text-sm text-[#a78bfa] font-medium mb-1">Moneda de reporte</label>
+        <select value={moneda} onChange={(e) => onMonedaChange(e.target.value)} className={inputClass}>
+          {monedas.map((m) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">IP, TF, IE y todos los resultados se expresan en esta moneda.</p>
+      </div>
+
+      <div>
+        <label className="block text-sm text-[#a78bfa] font-medium mb-1">Tasas de cambio (por 1 {tasas.base})</label>
+        <select
+          value={tasas.base}
+          onChange={(e) => onTasasChange({ base: e.target.value, tasas: {} })}
+          className={`${inputClass} mb-2`}
+          aria-label="Moneda base"
+        >
+          {monedas.map((m) => (
+            <option key={m} value={m}>
+              Base: {m}
+            </option>
+          ))}
+        </select>
+        {Object.keys(tasas.tasas).length === 0 ? (
+          <p className="text-xs text-slate-500">Sin tasas. Agregue una o cargue un archivo moneda,tasa.</p>
+        ) : (
+          <ul className="space-y-1">
+            {Object.entries(tasas.tasas).map(([codigo, valor]) => (
+              <li key={codigo} className="flex items-center gap-2 text-sm">
+                <span className="w-12 text-slate-300">{codigo}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={valor}
+                  onChange={(e) => Number(e.target.value) > 0 && setTasa(codigo, Number(e.target.value))}
+                  className="flex-1 min-w-0 bg-[#0f0f23] border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition"
+                />
+                <button onClick={() => removeTasa(codigo)} className="text-red-400 hover:text-red-300 text-xs">
+                  Quitar
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          maxLength={3}
+          value={nuevoCodigo}
+          onChange={(e) => setNuevoCodigo(e.target.value)}
+          placeholder="MXN"
+          className="w-20 bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white uppercase focus:outline-none focus:border-[#a78bfa] transition"
+        />
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={nuevaTasa}
+          onChange={(e) => setNuevaTasa(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Tasa"
+          className="flex-1 min-w-0 bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+        />
+        <button
+          onClick={handleAdd}
+          className="bg-[#a78bfa] hover:bg-[#8b5cf6] text-white font-medium px-3 rounded-lg transition"
+        >
+          +
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.txt"
+        onChange={handleFile}
+        className="w-full text-sm text-slate-400 file:mr-3 file:py-1.5 file:px-3 file:rounded-lg file:border-0 file:bg-[#a78bfa] file:text-white file:font-medium file:cursor-pointer hover:file:bg-[#8b5cf6] transition"
+      />
+      {omitidas.length > 0 && (
+        <ul className="max-h-24 overflow-y-auto text-xs text-orange-200/80 space-y-0.5">
+          {omitidas.map((o) => (
+            <li key={o.fila}>
+              Fila {o.fila}: {o.motivo}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {sinTasa.length > 0 && (
+        <p className="rounded-lg border border-[#f97316] bg-[#f97316]/10 p-2 text-xs text-orange-200">
+          Falta la tasa de {sinTasa.join(', ')}. Los productos en esa moneda no se incluyen en los c&aacute;lculos.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { HojaImportada } from '@/lib/spreadsheet-import';
+import {
+  CAMPOS_PRODUCTO,
+  aplicarMapeo,
+  mapeoCompleto,
+  sugerirMapeo,
+  type CampoProducto,
+  type MapeoColumnas,
+  type MapeosRecordados,
+  type ResultadoImportacion,
+} from '@/lib/column-mapping';
+
+interface ImportWizardProps {
+  archivo: string;
+  hojas: HojaImportada[];
+  recordados: MapeosRecordados;
+  onConfirm: (resultado: ResultadoImportacion, headers: string[], mapeo: MapeoColumnas) => void;
+  onCancel: () => void;
+}
+
+const CAMPO_LABELS: Record<CampoProducto, string> = {
+  nombre: 'Nombre',
+  precio: 'Precio',
+  margen: 'Margen bruto',
+  participacion: 'Participación (opcional)',
+  moneda: 'Moneda (opcional)',
+  sku: 'SKU (opcional)',
+  categoria: 'Categoría (opcional)',
+  en_campana: 'En campaña (opcional, si/no)',
+  deducciones: 'Deducciones (opcional, ej. IVA 16%; Envío 25)',
+};
+
+const PREVIEW_ROWS = 8;
+
+export default function ImportWizard({ archivo, hojas, recordados, onConfirm, onCancel }: ImportWizardProps) {
+  const [hojaIndex, setHojaIndex] = useState(() => Math.max(0, hojas.findIndex((h) => h.tabla.filas.length > 0)));
+  const hoja = hojas[hojaIndex];
+  const [mapeo, setMapeo] = useState<MapeoColumnas>(() => sugerirMapeo(hoja.tabla.headers, recordados));
+
+  const resultado = useMemo(
+    () => (mapeoCompleto(mapeo) ? aplicarMapeo(hoja.tabla, mapeo) : null),
+    [hoja, mapeo]
+  );
+
+  const handleSheetChange = (index: number) => {
+    setHojaIndex(index);
+    setMapeo(sugerirMapeo(hojas[index].tabla.headers, recordados));
+  };
+
+  const selectClass =
+    'w-full bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4">
+      <div className="bg-[#1a1a2e] rounded-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-5">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-200">Importar cat&aacute;logo</h2>
+          <p className="text-xs text-slate-500 truncate">{archivo}</p>
+        </div>
+
+        {hojas.length > 1 && (
+          <div>
+            <label className="block text-sm text-[#a78bfa] font-medium mb-1">Hoja</label>
+            <select value={hojaIndex} onChange={(e) => handleSheetChange(Number(e.target.value))} className={selectClass}>
+              {hojas.map((h, i) => (
+                <option key={i} value={i}>
+                  {h.nombre} ({h.tabla.filas.length} filas)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {CAMPOS_PRODUCTO.map((campo) => (
+            <div key={campo}>
+              <label className="block text-sm text-[#a78bfa] font-medium mb-1">{CAMPO_LABELS[campo]}</label>
+              <select
+                value={mapeo[campo] ?? ''}
+                onChange={(e) =>
+                  setMapeo((prev) => ({ ...prev, [campo]: e.target.value === '' ? null : Number(e.target.value) }))
+                }
+                className={selectClass}
+              >
+                <option value="">{campo === 'nombre' ? '(generar P1, P2...)' : '(sin asignar)'}</option>
+                {hoja.tabla.headers.map((h, i) => (
+                  <option key={i} value={i}>
+                    {h || `Columna ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {!resultado ? (
+          <p className="text-sm text-slate-500">Asigne las columnas de precio y margen para ver la vista previa.</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-slate-300">
+              {resultado.productos.length} productos
+              {resultado.omitidas.length > 0 && (
+                <span className="text-orange-300"> &middot; {resultado.omitidas.length} filas omitidas</span>
+              )}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-slate-400 border-b border-slate-700">
+                    <th className="pb-2 pr-3">Nombre</th>
+                    <th className="pb-2 pr-3">Precio</th>
+                    <th className="pb-2">Margen %</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {resultado.productos.slice(0, PREVIEW_ROWS).map((p, i) => (
+                    <tr key={i} className="border-b border-slate-800">
+                      <td className="py-1.5 pr-3">{p.nombre}</td>
+                      <td className="py-1.5 pr-3">{p.precio.toLocaleString('en-US')}</td>
+                      <td className="py-1.5">{(p.margenBruto * 100).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {resultado.omitidas.length > 0 && (
+              <ul className="max-h-24 overflow-y-auto text-xs text-orange-200/80 space-y-0.5">
+                {resultado.omitidas.slice(0, 20).map((o) => (
+                  <li key={o.fila}>
+                    Fila {o.fila}: {o.motivo}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button onClick={onCancel} className="px-4 py-2 text-sm text-slate-400 hover:text-white transition">
+            Cancelar
+          </button>
+          <button
+            onClick={() => resultado && onConfirm(resultado, hoja.tabla.headers, mapeo)}
+            disabled={!resultado || resultado.productos.length === 0}
+            className="px-4 py-2 text-sm bg-[#a78bfa] hover:bg-[#8b5cf6] text-white font-medium rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Reemplazar portafolio
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
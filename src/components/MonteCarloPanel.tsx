@@ -0,0 +1,352 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip } from 'recharts';
+import type { Distribucion, Moneda, ParametrosCliente } from '@/types/roas';
+import { formatCurrency, formatNumber } from '@/lib/format';
+import type { ValidationError } from '@/lib/validation';
+import {
+  ITERACIONES_DEFECTO,
+  ITERACIONES_MAX,
+  METRICAS_SIMULACION,
+  PERCENTILES,
+  TIPOS_DISTRIBUCION,
+  VARIABLES_SIMULACION,
+  atenderSolicitud,
+  conEntradasActuales,
+  convertirDistribucion,
+  distribucionesPorDefecto,
+  esEntradaCalculadora,
+  type ConfigSimulacion,
+  type MetricaSimulacion,
+  type RespuestaSimulacion,
+  type ResultadoSimulacion,
+  type SolicitudSimulacion,
+  type VariableSimulacion,
+} from '@/lib/monte-carlo';
+
+interface MonteCarloPanelProps {
+  params: ParametrosCliente;
+  /** null until edited: every input fixed at its current value */
+  config: ConfigSimulacion | null;
+  moneda: Moneda;
+  onConfigChange: (config: ConfigSimulacion) => void;
+}
+
+/** Numeric fields of each distribution type, in display order */
+const CAMPOS_DISTRIBUCION: Record<Distribucion['tipo'], { key: string; label: string }[]> = {
+  fijo: [{ key: 'valor', label: 'Valor' }],
+  uniforme: [
+    { key: 'min', label: 'Mín.' },
+    { key: 'max', label: 'Máx.' },
+  ],
+  triangular: [
+    { key: 'min', label: 'Mín.' },
+    { key: 'moda', label: 'Moda' },
+    { key: 'max', label: 'Máx.' },
+  ],
+  normal: [
+    { key: 'media', label: 'Media' },
+    { key: 'desviacion', label: 'Desv.' },
+  ],
+};
+
+export default function MonteCarloPanel({ params, config, moneda, onConfigChange }: MonteCarloPanelProps) {
+  const actual = useMemo<ConfigSimulacion>(
+    () =>
+      conEntradasActuales(
+        config ?? { iteraciones: ITERACIONES_DEFECTO, semilla: 42, distribuciones: distribucionesPorDefecto(params) },
+        params
+      ),
+    [config, params]
+  );
+  const [resultado, setResultado] = useState<ResultadoSimulacion | null>(null);
+  const [errores, setErrores] = useState<ValidationError[]>([]);
+  const [simulando, setSimulando] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const ultimaSolicitudRef = useRef(0);
+  const enCursoRef = useRef<SolicitudSimulacion | null>(null); // Posted to the worker, not answered yet
+
+  const recibir = useCallback((respuesta: RespuestaSimulacion) => {
+    if (respuesta.id !== ultimaSolicitudRef.current) return; // Superseded run
+    setSimulando(false);
+    if (respuesta.ok) {
+      setResultado(respuesta.resultado);
+      setErrores([]);
+    } else {
+      setErrores(respuesta.errores);
+    }
+  }, []);
+
+  /** Runs the simulation on the main thread: without Web Workers, or after the worker failed */
+  const simularAqui = useCallback(
+    (solicitud: SolicitudSimulacion) => {
+      try {
+        recibir(atenderSolicitud(solicitud));
+      } catch {
+        recibir({
+          id: solicitud.id,
+          ok: false,
+          errores: [{ campo: 'simulacion', mensaje: 'No se pudo completar la simulación' }],
+        });
+      }
+    },
+    [recibir]
+  );
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const worker = new Worker(new URL('../lib/monte-carlo.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<RespuestaSimulacion>) => {
+      enCursoRef.current = null;
+      recibir(event.data);
+    };
+    // A failed worker is dropped for good; the pending run is retried inline
+    const fallar = (event: Event) => {
+      event.preventDefault();
+      worker.terminate();
+      workerRef.current = null;
+      const pendiente = enCursoRef.current;
+      enCursoRef.current = null;
+      if (pendiente) simularAqui(pendiente);
+    };
+    worker.onerror = fallar;
+    worker.onmessageerror = fallar;
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [recibir, simularAqui]);
+
+  const handleSimular = () => {
+    const solicitud = { id: ++ultimaSolicitudRef.current, params, config: actual };
+    setSimulando(true);
+    if (workerRef.current) {
+      enCursoRef.current = solicitud;
+      workerRef.current.postMessage(solicitud);
+    } else {
+      simularAqui(solicitud);
+    }
+  };
+
+  const setDistribucion = (variable: VariableSimulacion, dist: Distribucion) => {
+    onConfigChange({ ...actual, distribuciones: { ...actual.distribuciones, [variable]: dist } });
+  };
+
+  const formatoMetrica = (metrica: MetricaSimulacion, v: number) =>
+    metrica === 'ipRoas'
+      ? formatNumber(v)
+      : metrica === 'vum'
+        ? `${Math.round(v).toLocaleString('en-US')} u.`
+        : formatCurrency(v, moneda);
+
+  const inputClass =
+    'bg-[#0f0f23] border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-200">Simulaci&oacute;n de Riesgo (Monte Carlo)</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Asigne una distribuci&oacute;n a cada entrada incierta. Precio y margen son factores sobre los valores
+          actuales de todos los productos (1 = sin cambio). La misma semilla siempre da el mismo resultado.
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <tbody>
+            {VARIABLES_SIMULACION.map(({ variable, label }) => {
+              const dist = actual.distribuciones[variable];
+              const campos = CAMPOS_DISTRIBUCION[dist.tipo];
+              // A fixed IP, TF or IE always uses the value set in the sidebar
+              const vinculado = dist.tipo === 'fijo' && esEntradaCalculadora(variable);
+              const error = errores.find((e) => e.campo === `distribuciones.${variable}`);
+              return (
+                <tr key={variable} className="border-b border-slate-800">
+                  <td className="py-2 pr-3 text-slate-300 whitespace-nowrap">{label}</td>
+                  <td className="py-2 pr-3">
+                    <select
+                      value={dist.tipo}
+                      onChange={(e) =>
+                        setDistribucion(variable, convertirDistribucion(dist, e.target.value as Distribucion['tipo']))
+                      }
+                      className={inputClass}
+                      aria-label={`Distribución de ${label}`}
+                    >
+                      {TIPOS_DISTRIBUCION.map((t) => (
+                        <option key={t.value} value={t.value}>
+                          {t.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {campos.map((c) => (
+                        <label key={c.key} className="flex items-center gap-1 text-xs text-slate-400">
+                          {c.label}
+                          <input
+                            type="number"
+                            step="any"
+                            value={(dist as unknown as Record<string, number>)[c.key]}
+                            onChange={(e) => setDistribucion(variable, { ...dist, [c.key]: Number(e.target.value) })}
+                            disabled={vinculado}
+                            title={vinculado ? 'Valor actual de la calculadora' : undefined}
+                            className={`w-28 ${inputClass} disabled:opacity-60`}
+                          />
+                        </label>
+                      ))}
+                      {error && <span className="text-xs text-red-400">{error.mensaje}</span>}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm text-[#a78bfa] font-medium mb-1">Iteraciones</label>
+          <input
+            type="number"
+            min={1}
+            max={ITERACIONES_MAX}
+            step={1000}
+            value={actual.iteraciones}
+            onChange={(e) => onConfigChange({ ...actual, iteraciones: Math.round(Number(e.target.value)) })}
+            className={`w-28 ${inputClass} py-2`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-[#a78bfa] font-medium mb-1">Semilla</label>
+          <input
+            type="number"
+            step={1}
+            value={actual.semilla}
+            onChange={(e) => onConfigChange({ ...actual, semilla: Math.round(Number(e.target.value)) })}
+            className={`w-28 ${inputClass} py-2`}
+          />
+        </div>
+        <button
+          onClick={handleSimular}
+          disabled={simulando || params.productos.length === 0}
+          className="bg-[#a78bfa] hover:bg-[#8b5cf6] text-white font-medium px-4 py-2 rounded-lg transition disabled:opacity-50"
+        >
+          {simulando ? 'Simulando...' : 'Simular'}
+        </button>
+        {errores
+          .filter((e) => !e.campo.startsWith('distribuciones.'))
+          .map((e) => (
+            <span key={e.campo} className="pb-2 text-xs text-red-400">
+              {e.campo}: {e.mensaje}
+            </span>
+          ))}
+      </div>
+
+      {params.productos.length === 0 && (
+        <p className="text-slate-500 text-sm">Agregue productos para simular VUM y CPR.</p>
+      )}
+
+      {resultado && (
+        <div className="space-y-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-400 border-b border-slate-700">
+                  <th className="pb-2 pr-3">M&eacute;trica</th>
+                  <th className="pb-2 pr-3">Actual</th>
+                  <th className="pb-2 pr-3">Media</th>
+                  {PERCENTILES.map((p) => (
+                    <th key={p} className="pb-2 pr-3">
+                      P{p}
+                    </th>
+                  ))}
+                  <th className="pb-2 pr-3" title="Proporción de simulaciones que no superan el valor actual">
+                    P(&le; actual)
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {METRICAS_SIMULACION.map(({ metrica, label }) => {
+                  const resumen = resultado.metricas[metrica];
+                  return (
+                    <tr key={metrica} className="border-b border-slate-800">
+                      <td className="py-2 pr-3 text-slate-300">{label}</td>
+                      <td className="py-2 pr-3 text-[#a78bfa]">{formatoMetrica(metrica, resultado.base[metrica])}</td>
+                      {resumen ? (
+                        <>
+                          <td className="py-2 pr-3">{formatoMetrica(metrica, resumen.media)}</td>
+                          {PERCENTILES.map((p) => (
+                            <td key={p} className="py-2 pr-3">
+                              {formatoMetrica(metrica, resumen.percentiles[p])}
+                            </td>
+                          ))}
+                          <td className="py-2 pr-3">{(resumen.probHastaBase * 100).toFixed(1)}%</td>
+                        </>
+                      ) : (
+                        <td colSpan={PERCENTILES.length + 2} className="py-2 pr-3 text-slate-500">
+                          Sin simulaciones v&aacute;lidas
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {METRICAS_SIMULACION.some(({ metrica }) => (resultado.metricas[metrica]?.descartadas ?? 0) > 0) && (
+              <p className="text-xs text-slate-500 mt-2">
+                Se descartan las simulaciones sin margen positivo (no hay punto de equilibrio) o con IP = 0.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
+            {METRICAS_SIMULACION.map(({ metrica, label }) => {
+              const resumen = resultado.metricas[metrica];
+              if (!resumen) return null;
+              const data = resumen.histograma.map((c) => ({ centro: (c.desde + c.hasta) / 2, ...c }));
+              return (
+                <div key={metrica} className="bg-[#0f0f23] rounded-lg p-3">
+                  <h4 className="text-sm font-semibold text-slate-300 mb-2">{label}</h4>
+                  <div className="w-full h-[200px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={data} margin={{ top: 5, right: 5, left: 0, bottom: 5 }}>
+                        <XAxis
+                          dataKey="centro"
+                          stroke="#94a3b8"
+                          tick={{ fill: '#94a3b8', fontSize: 10 }}
+                          tickFormatter={(v: number) => formatoMetrica(metrica, v)}
+                          minTickGap={20}
+                        />
+                        <YAxis stroke="#94a3b8" tick={{ fill: '#94a3b8', fontSize: 10 }} width={40} />
+                        <Tooltip
+                          contentStyle={{
+                            backgroundColor: '#1a1a2e',
+                            border: '1px solid #333',
+                            borderRadius: '8px',
+                            color: '#e2e8f0',
+                            fontSize: '12px',
+                          }}
+                          labelFormatter={(_, payload) => {
+                            const c = payload?.[0]?.payload as { desde: number; hasta: number } | undefined;
+                            return c ? `${formatoMetrica(metrica, c.desde)} – ${formatoMetrica(metrica, c.hasta)}` : '';
+                          }}
+                          formatter={(value) => [Number(value).toLocaleString('en-US'), 'Simulaciones']}
+                        />
+                        <Bar dataKey="conteo" fill="#a78bfa" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import type { MesPlan, Moneda, ParametrosCliente } from '@/types/roas';
+import { formatCurrency, formatCurrencyTick, formatNumber } from '@/lib/format';
+import {
+  CAMPOS_MES,
+  MESES_PLAN_DEFECTO,
+  MESES_PLAN_MAX,
+  MESES_PLAN_MIN,
+  aplicarRampa,
+  calcularPlan,
+  copiarHaciaAdelante,
+  redimensionarPlan,
+  repartirPlan,
+  totalesPlan,
+  type CampoMes,
+} from '@/lib/monthly-plan';
+
+interface MonthlyPlannerProps {
+  params: ParametrosCliente;
+  /** null until the user edits it; shown as an even split of the sidebar totals */
+  plan: MesPlan[] | null;
+  moneda: Moneda;
+  onPlanChange: (plan: MesPlan[]) => void;
+}
+
+const SERIES: Record<string, string> = {
+  vumMes: 'VUM del mes',
+  vumAcumulado: 'VUM acumulado (equilibrio)',
+  costosAcumulados: 'Costos acumulados',
+};
+
+export default function MonthlyPlanner({ params, plan, moneda, onPlanChange }: MonthlyPlannerProps) {
+  const meses = useMemo(() => plan ?? repartirPlan(params, MESES_PLAN_DEFECTO), [plan, params]);
+  const filas = useMemo(() => calcularPlan(params, meses), [params, meses]);
+  const totales = totalesPlan(meses);
+  const [rampaCampo, setRampaCampo] = useState<CampoMes>('inversionPublicitaria');
+  const [rampaPct, setRampaPct] = useState('10');
+  const [rampaDesde, setRampaDesde] = useState(0);
+
+  const difiere =
+    Math.abs(totales.inversionPublicitaria - params.inversionPublicitaria) > 0.005 ||
+    Math.abs(totales.tarifaFija - params.tarifaFija) > 0.005 ||
+    Math.abs(totales.ingresoEsperado - params.ingresoEsperado) > 0.005;
+
+  const setValor = (index: number, campo: CampoMes, valor: number) => {
+    onPlanChange(meses.map((m, i) => (i === index ? { ...m, [campo]: Math.max(0, valor) } : m)));
+  };
+
+  const handleRampa = () => {
+    const pct = parseFloat(rampaPct);
+    if (isNaN(pct)) return;
+    onPlanChange(aplicarRampa(meses, rampaCampo, pct / 100, rampaDesde));
+  };
+
+  const chartData = filas.map((f) => ({
+    mes: `Mes ${f.mes}`,
+    vumMes: f.mensual.vum,
+    vumAcumulado: f.acumulado.vum,
+    costosAcumulados: f.acumulado.costosTotales,
+  }));
+
+  const inputClass =
+    'bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition';
+  const cellInputClass =
+    'w-28 bg-[#0f0f23] border border-slate-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-200">Plan Mensual de Campa&ntilde;a</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          Cada mes tiene su propia IP, TF e IE. El VUM acumulado es el punto de equilibrio: unidades que deben venderse
+          hasta ese mes para cubrir los costos acumulados.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm text-[#a78bfa] font-medium mb-1">Meses</label>
+          <input
+            type="number"
+            min={MESES_PLAN_MIN}
+            max={MESES_PLAN_MAX}
+            value={meses.length}
+            onChange={(e) => Number(e.target.value) > 0 && onPlanChange(redimensionarPlan(meses, Number(e.target.value)))}
+            className={`w-24 ${inputClass}`}
+          />
+        </div>
+        <button
+          onClick={() => onPlanChange(repartirPlan(params, meses.length))}
+          className="text-sm border border-[#a78bfa] text-[#a78bfa] hover:bg-[#a78bfa] hover:text-white px-3 py-2 rounded-lg transition"
+        >
+          Repartir IP/TF/IE del panel
+        </button>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="block text-sm text-[#a78bfa] font-medium mb-1">Rampa mensual</label>
+            <select
+              value={rampaCampo}
+              onChange={(e) => setRampaCampo(e.target.value as CampoMes)}
+              className={inputClass}
+              aria-label="Campo de la rampa"
+            >
+              {CAMPOS_MES.map((c) => (
+                <option key={c.campo} value={c.campo}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="number"
+            step={5}
+            value={rampaPct}
+            onChange={(e) => setRampaPct(e.target.value)}
+            className={`w-20 ${inputClass}`}
+            aria-label="Porcentaje mensual"
+          />
+          <span className="pb-2 text-sm text-slate-400">% desde</span>
+          <select
+            value={rampaDesde}
+            onChange={(e) => setRampaDesde(Number(e.target.value))}
+            className={inputClass}
+            aria-label="Mes inicial de la rampa"
+          >
+            {meses.map((_, i) => (
+              <option key={i} value={i}>
+                Mes {i + 1}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleRampa}
+            className="bg-[#a78bfa] hover:bg-[#8b5cf6] text-white text-sm font-medium px-3 py-2 rounded-lg transition"
+          >
+            Aplicar
+          </button>
+        </div>
+      </div>
+
+      {difiere && (
+        <p className="rounded-lg border border-[#f97316] bg-[#f97316]/10 p-2 text-xs text-orange-200">
+          Los totales del plan (IP {formatCurrency(totales.inversionPublicitaria, moneda)}, TF{' '}
+          {formatCurrency(totales.tarifaFija, moneda)}, IE {formatCurrency(totales.ingresoEsperado, moneda)}) no
+          coinciden con los par&aacute;metros del panel lateral.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="pb-2 pr-3">Mes</th>
+              {CAMPOS_MES.map((c) => (
+                <th key={c.campo} className="pb-2 pr-3">
+                  {c.label}
+                </th>
+              ))}
+              <th className="pb-2 pr-3">IP-ROAS</th>
+              <th className="pb-2 pr-3">VUM</th>
+              <th className="pb-2 pr-3">CPR</th>
+              <th className="pb-2 pr-3">IP-ROAS acum.</th>
+              <th className="pb-2 pr-3">VUM acum.</th>
+              <th className="pb-2 pr-3">CPR acum.</th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {filas.map((f, i) => (
+              <tr key={f.mes} className="border-b border-slate-800">
+                <td className="py-2 pr-3 text-slate-300">{f.mes}</td>
+                {CAMPOS_MES.map((c) => (
+                  <td key={c.campo} className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min={0}
+                      step={500}
+                      value={+f.entrada[c.campo].toFixed(2)}
+                      onChange={(e) => setValor(i, c.campo, Number(e.target.value))}
+                      aria-label={`${c.label} mes ${f.mes}`}
+                      className={cellInputClass}
+                    />
+                  </td>
+                ))}
+                <td className="py-2 pr-3">{formatNumber(f.mensual.ipRoas)}</td>
+                <td className="py-2 pr-3">{f.mensual.vum.toLocaleString('en-US')}</td>
+                <td className="py-2 pr-3">{formatCurrency(f.mensual.cprEstimado, moneda)}</td>
+                <td className="py-2 pr-3 text-[#a78bfa]">{formatNumber(f.acumulado.ipRoas)}</td>
+                <td className="py-2 pr-3 text-[#a78bfa]">{f.acumulado.vum.toLocaleString('en-US')}</td>
+                <td className="py-2 pr-3 text-[#a78bfa]">{formatCurrency(f.acumulado.cprEstimado, moneda)}</td>
+                <td className="py-2">
+                  {i < filas.length - 1 && (
+                    <button
+                      onClick={() => onPlanChange(copiarHaciaAdelante(meses, i))}
+                      className="text-xs text-slate-400 hover:text-[#a78bfa] whitespace-nowrap"
+                      title="Copiar este mes a los siguientes"
+                    >
+                      Copiar &rarr;
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {params.productos.length === 0 ? (
+        <p className="text-slate-500 text-sm">Agregue productos para calcular el VUM y el punto de equilibrio.</p>
+      ) : (
+        <div className="w-full h-[360px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+              <XAxis dataKey="mes" stroke="#94a3b8" tick={{ fill: '#94a3b8', fontSize: 12 }} />
+              <YAxis
+                yAxisId="unidades"
+                stroke="#94a3b8"
+                tick={{ fill: '#94a3b8', fontSize: 12 }}
+                label={{ value: 'Unidades', angle: -90, position: 'insideLeft', fill: '#94a3b8', fontSize: 13 }}
+              />
+              <YAxis
+                yAxisId="costos"
+                orientation="right"
+                stroke="#94a3b8"
+                tick={{ fill: '#94a3b8', fontSize: 12 }}
+                tickFormatter={(v: number) => formatCurrencyTick(v, moneda)}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: '#1a1a2e',
+                  border: '1px solid #333',
+                  borderRadius: '8px',
+                  color: '#e2e8f0',
+                  fontSize: '13px',
+                }}
+                formatter={(value, name) => [
+                  name === 'costosAcumulados'
+                    ? formatCurrency(Number(value), moneda)
+                    : `${Number(value).toLocaleString('en-US')} u.`,
+                  SERIES[String(name)] ?? name,
+                ]}
+              />
+              <Legend
+                verticalAlign="top"
+                formatter={(value: string) => SERIES[value] ?? value}
+                wrapperStyle={{ color: '#94a3b8' }}
+              />
+              <Bar yAxisId="unidades" dataKey="vumMes" fill="#a78bfa" fillOpacity={0.5} />
+              <Line yAxisId="unidades" type="monotone" dataKey="vumAcumulado" stroke="#10b981" strokeWidth={2} />
+              <Line
+                yAxisId="costos"
+                type="monotone"
+                dataKey="costosAcumulados"
+                stroke="#f97316"
+                strokeWidth={2}
+                strokeDasharray="5 3"
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+'use client';
+
+import { useState } from 'react';
+import type { Moneda, Producto } from '@/types/roas';
+import { margenAbsoluto, pesosMezcla } from '@/lib/roas-engine';
+import { formatCurrency } from '@/lib/format';
+import { esNombreDuplicado, moverProducto, nombresDuplicados } from '@/lib/portfolio';
+
+interface PortfolioTableProps {
+  productos: Producto[];
+  moneda: Moneda;
+  sinTasa: Moneda[];
+  margenesNetos: (number | null)[] | null; // Only when some deduction applies
+  /** VUM if each product were sold alone; null when left out for lack of a rate */
+  vumsSolo: (number | null)[];
+  indiceCritico: number; // -1 without a critical product
+  seleccionados: boolean[]; // In the campaign and in the category filter
+  puedeDeshacer: boolean;
+  puedeRehacer: boolean;
+  onChange: (productos: Producto[]) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClear: () => void;
+  onExportCSV: () => void;
+  onExportXLSX: () => void;
+}
+
+interface Edicion {
+  indice: number;
+  nombre: string;
+  precio: string;
+  margen: string; // Percent
+  sku: string;
+  categoria: string;
+}
+
+/** Same rules as the add-product form: a name, a positive price and a margin in (0, 100] */
+function errorEdicion(e: Edicion): string | null {
+  const precio = parseFloat(e.precio);
+  const margen = parseFloat(e.margen);
+  if (!e.nombre.trim()) return 'El nombre no puede estar vacío';
+  if (isNaN(precio) || precio <= 0) return 'El precio debe ser mayor que 0';
+  if (isNaN(margen) || margen <= 0 || margen > 100) return 'El margen debe estar entre 0% y 100%';
+  return null;
+}
+
+export default function PortfolioTable({
+  productos,
+  moneda,
+  sinTasa,
+  margenesNetos,
+  vumsSolo,
+  indiceCritico,
+  seleccionados,
+  puedeDeshacer,
+  puedeRehacer,
+  onChange,
+  onUndo,
+  onRedo,
+  onClear,
+  onExportCSV,
+  onExportXLSX,
+}: PortfolioTableProps) {
+  const [edicion, setEdicion] = useState<Edicion | null>(null);
+  const pesosSeleccion = pesosMezcla(productos.filter((_, i) => seleccionados[i]));
+  let k = 0;
+  const pesos = productos.map((_, i) => (seleccionados[i] ? pesosSeleccion[k++] : null));
+  const duplicados = nombresDuplicados(productos);
+  const vumCritico = indiceCritico >= 0 ? vumsSolo[indiceCritico] : null;
+
+  const iniciarEdicion = (i: number) => {
+    const p = productos[i];
+    setEdicion({
+      indice: i,
+      nombre: p.nombre,
+      precio: String(p.precio),
+      margen: String(Number((p.margenBruto * 100).toFixed(4))),
+      sku: p.sku ?? '',
+      categoria: p.categoria ?? '',
+    });
+  };
+
+  const guardarEdicion = () => {
+    if (!edicion || errorEdicion(edicion)) return;
+    const editado: Producto = {
+      ...productos[edicion.indice],
+      nombre: edicion.nombre.trim(),
+      precio: parseFloat(edicion.precio),
+      margenBruto: parseFloat(edicion.margen) / 100,
+      sku: edicion.sku.trim() || undefined,
+      categoria: edicion.categoria.trim() || undefined,
+    };
+    if (editado.sku === undefined) delete editado.sku;
+    if (editado.categoria === undefined) delete editado.categoria;
+    onChange(productos.map((p, i) => (i === edicion.indice ? editado : p)));
+    setEdicion(null);
+  };
+
+  const alternarCampana = (indice: number) => {
+    onChange(
+      productos.map((p, i) => {
+        if (i !== indice) return p;
+        if (p.enCampana !== false) return { ...p, enCampana: false };
+        const incluido = { ...p };
+        delete incluido.enCampana;
+        return incluido;
+      })
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') guardarEdicion();
+    else if (e.key === 'Escape') setEdicion(null);
+  };
+
+  const mover = (desde: number, hacia: number) => {
+    setEdicion(null);
+    onChange(moverProducto(productos, desde, hacia));
+  };
+
+  const inputClass =
+    'bg-[#0f0f23] border border-slate-700 rounded px-2 py-1 text-white focus:outline-none focus:border-[#a78bfa] transition';
+  const error = edicion && errorEdicion(edicion);
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="pb-2 pr-2" title="Incluido en la campaña">
+                <span className="sr-only">En campa&ntilde;a</span>
+              </th>
+              <th className="pb-2 pr-3">Nombre</th>
+              <th className="pb-2 pr-3">Precio</th>
+              <th className="pb-2 pr-3">Margen %</th>
+              <th className="pb-2 pr-3">Margen $</th>
+              {margenesNetos && <th className="pb-2 pr-3">Margen neto</th>}
+              <th className="pb-2 pr-3">Mix %</th>
+              <th className="pb-2 pr-3" title="Unidades para cubrir los costos si solo se vendiera este producto">
+                VUM solo
+              </th>
+              <th className="pb-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {productos.map((p, i) => {
+              const editando = edicion?.indice === i;
+              const vum = vumsSolo[i];
+              return (
+                <tr key={i} className={`border-b border-slate-800 ${seleccionados[i] ? '' : 'opacity-50'}`}>
+                  <td className="py-2 pr-2">
+                    <input
+                      type="checkbox"
+                      checked={p.enCampana !== false}
+                      onChange={() => alternarCampana(i)}
+                      aria-label={`Incluir ${p.nombre} en la campaña`}
+                      title="Incluido en la campaña"
+                      className="accent-[#a78bfa]"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    {editando ? (
+                      <input
+                        type="text"
+                        value={edicion.nombre}
+                        onChange={(e) => setEdicion({ ...edicion, nombre: e.target.value })}
+                        onKeyDown={handleKeyDown}
+                        autoFocus
+                        aria-label="Nombre"
+                        className={`w-36 ${inputClass}`}
+                      />
+                    ) : (
+                      p.nombre
+                    )}
+                    {i === indiceCritico && <span className="ml-2 text-xs text-[#f97316]">cr&iacute;tico</span>}
+                    {(editando ? esNombreDuplicado(edicion.nombre, productos, i) : duplicados[i]) && (
+                      <span className="ml-2 text-xs text-orange-300" title="Otro producto tiene el mismo nombre">
+                        duplicado
+                      </span>
+                    )}
+                    {sinTasa.includes(p.moneda ?? moneda) && (
+                      <span className="ml-2 text-xs text-orange-300" title="Sin tasa de cambio: no entra en el cálculo">
+                        sin tasa
+                      </span>
+                    )}
+                    {editando ? (
+                      <div className="mt-1 flex gap-1">
+                        <input
+                          type="text"
+                          value={edicion.sku}
+                          onChange={(e) => setEdicion({ ...edicion, sku: e.target.value })}
+                          onKeyDown={handleKeyDown}
+                          placeholder="SKU"
+                          aria-label="SKU"
+                          className={`w-20 text-xs ${inputClass}`}
+                        />
+                        <input
+                          type="text"
+                          value={edicion.categoria}
+                          onChange={(e) => setEdicion({ ...edicion, categoria: e.target.value })}
+                          onKeyDown={handleKeyDown}
+                          placeholder="Categoría"
+                          aria-label="Categoría"
+                          className={`w-24 text-xs ${inputClass}`}
+                        />
+                      </div>
+                    ) : (
+                      (p.sku || p.categoria) && (
+                        <div className="text-xs text-slate-500">
+                          {[p.sku, p.categoria].filter(Boolean).join(' · ')}
+                        </div>
+                      )
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    {editando ? (
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={edicion.precio}
+                        onChange={(e) => setEdicion({ ...edicion, precio: e.target.value })}
+                        onKeyDown={handleKeyDown}
+                        aria-label="Precio"
+                        className={`w-24 ${inputClass}`}
+                      />
+                    ) : (
+                      <>
+                        {formatCurrency(p.precio, p.moneda ?? moneda)}
+                        {p.moneda && p.moneda !== moneda && <span className="ml-1 text-xs text-slate-500">{p.moneda}</span>}
+                      </>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    {editando ? (
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="any"
+                        value={edicion.margen}
+                        onChange={(e) => setEdicion({ ...edicion, margen: e.target.value })}
+                        onKeyDown={handleKeyDown}
+                        aria-label="Margen bruto (%)"
+                        className={`w-20 ${inputClass}`}
+                      />
+                    ) : (
+                      `${(p.margenBruto * 100).toFixed(1)}%`
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">{formatCurrency(margenAbsoluto(p), p.moneda ?? moneda)}</td>
+                  {margenesNetos && (
+                    <td className={`py-2 pr-3 ${(margenesNetos[i] ?? 0) < 0 ? 'text-red-400' : ''}`}>
+                      {margenesNetos[i] === null ? '--' : formatCurrency(margenesNetos[i]!, moneda)}
+                    </td>
+                  )}
+                  <td className="py-2 pr-3">{pesos[i] === null ? '--' : `${(pesos[i]! * 100).toFixed(1)}%`}</td>
+                  <td className="py-2 pr-3 whitespace-nowrap">
+                    {vum === null ? (
+                      '--'
+                    ) : vum === 0 ? (
+                      <span className="text-red-400">Sin margen</span>
+                    ) : (
+                      <>
+                        {vum.toLocaleString('en-US')} u.
+                        {i !== indiceCritico && vumCritico !== null && vumCritico > 0 && (
+                          <span className="ml-1 text-xs text-slate-500" title="Diferencia con el producto crítico">
+                            ({vum - vumCritico > 0 ? '+' : ''}
+                            {(vum - vumCritico).toLocaleString('en-US')})
+                          </span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td className="py-2 whitespace-nowrap text-xs space-x-2">
+                    {editando ? (
+                      <>
+                        <button
+                          onClick={guardarEdicion}
+                          disabled={!!error}
+                          className="text-[#10b981] hover:text-[#34d399] disabled:opacity-50"
+                        >
+                          Guardar
+                        </button>
+                        <button onClick={() => setEdicion(null)} className="text-slate-400 hover:text-white">
+                          Cancelar
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => mover(i, i - 1)}
+                          disabled={i === 0}
+                          className="text-slate-400 hover:text-white disabled:opacity-30"
+                          aria-label="Subir"
+                        >
+                          &uarr;
+                        </button>
+                        <button
+                          onClick={() => mover(i, i + 1)}
+                          disabled={i === productos.length - 1}
+                          className="text-slate-400 hover:text-white disabled:opacity-30"
+                          aria-label="Bajar"
+                        >
+                          &darr;
+                        </button>
+                        <button onClick={() => iniciarEdicion(i)} className="text-[#a78bfa] hover:text-[#c4b5fd]">
+                          Editar
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEdicion(null);
+                            onChange(productos.filter((_, j) => j !== i));
+                          }}
+                          className="text-red-400 hover:text-red-300"
+                        >
+                          Eliminar
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+      <div className="mt-3 flex flex-wrap gap-4">
+        <button
+          onClick={onUndo}
+          disabled={!puedeDeshacer}
+          className="text-sm text-slate-400 hover:text-[#a78bfa] transition disabled:opacity-40 disabled:hover:text-slate-400"
+        >
+          Deshacer
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!puedeRehacer}
+          className="text-sm text-slate-400 hover:text-[#a78bfa] transition disabled:opacity-40 disabled:hover:text-slate-400"
+        >
+          Rehacer
+        </button>
+        <button onClick={onClear} className="text-sm text-slate-400 hover:text-red-400 transition">
+          Limpiar productos
+        </button>
+        <button onClick={onExportCSV} className="text-sm text-slate-400 hover:text-[#a78bfa] transition">
+          Exportar CSV
+        </button>
+        <button onClick={onExportXLSX} className="text-sm text-slate-400 hover:text-[#a78bfa] transition">
+          Exportar Excel (con sensibilidad)
+        </button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { EscenarioGuardado, Moneda, ParametrosCliente, TablaTasas } from '@/types/roas';
+import { calcularTodo } from '@/lib/roas-engine';
+import { compararResultados, type DeltaMetrica } from '@/lib/scenario-store';
+import { convertirParametros } from '@/lib/currency';
+import { formatCurrency, formatNumber } from '@/lib/format';
+
+interface ScenarioComparisonProps {
+  escenarios: EscenarioGuardado[];
+  actual: ParametrosCliente;
+  tasas: TablaTasas;
+}
+
+/** Metrics expressed in units of the scenario's currency */
+const CLAVES_MONETARIAS: DeltaMetrica['clave'][] = ['cprEstimado', 'costosTotales', 'margenMinimoUsado', 'precioProductoMinimo'];
+
+const ACTUAL_ID = '__actual__';
+
+function formatValue(clave: DeltaMetrica['clave'], n: number, moneda?: Moneda): string {
+  if (!isFinite(n)) return '--';
+  if (clave === 'vum') return `${n.toLocaleString()} u.`;
+  if (clave === 'ipRoas' || clave === 'roasMinTradicional') return formatNumber(n);
+  return formatCurrency(n, moneda);
+}
+
+export default function ScenarioComparison({ escenarios, actual, tasas }: ScenarioComparisonProps) {
+  const [aId, setAId] = useState(ACTUAL_ID);
+  const [bId, setBId] = useState(escenarios[0]?.id ?? ACTUAL_ID);
+
+  const opciones = useMemo(
+    () => [{ id: ACTUAL_ID, nombre: 'Valores actuales', parametros: actual, tasas }, ...escenarios],
+    [escenarios, actual, tasas]
+  );
+
+  // Each option expressed in its own reporting currency, with the rates it was saved with
+  const convertidos = useMemo(
+    () => new Map(opciones.map((o) => [o.id, convertirParametros(o.parametros, o.tasas ?? tasas).params])),
+    [opciones, tasas]
+  );
+  const paramsFor = (id: string) => convertidos.get(id) ?? convertidos.get(ACTUAL_ID)!;
+  const paramsA = paramsFor(aId);
+  const paramsB = paramsFor(bId);
+  // Amount deltas only make sense when both scenarios report in the same currency
+  const mismaMoneda = paramsA.moneda === paramsB.moneda;
+
+  const deltas = useMemo(
+    () => compararResultados(calcularTodo(paramsA), calcularTodo(paramsB)),
+    [paramsA, paramsB]
+  );
+
+  const selectClass =
+    'bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none focus:border-[#a78bfa] transition';
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-slate-200 mb-4">Comparar Escenarios</h3>
+      {escenarios.length === 0 && (
+        <p className="text-xs text-slate-500 mb-4">
+          Guarde escenarios desde el panel lateral para compararlos con los valores actuales.
+        </p>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="pb-2 pr-3">M&eacute;trica</th>
+              <th className="pb-2 pr-3">
+                <select value={aId} onChange={(e) => setAId(e.target.value)} className={selectClass}>
+                  {opciones.map((o) => (
+                    <option key={o.id} value={o.id}>{o.nombre}</option>
+                  ))}
+                </select>
+              </th>
+              <th className="pb-2 pr-3">
+                <select value={bId} onChange={(e) => setBId(e.target.value)} className={selectClass}>
+                  {opciones.map((o) => (
+                    <option key={o.id} value={o.id}>{o.nombre}</option>
+                  ))}
+                </select>
+              </th>
+              <th className="pb-2">Diferencia</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-slate-800">
+              <td className="py-2 pr-3 text-slate-400">Productos</td>
+              <td className="py-2 pr-3">{paramsA.productos.length}</td>
+              <td className="py-2 pr-3">{paramsB.productos.length}</td>
+              <td className="py-2" />
+            </tr>
+            {deltas.map((d) => (
+              <tr key={d.clave} className="border-b border-slate-800">
+                <td className="py-2 pr-3 text-slate-400">{d.etiqueta}</td>
+                <td className="py-2 pr-3">{formatValue(d.clave, d.a, paramsA.moneda)}</td>
+                <td className="py-2 pr-3">{formatValue(d.clave, d.b, paramsB.moneda)}</td>
+                <td
+                  className={`py-2 font-medium ${
+                    d.mejora === null || (!mismaMoneda && CLAVES_MONETARIAS.includes(d.clave))
+                      ? 'text-slate-500'
+                      : d.mejora
+                        ? 'text-[#10b981]'
+                        : 'text-red-400'
+                  }`}
+                >
+                  {!mismaMoneda && CLAVES_MONETARIAS.includes(d.clave)
+                    ? 'Monedas distintas'
+                    : d.mejora === null
+                    ? '='
+                    : `${d.delta > 0 ? '+' : '-'}${formatValue(d.clave, Math.abs(d.delta), paramsA.moneda)}${
+                        d.deltaPct !== null ? ` (${d.deltaPct > 0 ? '+' : ''}${(d.deltaPct * 100).toFixed(1)}%)` : ''
+                      }`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
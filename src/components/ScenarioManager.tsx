@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import type { EscenarioGuardado } from '@/types/roas';
+
+interface ScenarioManagerProps {
+  escenarios: EscenarioGuardado[];
+  onSave: (nombre: string) => void;
+  onLoad: (escenario: EscenarioGuardado) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, nombre: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ScenarioManager({
+  escenarios,
+  onSave,
+  onLoad,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: ScenarioManagerProps) {
+  const [nombre, setNombre] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingNombre, setEditingNombre] = useState('');
+
+  const handleSave = () => {
+    if (!nombre.trim()) return;
+    onSave(nombre.trim());
+    setNombre('');
+  };
+
+  const commitRename = () => {
+    if (editingId && editingNombre.trim()) onRename(editingId, editingNombre.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="bg-[#1a1a2e] rounded-xl p-5 space-y-3">
+      <h2 className="text-lg font-semibold text-slate-200">Escenarios</h2>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={nombre}
+          onChange={(e) => setNombre(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Nombre del escenario"
+          className="flex-1 min-w-0 bg-[#0f0f23] border border-slate-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-[#a78bfa] transition"
+        />
+        <button
+          onClick={handleSave}
+          className="bg-[#a78bfa] hover:bg-[#8b5cf6] text-white font-medium px-3 rounded-lg transition"
+        >
+          Guardar
+        </button>
+      </div>
+
+      {escenarios.length === 0 ? (
+        <p className="text-xs text-slate-500">No hay escenarios guardados.</p>
+      ) : (
+        <ul className="space-y-2">
+          {escenarios.map((e) => (
+            <li key={e.id} className="bg-[#0f0f23] rounded-lg px-3 py-2 text-sm">
+              {editingId === e.id ? (
+                <input
+                  autoFocus
+                  value={editingNombre}
+                  onChange={(ev) => setEditingNombre(ev.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(ev) => {
+                    if (ev.key === 'Enter') commitRename();
+                    if (ev.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full bg-transparent border-b border-[#a78bfa] text-white focus:outline-none"
+                />
+              ) : (
+                <div className="text-slate-200 truncate">{e.nombre}</div>
+              )}
+              <div className="flex gap-3 mt-1 text-xs">
+                <button onClick={() => onLoad(e)} className="text-[#a78bfa] hover:text-[#c4b5fd]">
+                  Cargar
+                </button>
+                <button onClick={() => onDuplicate(e.id)} className="text-slate-400 hover:text-slate-200">
+                  Duplicar
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(e.id);
+                    setEditingNombre(e.nombre);
+                  }}
+                  className="text-slate-400 hover:text-slate-200"
+                >
+                  Renombrar
+                </button>
+                <button onClick={() => onDelete(e.id)} className="text-red-400 hover:text-red-300">
+                  Eliminar
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
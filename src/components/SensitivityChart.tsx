@@ -10,54 +10,54 @@ import {
   CartesianGrid,
   Tooltip,
   Legend,
+  ReferenceLine,
 } from 'recharts';
-import type { SensitivityDataPoint } from '@/types/roas';
+import type { Moneda, SensitivityDataPoint } from '@/types/roas';
+import { formatXTick, formatXTooltip } from '@/lib/format';
 
 interface SensitivityChartProps {
   data: SensitivityDataPoint[];
   xLabel: string;
   xFormat: 'currency' | 'percent';
+  moneda?: Moneda;
+  /** Current value of the swept input, marked with a vertical line */
+  actual?: number;
+  /** x positions where VUM steps; drawn as markers when there are few enough to tell apart */
+  saltos?: number[];
+  escala?: 'lineal' | 'log';
 }
 
-function formatCurrencyTick(value: number): string {
-  if (value >= 1_000_000) {
-    const m = value / 1_000_000;
-    return `$${Number.isInteger(m) ? m : m.toFixed(1)}M`;
-  }
-  if (value >= 1_000) {
-    const k = value / 1_000;
-    return `$${Number.isInteger(k) ? k : k.toFixed(1)}K`;
-  }
-  return `$${value.toFixed(0)}`;
-}
-
-function formatXTick(value: number, format: 'currency' | 'percent'): string {
-  if (format === 'percent') {
-    return `${(value * 100).toFixed(0)}%`;
-  }
-  return formatCurrencyTick(value);
-}
+/** Beyond this many VUM steps the markers would merge into a solid band */
+export const SALTOS_VISIBLES = 60;
 
-function formatXTooltip(value: number, format: 'currency' | 'percent'): string {
-  if (format === 'percent') {
-    return `${(value * 100).toFixed(1)}%`;
-  }
-  return '$' + value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
-}
-
-/** Pick at most maxTicks equispaced tick values from the data's x range. */
-function computeTicks(data: SensitivityDataPoint[], maxTicks: number = 7): number[] {
+/** Pick at most maxTicks equispaced (geometric on a log axis) tick values from the data's x range. */
+function computeTicks(data: SensitivityDataPoint[], maxTicks: number = 7, log = false): number[] {
   if (data.length === 0) return [];
   const xValues = data.map((d) => d.x);
   const min = xValues[0];
   const max = xValues[xValues.length - 1];
   if (min === max) return [min];
+  if (log && min > 0) {
+    return Array.from({ length: maxTicks }, (_, i) => min * Math.pow(max / min, i / (maxTicks - 1)));
+  }
   const step = (max - min) / (maxTicks - 1);
   return Array.from({ length: maxTicks }, (_, i) => min + step * i);
 }
 
-export default function SensitivityChart({ data, xLabel, xFormat }: SensitivityChartProps) {
-  const ticks = useMemo(() => computeTicks(data, 7), [data]);
+export default function SensitivityChart({
+  data,
+  xLabel,
+  xFormat,
+  moneda,
+  actual,
+  saltos = [],
+  escala = 'lineal',
+}: SensitivityChartProps) {
+  const log = escala === 'log';
+  const ticks = useMemo(() => computeTicks(data, 7, log), [data, log]);
+  const xMin = data[0]?.x;
+  const xMax = data[data.length - 1]?.x;
+  const showActual = actual !== undefined && actual >= xMin && actual <= xMax;
 
   return (
     <div className="w-full h-[400px]">
@@ -68,10 +68,11 @@ export default function SensitivityChart({ data, xLabel, xFormat }: SensitivityC
             dataKey="x"
             type="number"
             domain={['dataMin', 'dataMax']}
+            scale={log ? 'log' : 'auto'}
             ticks={ticks}
             stroke="#94a3b8"
             tick={{ fill: '#94a3b8', fontSize: 11, angle: -45, textAnchor: 'end' } as Record<string, unknown>}
-            tickFormatter={(v) => formatXTick(v, xFormat)}
+            tickFormatter={(v) => formatXTick(v, xFormat, moneda)}
             label={{ value: xLabel, position: 'bottom', offset: 20, fill: '#94a3b8', fontSize: 13 }}
           />
           <YAxis
@@ -88,7 +89,7 @@ export default function SensitivityChart({ data, xLabel, xFormat }: SensitivityC
               color: '#e2e8f0',
               fontSize: '13px',
             }}
-            labelFormatter={(v) => `${xLabel}: ${formatXTooltip(Number(v), xFormat)}`}
+            labelFormatter={(v) => `${xLabel}: ${formatXTooltip(Number(v), xFormat, moneda)}`}
             formatter={(value, name) => [
               Number(value).toFixed(4),
               name === 'ipRoas' ? 'IP-ROAS' : 'ROAS Tradicional',
@@ -101,8 +102,18 @@ export default function SensitivityChart({ data, xLabel, xFormat }: SensitivityC
             }
             wrapperStyle={{ color: '#94a3b8' }}
           />
+          {saltos.length <= SALTOS_VISIBLES &&
+            saltos.map((x) => <ReferenceLine key={x} x={x} stroke="#f97316" strokeOpacity={0.25} />)}
+          {showActual && (
+            <ReferenceLine
+              x={actual}
+              stroke="#10b981"
+              strokeDasharray="4 2"
+              label={{ value: 'Actual', position: 'top', fill: '#10b981', fontSize: 12 }}
+            />
+          )}
           <Line
-            type="monotone"
+            type="linear"
             dataKey="ipRoas"
             stroke="#a78bfa"
             strokeWidth={2}
@@ -110,7 +121,7 @@ export default function SensitivityChart({ data, xLabel, xFormat }: SensitivityC
             activeDot={{ r: 4, fill: '#a78bfa' }}
           />
           <Line
-            type="monotone"
+            type="linear"
             dataKey="roasTradicional"
             stroke="#f97316"
             strokeWidth={2}
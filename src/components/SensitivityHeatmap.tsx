@@ -0,0 +1,159 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Moneda, SensitivityGrid } from '@/types/roas';
+import { SENSITIVITY_CONFIGS } from '@/types/roas';
+import { formatXTick, formatXTooltip } from '@/lib/format';
+
+interface SensitivityHeatmapProps {
+  grid: SensitivityGrid;
+  metric: 'ipRoas' | 'roasTradicional';
+  moneda?: Moneda;
+}
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const MARGIN = { top: 10, right: 20, left: 70, bottom: 60 };
+const PLOT_W = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_H = HEIGHT - MARGIN.top - MARGIN.bottom;
+const TICKS = 5;
+
+/** Green (low required ROAS, safe) → yellow → red (hard to reach) */
+function colorFor(t: number): string {
+  const hue = 140 - 140 * Math.min(1, Math.max(0, t));
+  return `hsl(${hue}, 70%, 45%)`;
+}
+
+function axisConfig(type: SensitivityGrid['xType']) {
+  return SENSITIVITY_CONFIGS.find((c) => c.type === type)!;
+}
+
+export default function SensitivityHeatmap({ grid, metric, moneda }: SensitivityHeatmapProps) {
+  const [hover, setHover] = useState<{ xi: number; yi: number } | null>(null);
+  const values = grid[metric];
+  const xConfig = axisConfig(grid.xType);
+  const yConfig = axisConfig(grid.yType);
+
+  const [min, max] = useMemo(() => {
+    const finite = values.flat().filter((v) => isFinite(v));
+    if (finite.length === 0) return [0, 0];
+    return [Math.min(...finite), Math.max(...finite)];
+  }, [values]);
+
+  const nx = grid.x.length;
+  const ny = grid.y.length;
+  const cellW = PLOT_W / nx;
+  const cellH = PLOT_H / ny;
+  const xMin = grid.x[0];
+  const xMax = grid.x[nx - 1];
+  const yMin = grid.y[0];
+  const yMax = grid.y[ny - 1];
+
+  // Cell centres sit on the sampled values, so scale across the inner span
+  const scaleX = (v: number) => MARGIN.left + cellW / 2 + ((v - xMin) / (xMax - xMin || 1)) * (PLOT_W - cellW);
+  const scaleY = (v: number) =>
+    MARGIN.top + PLOT_H - cellH / 2 - ((v - yMin) / (yMax - yMin || 1)) * (PLOT_H - cellH);
+
+  const showMarker =
+    grid.actual.x >= xMin && grid.actual.x <= xMax && grid.actual.y >= yMin && grid.actual.y <= yMax;
+
+  const tickIndices = (n: number) =>
+    Array.from(new Set(Array.from({ length: TICKS }, (_, i) => Math.round((i * (n - 1)) / (TICKS - 1)))));
+
+  const hovered = hover ? values[hover.yi][hover.xi] : null;
+
+  return (
+    <div className="w-full">
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onMouseLeave={() => setHover(null)}>
+          {values.map((row, yi) =>
+            row.map((v, xi) => (
+              <rect
+                key={`${xi}-${yi}`}
+                x={MARGIN.left + xi * cellW}
+                y={MARGIN.top + PLOT_H - (yi + 1) * cellH}
+                width={cellW + 0.5}
+                height={cellH + 0.5}
+                fill={isFinite(v) ? colorFor((v - min) / (max - min || 1)) : '#334155'}
+                onMouseEnter={() => setHover({ xi, yi })}
+              />
+            ))
+          )}
+
+          {showMarker && (
+            <g pointerEvents="none">
+              <circle cx={scaleX(grid.actual.x)} cy={scaleY(grid.actual.y)} r={7} fill="none" stroke="#fff" strokeWidth={2} />
+              <circle cx={scaleX(grid.actual.x)} cy={scaleY(grid.actual.y)} r={2} fill="#fff" />
+            </g>
+          )}
+
+          {tickIndices(nx).map((i) => (
+            <text
+              key={`x${i}`}
+              x={MARGIN.left + (i + 0.5) * cellW}
+              y={MARGIN.top + PLOT_H + 16}
+              fill="#94a3b8"
+              fontSize={11}
+              textAnchor="middle"
+            >
+              {formatXTick(grid.x[i], xConfig.xFormat, moneda)}
+            </text>
+          ))}
+          {tickIndices(ny).map((i) => (
+            <text
+              key={`y${i}`}
+              x={MARGIN.left - 6}
+              y={MARGIN.top + PLOT_H - (i + 0.5) * cellH + 4}
+              fill="#94a3b8"
+              fontSize={11}
+              textAnchor="end"
+            >
+              {formatXTick(grid.y[i], yConfig.xFormat, moneda)}
+            </text>
+          ))}
+          <text x={MARGIN.left + PLOT_W / 2} y={HEIGHT - 15} fill="#94a3b8" fontSize={13} textAnchor="middle">
+            {xConfig.xLabel}
+          </text>
+          <text
+            transform={`translate(16, ${MARGIN.top + PLOT_H / 2}) rotate(-90)`}
+            fill="#94a3b8"
+            fontSize={13}
+            textAnchor="middle"
+          >
+            {yConfig.xLabel}
+          </text>
+        </svg>
+
+        {hover && hovered !== null && (
+          <div
+            className="absolute pointer-events-none bg-[#1a1a2e] border border-[#333] rounded-lg px-3 py-2 text-[13px] text-slate-200 whitespace-nowrap"
+            style={{
+              left: `${((MARGIN.left + (hover.xi + 0.5) * cellW) / WIDTH) * 100}%`,
+              top: `${((MARGIN.top + PLOT_H - (hover.yi + 1) * cellH) / HEIGHT) * 100}%`,
+              transform: 'translate(-50%, -110%)',
+            }}
+          >
+            <div>{xConfig.xLabel}: {formatXTooltip(grid.x[hover.xi], xConfig.xFormat, moneda)}</div>
+            <div>{yConfig.xLabel}: {formatXTooltip(grid.y[hover.yi], yConfig.xFormat, moneda)}</div>
+            <div className="font-semibold">
+              {metric === 'ipRoas' ? 'IP-ROAS' : 'ROAS Tradicional'}: {isFinite(hovered) ? hovered.toFixed(4) : '--'}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Color legend */}
+      <div className="flex items-center gap-3 mt-2 text-xs text-slate-400">
+        <span>{min.toFixed(2)}</span>
+        <div
+          className="flex-1 h-2 rounded"
+          style={{ background: `linear-gradient(to right, ${colorFor(0)}, ${colorFor(0.5)}, ${colorFor(1)})` }}
+        />
+        <span>{max.toFixed(2)}</span>
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-full border-2 border-white" /> Valores actuales
+        </span>
+      </div>
+    </div>
+  );
+}
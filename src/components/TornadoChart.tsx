@@ -0,0 +1,105 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import type { Moneda, TornadoMetric, TornadoResult } from '@/types/roas';
+import { TORNADO_VARIABLES } from '@/types/roas';
+import { ordenarTornado } from '@/lib/roas-engine';
+import { formatXTooltip } from '@/lib/format';
+
+interface TornadoChartProps {
+  resultado: TornadoResult;
+  metric: TornadoMetric;
+  moneda?: Moneda;
+}
+
+export const TORNADO_METRIC_LABELS: Record<TornadoMetric, string> = {
+  ipRoas: 'IP-ROAS',
+  roasTradicional: 'ROAS Tradicional',
+  vum: 'VUM',
+};
+
+export function formatTornadoMetric(metric: TornadoMetric, v: number, decimals = 4): string {
+  if (!isFinite(v)) return 'Sin margen';
+  return metric === 'vum' ? `${Math.round(v).toLocaleString('en-US')} u.` : v.toFixed(decimals);
+}
+
+/**
+ * Horizontal bars per input, ranked by swing: the metric at -variacion and
+ * at +variacion, each drawn as the change from the current value. Inputs
+ * with no positive margin at either end are left out.
+ */
+export default function TornadoChart({ resultado, metric, moneda }: TornadoChartProps) {
+  const base = resultado.base[metric];
+  const pct = `${Math.round(resultado.variacion * 100)}%`;
+
+  const data = useMemo(
+    () =>
+      ordenarTornado(resultado, metric)
+        .filter((b) => isFinite(b.metricas[metric].swing))
+        .map((b) => {
+          const config = TORNADO_VARIABLES.find((v) => v.variable === b.variable)!;
+          const m = b.metricas[metric];
+          return {
+            label: config.label,
+            bajo: m.bajo - base,
+            alto: m.alto - base,
+            valorBajo: m.bajo,
+            valorAlto: m.alto,
+            entradaBajo: formatXTooltip(b.bajo, config.format, moneda),
+            entradaAlto: formatXTooltip(b.alto, config.format, moneda),
+          };
+        }),
+    [resultado, metric, base, moneda]
+  );
+
+  return (
+    <div className="w-full h-[360px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} layout="vertical" barGap={0} margin={{ top: 10, right: 30, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#333" />
+          <XAxis
+            type="number"
+            stroke="#94a3b8"
+            tick={{ fill: '#94a3b8', fontSize: 11 }}
+            tickFormatter={(v: number) => formatTornadoMetric(metric, base + v, 2)}
+          />
+          <YAxis type="category" dataKey="label" width={190} stroke="#94a3b8" tick={{ fill: '#94a3b8', fontSize: 12 }} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: '#1a1a2e',
+              border: '1px solid #333',
+              borderRadius: '8px',
+              color: '#e2e8f0',
+              fontSize: '13px',
+            }}
+            formatter={(_, name, item) => {
+              const row = item.payload as (typeof data)[number];
+              return name === 'bajo'
+                ? [`${formatTornadoMetric(metric, row.valorBajo)} (entrada ${row.entradaBajo})`, `-${pct}`]
+                : [`${formatTornadoMetric(metric, row.valorAlto)} (entrada ${row.entradaAlto})`, `+${pct}`];
+            }}
+          />
+          <Legend
+            verticalAlign="top"
+            formatter={(value: string) => (value === 'bajo' ? `Entrada -${pct}` : `Entrada +${pct}`)}
+            wrapperStyle={{ color: '#94a3b8' }}
+          />
+          <ReferenceLine x={0} stroke="#e2e8f0" strokeDasharray="4 2" />
+          <Bar dataKey="bajo" fill="#f97316" />
+          <Bar dataKey="alto" fill="#a78bfa" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
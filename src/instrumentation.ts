@@ -0,0 +1,10 @@
+/**
+ * Server startup hook: reports a misconfigured chat provider in the logs
+ * as soon as the server starts, not on the first chat message.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { describirErroresConfig, leerConfigLLM } = await import('./lib/llm-config');
+  const config = leerConfigLLM();
+  if (!config.ok) console.error(describirErroresConfig(config.errors));
+}
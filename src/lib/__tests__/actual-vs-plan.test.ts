@@ -0,0 +1,121 @@
+/**
+ * Unit tests for campaign performance import and actual-vs-plan comparison
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { compararConPlan, parseFecha, parseRendimientoCSV } from '../actual-vs-plan';
+import { calcularTodo } from '../roas-engine';
+import type { ParametrosCliente } from '@/types/roas';
+
+const fixture = (nombre: string) => readFileSync(join(__dirname, 'fixtures', nombre), 'utf8');
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 30000,
+  tarifaFija: 6000,
+  ingresoEsperado: 9000,
+  productos: [{ nombre: 'Kit', precio: 1000, margenBruto: 0.3 }],
+};
+
+describe('parseFecha', () => {
+  test('accepts ISO and day-first dates', () => {
+    expect(parseFecha('2026-03-05')).toBe('2026-03-05');
+    expect(parseFecha('2026-3-5 00:00:00')).toBe('2026-03-05');
+    expect(parseFecha('05/03/2026')).toBe('2026-03-05');
+    expect(parseFecha('5.3.2026')).toBe('2026-03-05');
+  });
+
+  test('rejects impossible or unknown dates', () => {
+    expect(parseFecha('31/02/2026')).toBeNull();
+    expect(parseFecha('Total: Account')).toBeNull();
+    expect(parseFecha('')).toBeNull();
+  });
+});
+
+describe('parseRendimientoCSV', () => {
+  test('reads the generic layout', () => {
+    const r = parseRendimientoCSV(fixture('rendimiento-generico.csv'));
+    expect(r.formato?.id).toBe('generico');
+    expect(r.conIngresos).toBe(true);
+    expect(r.registros).toHaveLength(5);
+    expect(r.registros[0]).toEqual({ fecha: '2026-03-01', gasto: 1000, conversiones: 4, ingresos: 4200 });
+    expect(r.omitidas).toEqual([]);
+  });
+
+  test('reads a Meta Ads export, summing campaigns per day', () => {
+    const r = parseRendimientoCSV(fixture('meta-ads.csv'));
+    expect(r.formato?.id).toBe('meta');
+    expect(r.registros).toEqual([
+      { fecha: '2026-03-01', gasto: 1000, conversiones: 5, ingresos: 5200 },
+      { fecha: '2026-03-02', gasto: 1000, conversiones: 4, ingresos: 4400 },
+    ]);
+  });
+
+  test('reads a Google Ads report, skipping its title lines and total row', () => {
+    const r = parseRendimientoCSV(fixture('google-ads.csv'));
+    expect(r.formato?.id).toBe('google');
+    expect(r.registros.map((d) => [d.fecha, d.gasto, d.conversiones, d.ingresos])).toEqual([
+      ['2026-03-01', 1250, 5.5, 5775],
+      ['2026-03-02', 1100, 4.5, 4725],
+      ['2026-03-03', 950, 0, 0],
+    ]);
+    // Line numbers refer to the original file, title lines included
+    expect(r.omitidas).toEqual([{ fila: 7, motivo: 'Fila de totales' }]);
+  });
+
+  test('reads a TikTok Ads export with semicolons and decimal commas', () => {
+    const r = parseRendimientoCSV(fixture('tiktok-ads.csv'));
+    expect(r.formato?.id).toBe('tiktok');
+    expect(r.separadorDecimal).toBe(',');
+    expect(r.registros).toEqual([
+      { fecha: '2026-03-01', gasto: 1500, conversiones: 6, ingresos: 6300 },
+      { fecha: '2026-03-02', gasto: 1250.5, conversiones: 5, ingresos: 5100 },
+    ]);
+    expect(r.omitidas).toEqual([{ fila: 4, motivo: 'Fecha inválida: "31/02/2026"' }]);
+  });
+
+  test('reports unknown layouts and bad values', () => {
+    expect(parseRendimientoCSV('a,b,c\n1,2,3').formato).toBeNull();
+    const r = parseRendimientoCSV('fecha,gasto,conversiones\n2026-03-01,abc,1\n2026-03-02,100,-2\n2026-03-03,100,1');
+    expect(r.conIngresos).toBe(false);
+    expect(r.registros).toHaveLength(1);
+    expect(r.omitidas.map((o) => o.fila)).toEqual([2, 3]);
+  });
+});
+
+describe('compararConPlan', () => {
+  const resultados = calcularTodo(params); // VUM = ceil(45000 / 300) = 150
+
+  test('computes realised metrics, pacing and days to break even', () => {
+    const { registros, conIngresos } = parseRendimientoCSV(fixture('rendimiento-generico.csv'));
+    const c = compararConPlan(registros, conIngresos, params, resultados, 30)!;
+    expect(c.desde).toBe('2026-03-01');
+    expect(c.hasta).toBe('2026-03-05');
+    expect(c.dias).toBe(5);
+    expect(c.gasto).toBe(5000);
+    expect(c.unidades).toBe(18);
+    expect(c.cprReal).toBeCloseTo(5000 / 18, 10);
+    expect(c.roasReal).toBeCloseTo(3.7, 10);
+    expect(c.progresoVum).toBeCloseTo(0.12, 10);
+    // Spent 1/6 of IP in 1/6 of the time: on plan; units at 72% of the pace
+    expect(c.ritmoGasto).toBeCloseTo(1, 10);
+    expect(c.ritmoUnidades).toBeCloseTo(0.72, 10);
+    // 132 units left at 3.6 a day
+    expect(c.diasParaEquilibrio).toBe(37);
+    expect(c.equilibrioEnPlazo).toBe(false);
+  });
+
+  test('handles reached break-even, no sales and missing revenue', () => {
+    const dia = { fecha: '2026-03-01', gasto: 100, conversiones: 200, ingresos: 0 };
+    const alcanzado = compararConPlan([dia], false, params, resultados)!;
+    expect(alcanzado.diasParaEquilibrio).toBe(0);
+    expect(alcanzado.equilibrioEnPlazo).toBe(true);
+    expect(alcanzado.ingresos).toBeNull();
+    expect(alcanzado.roasReal).toBeNull();
+
+    const sinVentas = compararConPlan([{ ...dia, conversiones: 0 }], false, params, resultados)!;
+    expect(sinVentas.diasParaEquilibrio).toBeNull();
+    expect(sinVentas.cprReal).toBe(Infinity);
+    expect(compararConPlan([], false, params, resultados)).toBeNull();
+  });
+});
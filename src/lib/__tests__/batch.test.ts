@@ -0,0 +1,109 @@
+/**
+ * Unit tests for batch scenario evaluation
+ */
+
+import { evaluarEscenarios, leerEscenariosCSV, parseEscenariosCSV } from '../batch';
+
+const parametros = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Producto A', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+describe('evaluarEscenarios', () => {
+  test('evaluates every valid scenario with calcularTodo', () => {
+    const resultados = evaluarEscenarios([
+      { nombre: 'Acme', parametros },
+      { nombre: 'Beta', parametros: { ...parametros, tarifaFija: 0, ingresoEsperado: 0 } },
+    ]);
+    expect(resultados).toHaveLength(2);
+    expect(resultados[0]).toMatchObject({ nombre: 'Acme', ok: true, resultados: { ipRoas: 1.5, vum: 750 } });
+    expect(resultados[1]).toMatchObject({ nombre: 'Beta', ok: true, resultados: { ipRoas: 1, vum: 500 } });
+  });
+
+  test('an invalid scenario does not abort the batch', () => {
+    const resultados = evaluarEscenarios([
+      { nombre: 'Malo', parametros: { ...parametros, inversionPublicitaria: -5 } },
+      { nombre: 'Bueno', parametros },
+      'basura',
+    ]);
+    expect(resultados[0].ok).toBe(false);
+    expect(resultados[1].ok).toBe(true);
+    expect(resultados[2]).toMatchObject({ nombre: 'Escenario 3', ok: false });
+  });
+
+  test('converts prices with the given rates and reports missing ones', () => {
+    const enPesos = {
+      ...parametros,
+      moneda: 'MXN',
+      productos: [{ nombre: 'Importado', precio: 25, margenBruto: 0.2, moneda: 'USD' }],
+    };
+    const [sinTasas] = evaluarEscenarios([{ nombre: 'MX', parametros: enPesos }]);
+    expect(sinTasas).toMatchObject({ ok: false, errores: [{ campo: 'productos[0].moneda' }] });
+    const [conTasas] = evaluarEscenarios([{ nombre: 'MX', parametros: enPesos }], { base: 'USD', tasas: { MXN: 20 } });
+    // Margin = 25 USD * 20 * 0.2 = 100 MXN → VUM = 75000 / 100
+    expect(conTasas).toMatchObject({ ok: true, resultados: { vum: 750 } });
+  });
+});
+
+describe('parseEscenariosCSV', () => {
+  test('groups product rows by client', () => {
+    const csv = `cliente,ip,tf,ie,nombre,precio,margen
+Acme,50000,10000,15000,Producto A,1000,30
+Acme,,,,Producto B,500,20
+Beta,20000,5000,3000,Unico,800,25`;
+    const resultados = parseEscenariosCSV(csv);
+    expect(resultados.map((r) => r.nombre)).toEqual(['Acme', 'Beta']);
+    expect(resultados[0]).toMatchObject({ ok: true, resultados: { vum: 750, productoCritico: 'Producto B' } });
+    expect(resultados[1]).toMatchObject({ ok: true, resultados: { ipRoas: 1.4, vum: 140 } });
+  });
+
+  test('reports bad rows against their scenario only', () => {
+    const csv = `cliente,ip,tf,ie,nombre,precio,margen
+Acme,50000,10000,15000,Producto A,abc,30
+Beta,20000,5000,3000,Unico,800,25`;
+    const [acme, beta] = parseEscenariosCSV(csv);
+    expect(acme.ok).toBe(false);
+    if (!acme.ok) expect(acme.errores[0].campo).toBe('fila 2');
+    expect(beta.ok).toBe(true);
+  });
+
+  test('flags clients without IP/TF/IE', () => {
+    const csv = `cliente,nombre,precio,margen
+Acme,Producto A,1000,30`;
+    const [acme] = parseEscenariosCSV(csv);
+    expect(acme.ok).toBe(false);
+  });
+  test('converts product currencies and rejects scenarios with a missing rate', () => {
+    const csv = `cliente,ip,tf,ie,moneda_reporte,nombre,precio,margen,moneda
+Acme,50000,10000,15000,mxn,Importado,25,20,USD
+Acme,,,,,Local,500,20,
+Beta,50000,10000,15000,,Café,10,50,EUR`;
+    const [sinTasas, beta] = parseEscenariosCSV(csv);
+    expect(sinTasas).toMatchObject({
+      ok: false,
+      errores: [{ campo: 'productos[0].moneda', mensaje: 'Sin tasa de cambio de USD a MXN' }],
+    });
+    expect(beta).toMatchObject({ ok: false, errores: [{ campo: 'productos[0].moneda' }] });
+    const [acme] = parseEscenariosCSV(csv, { base: 'USD', tasas: { MXN: 20 } });
+    // Both margins are 100 MXN once the import is converted (25 USD * 20 * 0.2) → VUM = 75000 / 100
+    expect(acme).toMatchObject({ ok: true, resultados: { vum: 750 } });
+  });
+
+  test('groups the rows before anything is calculated', () => {
+    const csv = `cliente,ip,tf,ie,nombre,precio,margen
+Acme,50000,10000,15000,Producto A,1000,30
+Beta,20000,5000,3000,Unico,800,25
+Acme,,,,Producto B,500,20,extra`;
+    const { grupos, omitidas } = leerEscenariosCSV(csv);
+    expect(grupos.map((g) => [g.escenario.nombre, g.escenario.parametros.productos.length])).toEqual([
+      ['Acme', 1],
+      ['Beta', 1],
+    ]);
+    expect(omitidas.map((o) => o.fila)).toEqual([4]);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for assistant action proposals
+ */
+
+import { aplicarAcciones, describirAccion, validarPropuesta, ACCIONES_POR_PROPUESTA_MAX } from '../chat-actions';
+import type { ParametrosCliente } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Café Molido', precio: 1000, margenBruto: 0.3, moneda: 'USD' },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+describe('validarPropuesta', () => {
+  test('accepts every action type with the flat tool layout', () => {
+    const result = validarPropuesta({
+      descripcion: ' Subir IP ',
+      acciones: [
+        { tipo: 'fijarVariable', variable: 'IP', valor: 60000 },
+        { tipo: 'agregarProducto', producto: { nombre: 'Nuevo', precio: 200, margenBruto: 0.4 } },
+        { tipo: 'editarProducto', nombre: 'Producto B', cambios: { margenBruto: 0.25 } },
+        { tipo: 'eliminarProducto', nombre: 'Café Molido' },
+      ],
+    });
+    expect(result.ok && result.value.descripcion).toBe('Subir IP');
+    expect(result.ok && result.value.acciones.map((a) => a.tipo)).toEqual([
+      'fijarVariable',
+      'agregarProducto',
+      'editarProducto',
+      'eliminarProducto',
+    ]);
+  });
+
+  test('reports each invalid action by path', () => {
+    const result = validarPropuesta({
+      descripcion: 'x',
+      acciones: [
+        { tipo: 'fijarVariable', variable: 'XX', valor: 1 },
+        { tipo: 'editarProducto', nombre: 'B', cambios: { margenBruto: 30 } },
+        { tipo: 'editarProducto', nombre: 'B', cambios: {} },
+        { tipo: 'borrarTodo' },
+      ],
+    });
+    expect(!result.ok && result.errors.map((e) => e.campo)).toEqual([
+      'acciones[0].variable',
+      'acciones[1].cambios.margenBruto',
+      'acciones[2].cambios',
+      'acciones[3].tipo',
+    ]);
+    const demasiadas = Array.from({ length: ACCIONES_POR_PROPUESTA_MAX + 1 }, () => ({
+      tipo: 'eliminarProducto',
+      nombre: 'B',
+    }));
+    expect(validarPropuesta({ descripcion: 'x', acciones: demasiadas }).ok).toBe(false);
+    expect(validarPropuesta({ descripcion: 'x', acciones: [] }).ok).toBe(false);
+  });
+});
+
+describe('aplicarAcciones', () => {
+  test('applies the actions in order, matching names loosely', () => {
+    const result = aplicarAcciones(params, [
+      { tipo: 'fijarVariable', variable: 'TF', valor: 12000 },
+      { tipo: 'editarProducto', nombre: 'cafe molido', cambios: { precio: 1200 } },
+      { tipo: 'eliminarProducto', nombre: 'Producto B' },
+      { tipo: 'agregarProducto', producto: { nombre: 'Nuevo', precio: 200, margenBruto: 0.4 } },
+    ]);
+    expect(result.ok && result.value).toEqual({
+      ...params,
+      tarifaFija: 12000,
+      productos: [
+        { nombre: 'Café Molido', precio: 1200, margenBruto: 0.3, moneda: 'USD' },
+        { nombre: 'Nuevo', precio: 200, margenBruto: 0.4 },
+      ],
+    });
+    expect(params.tarifaFija).toBe(10000);
+  });
+
+  test('converts edited prices from the reporting currency back to the product currency', () => {
+    const tasas = { base: 'USD', tasas: { MXN: 20 } };
+    const mixto: ParametrosCliente = {
+      ...params,
+      moneda: 'USD',
+      productos: [
+        { nombre: 'Tortillas', precio: 1000, margenBruto: 0.3, moneda: 'MXN' }, // Shown to the assistant as $50
+        { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+      ],
+    };
+    const result = aplicarAcciones(
+      mixto,
+      [
+        { tipo: 'editarProducto', nombre: 'Tortillas', cambios: { precio: 55 } },
+        { tipo: 'editarProducto', nombre: 'Producto B', cambios: { precio: 600 } },
+      ],
+      tasas
+    );
+    expect(result.ok && result.value.productos.map((p) => [p.precio, p.moneda])).toEqual([
+      [1100, 'MXN'],
+      [600, undefined],
+    ]);
+
+    const sinTasa = aplicarAcciones(
+      { ...mixto, productos: [{ nombre: 'Café', precio: 10, margenBruto: 0.3, moneda: 'EUR' }] },
+      [{ tipo: 'editarProducto', nombre: 'Café', cambios: { precio: 12 } }],
+      tasas
+    );
+    expect(sinTasa).toEqual({
+      ok: false,
+      errors: [{ campo: 'acciones[0].cambios.precio', mensaje: 'Sin tasa de cambio de USD a EUR' }],
+    });
+  });
+
+  test('fails the whole proposal when a product is missing', () => {
+    const result = aplicarAcciones(params, [
+      { tipo: 'fijarVariable', variable: 'IP', valor: 1 },
+      { tipo: 'eliminarProducto', nombre: 'Zapatos' },
+    ]);
+    expect(result).toEqual({
+      ok: false,
+      errors: [{ campo: 'acciones[1].nombre', mensaje: 'No existe el producto "Zapatos"' }],
+    });
+  });
+});
+
+describe('describirAccion', () => {
+  test('labels each action for the proposal card', () => {
+    expect(describirAccion({ tipo: 'fijarVariable', variable: 'IP', valor: 50000 })).toBe('IP → $50,000.00');
+    expect(describirAccion({ tipo: 'editarProducto', nombre: 'B', cambios: { precio: 550, margenBruto: 0.25 } })).toBe(
+      'Editar "B": precio → $550.00, margen → 25.0%'
+    );
+    expect(describirAccion({ tipo: 'eliminarProducto', nombre: 'B' })).toBe('Eliminar "B"');
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the chat calculator snapshot
+ */
+
+import {
+  contextoChatJSON,
+  contextoParaPrompt,
+  validarContextoChat,
+  PRODUCTOS_CONTEXTO_MAX,
+  type ContextoChat,
+} from '../chat-context';
+import { calcularTodo } from '../roas-engine';
+import type { ParametrosCliente, Producto } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Producto A', precio: 1000, margenBruto: 0.3, sku: 'A-1', categoria: 'Hogar' },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2, enCampana: false },
+  ],
+  moneda: 'USD',
+};
+
+const contexto = (p: ParametrosCliente): ContextoChat => ({ params: p, resultados: calcularTodo(p), sinTasa: [] });
+
+describe('validarContextoChat', () => {
+  test('round-trips the snapshot built on the client', () => {
+    const resultados = calcularTodo({ ...params, inversionPublicitaria: 0 });
+    const json = JSON.parse(JSON.stringify(contextoChatJSON(params, resultados, ['EUR'])));
+    const result = validarContextoChat(json);
+    expect(result.ok && result.value).toEqual({ params, resultados, sinTasa: ['EUR'] });
+  });
+
+  test('reports bad params and results under contexto', () => {
+    const result = validarContextoChat({
+      params: { ...params, tarifaFija: -1 },
+      resultados: { ...calcularTodo(params), vum: null },
+      sinTasa: ['dólares'],
+    });
+    expect(!result.ok && result.errors.map((e) => e.campo)).toEqual([
+      'contexto.params.tarifaFija',
+      'contexto.resultados.vum',
+      'contexto.sinTasa',
+    ]);
+    expect(validarContextoChat('texto').ok).toBe(false);
+  });
+
+  test('rejects oversized portfolios before validating each product', () => {
+    const productos = Array.from({ length: PRODUCTOS_CONTEXTO_MAX + 1 }, () => ({ nombre: '' }));
+    const result = validarContextoChat({ params: { ...params, productos }, resultados: {} });
+    expect(!result.ok && result.errors).toEqual([
+      { campo: 'contexto.params.productos', mensaje: `Como máximo ${PRODUCTOS_CONTEXTO_MAX} productos` },
+    ]);
+  });
+});
+
+describe('contextoParaPrompt', () => {
+  test('lists every product of a small portfolio with its results', () => {
+    const texto = contextoParaPrompt(contexto(params));
+    expect(texto).toContain('Inversión Publicitaria (IP): $50,000.00');
+    expect(texto).toContain('- Producto A: precio=$1,000.00, margen=30.0%, margen_abs=$300.00, sku=A-1, categoria=Hogar');
+    expect(texto).toContain('- Producto B: precio=$500.00, margen=20.0%, margen_abs=$100.00 (fuera del cálculo)');
+    expect(texto).toContain('- Producto Crítico: Producto A (margen abs mínimo: $300.00)');
+    expect(contextoParaPrompt(contexto({ ...params, productos: [] }))).toContain('No hay productos cargados aún.');
+  });
+
+  test('summarises large portfolios around the lowest margins', () => {
+    const productos: Producto[] = Array.from({ length: 2000 }, (_, i) => ({
+      nombre: `Producto ${i}`,
+      precio: 100 + i,
+      margenBruto: 0.5,
+      categoria: i % 2 === 0 ? 'Pares' : 'Impares',
+    }));
+    const texto = contextoParaPrompt(contexto({ ...params, productos }), 5);
+    const lineas = texto.split('\n').filter((l) => /^- Producto \d/.test(l));
+
+    expect(lineas.map((l) => l.split(':')[0])).toEqual([
+      '- Producto 0',
+      '- Producto 1',
+      '- Producto 2',
+      '- Producto 3',
+      '- Producto 4',
+    ]);
+    expect(texto).toContain('Productos (2000, 2000 en el cálculo)');
+    expect(texto).toContain('precio $100.00 – $2,099.00');
+    expect(texto).toContain('Productos por categoría: Pares 1000, Impares 1000');
+    expect(texto.length).toBeLessThan(2000);
+  });
+
+  test('cuts long names', () => {
+    const texto = contextoParaPrompt(contexto({ ...params, productos: [{ nombre: 'x'.repeat(500), precio: 10, margenBruto: 0.5 }] }));
+    expect(texto).not.toContain('x'.repeat(61));
+  });
+});
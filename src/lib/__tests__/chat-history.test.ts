@@ -0,0 +1,178 @@
+/**
+ * Unit tests for saved chat conversations
+ */
+
+import {
+  LocalStorageConversationStore,
+  CONVERSATIONS_STORAGE_KEY,
+  CONVERSACIONES_MAX,
+  TITULO_POR_DEFECTO,
+  actualizarConversacion,
+  conversacionAMarkdown,
+  nombreArchivoConversacion,
+  nuevaConversacion,
+  recortarContexto,
+  recortarHistorial,
+  tituloDesdePregunta,
+  type MensajeConversacion,
+} from '../chat-history';
+import type { KeyValueStorage } from '../scenario-store';
+import { contextoChatJSON } from '../chat-context';
+import { calcularTodo } from '../roas-engine';
+import type { ParametrosCliente } from '@/types/roas';
+
+/** In-memory storage; setItem throws like a full localStorage past `cuota` characters */
+function memoryStorage(cuota = Infinity): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (k) => data.get(k) ?? null,
+    setItem: (k, v) => {
+      if (v.length > cuota) throw new Error('QuotaExceededError');
+      data.set(k, v);
+    },
+  };
+}
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [{ nombre: 'Producto B', precio: 500, margenBruto: 0.2 }],
+  moneda: 'USD',
+};
+
+const mensajes: MensajeConversacion[] = [
+  { role: 'user', content: '¿Cuántas unidades debo vender?' },
+  {
+    role: 'assistant',
+    content: 'Debes vender 750 unidades.',
+    propuestas: [{ descripcion: 'Subir el IP', acciones: [{ tipo: 'fijarVariable', variable: 'IP', valor: 60000 }] }],
+  },
+];
+
+describe('LocalStorageConversationStore', () => {
+  test('keeps the most recently saved first and drops the oldest beyond the limit', async () => {
+    const storage = memoryStorage();
+    const store = new LocalStorageConversationStore(storage);
+    const a = nuevaConversacion();
+    const b = nuevaConversacion();
+    await store.save(a);
+    await store.save(b);
+    await store.save({ ...a, titulo: 'A2' });
+    expect((await store.list()).map((c) => c.titulo)).toEqual(['A2', TITULO_POR_DEFECTO]);
+
+    for (let i = 0; i < CONVERSACIONES_MAX; i++) await store.save(nuevaConversacion());
+    expect(await store.list()).toHaveLength(CONVERSACIONES_MAX);
+    expect(await store.get(a.id)).toBeNull();
+
+    await store.remove((await store.list())[0].id);
+    expect(await store.list()).toHaveLength(CONVERSACIONES_MAX - 1);
+  });
+
+  test('evicts the oldest conversations when the quota is exceeded', async () => {
+    const conMensaje = (texto: string) =>
+      actualizarConversacion(nuevaConversacion(), [{ role: 'user', content: texto.repeat(100) }]);
+    const store = new LocalStorageConversationStore(memoryStorage(700));
+    const [a, b, c] = [conMensaje('a'), conMensaje('b'), conMensaje('c')];
+    await store.save(a);
+    await store.save(b);
+    await store.save(c);
+    expect((await store.list()).map((x) => x.id)).toEqual([c.id, b.id]);
+
+    await expect(store.save(conMensaje('z'.repeat(10)))).rejects.toThrow('QuotaExceededError');
+    expect((await store.list()).map((x) => x.id)).toEqual([c.id, b.id]);
+  });
+
+  test('drops malformed entries on read', async () => {
+    const storage = memoryStorage();
+    const valida = actualizarConversacion(nuevaConversacion(), mensajes);
+    storage.setItem(
+      CONVERSATIONS_STORAGE_KEY,
+      JSON.stringify([valida, { ...valida, id: 'x', mensajes: [{ role: 'system', content: 'hola' }] }, 'basura'])
+    );
+    expect((await new LocalStorageConversationStore(storage).list()).map((c) => c.id)).toEqual([valida.id]);
+    // A full snapshot from an older build: the conversation stays, the snapshot goes
+    storage.setItem(CONVERSATIONS_STORAGE_KEY, JSON.stringify([{ ...valida, contexto: { params, resultados: {} } }]));
+    expect((await new LocalStorageConversationStore(storage).list())[0]).toEqual(valida);
+    storage.setItem(CONVERSATIONS_STORAGE_KEY, '{roto');
+    expect(await new LocalStorageConversationStore(storage).list()).toEqual([]);
+  });
+});
+
+describe('titles', () => {
+  test('come from the first question, cut at a word boundary', () => {
+    expect(tituloDesdePregunta('  ¿Qué es   el VUM?\nY otra cosa')).toBe('¿Qué es el VUM?');
+    const largo = tituloDesdePregunta('Necesito entender por qué mi IP-ROAS sale tan alto cuando subo la tarifa fija del mes');
+    expect(largo).toBe('Necesito entender por qué mi IP-ROAS sale tan alto cuando…');
+    expect(tituloDesdePregunta('   ')).toBe(TITULO_POR_DEFECTO);
+  });
+
+  test('are set once and kept afterwards', () => {
+    const primera = actualizarConversacion(nuevaConversacion(), mensajes);
+    expect(primera.titulo).toBe('¿Cuántas unidades debo vender?');
+    const renombrada = actualizarConversacion({ ...primera, titulo: 'Plan Q3' }, [
+      ...mensajes,
+      { role: 'user', content: 'Otra' },
+    ]);
+    expect(renombrada.titulo).toBe('Plan Q3');
+  });
+});
+
+describe('recortarContexto', () => {
+  test('keeps the inputs and the prompt summary but not the product list', () => {
+    const productos = Array.from({ length: 2000 }, (_, i) => ({ nombre: `Producto ${i}`, precio: 100 + i, margenBruto: 0.5 }));
+    const grande = { ...params, productos };
+    const guardado = recortarContexto(contextoChatJSON(grande, calcularTodo(grande)));
+    expect(guardado.params).not.toHaveProperty('productos');
+    expect(guardado.params.inversionPublicitaria).toBe(50000);
+    expect(guardado.resumen).toContain('Productos (2000, 2000 en el cálculo)');
+    expect(JSON.stringify(guardado).length).toBeLessThan(5000);
+  });
+});
+
+describe('recortarHistorial', () => {
+  const conversacion: MensajeConversacion[] = Array.from({ length: 9 }, (_, i) => ({
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `m${i}`.padEnd(10, '.'),
+  }));
+
+  test('sends short histories whole, without proposals', () => {
+    expect(recortarHistorial(mensajes)).toEqual({
+      mensajes: mensajes.map(({ role, content }) => ({ role, content })),
+      omitidos: 0,
+    });
+  });
+
+  test('keeps the latest messages within the limits, starting with a question', () => {
+    const porCantidad = recortarHistorial(conversacion, 4);
+    expect(porCantidad.mensajes.map((m) => m.content.slice(0, 2))).toEqual(['m6', 'm7', 'm8']);
+    expect(porCantidad.omitidos).toBe(6);
+    const porCaracteres = recortarHistorial(conversacion, 20, 35);
+    expect(porCaracteres.mensajes.map((m) => m.content.slice(0, 2))).toEqual(['m6', 'm7', 'm8']);
+  });
+
+  test('always sends the last message, cut to the limit', () => {
+    const r = recortarHistorial([{ role: 'user', content: 'x'.repeat(100) }], 20, 30);
+    expect(r.mensajes[0].content).toHaveLength(30);
+  });
+});
+
+describe('conversacionAMarkdown', () => {
+  test('includes the snapshot, the messages and the proposals', () => {
+    const conversacion = actualizarConversacion(
+      nuevaConversacion(),
+      mensajes,
+      contextoChatJSON(params, calcularTodo(params))
+    );
+    const md = conversacionAMarkdown(conversacion);
+    expect(md).toContain('# ¿Cuántas unidades debo vender?');
+    expect(md).toContain('## Datos de la calculadora');
+    expect(md).toContain('- Producto B: precio=$500.00');
+    expect(md).toContain('"inversionPublicitaria": 50000');
+    expect(md).toContain('**Asistente:**\n\nDebes vender 750 unidades.');
+    expect(md).toContain('> - IP → $60,000.00');
+    expect(conversacionAMarkdown({ ...conversacion, contexto: undefined })).not.toContain('Datos de la calculadora');
+    expect(nombreArchivoConversacion(conversacion)).toBe('conversacion-cuantas-unidades-debo-vender.md');
+  });
+});
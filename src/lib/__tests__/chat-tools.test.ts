@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the assistant tools and the tool-call loop
+ */
+
+import { conversarConHerramientas, ejecutarHerramienta, type EventoChat } from '../chat-tools';
+import { ScriptedLLMClient, type MensajeLLM } from '../llm';
+import type { ParametrosCliente } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Producto A', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+const llamar = (nombre: string, args: unknown = {}) =>
+  JSON.parse(ejecutarHerramienta({ id: 'c1', nombre, argumentos: JSON.stringify(args) }, params));
+
+async function recoger(eventos: AsyncIterable<EventoChat>): Promise<EventoChat[]> {
+  const todos: EventoChat[] = [];
+  for await (const e of eventos) todos.push(e);
+  return todos;
+}
+
+describe('ejecutarHerramienta', () => {
+  test('calcular_resultados returns the engine results and critical product', () => {
+    const r = llamar('calcular_resultados');
+    expect(r.resultados).toMatchObject({ ipRoas: 1.5, vum: 750, productoCritico: 'Producto B' });
+    expect(r.productoCritico).toMatchObject({ nombre: 'Producto B', margenNeto: 100 });
+    expect(r.productosEnCalculo).toBe(2);
+  });
+
+  test('simular_escenario recalculates what-ifs against the current results', () => {
+    const r = llamar('simular_escenario', { inversionPublicitaria: 60000, variacionMargenPct: 50 });
+    // VUM = ceil(85000 / 150)
+    expect(r.escenario.vum).toBe(567);
+    expect(r.diferencias.vum).toBe(567 - 750);
+    expect(r.actual.vum).toBe(750);
+  });
+
+  test('calcular_sensibilidad sweeps the requested range', () => {
+    const r = llamar('calcular_sensibilidad', { tipo: 'IP', min: 10000, max: 50000, puntos: 3 });
+    expect(r.puntos.map((p: { x: number }) => p.x)).toEqual([10000, 30000, 50000]);
+    expect(r.puntos[0].ipRoas).toBe(3.5);
+  });
+
+  test('bad calls come back as errors for the model', () => {
+    expect(llamar('simular_escenario', { tarifaFija: -1 }).error).toMatch('tarifaFija');
+    expect(llamar('calcular_sensibilidad', { tipo: 'IP', puntos: 500 }).error).toMatch('puntos');
+    expect(llamar('calcular_sensibilidad', { tipo: 'XX' }).error).toMatch('tipo');
+    expect(llamar('borrar_todo').error).toMatch('desconocida');
+    expect(JSON.parse(ejecutarHerramienta({ id: 'c', nombre: 'calcular_resultados', argumentos: '{' }, params)).error).toBeDefined();
+    expect(JSON.parse(ejecutarHerramienta({ id: 'c', nombre: 'calcular_resultados', argumentos: '' }, null)).error).toMatch(
+      'no envió datos'
+    );
+  });
+});
+
+describe('conversarConHerramientas', () => {
+  const mensajes: MensajeLLM[] = [
+    { role: 'system', content: 'sistema' },
+    { role: 'user', content: '¿Cuántas unidades debo vender?' },
+  ];
+
+  test('runs the requested tools and streams the final answer', async () => {
+    const cliente = new ScriptedLLMClient([
+      { llamadas: [{ id: 'c1', nombre: 'calcular_resultados', argumentos: '{}' }] },
+      { texto: ['Debes vender ', '750 unidades.'] },
+    ]);
+    const eventos = await recoger(conversarConHerramientas(cliente, mensajes, params));
+
+    expect(eventos).toEqual([
+      { tipo: 'herramienta', nombre: 'calcular_resultados' },
+      { tipo: 'texto', texto: 'Debes vender ' },
+      { tipo: 'texto', texto: '750 unidades.' },
+    ]);
+    const segunda = cliente.peticiones[1].mensajes;
+    expect(segunda[2]).toMatchObject({ role: 'assistant', llamadas: [{ id: 'c1' }] });
+    expect(segunda[3]).toMatchObject({ role: 'tool', llamadaId: 'c1' });
+    expect(JSON.parse(segunda[3].content).resultados.vum).toBe(750);
+    expect(mensajes).toHaveLength(2);
+  });
+
+  test('streams proposals without applying them and rejects unknown products', async () => {
+    const propuesta = {
+      descripcion: 'Subir el IP',
+      acciones: [{ tipo: 'fijarVariable', variable: 'IP', valor: 60000 }],
+    };
+    const cliente = new ScriptedLLMClient([
+      {
+        llamadas: [
+          { id: 'p1', nombre: 'proponer_cambios', argumentos: JSON.stringify(propuesta) },
+          {
+            id: 'p2',
+            nombre: 'proponer_cambios',
+            argumentos: JSON.stringify({ descripcion: 'x', acciones: [{ tipo: 'eliminarProducto', nombre: 'Zapatos' }] }),
+          },
+        ],
+      },
+      { texto: ['Te propongo subir el IP.'] },
+    ]);
+    const eventos = await recoger(conversarConHerramientas(cliente, mensajes, params));
+
+    expect(eventos.filter((e) => e.tipo === 'propuesta')).toEqual([{ tipo: 'propuesta', propuesta }]);
+    const resultados = cliente.peticiones[1].mensajes.slice(3).map((m) => JSON.parse(m.content));
+    expect(resultados[0].mostrada).toBe(true);
+    expect(resultados[1].error).toMatch('Zapatos');
+    expect(params.inversionPublicitaria).toBe(50000);
+  });
+
+  test('the last round goes without tools so the model has to answer', async () => {
+    const llamada = { id: 'c', nombre: 'calcular_resultados', argumentos: '{}' };
+    const cliente = new ScriptedLLMClient([{ llamadas: [llamada] }, { llamadas: [llamada] }, { texto: ['Listo'] }]);
+    const eventos = await recoger(conversarConHerramientas(cliente, mensajes, params, 2));
+
+    expect(eventos.filter((e) => e.tipo === 'herramienta')).toHaveLength(2);
+    expect(eventos[eventos.length - 1]).toEqual({ tipo: 'texto', texto: 'Listo' });
+    expect(cliente.peticiones.map((p) => p.herramientas.length)).toEqual([4, 4, 0]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for column mapping of imported catalogs
+ */
+
+import { sugerirMapeo, aplicarMapeo, mapeoCompleto, mapeoVacio, MappingMemory } from '../column-mapping';
+import type { TablaImportada } from '../spreadsheet-import';
+import type { KeyValueStorage } from '../scenario-store';
+
+function memoryStorage(): KeyValueStorage {
+  const data = new Map<string, string>();
+  return { getItem: (k) => data.get(k) ?? null, setItem: (k, v) => void data.set(k, v) };
+}
+
+describe('sugerirMapeo', () => {
+  test('matches built-in aliases ignoring case and accents', () => {
+    expect(sugerirMapeo(['SKU', 'Nombre', 'Precio', 'Margen Bruto', 'Categoría'])).toEqual({
+      ...mapeoVacio(),
+      sku: 0,
+      nombre: 1,
+      precio: 2,
+      margen: 3,
+      categoria: 4,
+    });
+  });
+
+  test('remembered headers take precedence', () => {
+    const mapeo = sugerirMapeo(['Descripción', 'PVP', 'Margen %', 'Precio'], {
+      descripcion: 'nombre',
+      pvp: 'precio',
+      'margen_%': 'margen',
+    });
+    expect(mapeo).toEqual({ ...mapeoVacio(), nombre: 0, precio: 1, margen: 2 });
+  });
+
+  test('leaves unknown columns unmapped', () => {
+    const mapeo = sugerirMapeo(['a', 'b']);
+    expect(mapeo).toEqual(mapeoVacio());
+    expect(mapeoCompleto(mapeo)).toBe(false);
+  });
+});
+
+describe('aplicarMapeo', () => {
+  const tabla: TablaImportada = {
+    headers: ['SKU', 'Descripción', 'PVP', 'Margen %'],
+    filas: [
+      { fila: 2, celdas: ['A1', 'Zapatos', 1500, 0.35] },
+      { fila: 3, celdas: ['A2', 'Camisa', '1.234,50', '25'] },
+      { fila: 4, celdas: ['A3', 'Roto', 'n/a', 10] },
+    ],
+  };
+
+  test('builds products from numeric and text cells', () => {
+    const result = aplicarMapeo(tabla, { ...mapeoVacio(), nombre: 1, precio: 2, margen: 3 });
+    expect(result.separadorDecimal).toBe(',');
+    expect(result.productos).toEqual([
+      { nombre: 'Zapatos', precio: 1500, margenBruto: 0.35 },
+      { nombre: 'Camisa', precio: 1234.5, margenBruto: 0.25 },
+    ]);
+    expect(result.omitidas).toEqual([{ fila: 4, motivo: 'Precio no numérico: "n/a"' }]);
+  });
+
+  test('generates names when the name column is not mapped', () => {
+    const result = aplicarMapeo(tabla, { ...mapeoVacio(), nombre: null, precio: 2, margen: 3 });
+    expect(result.productos.map((p) => p.nombre)).toEqual(['P1', 'P2']);
+  });
+});
+
+describe('MappingMemory', () => {
+  test('remembers confirmed headers for the next suggestion', () => {
+    const memory = new MappingMemory(memoryStorage());
+    const headers = ['Descripción', 'PVP', 'Utilidad'];
+    memory.recordar(headers, { ...mapeoVacio(), nombre: 0, precio: 1, margen: 2 });
+    expect(sugerirMapeo(headers, memory.cargar())).toEqual({ ...mapeoVacio(), nombre: 0, precio: 1, margen: 2 });
+  });
+
+  test('ignores corrupt storage', () => {
+    const storage = memoryStorage();
+    storage.setItem('ip-roas:mapeos:v1', '{oops');
+    expect(new MappingMemory(storage).cargar()).toEqual({});
+  });
+});
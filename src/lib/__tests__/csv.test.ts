@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the delimited text parser
+ */
+
+import {
+  tokenizarCSV,
+  detectarDelimitador,
+  detectarSeparadorDecimal,
+  parseNumero,
+  leerTablaCSV,
+  escribirCSV,
+} from '../csv';
+
+describe('tokenizarCSV', () => {
+  test('handles quoted delimiters, escaped quotes and embedded newlines', () => {
+    const text = 'nombre,precio\n"Kit, premium",100\n"Dice ""hola""",5\n"Dos\nlineas",7';
+    const registros = tokenizarCSV(text, ',');
+    expect(registros.map((r) => r.campos)).toEqual([
+      ['nombre', 'precio'],
+      ['Kit, premium', '100'],
+      ['Dice "hola"', '5'],
+      ['Dos\nlineas', '7'],
+    ]);
+  });
+
+  test('tracks source line numbers across CRLF and multi-line fields', () => {
+    const registros = tokenizarCSV('a,b\r\n"x\r\ny",1\r\nz,2\r\n', ',');
+    expect(registros.map((r) => r.fila)).toEqual([1, 2, 4]);
+  });
+});
+
+describe('detectarDelimitador', () => {
+  test('detects comma, semicolon, tab and pipe', () => {
+    expect(detectarDelimitador('nombre,precio,margen\n')).toBe(',');
+    expect(detectarDelimitador('nombre;precio;margen\n')).toBe(';');
+    expect(detectarDelimitador('nombre\tprecio\tmargen\n')).toBe('\t');
+    expect(detectarDelimitador('nombre|precio|margen')).toBe('|');
+  });
+
+  test('ignores delimiters inside quoted headers', () => {
+    expect(detectarDelimitador('"a,b";"c,d";e\n')).toBe(';');
+  });
+});
+
+describe('detectarSeparadorDecimal', () => {
+  test('uses the last separator when both appear', () => {
+    expect(detectarSeparadorDecimal(['1.234,50'], ',')).toBe(',');
+    expect(detectarSeparadorDecimal(['1,234.50'], ';')).toBe('.');
+  });
+
+  test('single separator that is not thousands grouping is decimal', () => {
+    expect(detectarSeparadorDecimal(['12,5', '3'], ';')).toBe(',');
+    expect(detectarSeparadorDecimal(['12.5'], ';')).toBe('.');
+  });
+
+  test('falls back on the delimiter when ambiguous', () => {
+    expect(detectarSeparadorDecimal(['1.234', '100'], ';')).toBe(',');
+    expect(detectarSeparadorDecimal(['1.234', '100'], ',')).toBe('.');
+  });
+});
+
+describe('parseNumero', () => {
+  test('parses both decimal conventions', () => {
+    expect(parseNumero('1.234,50', ',')).toBe(1234.5);
+    expect(parseNumero('1,234.50', '.')).toBe(1234.5);
+    expect(parseNumero('$ 1 500', '.')).toBe(1500);
+    expect(parseNumero('35%', '.')).toBe(35);
+  });
+
+  test('returns NaN for non-numbers', () => {
+    expect(parseNumero('', '.')).toBeNaN();
+    expect(parseNumero('abc', '.')).toBeNaN();
+    expect(parseNumero('12abc', '.')).toBeNaN();
+  });
+});
+
+describe('leerTablaCSV', () => {
+  test('strips BOM, skips blank lines and reports column mismatches', () => {
+    const tabla = leerTablaCSV('\uFEFFNombre;Precio\n\nA;10\nB;20;extra\nC;30;;\n');
+    expect(tabla.delimitador).toBe(';');
+    expect(tabla.headers).toEqual(['nombre', 'precio']);
+    expect(tabla.filas.map((f) => f.valores.nombre)).toEqual(['A', 'C']);
+    expect(tabla.omitidas).toEqual([{ fila: 4, motivo: 'Se esperaban 2 columnas y se encontraron 3' }]);
+  });
+
+  test('returns an empty table for empty text', () => {
+    expect(leerTablaCSV('').filas).toEqual([]);
+  });
+});
+
+describe('escribirCSV', () => {
+  test('quotes fields that need it and round-trips through the tokenizer', () => {
+    const csv = escribirCSV(['a', 'b'], [['x, y', 'di "hola"'], ['linea\nnueva', 1.5]]);
+    expect(csv).toBe('a,b\r\n"x, y","di ""hola"""\r\n"linea\nnueva",1.5\r\n');
+    expect(tokenizarCSV(csv, ',').map((r) => r.campos)).toEqual([
+      ['a', 'b'],
+      ['x, y', 'di "hola"'],
+      ['linea\nnueva', '1.5'],
+    ]);
+  });
+
+  test('writes non-finite numbers as empty cells', () => {
+    expect(escribirCSV(['v'], [[Infinity], [NaN]], ';')).toBe('v\r\n\r\n\r\n');
+  });
+});
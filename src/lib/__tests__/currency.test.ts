@@ -0,0 +1,140 @@
+/**
+ * Unit tests for currency conversion, rate files and locale-aware formatting
+ */
+
+import {
+  convertirMonto,
+  convertirParametros,
+  validarConversion,
+  parseTasasCSV,
+  tablaTasasDesde,
+  ExchangeRateMemory,
+  TABLA_TASAS_VACIA,
+} from '../currency';
+import { formatCurrency, formatCurrencyTick } from '../format';
+import { calcularTodo } from '../roas-engine';
+import type { KeyValueStorage } from '../scenario-store';
+import type { ParametrosCliente, TablaTasas } from '@/types/roas';
+
+const tabla: TablaTasas = { base: 'USD', tasas: { MXN: 20, COP: 4000 } };
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 100000,
+  tarifaFija: 20000,
+  ingresoEsperado: 30000,
+  moneda: 'MXN',
+  productos: [
+    { nombre: 'Local', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Importado', precio: 100, margenBruto: 0.4, moneda: 'USD' },
+    { nombre: 'Colombia', precio: 200000, margenBruto: 0.25, moneda: 'COP' },
+  ],
+};
+
+function memoryStorage(): KeyValueStorage {
+  const data = new Map<string, string>();
+  return { getItem: (k) => data.get(k) ?? null, setItem: (k, v) => void data.set(k, v) };
+}
+
+describe('convertirMonto', () => {
+  test('converts through the base currency', () => {
+    expect(convertirMonto(100, 'USD', 'MXN', tabla)).toBe(2000);
+    expect(convertirMonto(2000, 'MXN', 'USD', tabla)).toBe(100);
+    expect(convertirMonto(4000, 'COP', 'MXN', tabla)).toBe(20);
+  });
+
+  test('returns null for unknown rates, except same-currency amounts', () => {
+    expect(convertirMonto(5, 'EUR', 'MXN', tabla)).toBeNull();
+    expect(convertirMonto(5, 'EUR', 'EUR', TABLA_TASAS_VACIA)).toBe(5);
+  });
+});
+
+describe('convertirParametros', () => {
+  test('expresses every price in the reporting currency before calcularTodo', () => {
+    const { params: convertidos, sinTasa } = convertirParametros(params, tabla);
+    expect(sinTasa).toEqual([]);
+    expect(convertidos.productos.map((p) => [p.precio, p.moneda])).toEqual([
+      [1000, 'MXN'],
+      [2000, 'MXN'],
+      [1000, 'MXN'],
+    ]);
+    // Critical product: Colombia, margin 1000 MXN * 0.25 = 250 MXN
+    const r = calcularTodo(convertidos);
+    expect(r.productoCritico).toBe('Colombia');
+    expect(r.vum).toBe(600); // 150000 / 250
+  });
+
+  test('converts fixed deductions with the price and keeps percentages', () => {
+    const conDeducciones: ParametrosCliente = {
+      ...params,
+      productos: [
+        {
+          ...params.productos[1],
+          deducciones: [
+            { concepto: 'Envío', tipo: 'fijo', valor: 5 },
+            { concepto: 'IVA', tipo: 'porcentaje', valor: 0.16 },
+          ],
+        },
+      ],
+    };
+    const [producto] = convertirParametros(conDeducciones, tabla).params.productos;
+    expect(producto.deducciones).toEqual([
+      { concepto: 'Envío', tipo: 'fijo', valor: 100 },
+      { concepto: 'IVA', tipo: 'porcentaje', valor: 0.16 },
+    ]);
+  });
+
+  test('leaves out products without a rate and reports the currency', () => {
+    const result = convertirParametros(params, { base: 'USD', tasas: { MXN: 20 } });
+    expect(result.sinTasa).toEqual(['COP']);
+    expect(result.excluidos.map((p) => p.nombre)).toEqual(['Colombia']);
+    expect(result.params.productos).toHaveLength(2);
+  });
+
+  test('validarConversion rejects instead of excluding', () => {
+    const result = validarConversion(params, TABLA_TASAS_VACIA);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors.map((e) => e.campo)).toEqual(['productos[1].moneda', 'productos[2].moneda']);
+  });
+});
+
+describe('parseTasasCSV', () => {
+  test('reads codes and rates with decimal-comma detection', () => {
+    const result = parseTasasCSV('moneda;tasa\nmxn;17,25\nCOP;3.950,5\nXX;1\nEUR;-1\n');
+    expect(result.tasas).toEqual({ MXN: 17.25, COP: 3950.5 });
+    expect(result.omitidas.map((o) => o.fila)).toEqual([4, 5]);
+  });
+});
+
+describe('ExchangeRateMemory', () => {
+  test('persists the table and ignores invalid stored data', () => {
+    const storage = memoryStorage();
+    const memory = new ExchangeRateMemory(storage);
+    expect(memory.cargar()).toEqual(TABLA_TASAS_VACIA);
+    memory.guardar(tabla);
+    expect(memory.cargar()).toEqual(tabla);
+    storage.setItem('ip-roas:tasas:v1', '{"base":"usd"}');
+    expect(memory.cargar()).toEqual(TABLA_TASAS_VACIA);
+  });
+
+  test('tablaTasasDesde drops unusable entries', () => {
+    expect(tablaTasasDesde({ base: 'USD', tasas: { MXN: 20, COP: 0, bad: 3 } })).toEqual({
+      base: 'USD',
+      tasas: { MXN: 20 },
+    });
+  });
+});
+
+describe('locale-aware formatting', () => {
+  test('keeps the en-US dollar format by default', () => {
+    expect(formatCurrency(1234.5)).toBe('$1,234.50');
+    expect(formatCurrency(Infinity)).toBe('$--');
+    expect(formatCurrencyTick(50000)).toBe('$50K');
+    expect(formatCurrencyTick(1500000)).toBe('$1.5M');
+  });
+
+  test('uses the conventions of the currency market', () => {
+    expect(formatCurrency(1234.5, 'COP')).toBe('$ 1.234,50');
+    expect(formatCurrency(1234.5, 'MXN')).toBe('$1,234.50');
+    expect(formatCurrency(1234.5, 'EUR')).toContain('1234,50');
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for portfolio and sensitivity exports
+ */
+
+import ExcelJS from 'exceljs';
+import { portafolioCSV, sensibilidadCSV, exportarXLSX } from '../data-export';
+import { calcularSensibilidad, parseCSV } from '../roas-engine';
+import { leerTablaCSV } from '../csv';
+import type { ParametrosCliente } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Kit, "premium"', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+describe('portafolioCSV', () => {
+  test('includes derived columns and quotes special characters', () => {
+    const csv = portafolioCSV(params.productos);
+    expect(csv).toBe(
+      'nombre,precio,margen,margen_absoluto,critico\r\n' +
+        '"Kit, ""premium""",1000,0.3,300,no\r\n' +
+        'Producto B,500,0.2,100,si\r\n'
+    );
+  });
+
+  test('round-trips through parseCSV', () => {
+    expect(parseCSV(portafolioCSV(params.productos))).toEqual(params.productos);
+  });
+
+  test('writes sku, categoria and en_campana and picks critico among the selection', () => {
+    const productos = [
+      { ...params.productos[0], sku: 'K-1', categoria: 'Kits' },
+      { ...params.productos[1], categoria: 'Sueltos', enCampana: false },
+    ];
+    const csv = portafolioCSV(productos);
+    expect(csv).toBe(
+      'nombre,precio,margen,margen_absoluto,critico,sku,categoria,en_campana\r\n' +
+        '"Kit, ""premium""",1000,0.3,300,si,K-1,Kits,\r\n' +
+        'Producto B,500,0.2,100,no,,Sueltos,no\r\n'
+    );
+    expect(parseCSV(csv)).toEqual(productos);
+  });
+
+  test('writes per-product deductions so they import back', () => {
+    const productos = [
+      {
+        ...params.productos[0],
+        deducciones: [
+          { concepto: 'Comisión', tipo: 'porcentaje' as const, valor: 0.07 },
+          { concepto: 'Envío a domicilio', tipo: 'fijo' as const, valor: 25.5 },
+        ],
+      },
+      params.productos[1],
+    ];
+    const csv = portafolioCSV(productos);
+    expect(csv.split('\r\n')[1]).toBe('"Kit, ""premium""",1000,0.3,300,no,Comisión 7%; Envío a domicilio 25.5');
+    expect(parseCSV(csv)).toEqual(productos);
+  });
+
+  test('computes derived columns in the reporting currency and keeps prices as entered', () => {
+    const productos = [
+      { nombre: 'Tortillas', precio: 1000, margenBruto: 0.3, moneda: 'MXN' }, // $15 USD margin
+      { nombre: 'Producto B', precio: 500, margenBruto: 0.2, moneda: 'USD' },
+      { nombre: 'Café', precio: 10, margenBruto: 0.5, moneda: 'EUR' }, // No rate: outside the calculation
+    ];
+    const csv = portafolioCSV(productos, [], undefined, { moneda: 'USD', tasas: { base: 'USD', tasas: { MXN: 20 } } });
+    expect(csv).toBe(
+      'nombre,precio,margen,margen_absoluto,critico,moneda\r\n' +
+        'Tortillas,1000,0.3,15,si,MXN\r\n' +
+        'Producto B,500,0.2,100,no,USD\r\n' +
+        'Café,10,0.5,,no,EUR\r\n'
+    );
+    expect(parseCSV(csv)).toEqual(productos);
+  });
+});
+
+describe('sensibilidadCSV', () => {
+  test('writes one row per point and leaves non-finite values empty', () => {
+    const data = calcularSensibilidad('TF', { ...params, inversionPublicitaria: 0 }, 3)!;
+    const tabla = leerTablaCSV(sensibilidadCSV('TF', data));
+    expect(tabla.headers).toEqual(['tarifa_fija', 'ip_roas', 'roas_tradicional']);
+    expect(tabla.filas).toHaveLength(3);
+    expect(tabla.filas[0].valores.ip_roas).toBe('');
+  });
+});
+
+describe('exportarXLSX', () => {
+  test('writes the portfolio and one sheet per sensitivity series', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await exportarXLSX(params, undefined, 5));
+    expect(workbook.worksheets.map((w) => w.name)).toEqual([
+      'Portafolio',
+      'Sensibilidad IP',
+      'Sensibilidad TF',
+      'Sensibilidad IE',
+      'Sensibilidad Margen',
+    ]);
+    expect(workbook.getWorksheet('Portafolio')!.getRow(3).values).toEqual([
+      undefined,
+      'Producto B',
+      500,
+      0.2,
+      100,
+      'si',
+    ]);
+    expect(workbook.getWorksheet('Sensibilidad IP')!.rowCount).toBe(6);
+  });
+
+  test('writes the same portfolio rows as portafolioCSV for a mixed-currency portfolio', async () => {
+    const mixto: ParametrosCliente = {
+      ...params,
+      moneda: 'USD',
+      productos: [
+        { nombre: 'Tortillas', precio: 1000, margenBruto: 0.3, moneda: 'MXN' },
+        { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+        { nombre: 'Café', precio: 10, margenBruto: 0.5, moneda: 'EUR' }, // No rate
+      ],
+    };
+    const conversion = { moneda: 'USD', tasas: { base: 'USD', tasas: { MXN: 20 } } };
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await exportarXLSX(mixto, conversion, 5));
+    const hoja = workbook.getWorksheet('Portafolio')!;
+    // Prices as entered, every product kept, derived columns in USD: the rows of portafolioCSV
+    expect([2, 3, 4].map((i) => hoja.getRow(i).values)).toEqual([
+      [undefined, 'Tortillas', 1000, 0.3, 15, 'si', 'MXN'],
+      [undefined, 'Producto B', 500, 0.2, 100, 'no', ''],
+      [undefined, 'Café', 10, 0.5, '', 'no', 'EUR'],
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the chat provider configuration
+ */
+
+import { crearClienteLLM, leerConfigLLM, MODELO_POR_PROVEEDOR, URL_OLLAMA } from '../llm-config';
+import { GroqLLMClient } from '../llm-groq';
+import { OpenAICompatibleLLMClient } from '../llm-openai';
+
+describe('leerConfigLLM', () => {
+  test('defaults to Groq with the usual settings', () => {
+    expect(leerConfigLLM({ GROQ_API_KEY: 'gsk' })).toEqual({
+      ok: true,
+      value: { proveedor: 'groq', modelo: MODELO_POR_PROVEEDOR.groq, temperatura: 0.7, maxTokens: 1024, apiKey: 'gsk' },
+    });
+  });
+
+  test('names the missing credential for each provider', () => {
+    expect(leerConfigLLM({})).toMatchObject({ ok: false, errors: [{ campo: 'GROQ_API_KEY' }] });
+    expect(leerConfigLLM({ LLM_PROVIDER: 'openai', GROQ_API_KEY: 'gsk', OPENAI_API_KEY: ' ' })).toMatchObject({
+      ok: false,
+      errors: [{ campo: 'OPENAI_API_KEY' }],
+    });
+  });
+
+  test('self-hosted servers need no key', () => {
+    const onPrem = leerConfigLLM({ LLM_PROVIDER: 'OpenAI', OPENAI_BASE_URL: 'http://llm.interno:8000/v1', LLM_MODEL: 'qwen' });
+    expect(onPrem.ok && onPrem.value).toMatchObject({ proveedor: 'openai', modelo: 'qwen', baseUrl: 'http://llm.interno:8000/v1' });
+    const ollama = leerConfigLLM({ LLM_PROVIDER: 'ollama', LLM_TEMPERATURE: '0.2', LLM_MAX_TOKENS: '2048' });
+    expect(ollama.ok && ollama.value).toEqual({
+      proveedor: 'ollama',
+      modelo: MODELO_POR_PROVEEDOR.ollama,
+      temperatura: 0.2,
+      maxTokens: 2048,
+      baseUrl: URL_OLLAMA,
+    });
+  });
+
+  test('collects every bad value', () => {
+    expect(leerConfigLLM({ LLM_PROVIDER: 'claude' })).toMatchObject({ ok: false, errors: [{ campo: 'LLM_PROVIDER' }] });
+    const result = leerConfigLLM({
+      LLM_PROVIDER: 'ollama',
+      LLM_TEMPERATURE: 'alta',
+      LLM_MAX_TOKENS: '1.5',
+      OLLAMA_BASE_URL: 'localhost:11434',
+    });
+    expect(!result.ok && result.errors.map((e) => e.campo)).toEqual(['LLM_TEMPERATURE', 'LLM_MAX_TOKENS', 'OLLAMA_BASE_URL']);
+  });
+});
+
+describe('crearClienteLLM', () => {
+  test('builds the client for the configured provider', () => {
+    const base = { modelo: 'm', temperatura: 0.7, maxTokens: 1024 };
+    expect(crearClienteLLM({ ...base, proveedor: 'groq', apiKey: 'gsk' })).toBeInstanceOf(GroqLLMClient);
+    expect(crearClienteLLM({ ...base, proveedor: 'ollama', baseUrl: URL_OLLAMA })).toBeInstanceOf(OpenAICompatibleLLMClient);
+  });
+});
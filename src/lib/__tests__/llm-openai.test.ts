@@ -0,0 +1,67 @@
+/**
+ * Unit tests for the OpenAI-compatible streaming client
+ */
+
+import { OpenAICompatibleLLMClient } from '../llm-openai';
+import type { EventoLLM } from '../llm';
+
+/** A fetch that answers with the given SSE text split into awkward chunks */
+function fetchSSE(sse: string, peticiones: { url: string; init: RequestInit }[], status = 200): typeof fetch {
+  return (async (url: string, init: RequestInit) => {
+    peticiones.push({ url, init });
+    const bytes = new TextEncoder().encode(sse);
+    const cuerpo = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7));
+        controller.close();
+      },
+    });
+    return new Response(cuerpo, { status });
+  }) as unknown as typeof fetch;
+}
+
+const data = (chunk: unknown) => `data: ${JSON.stringify(chunk)}\n\n`;
+
+async function recoger(eventos: AsyncIterable<EventoLLM>): Promise<EventoLLM[]> {
+  const todos: EventoLLM[] = [];
+  for await (const e of eventos) todos.push(e);
+  return todos;
+}
+
+const opciones = { baseUrl: 'http://localhost:11434/v1/', modelo: 'llama3.1', temperatura: 0.2, maxTokens: 512 };
+
+describe('OpenAICompatibleLLMClient', () => {
+  test('streams text and assembles tool calls from fragments', async () => {
+    const sse =
+      data({ choices: [{ delta: { content: 'Hola' } }] }) +
+      data({ choices: [{ delta: { tool_calls: [{ index: 0, id: 'c1', function: { name: 'calcular_', arguments: '{"a"' } }] } }] }) +
+      data({ choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'resultados', arguments: ':1}' } }] } }] }) +
+      'data: [DONE]\n\n';
+    const peticiones: { url: string; init: RequestInit }[] = [];
+    const cliente = new OpenAICompatibleLLMClient(opciones, fetchSSE(sse, peticiones));
+    const eventos = await recoger(
+      cliente.responder({
+        mensajes: [{ role: 'user', content: '¿VUM?' }],
+        herramientas: [{ nombre: 'calcular_resultados', descripcion: 'd', parametros: { type: 'object' } }],
+      })
+    );
+
+    expect(eventos).toEqual([
+      { tipo: 'texto', texto: 'Hola' },
+      { tipo: 'herramienta', llamada: { id: 'c1', nombre: 'calcular_resultados', argumentos: '{"a":1}' } },
+    ]);
+    expect(peticiones[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(peticiones[0].init.headers).not.toHaveProperty('Authorization');
+    const cuerpo = JSON.parse(peticiones[0].init.body as string);
+    expect(cuerpo).toMatchObject({ model: 'llama3.1', temperature: 0.2, max_tokens: 512, stream: true });
+    expect(cuerpo.tools[0].function.name).toBe('calcular_resultados');
+  });
+
+  test('sends the key when there is one and fails on error statuses', async () => {
+    const peticiones: { url: string; init: RequestInit }[] = [];
+    const cliente = new OpenAICompatibleLLMClient({ ...opciones, apiKey: 'sk' }, fetchSSE('', peticiones, 401));
+    await expect(recoger(cliente.responder({ mensajes: [], herramientas: [] }))).rejects.toThrow('401');
+    expect(peticiones[0].init.headers).toHaveProperty('Authorization', 'Bearer sk');
+    expect(JSON.parse(peticiones[0].init.body as string).tools).toBeUndefined();
+  });
+});
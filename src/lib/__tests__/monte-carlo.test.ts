@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the Monte Carlo risk simulation
+ */
+
+import {
+  atenderSolicitud,
+  convertirDistribucion,
+  crearGenerador,
+  conEntradasActuales,
+  distribucionesPorDefecto,
+  histograma,
+  muestrear,
+  percentil,
+  simular,
+  validarConfigSimulacion,
+  type ConfigSimulacion,
+} from '../monte-carlo';
+import { calcularTodo } from '../roas-engine';
+import type { Distribucion, ParametrosCliente } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Producto A', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+const config: ConfigSimulacion = {
+  iteraciones: 2000,
+  semilla: 7,
+  distribuciones: {
+    ...distribucionesPorDefecto(params),
+    IP: { tipo: 'triangular', min: 40000, moda: 50000, max: 70000 },
+    margen: { tipo: 'normal', media: 1, desviacion: 0.1 },
+  },
+};
+
+function muestras(dist: Distribucion, n = 20000, semilla = 1): number[] {
+  const rand = crearGenerador(semilla);
+  return Array.from({ length: n }, () => muestrear(dist, rand));
+}
+
+const media = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+describe('sampling', () => {
+  test('the generator is reproducible and stays in [0, 1)', () => {
+    const a = crearGenerador(123);
+    const b = crearGenerador(123);
+    const xs = Array.from({ length: 1000 }, () => a());
+    expect(Array.from({ length: 1000 }, () => b())).toEqual(xs);
+    expect(xs.every((x) => x >= 0 && x < 1)).toBe(true);
+    expect(crearGenerador(124)()).not.toBe(xs[0]);
+  });
+
+  test('each distribution has the expected support and mean', () => {
+    expect(muestras({ tipo: 'fijo', valor: 3 }, 10)).toEqual(Array(10).fill(3));
+
+    const uniforme = muestras({ tipo: 'uniforme', min: 10, max: 20 });
+    expect(Math.min(...uniforme)).toBeGreaterThanOrEqual(10);
+    expect(Math.max(...uniforme)).toBeLessThan(20);
+    expect(media(uniforme)).toBeCloseTo(15, 0);
+
+    const triangular = muestras({ tipo: 'triangular', min: 0, moda: 3, max: 12 });
+    expect(Math.min(...triangular)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...triangular)).toBeLessThanOrEqual(12);
+    expect(media(triangular)).toBeCloseTo(5, 0); // (0 + 3 + 12) / 3
+
+    const normal = muestras({ tipo: 'normal', media: 100, desviacion: 10 });
+    const m = media(normal);
+    const sd = Math.sqrt(media(normal.map((x) => (x - m) ** 2)));
+    expect(m).toBeCloseTo(100, 0);
+    expect(Math.abs(sd - 10)).toBeLessThan(0.3);
+  });
+
+  test('convertirDistribucion keeps the centre when switching type', () => {
+    const fijo: Distribucion = { tipo: 'fijo', valor: 100 };
+    expect(convertirDistribucion(fijo, 'uniforme')).toEqual({ tipo: 'uniforme', min: 80, max: 120 });
+    expect(convertirDistribucion(fijo, 'triangular')).toEqual({ tipo: 'triangular', min: 80, moda: 100, max: 120 });
+    expect(convertirDistribucion({ tipo: 'uniforme', min: 0, max: 10 }, 'normal')).toEqual({
+      tipo: 'normal',
+      media: 5,
+      desviacion: 0.5,
+    });
+  });
+});
+
+describe('summary statistics', () => {
+  test('percentil interpolates between ranks', () => {
+    const xs = [1, 2, 3, 4, 5];
+    expect(percentil(xs, 0)).toBe(1);
+    expect(percentil(xs, 50)).toBe(3);
+    expect(percentil(xs, 90)).toBeCloseTo(4.6, 10);
+    expect(percentil([], 50)).toBeNaN();
+  });
+
+  test('histograma covers every value once', () => {
+    const clases = histograma([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+    expect(clases.map((c) => c.conteo)).toEqual([2, 2, 2, 2, 2]);
+    expect(clases[4].hasta).toBe(10);
+    expect(histograma([4, 4, 4])).toEqual([{ desde: 4, hasta: 4, conteo: 3 }]);
+  });
+});
+
+describe('simular', () => {
+  test('same seed, same result', () => {
+    expect(simular(params, config)).toEqual(simular(params, config));
+    expect(simular(params, { ...config, semilla: 8 })).not.toEqual(simular(params, config));
+  });
+
+  test('fixed inputs reproduce calcularTodo', () => {
+    const r = simular(params, { ...config, iteraciones: 10, distribuciones: distribucionesPorDefecto(params) })!;
+    const base = calcularTodo(params);
+    expect(r.base).toEqual(base);
+    expect(r.metricas.vum!.percentiles[5]).toBe(base.vum);
+    expect(r.metricas.vum!.percentiles[95]).toBe(base.vum);
+    expect(r.metricas.ipRoas!.media).toBeCloseTo(base.ipRoas, 10);
+    expect(r.metricas.cprEstimado!.probHastaBase).toBe(1);
+  });
+
+  test('reports ordered percentiles and full histograms', () => {
+    const r = simular(params, config)!;
+    for (const resumen of Object.values(r.metricas)) {
+      const ps = Object.values(resumen!.percentiles);
+      expect([...ps].sort((a, b) => a - b)).toEqual(ps);
+      expect(resumen!.histograma.reduce((acc, c) => acc + c.conteo, 0) + resumen!.descartadas).toBe(2000);
+    }
+    // IP only moves up from the mode, so IP-ROAS mostly falls below the base
+    expect(r.metricas.ipRoas!.probHastaBase).toBeGreaterThan(0.5);
+  });
+
+  test('discards draws without a positive margin', () => {
+    const r = simular(params, {
+      ...config,
+      distribuciones: { ...config.distribuciones, margen: { tipo: 'uniforme', min: -1, max: 1 } },
+    })!;
+    expect(r.metricas.vum!.descartadas).toBeGreaterThan(0);
+    expect(r.metricas.ipRoas!.descartadas).toBe(0);
+  });
+
+  test('fixed IP, TF and IE follow the current inputs after the config was edited', () => {
+    const editada = { ...config, iteraciones: 10, distribuciones: distribucionesPorDefecto(params) };
+    const nuevos = { ...params, inversionPublicitaria: 60000, tarifaFija: 12000 };
+    const actual = conEntradasActuales(editada, nuevos);
+    expect(actual.distribuciones.IP).toEqual({ tipo: 'fijo', valor: 60000 });
+    expect(actual.distribuciones.TF).toEqual({ tipo: 'fijo', valor: 12000 });
+    expect(actual.distribuciones.precio).toEqual({ tipo: 'fijo', valor: 1 });
+    expect(conEntradasActuales(config, nuevos).distribuciones.IP).toEqual(config.distribuciones.IP);
+    const r = simular(nuevos, actual)!;
+    expect(r.metricas.vum!.percentiles[50]).toBe(r.base.vum);
+    expect(r.metricas.ipRoas!.probHastaBase).toBe(1);
+  });
+
+  test('returns null without products', () => {
+    expect(simular({ ...params, productos: [] }, config)).toBeNull();
+  });
+});
+
+describe('validarConfigSimulacion / atenderSolicitud', () => {
+  test('rejects inconsistent distributions and iteration counts', () => {
+    const result = validarConfigSimulacion({
+      ...config,
+      iteraciones: 0,
+      distribuciones: {
+        ...config.distribuciones,
+        TF: { tipo: 'uniforme', min: 10, max: 5 },
+        IE: { tipo: 'triangular', min: 0, moda: 20, max: 10 },
+        precio: { tipo: 'normal', media: 1, desviacion: -1 },
+        margen: { tipo: 'fijo', valor: NaN },
+      },
+    });
+    expect(!result.ok && result.errors.map((e) => e.campo)).toEqual([
+      'iteraciones',
+      'distribuciones.TF',
+      'distribuciones.IE',
+      'distribuciones.precio',
+      'distribuciones.margen',
+    ]);
+  });
+
+  test('answers with the request id', () => {
+    const ok = atenderSolicitud({ id: 3, params, config: { ...config, iteraciones: 50 } });
+    expect(ok.id).toBe(3);
+    expect(ok.ok && ok.resultado?.iteraciones).toBe(50);
+    const error = atenderSolicitud({ id: 4, params, config: { ...config, semilla: 1.5 } });
+    expect(error).toEqual({ id: 4, ok: false, errores: [{ campo: 'semilla', mensaje: 'Debe ser un número entero' }] });
+  });
+});
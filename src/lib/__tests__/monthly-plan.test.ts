@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the monthly campaign planner
+ */
+
+import {
+  aplicarRampa,
+  calcularPlan,
+  copiarHaciaAdelante,
+  redimensionarPlan,
+  repartirPlan,
+  totalesPlan,
+  MESES_PLAN_MAX,
+} from '../monthly-plan';
+import { calcularTodo } from '../roas-engine';
+import type { MesPlan, ParametrosCliente } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 60000,
+  tarifaFija: 12000,
+  ingresoEsperado: 18000,
+  productos: [
+    { nombre: 'Producto A', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+const mes = (ip: number, tf: number, ie: number): MesPlan => ({
+  inversionPublicitaria: ip,
+  tarifaFija: tf,
+  ingresoEsperado: ie,
+});
+
+describe('plan helpers', () => {
+  test('repartirPlan splits the totals evenly', () => {
+    const plan = repartirPlan(params, 3);
+    expect(plan).toEqual([mes(20000, 4000, 6000), mes(20000, 4000, 6000), mes(20000, 4000, 6000)]);
+    expect(totalesPlan(plan)).toEqual(mes(60000, 12000, 18000));
+    expect(repartirPlan(params, 99)).toHaveLength(MESES_PLAN_MAX);
+  });
+
+  test('redimensionarPlan truncates or repeats the last month', () => {
+    const plan = [mes(1, 2, 3), mes(4, 5, 6)];
+    expect(redimensionarPlan(plan, 1)).toEqual([mes(1, 2, 3)]);
+    expect(redimensionarPlan(plan, 4)).toEqual([mes(1, 2, 3), mes(4, 5, 6), mes(4, 5, 6), mes(4, 5, 6)]);
+    expect(redimensionarPlan([], 2)).toEqual([mes(0, 0, 0), mes(0, 0, 0)]);
+  });
+
+  test('copiarHaciaAdelante overwrites only later months', () => {
+    const plan = [mes(1, 1, 1), mes(2, 2, 2), mes(3, 3, 3), mes(4, 4, 4)];
+    expect(copiarHaciaAdelante(plan, 1)).toEqual([mes(1, 1, 1), mes(2, 2, 2), mes(2, 2, 2), mes(2, 2, 2)]);
+    expect(copiarHaciaAdelante(plan, 9)).toBe(plan);
+  });
+
+  test('aplicarRampa compounds one field from the chosen month', () => {
+    const plan = [mes(1000, 500, 0), mes(0, 500, 0), mes(0, 500, 0), mes(0, 500, 0)];
+    const rampa = aplicarRampa(plan, 'inversionPublicitaria', 0.5);
+    expect(rampa.map((m) => m.inversionPublicitaria)).toEqual([1000, 1500, 2250, 3375]);
+    expect(rampa.map((m) => m.tarifaFija)).toEqual([500, 500, 500, 500]);
+    expect(plan[1].inversionPublicitaria).toBe(0); // Input untouched
+    const desdeDos = aplicarRampa(plan, 'tarifaFija', -0.2, 2);
+    expect(desdeDos.map((m) => m.tarifaFija)).toEqual([500, 500, 500, 400]);
+  });
+});
+
+describe('calcularPlan', () => {
+  const plan = [mes(10000, 2000, 3000), mes(20000, 2000, 3000), mes(30000, 8000, 12000)];
+
+  test('evaluates each month with the engine formulas', () => {
+    const filas = calcularPlan(params, plan);
+    expect(filas.map((f) => f.mes)).toEqual([1, 2, 3]);
+    // Month 1: IP-ROAS = 1 + 5000/10000; VUM = ceil(15000 / 100) with B critical
+    expect(filas[0].mensual.ipRoas).toBe(1.5);
+    expect(filas[0].mensual.vum).toBe(150);
+    expect(filas[0].mensual.cprEstimado).toBeCloseTo(10000 / 150, 10);
+    expect(filas[1].mensual.costosTotales).toBe(25000);
+  });
+
+  test('cumulative totals match the lump-sum calculation', () => {
+    const filas = calcularPlan(params, plan);
+    expect(filas.map((f) => f.acumulado.vum)).toEqual([150, 400, 900]);
+    const ultimo = filas[2].acumulado;
+    const lump = calcularTodo({ ...params, ...totalesPlan(plan) });
+    expect(ultimo.vum).toBe(lump.vum);
+    expect(ultimo.ipRoas).toBe(lump.ipRoas);
+    expect(ultimo.cprEstimado).toBe(lump.cprEstimado);
+    expect(ultimo.inversionPublicitaria).toBe(60000);
+  });
+
+  test('months without products have no VUM', () => {
+    const filas = calcularPlan({ ...params, productos: [] }, plan);
+    expect(filas.every((f) => f.mensual.vum === 0 && f.acumulado.vum === 0)).toBe(true);
+  });
+});
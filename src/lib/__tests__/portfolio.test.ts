@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the portfolio editing helpers
+ */
+
+import {
+  HISTORIAL_MAX,
+  crearHistorial,
+  deshacer,
+  esNombreDuplicado,
+  moverProducto,
+  nombresDuplicados,
+  registrar,
+  rehacer,
+  vumSiSoloSeVende,
+} from '../portfolio';
+import type { ParametrosCliente, Producto } from '@/types/roas';
+
+const productoA: Producto = { nombre: 'Producto A', precio: 1000, margenBruto: 0.3 };
+const productoB: Producto = { nombre: 'Producto B', precio: 500, margenBruto: 0.2 };
+const productoC: Producto = { nombre: 'Producto C', precio: 2000, margenBruto: 0.5 };
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [productoA, productoB, productoC],
+};
+
+describe('historial', () => {
+  test('undo and redo walk through recorded states', () => {
+    let h = crearHistorial<Producto[]>([]);
+    h = registrar(h, [productoA]);
+    h = registrar(h, [productoA, productoB]);
+    h = deshacer(h);
+    expect(h.presente).toEqual([productoA]);
+    h = deshacer(h);
+    expect(h.presente).toEqual([]);
+    expect(deshacer(h)).toBe(h);
+    h = rehacer(h);
+    expect(h.presente).toEqual([productoA]);
+    expect(h.futuro).toHaveLength(1);
+  });
+
+  test('a new change clears redo; repeating the present is ignored', () => {
+    const lista = [productoA];
+    let h = registrar(crearHistorial<Producto[]>([]), lista);
+    expect(registrar(h, lista)).toBe(h);
+    h = registrar(deshacer(h), [productoC]);
+    expect(h.futuro).toEqual([]);
+    expect(rehacer(h)).toBe(h);
+  });
+
+  test('keeps at most HISTORIAL_MAX past states', () => {
+    let h = crearHistorial(0);
+    for (let i = 1; i <= HISTORIAL_MAX + 10; i++) h = registrar(h, i);
+    expect(h.pasado).toHaveLength(HISTORIAL_MAX);
+    expect(h.pasado[0]).toBe(10);
+  });
+});
+
+describe('duplicates and order', () => {
+  test('names collide ignoring case, accents and spacing', () => {
+    const productos = [
+      { ...productoA, nombre: 'Café Molido' },
+      { ...productoB, nombre: '  cafe   molido ' },
+      productoC,
+    ];
+    expect(nombresDuplicados(productos)).toEqual([true, true, false]);
+    expect(esNombreDuplicado('CAFÉ MOLIDO', productos)).toBe(true);
+    expect(esNombreDuplicado('Producto C', productos, 2)).toBe(false);
+    expect(esNombreDuplicado('  ', productos)).toBe(false);
+  });
+
+  test('moverProducto reorders without mutating', () => {
+    const productos = [productoA, productoB, productoC];
+    expect(moverProducto(productos, 0, 2)).toEqual([productoB, productoC, productoA]);
+    expect(moverProducto(productos, 2, 1)).toEqual([productoA, productoC, productoB]);
+    expect(moverProducto(productos, 0, 3)).toBe(productos);
+    expect(productos).toEqual([productoA, productoB, productoC]);
+  });
+});
+
+describe('vumSiSoloSeVende', () => {
+  test('uses the product margin alone, global deductions included', () => {
+    expect(vumSiSoloSeVende(params, productoB)).toBe(750); // 75000 / 100
+    expect(vumSiSoloSeVende(params, productoC)).toBe(75); // 75000 / 1000
+    const conEnvio = { ...params, deducciones: [{ concepto: 'Envío', tipo: 'fijo' as const, valor: 50 }] };
+    expect(vumSiSoloSeVende(conEnvio, productoB)).toBe(1500);
+    expect(vumSiSoloSeVende(params, { ...productoB, margenBruto: 0 })).toBe(0);
+  });
+});
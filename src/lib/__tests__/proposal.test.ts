@@ -0,0 +1,77 @@
+/**
+ * Unit tests for the client proposal export
+ */
+
+import { construirPropuesta, tarjetasMetricas } from '../proposal';
+import { generarPropuestaPDF } from '../proposal-pdf';
+import { calcularTodo } from '../roas-engine';
+import type { ParametrosCliente } from '@/types/roas';
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [
+    { nombre: 'Producto A', precio: 1000, margenBruto: 0.3 },
+    { nombre: 'Producto B', precio: 500, margenBruto: 0.2 },
+  ],
+};
+
+describe('tarjetasMetricas', () => {
+  test('formats the four headline metrics', () => {
+    const tarjetas = tarjetasMetricas(calcularTodo(params));
+    expect(tarjetas.map((t) => t.label)).toEqual(['IP-ROAS', 'VUM', 'ROAS Tradicional', 'CPR Estimado']);
+    expect(tarjetas.map((t) => t.value)).toEqual(['1.5000', '750 unidades', '7.5000', '$66.67']);
+  });
+});
+
+describe('construirPropuesta', () => {
+  test('uses calcularTodo results and flags the critical product', () => {
+    const data = construirPropuesta(params, 'Acme', new Date('2026-01-15T12:00:00Z'));
+    expect(data.resultados).toEqual(calcularTodo(params));
+    expect(data.portafolio.map((p) => p.critico)).toEqual([false, true]);
+    expect(data.portafolio[1].margenAbsoluto).toBe(100);
+    expect(data.productoCritico?.nombre).toBe('Producto B');
+    expect(data.sensibilidad.map((s) => s.config.type)).toEqual(['IP', 'TF', 'IE', 'Margen']);
+  });
+
+  test('flags the critical product by net margin', () => {
+    const conDeducciones: ParametrosCliente = {
+      ...params,
+      deducciones: [{ concepto: 'Pasarela de pago', tipo: 'porcentaje', valor: 0.05 }],
+      productos: [
+        { ...params.productos[0], deducciones: [{ concepto: 'Envío', tipo: 'fijo', valor: 220 }] },
+        params.productos[1],
+      ],
+    };
+    const data = construirPropuesta(conDeducciones);
+    // A: 300 - 220 - 50 = 30; B: 100 - 25 = 75
+    expect(data.portafolio.map((p) => p.margenNeto)).toEqual([30, 75]);
+    expect(data.portafolio.map((p) => p.critico)).toEqual([true, false]);
+    expect(data.productoCritico?.nombre).toBe('Producto A');
+    expect(data.resultados.vum).toBe(2500); // 75000 / 30
+  });
+
+  test('lists only the products selected for the campaign', () => {
+    const data = construirPropuesta({
+      ...params,
+      productos: [params.productos[0], { ...params.productos[1], enCampana: false }],
+    });
+    expect(data.portafolio.map((p) => [p.nombre, p.critico, p.pesoMezcla])).toEqual([['Producto A', true, 1]]);
+    expect(data.productoCritico?.nombre).toBe('Producto A');
+  });
+
+  test('has no sensitivity series without products', () => {
+    const data = construirPropuesta({ ...params, productos: [] });
+    expect(data.sensibilidad).toEqual([]);
+    expect(data.productoCritico).toBeNull();
+  });
+});
+
+describe('generarPropuestaPDF', () => {
+  test('produces a PDF document', async () => {
+    const bytes = await generarPropuestaPDF(construirPropuesta(params, 'Acme'));
+    const header = new TextDecoder().decode(new Uint8Array(bytes).slice(0, 5));
+    expect(header).toBe('%PDF-');
+  });
+});
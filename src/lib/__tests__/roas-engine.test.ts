@@ -13,10 +13,26 @@ import {
   calcularCprEstimado,
   fRoasTradicional,
   calcularTodo,
+  pesosMezcla,
+  productoMezcla,
+  compararModosMargen,
   calcularSensibilidad,
+  calcularSensibilidad2D,
+  calcularCurvaSensibilidad,
+  valoresRango,
+  calcularTornado,
+  ordenarTornado,
+  goalSeek,
   parseCSV,
+  parseCSVConReporte,
+  margenNeto,
+  productosConDeducciones,
+  desgloseMargen,
+  productosSeleccionados,
+  categoriasDe,
+  calcularPorCategoria,
 } from '../roas-engine';
-import type { Producto, ParametrosCliente } from '@/types/roas';
+import type { Producto, ParametrosCliente, Deduccion } from '@/types/roas';
 
 // ============================================================================
 // TEST DATA
@@ -209,6 +225,182 @@ describe('calcularTodo', () => {
   });
 });
 
+// ============================================================================
+// SALES MIX
+// ============================================================================
+
+describe('sales mix', () => {
+  const conMezcla: ParametrosCliente = {
+    ...baseParams,
+    modoMargen: 'mezcla',
+    productos: [
+      { ...productoA, participacion: 2 },
+      { ...productoB, participacion: 1 },
+      { ...productoC, participacion: 1 },
+    ],
+  };
+
+  test('pesosMezcla normalizes weights and defaults to a uniform mix', () => {
+    expect(pesosMezcla(conMezcla.productos)).toEqual([0.5, 0.25, 0.25]);
+    expect(pesosMezcla(baseParams.productos)).toEqual([1 / 3, 1 / 3, 1 / 3]);
+    expect(pesosMezcla([{ ...productoA, participacion: 3 }, productoB])).toEqual([1, 0]);
+  });
+
+  test('productoMezcla averages price and absolute margin', () => {
+    const mezcla = productoMezcla(conMezcla.productos)!;
+    // Price = 0.5*1000 + 0.25*500 + 0.25*2000 = 1125
+    expect(mezcla.precio).toBe(1125);
+    // Margin $ = 0.5*300 + 0.25*100 + 0.25*1000 = 425
+    expect(margenAbsoluto(mezcla)).toBeCloseTo(425, 10);
+    expect(productoMezcla([])).toBeNull();
+  });
+
+  test('calcularTodo uses the weighted margin in mezcla mode', () => {
+    const resultado = calcularTodo(conMezcla);
+    // VUM = ceil(75000 / 425) = 177
+    expect(resultado.vum).toBe(177);
+    // ROAS Trad = 1125 * 177 / 50000
+    expect(resultado.roasMinTradicional).toBeCloseTo(3.9825, 10);
+    expect(resultado.precioProductoMinimo).toBe(1125);
+    expect(resultado.ipRoas).toBe(1.5);
+  });
+
+  test('peorCaso stays the default and matches the critical product', () => {
+    expect(calcularTodo({ ...conMezcla, modoMargen: undefined }).vum).toBe(750);
+    const ambos = compararModosMargen(conMezcla);
+    expect(ambos.peorCaso.vum).toBe(750);
+    expect(ambos.peorCaso.productoCritico).toBe('Producto B');
+    expect(ambos.mezcla.vum).toBe(177);
+  });
+
+  test('sensitivity and goal seek follow the selected mode', () => {
+    const data = calcularSensibilidad('IP', conMezcla, 3)!;
+    const medio = data[1];
+    expect(medio.x).toBe(50000);
+    expect(medio.roasTradicional).toBeCloseTo(3.9825, 10);
+    const gs = goalSeek(conMezcla, 'vum', 'IP', 177);
+    expect(calcularTodo({ ...conMezcla, inversionPublicitaria: gs!.valor }).vum).toBeLessThanOrEqual(177);
+  });
+});
+
+describe('campaign selection', () => {
+  const catalogo: ParametrosCliente = {
+    ...baseParams,
+    productos: [
+      { ...productoA, categoria: 'Calzado' },
+      { ...productoB, categoria: 'Ropa' },
+      { ...productoC, categoria: 'Calzado' },
+      { nombre: 'Sin cat', precio: 100, margenBruto: 0.1 },
+    ],
+  };
+
+  test('products left out of the campaign do not pick the critical product', () => {
+    const productos = [productoA, { ...productoB, enCampana: false }, productoC];
+    const resultado = calcularTodo({ ...baseParams, productos });
+    expect(resultado.productoCritico).toBe('Producto A');
+    expect(resultado.vum).toBe(250); // 75000 / 300
+  });
+
+  test('the category filter restricts the calculation to its products', () => {
+    expect(productosSeleccionados({ ...catalogo, categorias: ['Calzado'] }).map((p) => p.nombre)).toEqual([
+      'Producto A',
+      'Producto C',
+    ]);
+    expect(productosSeleccionados(catalogo)).toHaveLength(4);
+    expect(calcularTodo({ ...catalogo, categorias: ['Ropa'] }).vum).toBe(750);
+    expect(calcularTodo({ ...catalogo, categorias: ['Sin categoría'] }).productoCritico).toBe('Sin cat');
+    expect(calcularTodo({ ...catalogo, categorias: ['Otra'] }).vum).toBe(0);
+  });
+
+  test('calcularPorCategoria reports each category with products in the campaign', () => {
+    expect(categoriasDe(catalogo.productos)).toEqual(['Calzado', 'Ropa', 'Sin categoría']);
+    const productos = catalogo.productos.map((p) => (p.categoria === 'Ropa' ? { ...p, enCampana: false } : p));
+    const porCategoria = calcularPorCategoria({ ...catalogo, productos, categorias: ['Calzado'] });
+    expect(porCategoria.map((c) => [c.categoria, c.productos, c.resultados.productoCritico])).toEqual([
+      ['Calzado', 2, 'Producto A'],
+      ['Sin categoría', 1, 'Sin cat'],
+    ]);
+    expect(porCategoria[0].resultados.vum).toBe(250);
+  });
+});
+
+describe('deductions', () => {
+  const comision: Deduccion = { concepto: 'Comisión', tipo: 'porcentaje', valor: 0.1 };
+  const envioA: Producto = { ...productoA, deducciones: [{ concepto: 'Envío', tipo: 'fijo', valor: 180 }] };
+  const conComision: ParametrosCliente = { ...baseParams, deducciones: [comision] };
+
+  test('margenNeto subtracts percentage and fixed deductions per unit', () => {
+    expect(margenNeto(productoA)).toBe(300);
+    expect(margenNeto(envioA)).toBe(120);
+    expect(margenNeto({ ...envioA, deducciones: [...envioA.deducciones!, comision] })).toBeCloseTo(20, 10);
+  });
+
+  test('desgloseMargen lists own and global deductions apart', () => {
+    expect(desgloseMargen(envioA, [comision])).toEqual({
+      bruto: 300,
+      lineas: [
+        { concepto: 'Envío', alcance: 'producto', monto: 180 },
+        { concepto: 'Comisión', alcance: 'global', monto: 100 },
+      ],
+      neto: 20,
+    });
+    expect(desgloseMargen(productoB)).toEqual({ bruto: 100, lineas: [], neto: 100 });
+  });
+
+  test('global deductions lower the margin used for VUM and ROAS Tradicional', () => {
+    const resultado = calcularTodo(conComision);
+    // B: 100 - 10% of 500 = 50 → VUM = ceil(75000 / 50) = 1500
+    expect(resultado.margenMinimoUsado).toBeCloseTo(50, 10);
+    expect(resultado.vum).toBe(1500);
+    expect(resultado.roasMinTradicional).toBeCloseTo(15, 10);
+    expect(resultado.roasMinTradicional).toBeCloseTo(fRoasTradicional(50000, 10000, 15000, 50, 500), 10);
+  });
+
+  test('the critical product is chosen by net margin', () => {
+    const params: ParametrosCliente = { ...baseParams, productos: [envioA, productoB, productoC] };
+    // Without the commission A nets 120 and B stays critical
+    expect(calcularTodo(params).productoCritico).toBe('Producto B');
+    // With it A nets 20 < B's 50
+    const conGlobal = { ...params, deducciones: [comision] };
+    expect(calcularTodo(conGlobal).productoCritico).toBe('Producto A');
+    expect(productoMargenMinimo(productosConDeducciones(conGlobal.productos, conGlobal.deducciones))!.nombre).toBe(
+      'Producto A'
+    );
+  });
+
+  test('mezcla mode weights the net margins', () => {
+    const mezcla: ParametrosCliente = {
+      ...conComision,
+      modoMargen: 'mezcla',
+      productos: [
+        { ...productoA, participacion: 2 },
+        { ...productoB, participacion: 1 },
+        { ...productoC, participacion: 1 },
+      ],
+    };
+    // 0.5*200 + 0.25*50 + 0.25*800 = 312.5 → VUM = ceil(75000 / 312.5) = 240
+    const resultado = calcularTodo(mezcla);
+    expect(resultado.margenMinimoUsado).toBeCloseTo(312.5, 10);
+    expect(resultado.vum).toBe(240);
+  });
+
+  test('sensitivity and goal seek use the net margin', () => {
+    const medio = calcularSensibilidad('IP', conComision, 3)![1];
+    expect(medio.roasTradicional).toBeCloseTo(calcularTodo(conComision).roasMinTradicional, 10);
+    const margen = calcularSensibilidad('Margen', conComision, 3)!;
+    // At margin 20% B nets 500 * (0.2 - 0.1) = 50, as in calcularTodo
+    expect(margen[1].x).toBeCloseTo(0.2, 10);
+    expect(margen[1].roasTradicional).toBeCloseTo(15, 10);
+    const gs = goalSeek(conComision, 'vum', 'IP', 1000);
+    expect(calcularTodo({ ...conComision, inversionPublicitaria: gs!.valor }).vum).toBeLessThanOrEqual(1000);
+  });
+
+  test('a deduction above the margin leaves VUM at 0', () => {
+    const params = { ...baseParams, productos: [productoB], deducciones: [{ ...comision, valor: 0.25 }] };
+    expect(calcularVum(params)).toBe(0);
+  });
+});
+
 // ============================================================================
 // SENSITIVITY ANALYSIS
 // ============================================================================
@@ -279,6 +471,208 @@ describe('calcularSensibilidad', () => {
   });
 });
 
+describe('custom sensitivity ranges', () => {
+  test('valoresRango always ends on max and spaces log sweeps geometrically', () => {
+    expect(valoresRango({ min: 0, max: 10, paso: 3, escala: 'lineal' })).toEqual([0, 3, 6, 9, 10]);
+    const log = valoresRango({ min: 1000, max: 100000, paso: 49500, escala: 'log' });
+    expect(log).toHaveLength(3);
+    expect(log[1]).toBeCloseTo(10000, 6);
+  });
+
+  test('the default curve keeps the legacy samples and marks the current value', () => {
+    const curva = calcularCurvaSensibilidad('IP', baseParams)!;
+    expect(curva.muestras).toEqual(calcularSensibilidad('IP', baseParams, 50));
+    expect(curva.actual).toBe(50000);
+    // Costs cross every multiple of m* = 100 between 50000 and 100000
+    expect(curva.saltosTotales).toBe(500);
+    expect(curva.puntos).toHaveLength(50 + 2 * 500);
+  });
+
+  test('cost sweeps step VUM up right after each multiple of m*', () => {
+    const curva = calcularCurvaSensibilidad('TF', baseParams, { min: 10000, max: 10250, paso: 50, escala: 'lineal' })!;
+    expect(curva.saltos).toEqual([10000, 10100, 10200]);
+    const enSalto = curva.puntos.filter((p) => p.x === 10100);
+    expect(enSalto.map((p) => p.roasTradicional)).toEqual([(500 * 751) / 50000, (500 * 751) / 50000, (500 * 752) / 50000]);
+    expect(enSalto.every((p) => p.ipRoas === calcularIpRoas(50000, 10100, 15000))).toBe(true);
+  });
+
+  test('margin sweeps step VUM down at m* = costos / k', () => {
+    const params: ParametrosCliente = {
+      inversionPublicitaria: 1000,
+      tarifaFija: 500,
+      ingresoEsperado: 500,
+      productos: [{ nombre: 'X', precio: 100, margenBruto: 0.5 }],
+    };
+    const curva = calcularCurvaSensibilidad('Margen', params, { min: 0.4, max: 0.5, paso: 0.05, escala: 'lineal' })!;
+    expect(curva.saltos).toHaveLength(10); // VUM 50 → 40
+    expect(curva.saltos[0]).toBeCloseTo(20 / 49, 12);
+    expect(curva.saltos[9]).toBeCloseTo(0.5, 12);
+    // Before the step, the sample at max, after the step
+    const ultimo = curva.puntos.slice(-3).map((p) => p.roasTradicional);
+    expect(ultimo).toEqual([(100 * 41) / 1000, (100 * 40) / 1000, (100 * 40) / 1000]);
+
+    const sinMargen = calcularCurvaSensibilidad(
+      'Margen',
+      { ...params, productos: [{ ...params.productos[0], deducciones: [{ concepto: 'Envío', tipo: 'fijo', valor: 45 }] }] },
+      { min: 0.4, max: 0.5, paso: 0.05, escala: 'lineal' }
+    )!;
+    expect(sinMargen.saltosTotales).toBe(Infinity);
+    expect(sinMargen.saltos).toEqual([]);
+  });
+});
+
+describe('calcularSensibilidad2D', () => {
+  test('returns null when no products or same axis twice', () => {
+    expect(calcularSensibilidad2D('IP', 'TF', { ...baseParams, productos: [] })).toBeNull();
+    expect(calcularSensibilidad2D('IP', 'IP', baseParams)).toBeNull();
+  });
+
+  test('matrix shape is [y][x] with the 1D ranges on each axis', () => {
+    const grid = calcularSensibilidad2D('IP', 'TF', baseParams, 5)!;
+    expect(grid.x).toHaveLength(5);
+    expect(grid.y).toHaveLength(5);
+    expect(grid.ipRoas).toHaveLength(5);
+    expect(grid.ipRoas[0]).toHaveLength(5);
+    expect(grid.x[0]).toBeCloseTo(25000, 0);
+    expect(grid.y[0]).toBeCloseTo(5000, 0);
+  });
+
+  test('cells match the single-point formulas', () => {
+    const grid = calcularSensibilidad2D('IP', 'TF', baseParams, 5)!;
+    const xi = 3;
+    const yi = 1;
+    expect(grid.ipRoas[yi][xi]).toBeCloseTo(calcularIpRoas(grid.x[xi], grid.y[yi], 15000), 10);
+    expect(grid.roasTradicional[yi][xi]).toBeCloseTo(
+      fRoasTradicional(grid.x[xi], grid.y[yi], 15000, 100, 500),
+      10
+    );
+  });
+
+  test('a row along the x axis matches the 1D sweep at the current y', () => {
+    const grid = calcularSensibilidad2D('IP', 'TF', { ...baseParams, tarifaFija: 10000 }, 3)!;
+    const linea = calcularSensibilidad('IP', baseParams, 3)!;
+    // y = [5000, 10000, 15000]; middle row is the current TF
+    expect(grid.ipRoas[1]).toEqual(linea.map((d) => d.ipRoas));
+    expect(grid.roasTradicional[1]).toEqual(linea.map((d) => d.roasTradicional));
+  });
+
+  test('Margen axis only affects ROAS tradicional and reports current inputs', () => {
+    const grid = calcularSensibilidad2D('TF', 'Margen', baseParams, 4)!;
+    expect(new Set(grid.ipRoas.map((row) => row[0])).size).toBe(1);
+    expect(grid.actual).toEqual({ x: 10000, y: 0.2 });
+  });
+});
+
+// ============================================================================
+// GOAL SEEK
+// ============================================================================
+
+describe('calcularTornado', () => {
+  test('returns null without products or with an out-of-range variation', () => {
+    expect(calcularTornado({ ...baseParams, productos: [] })).toBeNull();
+    expect(calcularTornado(baseParams, 0)).toBeNull();
+    expect(calcularTornado(baseParams, 1)).toBeNull();
+  });
+
+  test('moves each input by ±variacion around the critical product', () => {
+    const t = calcularTornado(baseParams, 0.2)!;
+    expect(t.base).toEqual({ ipRoas: 1.5, roasTradicional: 7.5, vum: 750 });
+    const ip = t.barras.find((b) => b.variable === 'IP')!;
+    expect([ip.bajo, ip.alto]).toEqual([40000, 60000]);
+    expect(ip.metricas.ipRoas.bajo).toBeCloseTo(calcularIpRoas(40000, 10000, 15000), 10);
+    expect(ip.metricas.roasTradicional.alto).toBeCloseTo(fRoasTradicional(60000, 10000, 15000, 100, 500), 10);
+    expect([ip.metricas.vum.bajo, ip.metricas.vum.alto]).toEqual([650, 850]);
+
+    const precio = t.barras.find((b) => b.variable === 'Precio')!;
+    expect([precio.bajo, precio.alto]).toEqual([400, 600]);
+    expect([precio.metricas.vum.bajo, precio.metricas.vum.alto]).toEqual([938, 625]);
+    expect(precio.metricas.ipRoas.swing).toBe(0);
+  });
+
+  test('ranks the swing per metric', () => {
+    const t = calcularTornado(baseParams, 0.2)!;
+    expect(ordenarTornado(t, 'ipRoas').map((b) => b.variable).slice(0, 3)).toEqual(['IP', 'IE', 'TF']);
+    expect(ordenarTornado(t, 'vum').map((b) => b.variable)).toEqual(['Precio', 'Margen', 'IP', 'IE', 'TF']);
+  });
+
+  test('percentage deductions follow the price; no positive margin gives an infinite swing', () => {
+    const conPct = calcularTornado({
+      ...baseParams,
+      productos: [{ ...productoB, deducciones: [{ concepto: 'Comisión', tipo: 'porcentaje', valor: 0.1 }] }],
+    })!;
+    // m* = 600 · 0.2 − 60 = 60 at +20% price
+    expect(conPct.barras.find((b) => b.variable === 'Precio')!.metricas.vum.alto).toBe(Math.ceil(75000 / 60));
+
+    const justo = calcularTornado({
+      ...baseParams,
+      productos: [{ ...productoB, deducciones: [{ concepto: 'Envío', tipo: 'fijo', valor: 90 }] }],
+    })!;
+    const margen = justo.barras.find((b) => b.variable === 'Margen')!;
+    expect(margen.metricas.vum.bajo).toBe(Infinity);
+    expect(margen.metricas.vum.swing).toBe(Infinity);
+    expect(ordenarTornado(justo, 'vum')[0].variable).toBe('Precio');
+  });
+});
+
+describe('goalSeek', () => {
+  test('IP-ROAS target solves IP analytically', () => {
+    // IP = (TF + IE) / (R - 1) = 25000 / 1.5 ≈ 16666.67
+    const result = goalSeek(baseParams, 'ipRoas', 'IP', 2.5)!;
+    expect(result.metodo).toBe('analitico');
+    expect(result.valor).toBeCloseTo(16666.667, 2);
+    expect(result.alcanzado).toBeCloseTo(2.5, 10);
+  });
+
+  test('IP-ROAS target solves TF and IE analytically', () => {
+    // TF = (R - 1) * IP - IE = 1 * 50000 - 15000 = 35000
+    expect(goalSeek(baseParams, 'ipRoas', 'TF', 2)!.valor).toBe(35000);
+    // IE = (R - 1) * IP - TF = 1 * 50000 - 10000 = 40000
+    expect(goalSeek(baseParams, 'ipRoas', 'IE', 2)!.valor).toBe(40000);
+  });
+
+  test('IP-ROAS target is unreachable when it needs a negative value', () => {
+    expect(goalSeek(baseParams, 'ipRoas', 'IP', 1)).toBeNull();
+    expect(goalSeek(baseParams, 'ipRoas', 'TF', 1.1)).toBeNull(); // 5000 - 15000 < 0
+  });
+
+  test('VUM target returns the largest TF that keeps VUM at or below it', () => {
+    // costos <= 800 * 100 → TF <= 80000 - 50000 - 15000 = 15000
+    const result = goalSeek(baseParams, 'vum', 'TF', 800)!;
+    expect(result.metodo).toBe('numerico');
+    expect(result.valor).toBeCloseTo(15000, 1);
+    expect(result.alcanzado).toBeLessThanOrEqual(800);
+    // One cent more must exceed the target
+    expect(calcularVum({ ...baseParams, tarifaFija: result.valor + 0.01 })).toBeGreaterThan(800);
+  });
+
+  test('VUM target below current fixed costs is unreachable', () => {
+    // IP + IE alone already need 650 units
+    expect(goalSeek(baseParams, 'vum', 'TF', 600)).toBeNull();
+  });
+
+  test('ROAS tradicional target on IE reaches the target', () => {
+    const result = goalSeek(baseParams, 'roasTradicional', 'IE', 9)!;
+    expect(result.alcanzado).toBeGreaterThanOrEqual(9);
+    // One cent less must stay below the target
+    expect(fRoasTradicional(50000, 10000, result.valor - 0.01, 100, 500)).toBeLessThan(9);
+  });
+
+  test('ROAS tradicional target on IP finds a point at or below the target', () => {
+    const result = goalSeek(baseParams, 'roasTradicional', 'IP', 6)!;
+    expect(result.alcanzado).toBeLessThanOrEqual(6);
+    expect(result.valor).toBeGreaterThan(0);
+  });
+
+  test('ROAS tradicional target below p*/m* is unreachable via IP', () => {
+    // p* / m* = 500 / 100 = 5 is the asymptote
+    expect(goalSeek(baseParams, 'roasTradicional', 'IP', 5)).toBeNull();
+  });
+
+  test('returns null without products', () => {
+    expect(goalSeek({ ...baseParams, productos: [] }, 'vum', 'TF', 800)).toBeNull();
+  });
+});
+
 // ============================================================================
 // CSV PARSING
 // ============================================================================
@@ -308,6 +702,49 @@ Shoes,100,0.40`;
     expect(productos[0]).toEqual({ nombre: 'Shoes', precio: 100, margenBruto: 0.40 });
   });
 
+  test('reads an optional participacion column', () => {
+    const csv = `nombre,precio,margen,participacion
+Zapatos,1500,0.35,60
+Camisa,800,0.25,`;
+    const productos = parseCSV(csv);
+    expect(productos[0]).toEqual({ nombre: 'Zapatos', precio: 1500, margenBruto: 0.35, participacion: 60 });
+    expect(productos[1]).toEqual({ nombre: 'Camisa', precio: 800, margenBruto: 0.25 });
+  });
+
+  test('reads optional sku, categoria and en_campana columns', () => {
+    const csv = `codigo,nombre,precio,margen,categoría,incluido
+Z-1,Zapatos,1500,0.35,Calzado,si
+C-2,Camisa,800,0.25,,no
+X-3,Gorra,300,0.2,Accesorios,tal vez`;
+    const { productos, omitidas } = parseCSVConReporte(csv);
+    expect(productos).toEqual([
+      { nombre: 'Zapatos', precio: 1500, margenBruto: 0.35, sku: 'Z-1', categoria: 'Calzado' },
+      { nombre: 'Camisa', precio: 800, margenBruto: 0.25, sku: 'C-2', enCampana: false },
+    ]);
+    expect(omitidas).toEqual([{ fila: 4, motivo: 'En campaña inválido: "tal vez" (use si/no)' }]);
+  });
+
+  test('reads an optional deducciones column', () => {
+    const csv = `nombre;precio;margen;deducciones
+Zapatos;1500;0,35;"IVA 16%; Envío 45,5"
+Camisa;800;0,25;
+Gorra;300;0,2;Comisión`;
+    const { productos, omitidas } = parseCSVConReporte(csv);
+    expect(productos).toEqual([
+      {
+        nombre: 'Zapatos',
+        precio: 1500,
+        margenBruto: 0.35,
+        deducciones: [
+          { concepto: 'IVA', tipo: 'porcentaje', valor: 0.16 },
+          { concepto: 'Envío', tipo: 'fijo', valor: 45.5 },
+        ],
+      },
+      { nombre: 'Camisa', precio: 800, margenBruto: 0.25 },
+    ]);
+    expect(omitidas).toEqual([{ fila: 4, motivo: 'Deducciones inválidas: "Comisión" (use "IVA 16%; Envío 25")' }]);
+  });
+
   test('supports margen_bruto column name', () => {
     const csv = `nombre,precio,margen_bruto
 Test,200,0.15`;
@@ -328,3 +765,42 @@ Invalid,abc,xyz`;
     expect(productos).toHaveLength(1);
   });
 });
+
+describe('parseCSVConReporte', () => {
+  test('handles quoted names with commas and CRLF line endings', () => {
+    const csv = 'nombre,precio,margen\r\n"Kit, premium",1500,0.35\r\nCamisa,800,0.25\r\n';
+    const { productos, omitidas } = parseCSVConReporte(csv);
+    expect(productos.map((p) => p.nombre)).toEqual(['Kit, premium', 'Camisa']);
+    expect(omitidas).toEqual([]);
+  });
+
+  test('reads semicolon files with decimal commas (Spanish-locale Excel)', () => {
+    const csv = 'nombre;precio;margen\nZapatos;1.234,50;35\nCamisa;800;12,5';
+    const report = parseCSVConReporte(csv);
+    expect(report.delimitador).toBe(';');
+    expect(report.separadorDecimal).toBe(',');
+    expect(report.productos).toEqual([
+      { nombre: 'Zapatos', precio: 1234.5, margenBruto: 0.35 },
+      { nombre: 'Camisa', precio: 800, margenBruto: 0.125 },
+    ]);
+  });
+
+  test('reads tab-separated files', () => {
+    const report = parseCSVConReporte('name\tprice\tmargin\nShoes\t100\t0.4');
+    expect(report.productos).toEqual([{ nombre: 'Shoes', precio: 100, margenBruto: 0.4 }]);
+  });
+
+  test('reports every skipped row with its line number and reason', () => {
+    const csv = `nombre,precio,margen
+Valid,100,0.30
+Invalid,abc,0.2
+SinMargen,100,
+Corta,100
+Negativo,-5,0.2`;
+    const { productos, omitidas } = parseCSVConReporte(csv);
+    expect(productos).toHaveLength(1);
+    expect(omitidas.map((o) => o.fila)).toEqual([3, 4, 5, 6]);
+    expect(omitidas[0].motivo).toContain('Precio no numérico');
+    expect(omitidas[1].motivo).toBe('Margen vacío');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for saved scenarios and comparison
+ */
+
+import {
+  LocalStorageScenarioStore,
+  SCENARIOS_STORAGE_KEY,
+  nuevoEscenario,
+  duplicarEscenario,
+  renombrarEscenario,
+  compararResultados,
+  type KeyValueStorage,
+} from '../scenario-store';
+import { calcularTodo } from '../roas-engine';
+import type { ParametrosCliente } from '@/types/roas';
+
+function memoryStorage(): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (k) => data.get(k) ?? null,
+    setItem: (k, v) => void data.set(k, v),
+  };
+}
+
+const params: ParametrosCliente = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [{ nombre: 'Producto B', precio: 500, margenBruto: 0.2 }],
+};
+
+describe('LocalStorageScenarioStore', () => {
+  test('saves, lists, updates and removes scenarios', async () => {
+    const store = new LocalStorageScenarioStore(memoryStorage());
+    const a = nuevoEscenario('Propuesta A', params);
+    await store.save(a);
+    await store.save({ ...a, nombre: 'Propuesta A2' });
+    expect(await store.list()).toHaveLength(1);
+    expect((await store.get(a.id))!.nombre).toBe('Propuesta A2');
+
+    await store.remove(a.id);
+    expect(await store.list()).toEqual([]);
+  });
+
+  test('drops corrupt entries instead of failing', async () => {
+    const storage = memoryStorage();
+    const valido = nuevoEscenario('Ok', params);
+    storage.data.set(SCENARIOS_STORAGE_KEY, JSON.stringify([valido, { id: 'x', nombre: 'Roto' }]));
+    const store = new LocalStorageScenarioStore(storage);
+    expect(await store.list()).toEqual([valido]);
+
+    const tasasRotas = { ...valido, id: 'y', tasas: { base: 'usd', tasas: { MXN: -1 } } };
+    storage.data.set(SCENARIOS_STORAGE_KEY, JSON.stringify([valido, tasasRotas]));
+    expect(await store.list()).toEqual([valido]);
+
+    storage.data.set(SCENARIOS_STORAGE_KEY, '{not json');
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe('scenario operations', () => {
+  test('duplicate creates an independent copy', async () => {
+    const store = new LocalStorageScenarioStore(memoryStorage());
+    const a = nuevoEscenario('Propuesta A', params);
+    await store.save(a);
+    const copia = (await duplicarEscenario(store, a.id))!;
+    expect(copia.id).not.toBe(a.id);
+    expect(copia.nombre).toBe('Propuesta A (copia)');
+    expect(copia.parametros).toEqual(a.parametros);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  test('keeps the exchange rates a scenario was saved with', async () => {
+    const store = new LocalStorageScenarioStore(memoryStorage());
+    const tasas = { base: 'USD', tasas: { MXN: 20 } };
+    const mixto = { ...params, productos: [{ ...params.productos[0], moneda: 'MXN' }] };
+    const a = nuevoEscenario('Importado', mixto, tasas);
+    await store.save(a);
+    expect((await store.get(a.id))!.tasas).toEqual(tasas);
+    expect((await duplicarEscenario(store, a.id))!.tasas).toEqual(tasas);
+    expect(nuevoEscenario('Sin tasas', params, { base: 'USD', tasas: {} })).not.toHaveProperty('tasas');
+  });
+
+  test('rename rejects empty names and unknown ids', async () => {
+    const store = new LocalStorageScenarioStore(memoryStorage());
+    const a = nuevoEscenario('Propuesta A', params);
+    await store.save(a);
+    expect(await renombrarEscenario(store, a.id, '  ')).toBeNull();
+    expect(await renombrarEscenario(store, 'nope', 'B')).toBeNull();
+    expect((await renombrarEscenario(store, a.id, ' Propuesta B '))!.nombre).toBe('Propuesta B');
+  });
+});
+
+describe('compararResultados', () => {
+  test('computes deltas and which side is better', () => {
+    const a = calcularTodo(params);
+    const b = calcularTodo({ ...params, inversionPublicitaria: 100000 });
+    const deltas = compararResultados(a, b);
+    const ipRoas = deltas.find((d) => d.clave === 'ipRoas')!;
+    // 1.5 → 1.25: lower required IP-ROAS is better
+    expect(ipRoas.delta).toBeCloseTo(-0.25, 10);
+    expect(ipRoas.deltaPct).toBeCloseTo(-1 / 6, 10);
+    expect(ipRoas.mejora).toBe(true);
+    const vum = deltas.find((d) => d.clave === 'vum')!;
+    expect(vum.mejora).toBe(false); // 750 → 1250 units
+    expect(deltas.find((d) => d.clave === 'precioProductoMinimo')!.mejora).toBeNull();
+  });
+
+  test('deltaPct is null when the base value is zero', () => {
+    const vacio = calcularTodo({ ...params, productos: [] });
+    const deltas = compararResultados(vacio, calcularTodo(params));
+    expect(deltas.find((d) => d.clave === 'vum')!.deltaPct).toBeNull();
+  });
+});
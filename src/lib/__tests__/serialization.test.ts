@@ -0,0 +1,42 @@
+/**
+ * Unit tests for JSON serialization of engine results
+ */
+
+import {
+  numeroAJSON,
+  numeroDesdeJSON,
+  serializarResultados,
+  deserializarResultados,
+} from '../serialization';
+import { calcularTodo } from '../roas-engine';
+
+describe('numeroAJSON / numeroDesdeJSON', () => {
+  test('finite numbers pass through', () => {
+    expect(numeroAJSON(1.5)).toBe(1.5);
+    expect(numeroDesdeJSON(1.5)).toBe(1.5);
+  });
+
+  test('non-finite numbers use string markers', () => {
+    expect(numeroAJSON(Infinity)).toBe('Infinity');
+    expect(numeroAJSON(-Infinity)).toBe('-Infinity');
+    expect(numeroAJSON(NaN)).toBe('NaN');
+    expect(numeroDesdeJSON('Infinity')).toBe(Infinity);
+    expect(numeroDesdeJSON('-Infinity')).toBe(-Infinity);
+    expect(numeroDesdeJSON('NaN')).toBeNaN();
+  });
+});
+
+describe('serializarResultados', () => {
+  test('IP = 0 survives a JSON round trip as Infinity', () => {
+    const resultados = calcularTodo({
+      inversionPublicitaria: 0,
+      tarifaFija: 10000,
+      ingresoEsperado: 15000,
+      productos: [{ nombre: 'A', precio: 500, margenBruto: 0.2 }],
+    });
+    const json = JSON.parse(JSON.stringify(serializarResultados(resultados)));
+    expect(json.ipRoas).toBe('Infinity');
+    expect(json.roasMinTradicional).toBe('Infinity');
+    expect(deserializarResultados(json)).toEqual(resultados);
+  });
+});
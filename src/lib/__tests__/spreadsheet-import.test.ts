@@ -0,0 +1,45 @@
+/**
+ * Unit tests for .xlsx and CSV table import
+ */
+
+import ExcelJS from 'exceljs';
+import { leerLibroExcel, tablaDesdeCSV } from '../spreadsheet-import';
+
+async function buildWorkbook(): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  const catalogo = workbook.addWorksheet('Catálogo');
+  catalogo.addRow([]);
+  catalogo.addRow(['SKU', 'Descripción', 'PVP', 'Margen %']);
+  catalogo.addRow(['A1', 'Zapatos', 1500, 0.35]);
+  catalogo.addRow(['A2', { richText: [{ text: 'Kit ' }, { text: 'premium' }] }, { formula: '400*2', result: 800 }, 25]);
+  workbook.addWorksheet('Notas').addRow(['Solo texto']);
+  const buffer = await workbook.xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+}
+
+describe('leerLibroExcel', () => {
+  test('lists every sheet and flattens rich text and formulas', async () => {
+    const hojas = await leerLibroExcel(await buildWorkbook());
+    expect(hojas.map((h) => h.nombre)).toEqual(['Catálogo', 'Notas']);
+
+    const { tabla } = hojas[0];
+    expect(tabla.headers).toEqual(['SKU', 'Descripción', 'PVP', 'Margen %']);
+    expect(tabla.filas).toEqual([
+      { fila: 3, celdas: ['A1', 'Zapatos', 1500, 0.35] },
+      { fila: 4, celdas: ['A2', 'Kit premium', 800, 25] },
+    ]);
+    expect(tabla.separadorDecimal).toBeUndefined();
+  });
+});
+
+describe('tablaDesdeCSV', () => {
+  test('keeps row numbers and the detected decimal separator', () => {
+    const tabla = tablaDesdeCSV('Producto;Valor\nA;1,5\nB;2');
+    expect(tabla.headers).toEqual(['producto', 'valor']);
+    expect(tabla.filas).toEqual([
+      { fila: 2, celdas: ['A', '1,5'] },
+      { fila: 3, celdas: ['B', '2'] },
+    ]);
+    expect(tabla.separadorDecimal).toBe(',');
+  });
+});
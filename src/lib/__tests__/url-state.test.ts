@@ -0,0 +1,126 @@
+/**
+ * Unit tests for shareable URL state encoding
+ */
+
+import { encodeUrlState, decodeUrlState, URL_STATE_VERSION } from '../url-state';
+import type { CalculatorUrlState } from '../url-state';
+
+const state: CalculatorUrlState = {
+  params: {
+    inversionPublicitaria: 50000,
+    tarifaFija: 10000,
+    ingresoEsperado: 15000,
+    productos: [
+      { nombre: 'Kit, premium', precio: 1000, margenBruto: 0.3 },
+      { nombre: 'Cañón ñ', precio: 500, margenBruto: 0.2 },
+    ],
+  },
+  tab: 'TF',
+};
+
+describe('encodeUrlState / decodeUrlState', () => {
+  test('round-trips params and tab, including non-ASCII names', () => {
+    const encoded = encodeUrlState(state);
+    expect(encoded.startsWith(`${URL_STATE_VERSION}.`)).toBe(true);
+    expect(encoded).toMatch(/^[A-Za-z0-9._-]+$/); // URL-safe without escaping
+    expect(decodeUrlState(encoded)).toEqual({ ok: true, state });
+  });
+
+  test('round-trips sales-mix weights and margin mode', () => {
+    const conMezcla: CalculatorUrlState = {
+      ...state,
+      params: {
+        ...state.params,
+        modoMargen: 'mezcla',
+        productos: [{ ...state.params.productos[0], participacion: 3 }, state.params.productos[1]],
+      },
+    };
+    expect(decodeUrlState(encodeUrlState(conMezcla))).toEqual({ ok: true, state: conMezcla });
+  });
+
+  test('round-trips currencies and the exchange-rate table', () => {
+    const conMonedas: CalculatorUrlState = {
+      params: {
+        ...state.params,
+        moneda: 'MXN',
+        productos: [{ ...state.params.productos[0], moneda: 'USD' }, state.params.productos[1]],
+      },
+      tab: 'resumen',
+      tasas: { base: 'USD', tasas: { MXN: 17.5 } },
+    };
+    expect(decodeUrlState(encodeUrlState(conMonedas))).toEqual({ ok: true, state: conMonedas });
+  });
+
+  test('round-trips product and global deductions', () => {
+    const conDeducciones: CalculatorUrlState = {
+      ...state,
+      params: {
+        ...state.params,
+        deducciones: [{ concepto: 'IVA', tipo: 'porcentaje', valor: 0.16 }],
+        productos: [
+          state.params.productos[0],
+          { ...state.params.productos[1], deducciones: [{ concepto: 'Envío', tipo: 'fijo', valor: 80 }] },
+        ],
+      },
+    };
+    expect(decodeUrlState(encodeUrlState(conDeducciones))).toEqual({ ok: true, state: conDeducciones });
+  });
+
+  test('round-trips SKUs, categories, the campaign flag and the category filter', () => {
+    const conCategorias: CalculatorUrlState = {
+      ...state,
+      params: {
+        ...state.params,
+        categorias: ['Ropa'],
+        productos: [
+          { ...state.params.productos[0], sku: 'K-1', categoria: 'Ropa' },
+          { ...state.params.productos[1], enCampana: false },
+        ],
+      },
+    };
+    expect(decodeUrlState(encodeUrlState(conCategorias))).toEqual({ ok: true, state: conCategorias });
+  });
+
+  test('round-trips the monthly plan and rejects a malformed one', () => {
+    const conPlan: CalculatorUrlState = {
+      ...state,
+      tab: 'plan',
+      plan: [
+        { inversionPublicitaria: 10000, tarifaFija: 2000, ingresoEsperado: 3000 },
+        { inversionPublicitaria: 15000, tarifaFija: 2000, ingresoEsperado: 3000 },
+      ],
+    };
+    expect(decodeUrlState(encodeUrlState(conPlan))).toEqual({ ok: true, state: conPlan });
+    const malo = encodeUrlState({ ...conPlan, plan: [{ inversionPublicitaria: -1, tarifaFija: 0, ingresoEsperado: 0 }] });
+    expect(decodeUrlState(malo).ok).toBe(false);
+  });
+
+  test('decodes links shared before the optional fields were appended', () => {
+    const primerLayout = [50000, 10000, 15000, [['Kit, premium', 1000, 0.3], ['Cañón ñ', 500, 0.2]], 'TF'];
+    const encoded = `v1.${Buffer.from(JSON.stringify(primerLayout)).toString('base64url')}`;
+    expect(decodeUrlState(encoded)).toEqual({ ok: true, state });
+  });
+
+  test('unknown tab falls back to resumen', () => {
+    const encoded = encodeUrlState({ ...state, tab: 'nope' as CalculatorUrlState['tab'] });
+    const result = decodeUrlState(encoded);
+    expect(result.ok && result.state.tab).toBe('resumen');
+  });
+
+  test('rejects other versions', () => {
+    const encoded = encodeUrlState(state).replace(/^v1\./, 'v0.');
+    expect(decodeUrlState(encoded).ok).toBe(false);
+    expect(decodeUrlState('garbage').ok).toBe(false);
+  });
+
+  test('rejects corrupt payloads', () => {
+    expect(decodeUrlState('v1.@@@').ok).toBe(false);
+    expect(decodeUrlState('v1.' + btoa('{"a":1}')).ok).toBe(false);
+  });
+
+  test('rejects invalid values', () => {
+    const bad = { ...state, params: { ...state.params, inversionPublicitaria: -1 } };
+    const result = decodeUrlState(encodeUrlState(bad));
+    expect(result.ok).toBe(false);
+  });
+});
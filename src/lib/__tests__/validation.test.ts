@@ -0,0 +1,171 @@
+/**
+ * Unit tests for runtime input validation
+ */
+
+import { validarParametros, validarPlanMensual, validarProducto, validarRangoSensibilidad } from '../validation';
+
+const validBody = {
+  inversionPublicitaria: 50000,
+  tarifaFija: 10000,
+  ingresoEsperado: 15000,
+  productos: [{ nombre: 'Producto A', precio: 1000, margenBruto: 0.3 }],
+};
+
+describe('validarProducto', () => {
+  test('accepts a valid product and trims the name', () => {
+    const result = validarProducto({ nombre: '  Kit ', precio: 100, margenBruto: 0.4 });
+    expect(result).toEqual({ ok: true, value: { nombre: 'Kit', precio: 100, margenBruto: 0.4 } });
+  });
+
+  test('rejects margenBruto expressed as a percentage', () => {
+    const result = validarProducto({ nombre: 'Kit', precio: 100, margenBruto: 40 });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0].campo).toBe('producto.margenBruto');
+  });
+
+  test('rejects non-object input', () => {
+    expect(validarProducto('Kit').ok).toBe(false);
+  });
+
+  test('keeps a non-negative participacion and rejects negative ones', () => {
+    const result = validarProducto({ nombre: 'Kit', precio: 100, margenBruto: 0.4, participacion: 3 });
+    expect(result.ok && result.value.participacion).toBe(3);
+    expect(validarProducto({ nombre: 'Kit', precio: 100, margenBruto: 0.4, participacion: -1 }).ok).toBe(false);
+  });
+
+  test('trims sku and categoria and keeps enCampana only when false', () => {
+    const base = { nombre: 'Kit', precio: 100, margenBruto: 0.4 };
+    expect(validarProducto({ ...base, sku: ' K-1 ', categoria: 'Ropa', enCampana: false })).toEqual({
+      ok: true,
+      value: { ...base, sku: 'K-1', categoria: 'Ropa', enCampana: false },
+    });
+    expect(validarProducto({ ...base, enCampana: true })).toEqual({ ok: true, value: base });
+    const result = validarProducto({ ...base, sku: 7, categoria: ' ', enCampana: 'no' });
+    expect(!result.ok && result.errors.map((e) => e.campo)).toEqual([
+      'producto.sku',
+      'producto.categoria',
+      'producto.enCampana',
+    ]);
+  });
+});
+
+describe('validarParametros', () => {
+  test('accepts a valid body', () => {
+    const result = validarParametros(validBody);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value).toEqual(validBody);
+  });
+
+  test('accepts a category filter and rejects non-text entries', () => {
+    const result = validarParametros({ ...validBody, categorias: ['Ropa', ' Calzado '] });
+    expect(result.ok && result.value.categorias).toEqual(['Ropa', 'Calzado']);
+    expect(validarParametros({ ...validBody, categorias: 'Ropa' }).ok).toBe(false);
+    expect(validarParametros({ ...validBody, categorias: [''] }).ok).toBe(false);
+  });
+
+  test('accepts an empty portfolio', () => {
+    expect(validarParametros({ ...validBody, productos: [] }).ok).toBe(true);
+  });
+
+  test('collects every error with its field path', () => {
+    const result = validarParametros({
+      inversionPublicitaria: -1,
+      tarifaFija: 'abc',
+      ingresoEsperado: 0,
+      productos: [{ nombre: '', precio: 10, margenBruto: 0.2 }],
+    });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.campo)).toEqual([
+        'inversionPublicitaria',
+        'tarifaFija',
+        'productos[0].nombre',
+      ]);
+    }
+  });
+
+  test('accepts known margin modes only', () => {
+    const result = validarParametros({ ...validBody, modoMargen: 'mezcla' });
+    expect(result.ok && result.value.modoMargen).toBe('mezcla');
+    const bad = validarParametros({ ...validBody, modoMargen: 'promedio' });
+    expect(!bad.ok && bad.errors[0].campo).toBe('modoMargen');
+  });
+
+  test('accepts ISO currency codes only', () => {
+    const body = { ...validBody, moneda: 'MXN', productos: [{ ...validBody.productos[0], moneda: 'USD' }] };
+    expect(validarParametros(body)).toEqual({ ok: true, value: body });
+    const bad = validarParametros({ ...validBody, productos: [{ ...validBody.productos[0], moneda: 'pesos' }] });
+    expect(!bad.ok && bad.errors[0].campo).toBe('productos[0].moneda');
+  });
+
+  test('validates product and global deductions', () => {
+    const deducciones = [
+      { concepto: 'IVA', tipo: 'porcentaje', valor: 0.16 },
+      { concepto: 'Envío', tipo: 'fijo', valor: 80 },
+    ];
+    const body = { ...validBody, deducciones, productos: [{ ...validBody.productos[0], deducciones }] };
+    expect(validarParametros(body)).toEqual({ ok: true, value: body });
+    const bad = validarParametros({
+      ...validBody,
+      deducciones: [
+        { concepto: 'IVA', tipo: 'porcentaje', valor: 16 },
+        { concepto: '', tipo: 'fijo', valor: 1 },
+        { concepto: 'Envío', tipo: 'otro', valor: -1 },
+      ],
+    });
+    expect(!bad.ok && bad.errors.map((e) => e.campo)).toEqual([
+      'deducciones[0].valor',
+      'deducciones[1].concepto',
+      'deducciones[2].tipo',
+      'deducciones[2].valor',
+    ]);
+    expect(validarParametros({ ...validBody, deducciones: 'IVA' }).ok).toBe(false);
+  });
+
+  test('rejects non-finite numbers', () => {
+    expect(validarParametros({ ...validBody, tarifaFija: Infinity }).ok).toBe(false);
+    expect(validarParametros({ ...validBody, tarifaFija: NaN }).ok).toBe(false);
+  });
+
+  test('rejects missing productos and non-object bodies', () => {
+    expect(validarParametros({ ...validBody, productos: undefined }).ok).toBe(false);
+    expect(validarParametros(null).ok).toBe(false);
+    expect(validarParametros([]).ok).toBe(false);
+  });
+});
+
+describe('validarPlanMensual', () => {
+  test('accepts non-negative months within the allowed length', () => {
+    const plan = [{ inversionPublicitaria: 1000, tarifaFija: 0, ingresoEsperado: 500 }];
+    expect(validarPlanMensual(plan)).toEqual({ ok: true, value: plan });
+  });
+
+  test('reports bad months and lengths', () => {
+    const result = validarPlanMensual([{ inversionPublicitaria: -1, tarifaFija: 0, ingresoEsperado: 'x' }, 3]);
+    expect(!result.ok && result.errors.map((e) => e.campo)).toEqual([
+      'plan[0].inversionPublicitaria',
+      'plan[0].ingresoEsperado',
+      'plan[1]',
+    ]);
+    expect(validarPlanMensual([]).ok).toBe(false);
+    expect(validarPlanMensual(null).ok).toBe(false);
+  });
+});
+
+describe('validarRangoSensibilidad', () => {
+  test('accepts a sweep within the point limit', () => {
+    const rango = { min: 1000, max: 100000, paso: 1000, escala: 'log' as const };
+    expect(validarRangoSensibilidad('IP', rango)).toEqual({ ok: true, value: rango });
+  });
+
+  test('reports inverted ranges, bad steps and misplaced log scales', () => {
+    const campos = (r: ReturnType<typeof validarRangoSensibilidad>) => (r.ok ? [] : r.errors.map((e) => e.campo));
+    expect(campos(validarRangoSensibilidad('TF', { min: 10, max: 5, paso: 0, escala: 'lineal' }))).toEqual(['max', 'paso']);
+    expect(campos(validarRangoSensibilidad('Margen', { min: 0.1, max: 1.2, paso: 0.01, escala: 'log' }))).toEqual([
+      'min',
+      'escala',
+    ]);
+    expect(campos(validarRangoSensibilidad('IE', { min: 0, max: 1e6, paso: 1, escala: 'lineal' }))).toEqual(['paso']);
+    expect(campos(validarRangoSensibilidad('IP', { min: 0, max: 1000, paso: 10, escala: 'log' }))).toEqual(['min']);
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Actual vs Plan Tracking
+ * =======================
+ * Reads campaign performance exports (date, spend, conversions, revenue) in
+ * a generic layout or as downloaded from Meta, Google and TikTok Ads, and
+ * compares what was actually spent and sold with the planned VUM, CPR and
+ * ROAS. Amounts are assumed to be in the reporting currency.
+ */
+
+import type { ParametrosCliente, ResultadosIPROAS } from '@/types/roas';
+import { leerTablaCSV, parseNumero, type Delimitador, type FilaOmitida, type SeparadorDecimal } from './csv';
+
+type CampoRendimiento = 'fecha' | 'gasto' | 'conversiones' | 'ingresos';
+
+/**
+ * Header aliases per export layout (lower-case). An alias ending in '*'
+ * matches by prefix, for headers that carry the account currency such as
+ * "Amount spent (USD)".
+ */
+export interface FormatoRendimiento {
+  id: 'meta' | 'google' | 'tiktok' | 'generico';
+  nombre: string;
+  columnas: Record<CampoRendimiento, string[]>;
+}
+
+/** Checked in order; the first layout whose date, spend and conversion columns are all present wins */
+export const FORMATOS_RENDIMIENTO: FormatoRendimiento[] = [
+  {
+    id: 'meta',
+    nombre: 'Meta Ads',
+    columnas: {
+      fecha: ['day', 'día', 'reporting starts', 'inicio del informe'],
+      gasto: ['amount spent*', 'importe gastado*'],
+      conversiones: ['purchases', 'compras', 'results', 'resultados'],
+      ingresos: ['purchases conversion value', 'valor de conversión de compras'],
+    },
+  },
+  {
+    id: 'google',
+    nombre: 'Google Ads',
+    columnas: {
+      fecha: ['day', 'día'],
+      gasto: ['cost', 'costo', 'coste'],
+      conversiones: ['conversions', 'conversiones'],
+      ingresos: ['conv. value', 'valor de conv.'],
+    },
+  },
+  {
+    id: 'tiktok',
+    nombre: 'TikTok Ads',
+    columnas: {
+      fecha: ['by day', 'date', 'fecha'],
+      gasto: ['cost', 'costo'],
+      conversiones: ['complete payment', 'conversions', 'conversiones'],
+      ingresos: ['total complete payment value', 'complete payment value'],
+    },
+  },
+  {
+    id: 'generico',
+    nombre: 'Genérico',
+    columnas: {
+      fecha: ['fecha', 'date', 'dia', 'día'],
+      gasto: ['gasto', 'spend', 'inversion', 'inversión'],
+      conversiones: ['conversiones', 'conversions', 'ventas', 'unidades'],
+      ingresos: ['ingresos', 'revenue', 'valor'],
+    },
+  },
+];
+
+/** One day of delivery, summed over every campaign row of that date */
+export interface RegistroDiario {
+  fecha: string; // YYYY-MM-DD
+  gasto: number;
+  conversiones: number;
+  ingresos: number;
+}
+
+export interface RendimientoImportado {
+  formato: FormatoRendimiento | null; // null when no layout matched the headers
+  registros: RegistroDiario[];
+  conIngresos: boolean;
+  omitidas: FilaOmitida[];
+  delimitador: Delimitador;
+  separadorDecimal: SeparadorDecimal;
+}
+
+function buscarColumna(headers: string[], aliases: string[]): string | null {
+  for (const alias of aliases) {
+    const encontrada = alias.endsWith('*')
+      ? headers.find((h) => h.startsWith(alias.slice(0, -1)))
+      : headers.find((h) => h === alias);
+    if (encontrada) return encontrada;
+  }
+  return null;
+}
+
+type ColumnasResueltas = Record<CampoRendimiento, string | null>;
+type FormatoDetectado = { formato: FormatoRendimiento; columnas: ColumnasResueltas };
+
+/** The layout matching the headers, with the actual header used for each field */
+export function detectarFormato(headers: string[]): FormatoDetectado | null {
+  for (const formato of FORMATOS_RENDIMIENTO) {
+    const columnas = {
+      fecha: buscarColumna(headers, formato.columnas.fecha),
+      gasto: buscarColumna(headers, formato.columnas.gasto),
+      conversiones: buscarColumna(headers, formato.columnas.conversiones),
+      ingresos: buscarColumna(headers, formato.columnas.ingresos),
+    };
+    if (columnas.fecha && columnas.gasto && columnas.conversiones) return { formato, columnas };
+  }
+  return null;
+}
+
+/**
+ * Normalises "2026-01-05", "2026-01-05 00:00" and "05/01/2026" (day first,
+ * as in Spanish-locale exports) to YYYY-MM-DD. Returns null for anything
+ * else or for dates that do not exist.
+ */
+export function parseFecha(texto: string): string | null {
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T].*)?$/.exec(texto);
+  const dmy = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/.exec(texto);
+  const partes = iso ? [iso[1], iso[2], iso[3]] : dmy ? [dmy[3], dmy[2], dmy[1]] : null;
+  if (!partes) return null;
+  const [y, m, d] = partes.map(Number);
+  const fecha = new Date(Date.UTC(y, m - 1, d));
+  if (fecha.getUTCFullYear() !== y || fecha.getUTCMonth() !== m - 1 || fecha.getUTCDate() !== d) return null;
+  return fecha.toISOString().slice(0, 10);
+}
+
+/**
+ * Ad-platform reports open with title lines ("Campaign report", the date
+ * range) before the real header. Returns the text from the first line that
+ * matches a known layout, how many lines were skipped and the layout.
+ */
+function recortarPreambulo(text: string): { texto: string; saltadas: number; detectado: FormatoDetectado | null } {
+  const lineas = text.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/);
+  for (let i = 0; i < Math.min(lineas.length, 10); i++) {
+    const detectado = detectarFormato(leerTablaCSV(lineas[i]).headers);
+    if (detectado) return { texto: lineas.slice(i).join('\n'), saltadas: i, detectado };
+  }
+  return { texto: text, saltadas: 0, detectado: null };
+}
+
+/** Empty cells and the "--" platforms print for no data count as zero */
+function parseOpcional(texto: string, separadorDecimal: SeparadorDecimal): number {
+  return texto === '' || texto === '--' ? 0 : parseNumero(texto, separadorDecimal);
+}
+
+/**
+ * Parses a performance export into daily totals, reporting skipped rows
+ * (totals, bad dates, non-numeric spend) with their line numbers.
+ */
+export function parseRendimientoCSV(text: string): RendimientoImportado {
+  const { texto, saltadas, detectado } = recortarPreambulo(text);
+  const columnasNumericas = detectado
+    ? [detectado.columnas.gasto, detectado.columnas.conversiones, detectado.columnas.ingresos].filter(
+        (c): c is string => c !== null
+      )
+    : [];
+  const tabla = leerTablaCSV(texto, { columnasNumericas });
+  const omitidas = tabla.omitidas.map((o) => ({ ...o, fila: o.fila + saltadas }));
+  const base = { delimitador: tabla.delimitador, separadorDecimal: tabla.separadorDecimal };
+
+  if (!detectado) {
+    return { formato: null, registros: [], conIngresos: false, omitidas, ...base };
+  }
+
+  const { formato, columnas } = detectado;
+  const porFecha = new Map<string, RegistroDiario>();
+  for (const { fila: filaTabla, valores } of tabla.filas) {
+    const fila = filaTabla + saltadas;
+    const fechaTexto = valores[columnas.fecha!];
+    const fecha = parseFecha(fechaTexto);
+    if (!fecha) {
+      omitidas.push({
+        fila,
+        motivo: /^total/i.test(fechaTexto) || fechaTexto === '' ? 'Fila de totales' : `Fecha inválida: "${fechaTexto}"`,
+      });
+      continue;
+    }
+    const gastoTexto = valores[columnas.gasto!];
+    const gasto = parseOpcional(gastoTexto, tabla.separadorDecimal);
+    const conversiones = parseOpcional(valores[columnas.conversiones!], tabla.separadorDecimal);
+    const ingresos = columnas.ingresos ? parseOpcional(valores[columnas.ingresos], tabla.separadorDecimal) : 0;
+    if (isNaN(gasto) || gasto < 0) {
+      omitidas.push({ fila, motivo: `Gasto inválido: "${gastoTexto}"` });
+      continue;
+    }
+    if (isNaN(conversiones) || conversiones < 0 || isNaN(ingresos) || ingresos < 0) {
+      omitidas.push({ fila, motivo: 'Conversiones o ingresos inválidos' });
+      continue;
+    }
+    const dia = porFecha.get(fecha) ?? { fecha, gasto: 0, conversiones: 0, ingresos: 0 };
+    porFecha.set(fecha, {
+      fecha,
+      gasto: dia.gasto + gasto,
+      conversiones: dia.conversiones + conversiones,
+      ingresos: dia.ingresos + ingresos,
+    });
+  }
+
+  omitidas.sort((a, b) => a.fila - b.fila);
+  return {
+    formato,
+    registros: Array.from(porFecha.values()).sort((a, b) => a.fecha.localeCompare(b.fecha)),
+    conIngresos: columnas.ingresos !== null,
+    omitidas,
+    ...base,
+  };
+}
+
+// ============================================================================
+// COMPARISON WITH THE PLAN
+// ============================================================================
+
+export const DURACION_CAMPANA_DEFECTO = 30; // days
+
+export interface ComparacionPlan {
+  desde: string;
+  hasta: string;
+  dias: number; // Calendar days covered, first to last date inclusive
+  gasto: number;
+  unidades: number; // Conversions, as reported (may be fractional with attribution)
+  ingresos: number | null; // null when the export has no revenue column
+  cprReal: number;
+  roasReal: number | null;
+  /** Sold units over the planned VUM (1 = break-even reached) */
+  progresoVum: number;
+  /** Elapsed share of the campaign */
+  avanceTiempo: number;
+  /** Actual over expected-to-date; 1 = on plan, < 1 = behind */
+  ritmoGasto: number;
+  ritmoUnidades: number;
+  /** Days left at the current daily rate; 0 once reached, null without sales */
+  diasParaEquilibrio: number | null;
+  /** Whether that rate reaches break-even within the campaign */
+  equilibrioEnPlazo: boolean;
+}
+
+function diasEntre(desde: string, hasta: string): number {
+  return Math.round((Date.parse(hasta) - Date.parse(desde)) / 86_400_000) + 1;
+}
+
+/**
+ * Compares imported delivery with the plan: VUM progress, spend and unit
+ * pacing against a straight-line plan over `duracionDias`, and days to
+ * break even at the current rate. Returns null without any day of data.
+ */
+export function compararConPlan(
+  registros: RegistroDiario[],
+  conIngresos: boolean,
+  params: ParametrosCliente,
+  resultados: ResultadosIPROAS,
+  duracionDias = DURACION_CAMPANA_DEFECTO
+): ComparacionPlan | null {
+  if (registros.length === 0) return null;
+  const desde = registros[0].fecha;
+  const hasta = registros[registros.length - 1].fecha;
+  const dias = diasEntre(desde, hasta);
+  const gasto = registros.reduce((acc, r) => acc + r.gasto, 0);
+  const unidades = registros.reduce((acc, r) => acc + r.conversiones, 0);
+  const ingresos = conIngresos ? registros.reduce((acc, r) => acc + r.ingresos, 0) : null;
+
+  const avanceTiempo = Math.min(1, dias / duracionDias);
+  const progresoVum = resultados.vum > 0 ? unidades / resultados.vum : 0;
+  const avanceGasto = params.inversionPublicitaria > 0 ? gasto / params.inversionPublicitaria : 0;
+
+  const faltantes = Math.max(0, resultados.vum - unidades);
+  const ritmoDiario = unidades / dias;
+  const diasParaEquilibrio = faltantes === 0 ? 0 : ritmoDiario > 0 ? Math.ceil(faltantes / ritmoDiario) : null;
+
+  return {
+    desde,
+    hasta,
+    dias,
+    gasto,
+    unidades,
+    ingresos,
+    cprReal: unidades > 0 ? gasto / unidades : Infinity,
+    roasReal: ingresos !== null && gasto > 0 ? ingresos / gasto : null,
+    progresoVum,
+    avanceTiempo,
+    ritmoGasto: avanceGasto / avanceTiempo,
+    ritmoUnidades: progresoVum / avanceTiempo,
+    diasParaEquilibrio,
+    equilibrioEnPlazo: diasParaEquilibrio !== null && dias + diasParaEquilibrio <= duracionDias,
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Batch Scenario Evaluation
+ * =========================
+ * Runs calcularTodo over many named scenarios. Invalid scenarios are
+ * reported individually and never abort the rest of the batch.
+ */
+
+import type { Escenario, ResultadosIPROAS, TablaTasas } from '@/types/roas';
+import { calcularTodo, productoDesdeFila, CSV_COLUMNAS } from './roas-engine';
+import { leerTablaCSV, parseNumero, type FilaOmitida } from './csv';
+import { validarParametros, type ValidationError } from './validation';
+import { TABLA_TASAS_VACIA, validarConversion } from './currency';
+
+/** Upper bound on scenarios per batch request */
+export const MAX_ESCENARIOS = 500;
+
+export type ResultadoEscenario =
+  | { nombre: string; ok: true; resultados: ResultadosIPROAS }
+  | { nombre: string; ok: false; errores: ValidationError[] };
+
+/**
+ * Evaluates each scenario independently, in its own reporting currency.
+ * Input is untrusted: every entry is validated before calcularTodo runs.
+ */
+export function evaluarEscenarios(entrada: unknown[], tasas: TablaTasas = TABLA_TASAS_VACIA): ResultadoEscenario[] {
+  return entrada.map((item, i) => {
+    const record = typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {};
+    const nombre =
+      typeof record.nombre === 'string' && record.nombre.trim() !== ''
+        ? record.nombre.trim()
+        : `Escenario ${i + 1}`;
+
+    const validation = validarParametros(record.parametros);
+    if (!validation.ok) {
+      return { nombre, ok: false, errores: validation.errors };
+    }
+    const conversion = validarConversion(validation.value, tasas);
+    if (!conversion.ok) {
+      return { nombre, ok: false, errores: conversion.errors };
+    }
+    return { nombre, ok: true, resultados: calcularTodo(conversion.value) };
+  });
+}
+
+const CLIENTE_KEYS = ['cliente', 'client', 'escenario', 'scenario'];
+const IP_KEYS = ['ip', 'inversion_publicitaria'];
+const TF_KEYS = ['tf', 'tarifa_fija'];
+const IE_KEYS = ['ie', 'ingreso_esperado'];
+const MONEDA_REPORTE_KEYS = ['moneda_reporte', 'reporting_currency'];
+
+/** Name of the entry that collects rows which could not be tokenized */
+export const FILAS_SIN_PROCESAR = 'Filas sin procesar';
+
+function pick(row: Record<string, string>, keys: string[]): string | undefined {
+  for (const k of keys) {
+    if (row[k]) return row[k];
+  }
+  return undefined;
+}
+
+export interface GrupoCSV {
+  escenario: Escenario;
+  errores: ValidationError[];
+}
+
+/** A multi-client CSV grouped into scenarios, before anything is calculated */
+export interface EscenariosCSV {
+  grupos: GrupoCSV[];
+  omitidas: FilaOmitida[];
+}
+
+/**
+ * Groups a multi-client CSV into scenarios without calculating them, so
+ * callers can enforce MAX_ESCENARIOS first.
+ * One row per product, grouped by the cliente/escenario column; IP, TF, IE
+ * and the optional moneda_reporte are read from the first row of each client
+ * that provides them, e.g.:
+ *
+ *   cliente,ip,tf,ie,nombre,precio,margen
+ *   Acme,50000,10000,15000,Zapatos,1500,35
+ *   Acme,,,,Camisa,800,25
+ *
+ * Rows that fail to parse are attached to their scenario as errors; rows
+ * with the wrong number of columns are kept in `omitidas`.
+ */
+export function leerEscenariosCSV(csvText: string): EscenariosCSV {
+  const tabla = leerTablaCSV(csvText, {
+    columnasNumericas: [...IP_KEYS, ...TF_KEYS, ...IE_KEYS, ...CSV_COLUMNAS.precio, ...CSV_COLUMNAS.margen],
+  });
+  const decimal = tabla.separadorDecimal;
+  const grupos = new Map<string, GrupoCSV>();
+
+  tabla.filas.forEach(({ fila, valores: row }) => {
+    const nombre = pick(row, CLIENTE_KEYS) || 'Sin cliente';
+    let grupo = grupos.get(nombre);
+    if (!grupo) {
+      grupo = {
+        escenario: {
+          nombre,
+          parametros: { inversionPublicitaria: NaN, tarifaFija: NaN, ingresoEsperado: NaN, productos: [] },
+        },
+        errores: [],
+      };
+      grupos.set(nombre, grupo);
+    }
+    const params = grupo.escenario.parametros;
+
+    const ip = pick(row, IP_KEYS);
+    const tf = pick(row, TF_KEYS);
+    const ie = pick(row, IE_KEYS);
+    if (ip !== undefined && isNaN(params.inversionPublicitaria)) params.inversionPublicitaria = parseNumero(ip, decimal);
+    if (tf !== undefined && isNaN(params.tarifaFija)) params.tarifaFija = parseNumero(tf, decimal);
+    if (ie !== undefined && isNaN(params.ingresoEsperado)) params.ingresoEsperado = parseNumero(ie, decimal);
+    const moneda = pick(row, MONEDA_REPORTE_KEYS);
+    if (moneda !== undefined && params.moneda === undefined) params.moneda = moneda.trim().toUpperCase();
+
+    const result = productoDesdeFila(row, params.productos.length + 1, decimal);
+    if (result.ok) {
+      params.productos.push(result.producto);
+    } else {
+      grupo.errores.push({ campo: `fila ${fila}`, mensaje: result.motivo });
+    }
+  });
+
+  return { grupos: Array.from(grupos.values()), omitidas: tabla.omitidas };
+}
+
+/**
+ * Validates and calculates each scenario in its reporting currency, like
+ * evaluarEscenarios; unparsed rows are reported under FILAS_SIN_PROCESAR.
+ */
+export function evaluarEscenariosCSV(
+  { grupos, omitidas }: EscenariosCSV,
+  tasas: TablaTasas = TABLA_TASAS_VACIA
+): ResultadoEscenario[] {
+  const resultados: ResultadoEscenario[] = grupos.map(({ escenario, errores }) => {
+    const validation = validarParametros(escenario.parametros);
+    const todos = validation.ok ? errores : [...errores, ...validation.errors];
+    if (!validation.ok || todos.length > 0) {
+      return { nombre: escenario.nombre, ok: false, errores: todos };
+    }
+    const conversion = validarConversion(validation.value, tasas);
+    if (!conversion.ok) {
+      return { nombre: escenario.nombre, ok: false, errores: conversion.errors };
+    }
+    return { nombre: escenario.nombre, ok: true, resultados: calcularTodo(conversion.value) };
+  });
+
+  if (omitidas.length > 0) {
+    resultados.push({
+      nombre: FILAS_SIN_PROCESAR,
+      ok: false,
+      errores: omitidas.map((o) => ({ campo: `fila ${o.fila}`, mensaje: o.motivo })),
+    });
+  }
+  return resultados;
+}
+
+/** Parses and evaluates a multi-client CSV (see leerEscenariosCSV) */
+export function parseEscenariosCSV(csvText: string, tasas: TablaTasas = TABLA_TASAS_VACIA): ResultadoEscenario[] {
+  return evaluarEscenariosCSV(leerEscenariosCSV(csvText), tasas);
+}
@@ -0,0 +1,211 @@
+/**
+ * Chat Action Proposals
+ * =====================
+ * Structured changes the assistant can propose next to its answer (set
+ * IP/TF/IE, add/edit/remove a product). The user applies them with a button;
+ * nothing changes in the calculator until then.
+ */
+
+import type { GoalSeekVariable, Moneda, ParametrosCliente, Producto, TablaTasas } from '@/types/roas';
+import { validarProducto, type ValidationError, type ValidationResult } from './validation';
+import { normalizarNombre } from './portfolio';
+import { formatCurrency, MONEDA_POR_DEFECTO } from './format';
+import { convertirMonto } from './currency';
+
+export type AccionCalculadora =
+  | { tipo: 'fijarVariable'; variable: GoalSeekVariable; valor: number }
+  | { tipo: 'agregarProducto'; producto: Producto }
+  | { tipo: 'editarProducto'; nombre: string; cambios: CambiosProducto }
+  | { tipo: 'eliminarProducto'; nombre: string };
+
+/** Fields an edit may change; precio is in the reporting currency, as the assistant sees it */
+export type CambiosProducto = Partial<Pick<Producto, 'nombre' | 'precio' | 'margenBruto'>>;
+
+export interface PropuestaCambios {
+  descripcion: string;
+  acciones: AccionCalculadora[];
+}
+
+/** Longer proposals are rejected so each one stays reviewable */
+export const ACCIONES_POR_PROPUESTA_MAX = 10;
+
+export const TIPOS_ACCION: AccionCalculadora['tipo'][] = [
+  'fijarVariable',
+  'agregarProducto',
+  'editarProducto',
+  'eliminarProducto',
+];
+
+const VARIABLES: GoalSeekVariable[] = ['IP', 'TF', 'IE'];
+
+const CAMPO_VARIABLE: Record<GoalSeekVariable, 'inversionPublicitaria' | 'tarifaFija' | 'ingresoEsperado'> = {
+  IP: 'inversionPublicitaria',
+  TF: 'tarifaFija',
+  IE: 'ingresoEsperado',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function esNumeroNoNegativo(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function esTexto(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function validarAccion(a: unknown, campo: string, errors: ValidationError[]): AccionCalculadora | null {
+  if (!isRecord(a)) {
+    errors.push({ campo, mensaje: 'Debe ser un objeto' });
+    return null;
+  }
+  switch (a.tipo) {
+    case 'fijarVariable':
+      if (!VARIABLES.includes(a.variable as GoalSeekVariable)) {
+        errors.push({ campo: `${campo}.variable`, mensaje: `Debe ser uno de: ${VARIABLES.join(', ')}` });
+        return null;
+      }
+      if (!esNumeroNoNegativo(a.valor)) {
+        errors.push({ campo: `${campo}.valor`, mensaje: 'Debe ser un número no negativo' });
+        return null;
+      }
+      return { tipo: 'fijarVariable', variable: a.variable as GoalSeekVariable, valor: a.valor };
+    case 'agregarProducto': {
+      const producto = validarProducto(a.producto, `${campo}.producto`);
+      if (!producto.ok) {
+        errors.push(...producto.errors);
+        return null;
+      }
+      return { tipo: 'agregarProducto', producto: producto.value };
+    }
+    case 'editarProducto': {
+      const antes = errors.length;
+      if (!esTexto(a.nombre)) errors.push({ campo: `${campo}.nombre`, mensaje: 'Debe ser un texto no vacío' });
+      const c = isRecord(a.cambios) ? a.cambios : {};
+      const cambios: CambiosProducto = {};
+      if (c.nombre !== undefined) {
+        if (esTexto(c.nombre)) cambios.nombre = c.nombre.trim();
+        else errors.push({ campo: `${campo}.cambios.nombre`, mensaje: 'Debe ser un texto no vacío' });
+      }
+      if (c.precio !== undefined) {
+        if (esNumeroNoNegativo(c.precio)) cambios.precio = c.precio;
+        else errors.push({ campo: `${campo}.cambios.precio`, mensaje: 'Debe ser un número no negativo' });
+      }
+      if (c.margenBruto !== undefined) {
+        if (esNumeroNoNegativo(c.margenBruto) && c.margenBruto <= 1) cambios.margenBruto = c.margenBruto;
+        else errors.push({ campo: `${campo}.cambios.margenBruto`, mensaje: 'Debe ser un decimal entre 0 y 1' });
+      }
+      if (errors.length === antes && Object.keys(cambios).length === 0) {
+        errors.push({ campo: `${campo}.cambios`, mensaje: 'Debe cambiar nombre, precio o margenBruto' });
+      }
+      if (errors.length > antes) return null;
+      return { tipo: 'editarProducto', nombre: (a.nombre as string).trim(), cambios };
+    }
+    case 'eliminarProducto':
+      if (!esTexto(a.nombre)) {
+        errors.push({ campo: `${campo}.nombre`, mensaje: 'Debe ser un texto no vacío' });
+        return null;
+      }
+      return { tipo: 'eliminarProducto', nombre: a.nombre.trim() };
+    default:
+      errors.push({ campo: `${campo}.tipo`, mensaje: `Debe ser uno de: ${TIPOS_ACCION.join(', ')}` });
+      return null;
+  }
+}
+
+/** Validates a proposal coming from the model (tool arguments) or the stream */
+export function validarPropuesta(input: unknown): ValidationResult<PropuestaCambios> {
+  if (!isRecord(input)) return { ok: false, errors: [{ campo: '', mensaje: 'Debe ser un objeto' }] };
+  const errors: ValidationError[] = [];
+  if (!esTexto(input.descripcion)) errors.push({ campo: 'descripcion', mensaje: 'Debe ser un texto no vacío' });
+  const acciones: AccionCalculadora[] = [];
+  if (!Array.isArray(input.acciones) || input.acciones.length === 0) {
+    errors.push({ campo: 'acciones', mensaje: 'Debe ser una lista no vacía' });
+  } else if (input.acciones.length > ACCIONES_POR_PROPUESTA_MAX) {
+    errors.push({ campo: 'acciones', mensaje: `Como máximo ${ACCIONES_POR_PROPUESTA_MAX} acciones por propuesta` });
+  } else {
+    input.acciones.forEach((a, i) => {
+      const accion = validarAccion(a, `acciones[${i}]`, errors);
+      if (accion) acciones.push(accion);
+    });
+  }
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { descripcion: (input.descripcion as string).trim(), acciones } };
+}
+
+/**
+ * Applies the actions in order. Products are matched by name ignoring case,
+ * accents and spacing; an action naming a missing product fails the whole
+ * proposal so nothing is half-applied.
+ *
+ * The assistant only sees prices converted to the reporting currency. Pass
+ * tasas when params are the inputs as entered, so an edited price is
+ * converted back into the product's own currency.
+ */
+export function aplicarAcciones(
+  params: ParametrosCliente,
+  acciones: AccionCalculadora[],
+  tasas?: TablaTasas
+): ValidationResult<ParametrosCliente> {
+  const reporte = params.moneda ?? MONEDA_POR_DEFECTO;
+  let resultado: ParametrosCliente = params;
+  const errors: ValidationError[] = [];
+  acciones.forEach((accion, i) => {
+    if (accion.tipo === 'fijarVariable') {
+      resultado = { ...resultado, [CAMPO_VARIABLE[accion.variable]]: accion.valor };
+    } else if (accion.tipo === 'agregarProducto') {
+      resultado = { ...resultado, productos: [...resultado.productos, accion.producto] };
+    } else {
+      const clave = normalizarNombre(accion.nombre);
+      const indice = resultado.productos.findIndex((p) => normalizarNombre(p.nombre) === clave);
+      if (indice < 0) {
+        errors.push({ campo: `acciones[${i}].nombre`, mensaje: `No existe el producto "${accion.nombre}"` });
+        return;
+      }
+      if (accion.tipo === 'eliminarProducto') {
+        resultado = { ...resultado, productos: resultado.productos.filter((_, j) => j !== indice) };
+        return;
+      }
+      const cambios = { ...accion.cambios };
+      const moneda = resultado.productos[indice].moneda ?? reporte;
+      if (cambios.precio !== undefined && tasas) {
+        const precio = convertirMonto(cambios.precio, reporte, moneda, tasas);
+        if (precio === null) {
+          errors.push({ campo: `acciones[${i}].cambios.precio`, mensaje: `Sin tasa de cambio de ${reporte} a ${moneda}` });
+          return;
+        }
+        cambios.precio = precio;
+      }
+      const productos = resultado.productos.map((p, j) => (j === indice ? { ...p, ...cambios } : p));
+      resultado = { ...resultado, productos };
+    }
+  });
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: resultado };
+}
+
+/** One-line Spanish label for the proposal card */
+export function describirAccion(accion: AccionCalculadora, moneda: Moneda = MONEDA_POR_DEFECTO): string {
+  const margen = (m: number) => `${(m * 100).toFixed(1)}%`;
+  switch (accion.tipo) {
+    case 'fijarVariable':
+      return `${accion.variable} → ${formatCurrency(accion.valor, moneda)}`;
+    case 'agregarProducto': {
+      const p = accion.producto;
+      return `Agregar "${p.nombre}" (precio ${formatCurrency(p.precio, p.moneda ?? moneda)}, margen ${margen(p.margenBruto)})`;
+    }
+    case 'editarProducto': {
+      const { nombre, precio, margenBruto } = accion.cambios;
+      const partes = [
+        nombre !== undefined && `nombre → "${nombre}"`,
+        precio !== undefined && `precio → ${formatCurrency(precio, moneda)}`,
+        margenBruto !== undefined && `margen → ${margen(margenBruto)}`,
+      ].filter(Boolean);
+      return `Editar "${accion.nombre}": ${partes.join(', ')}`;
+    }
+    case 'eliminarProducto':
+      return `Eliminar "${accion.nombre}"`;
+  }
+}
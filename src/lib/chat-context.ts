@@ -0,0 +1,229 @@
+/**
+ * Chat Calculator Context
+ * =======================
+ * The calculator snapshot the client sends with each chat message: checked
+ * on the server, then rendered into the system prompt. Large portfolios are
+ * summarised (lowest-margin products plus ranges and per-category counts) so
+ * a big CSV import does not fill the model's context; the tools still run on
+ * the full portfolio.
+ */
+
+import type { Moneda, ParametrosCliente, Producto, ResultadosIPROAS } from '@/types/roas';
+import type { ContextoChatJSON, NumeroJSON } from '@/types/api';
+import { validarParametros, type ValidationError, type ValidationResult } from './validation';
+import { categoriaDe, estaSeleccionado, margenAbsoluto, margenNeto, productosConDeducciones } from './roas-engine';
+import { deserializarResultados, serializarResultados } from './serialization';
+import { esCodigoMoneda } from './currency';
+import { formatCurrency, MONEDA_POR_DEFECTO } from './format';
+
+/** Snapshots with more products are rejected outright */
+export const PRODUCTOS_CONTEXTO_MAX = 5000;
+
+/** Products listed one per line; larger portfolios are summarised */
+export const PRODUCTOS_PROMPT_MAX = 30;
+
+/** Categories, deductions, etc. listed before "y N más" */
+export const ELEMENTOS_LISTA_PROMPT_MAX = 15;
+
+/** Names, SKUs and categories are cut to this many characters in the prompt */
+export const TEXTO_PROMPT_MAX = 60;
+
+/** ContextoChatJSON with the results back to plain numbers */
+export interface ContextoChat {
+  params: ParametrosCliente;
+  resultados: ResultadosIPROAS;
+  sinTasa: Moneda[];
+}
+
+const CAMPOS_NUMERICOS_RESULTADOS: (keyof ResultadosIPROAS)[] = [
+  'ipRoas',
+  'vum',
+  'roasMinTradicional',
+  'cprEstimado',
+  'costosTotales',
+  'margenMinimoUsado',
+  'precioProductoMinimo',
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function esNumeroJSON(value: unknown): value is NumeroJSON {
+  return (
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    value === 'Infinity' ||
+    value === '-Infinity' ||
+    value === 'NaN'
+  );
+}
+
+/** Builds the snapshot on the client */
+export function contextoChatJSON(params: ParametrosCliente, resultados: ResultadosIPROAS, sinTasa: Moneda[] = []): ContextoChatJSON {
+  return {
+    params,
+    resultados: serializarResultados(resultados),
+    ...(sinTasa.length > 0 && { sinTasa }),
+  };
+}
+
+/**
+ * Validates the snapshot from POST /api/chat. The product count is checked
+ * before anything else so an oversized portfolio is not validated row by row.
+ */
+export function validarContextoChat(input: unknown): ValidationResult<ContextoChat> {
+  if (!isRecord(input)) return { ok: false, errors: [{ campo: 'contexto', mensaje: 'Debe ser un objeto' }] };
+  const productos = isRecord(input.params) ? input.params.productos : undefined;
+  if (Array.isArray(productos) && productos.length > PRODUCTOS_CONTEXTO_MAX) {
+    return {
+      ok: false,
+      errors: [{ campo: 'contexto.params.productos', mensaje: `Como máximo ${PRODUCTOS_CONTEXTO_MAX} productos` }],
+    };
+  }
+
+  const errors: ValidationError[] = [];
+  const params = validarParametros(input.params);
+  if (!params.ok) {
+    errors.push(
+      ...params.errors.map((e) => ({ ...e, campo: e.campo ? `contexto.params.${e.campo}` : 'contexto.params' }))
+    );
+  }
+
+  const { resultados, sinTasa } = input;
+  if (!isRecord(resultados)) {
+    errors.push({ campo: 'contexto.resultados', mensaje: 'Debe ser un objeto' });
+  } else {
+    for (const campo of CAMPOS_NUMERICOS_RESULTADOS) {
+      if (!esNumeroJSON(resultados[campo])) {
+        errors.push({ campo: `contexto.resultados.${campo}`, mensaje: 'Debe ser un número' });
+      }
+    }
+    if (typeof resultados.productoCritico !== 'string') {
+      errors.push({ campo: 'contexto.resultados.productoCritico', mensaje: 'Debe ser un texto' });
+    }
+  }
+  if (sinTasa !== undefined && (!Array.isArray(sinTasa) || !sinTasa.every(esCodigoMoneda))) {
+    errors.push({ campo: 'contexto.sinTasa', mensaje: 'Debe ser una lista de códigos de moneda' });
+  }
+
+  if (errors.length > 0 || !params.ok) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      params: params.value,
+      resultados: deserializarResultados(resultados as unknown as ContextoChatJSON['resultados']),
+      sinTasa: (sinTasa as Moneda[] | undefined) ?? [],
+    },
+  };
+}
+
+function recortar(texto: string): string {
+  return texto.length > TEXTO_PROMPT_MAX ? `${texto.slice(0, TEXTO_PROMPT_MAX - 1)}…` : texto;
+}
+
+function lista(elementos: string[]): string {
+  if (elementos.length <= ELEMENTOS_LISTA_PROMPT_MAX) return elementos.join(', ');
+  const resto = elementos.length - ELEMENTOS_LISTA_PROMPT_MAX;
+  return `${elementos.slice(0, ELEMENTOS_LISTA_PROMPT_MAX).join(', ')} y ${resto} más`;
+}
+
+const porcentaje = (m: number) => `${(m * 100).toFixed(1)}%`;
+
+/**
+ * Renders the snapshot as the system message the model reads. Up to
+ * maxProductos products are listed; beyond that only the lowest-margin
+ * products in the calculation are, followed by a summary of the rest.
+ */
+export function contextoParaPrompt(contexto: ContextoChat, maxProductos = PRODUCTOS_PROMPT_MAX): string {
+  const { params, resultados, sinTasa } = contexto;
+  const moneda = params.moneda ?? MONEDA_POR_DEFECTO;
+  const fmt = (n: number) => formatCurrency(n, moneda);
+  const deducciones = params.deducciones ?? [];
+  const hayDeducciones = deducciones.length > 0 || params.productos.some((p) => p.deducciones?.length);
+  const tipoMargen = hayDeducciones ? 'neto' : 'abs';
+
+  const lines: string[] = [];
+  lines.push(`Moneda de reporte: ${moneda}`);
+  lines.push(`Inversión Publicitaria (IP): ${fmt(params.inversionPublicitaria)}`);
+  lines.push(`Tarifa Fija (TF): ${fmt(params.tarifaFija)}`);
+  lines.push(`Ingreso Esperado (IE): ${fmt(params.ingresoEsperado)}`);
+  if (sinTasa.length > 0) {
+    lines.push(`(Sin tasa de cambio para ${sinTasa.join(', ')}: esos productos no entran en el cálculo)`);
+  }
+
+  if (params.productos.length === 0) {
+    lines.push(`\nNo hay productos cargados aún.`);
+    return lines.join('\n');
+  }
+
+  const netos = productosConDeducciones(params.productos, deducciones).map(margenNeto);
+  const filas = params.productos.map((p, i) => ({
+    producto: p,
+    neto: netos[i],
+    seleccionado: estaSeleccionado(p, params.categorias),
+  }));
+  const linea = ({ producto: p, neto, seleccionado }: (typeof filas)[number]) =>
+    `- ${recortar(p.nombre)}: precio=${fmt(p.precio)}, margen=${porcentaje(p.margenBruto)}, margen_abs=${fmt(margenAbsoluto(p))}` +
+    (hayDeducciones ? `, margen_neto=${fmt(neto)}` : '') +
+    (p.sku ? `, sku=${recortar(p.sku)}` : '') +
+    (p.categoria ? `, categoria=${recortar(p.categoria)}` : '') +
+    (seleccionado ? '' : ' (fuera del cálculo)');
+
+  if (filas.length <= maxProductos) {
+    lines.push(`\nProductos (${filas.length}):`);
+    filas.forEach((f) => lines.push(linea(f)));
+  } else {
+    const enCalculo = filas.filter((f) => f.seleccionado);
+    const listados = [...enCalculo].sort((a, b) => a.neto - b.neto).slice(0, maxProductos);
+    lines.push(
+      `\nProductos (${filas.length}, ${enCalculo.length} en el cálculo). Se listan los ${listados.length} de menor margen ${tipoMargen} en el cálculo; ` +
+        'las herramientas usan el portafolio completo:'
+    );
+    listados.forEach((f) => lines.push(linea(f)));
+    lines.push(resumenPortafolio(params.productos, fmt));
+  }
+
+  if (params.categorias && params.categorias.length > 0) {
+    lines.push(`Categorías de la campaña: ${lista(params.categorias.map(recortar))}`);
+  }
+  if (deducciones.length > 0) {
+    const globales = deducciones.map((d) =>
+      d.tipo === 'porcentaje'
+        ? `${recortar(d.concepto)} ${porcentaje(d.valor)}`
+        : `${recortar(d.concepto)} ${fmt(d.valor)}/u.`
+    );
+    lines.push(`Deducciones globales (por unidad): ${lista(globales)}`);
+  }
+
+  lines.push(`\nResultados:`);
+  lines.push(`- IP-ROAS: ${resultados.ipRoas.toFixed(4)}`);
+  lines.push(`- VUM: ${resultados.vum} unidades`);
+  lines.push(`- ROAS Tradicional Mínimo: ${resultados.roasMinTradicional.toFixed(4)}`);
+  lines.push(`- CPR Estimado: ${fmt(resultados.cprEstimado)}`);
+  lines.push(`- Costos Totales: ${fmt(resultados.costosTotales)}`);
+  if (params.modoMargen === 'mezcla') {
+    lines.push(`- Margen usado: mezcla de ventas ponderada (margen ${tipoMargen} promedio: ${fmt(resultados.margenMinimoUsado)})`);
+  } else {
+    lines.push(
+      `- Producto Crítico: ${recortar(resultados.productoCritico)} (margen ${tipoMargen} mínimo: ${fmt(resultados.margenMinimoUsado)})`
+    );
+  }
+  return lines.join('\n');
+}
+
+/** Price and margin ranges plus product counts per category */
+function resumenPortafolio(productos: Producto[], fmt: (n: number) => string): string {
+  const precios = productos.map((p) => p.precio);
+  const margenes = productos.map((p) => p.margenBruto);
+  const promedio = margenes.reduce((s, m) => s + m, 0) / margenes.length;
+  const conteo = new Map<string, number>();
+  for (const p of productos) conteo.set(categoriaDe(p), (conteo.get(categoriaDe(p)) ?? 0) + 1);
+  const porCategoria = Array.from(conteo)
+    .sort((a, b) => b[1] - a[1])
+    .map(([categoria, n]) => `${recortar(categoria)} ${n}`);
+  return (
+    `Resumen del portafolio: precio ${fmt(Math.min(...precios))} – ${fmt(Math.max(...precios))}, ` +
+    `margen bruto ${porcentaje(Math.min(...margenes))} – ${porcentaje(Math.max(...margenes))} (promedio ${porcentaje(promedio)})\n` +
+    `Productos por categoría: ${lista(porCategoria)}`
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * Chat Conversations
+ * ==================
+ * Saved assistant conversations behind an async store (localStorage for
+ * now, like the scenarios), titles taken from the first question, Markdown
+ * export with the calculator snapshot, and trimming of long histories
+ * before they are sent to /api/chat. Conversations keep a trimmed snapshot
+ * (inputs without the product list, plus the prompt summary) so large
+ * portfolios do not fill the storage quota.
+ */
+
+import type { ParametrosCliente } from '@/types/roas';
+import type { ContextoChatJSON, ResultadosIPROASJSON } from '@/types/api';
+import type { KeyValueStorage } from './scenario-store';
+import { describirAccion, validarPropuesta, type PropuestaCambios } from './chat-actions';
+import { contextoParaPrompt, validarContextoChat } from './chat-context';
+import { normalizarNombre } from './portfolio';
+
+export interface MensajeConversacion {
+  role: 'user' | 'assistant';
+  content: string;
+  propuestas?: PropuestaCambios[]; // Changes the assistant proposed in this answer
+}
+
+/** What a conversation keeps of the calculator snapshot; size does not grow with the portfolio */
+export interface ContextoGuardado {
+  params: Omit<ParametrosCliente, 'productos'>;
+  resultados: ResultadosIPROASJSON;
+  resumen: string; // As rendered for the model: up to PRODUCTOS_PROMPT_MAX products plus a summary
+}
+
+export interface Conversacion {
+  id: string;
+  titulo: string;
+  creadoEn: string;       // ISO timestamp
+  actualizadoEn: string;  // ISO timestamp
+  mensajes: MensajeConversacion[];
+  contexto?: ContextoGuardado; // Calculator snapshot the latest answer was based on
+}
+
+export interface ConversationStore {
+  list(): Promise<Conversacion[]>;
+  get(id: string): Promise<Conversacion | null>;
+  save(conversacion: Conversacion): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export const CONVERSATIONS_STORAGE_KEY = 'ip-roas:conversaciones:v1';
+
+/** Oldest conversations are dropped beyond this, to stay within the storage quota */
+export const CONVERSACIONES_MAX = 50;
+
+export const TITULO_CONVERSACION_MAX = 60;
+export const TITULO_POR_DEFECTO = 'Nueva conversación';
+
+/** History sent per message: at most this many messages and characters */
+export const MENSAJES_ENVIADOS_MAX = 20;
+export const CARACTERES_ENVIADOS_MAX = 12000;
+
+export function esMensajeConversacion(value: unknown): value is MensajeConversacion {
+  if (typeof value !== 'object' || value === null) return false;
+  const m = value as Record<string, unknown>;
+  return (
+    (m.role === 'user' || m.role === 'assistant') &&
+    typeof m.content === 'string' &&
+    (m.propuestas === undefined || (Array.isArray(m.propuestas) && m.propuestas.every((p) => validarPropuesta(p).ok)))
+  );
+}
+
+function esContextoGuardado(value: unknown): value is ContextoGuardado {
+  if (typeof value !== 'object' || value === null) return false;
+  const c = value as Record<string, unknown>;
+  return (
+    typeof c.params === 'object' &&
+    c.params !== null &&
+    typeof c.resultados === 'object' &&
+    c.resultados !== null &&
+    typeof c.resumen === 'string'
+  );
+}
+
+function esConversacion(value: unknown): value is Conversacion {
+  if (typeof value !== 'object' || value === null) return false;
+  const c = value as Record<string, unknown>;
+  return (
+    typeof c.id === 'string' &&
+    typeof c.titulo === 'string' &&
+    typeof c.creadoEn === 'string' &&
+    typeof c.actualizadoEn === 'string' &&
+    Array.isArray(c.mensajes) &&
+    c.mensajes.every(esMensajeConversacion)
+  );
+}
+
+/**
+ * Stores all conversations as one JSON array under CONVERSATIONS_STORAGE_KEY,
+ * most recently updated first. Entries that fail validation are dropped on
+ * read, and a malformed snapshot drops just the snapshot. When the quota is
+ * exceeded the oldest conversations are evicted until the rest fit; save
+ * rejects if even the saved conversation alone does not.
+ */
+export class LocalStorageConversationStore implements ConversationStore {
+  constructor(private readonly storage: KeyValueStorage, private readonly key = CONVERSATIONS_STORAGE_KEY) {}
+
+  private read(): Conversacion[] {
+    try {
+      const raw = this.storage.getItem(this.key);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      if (!Array.isArray(parsed)) return [];
+      return parsed
+        .filter(esConversacion)
+        .map((c) => (c.contexto === undefined || esContextoGuardado(c.contexto) ? c : { ...c, contexto: undefined }));
+    } catch {
+      return [];
+    }
+  }
+
+  private write(conversaciones: Conversacion[]): void {
+    let lista = conversaciones;
+    for (;;) {
+      try {
+        this.storage.setItem(this.key, JSON.stringify(lista));
+        return;
+      } catch (e) {
+        if (lista.length <= 1) throw e;
+        lista = lista.slice(0, -1);
+      }
+    }
+  }
+
+  async list(): Promise<Conversacion[]> {
+    return this.read();
+  }
+
+  async get(id: string): Promise<Conversacion | null> {
+    return this.read().find((c) => c.id === id) ?? null;
+  }
+
+  async save(conversacion: Conversacion): Promise<void> {
+    const resto = this.read().filter((c) => c.id !== conversacion.id);
+    this.write([conversacion, ...resto].slice(0, CONVERSACIONES_MAX));
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter((c) => c.id !== id));
+  }
+}
+
+/** Browser store, or null during server rendering */
+export function createConversationStore(): ConversationStore | null {
+  if (typeof window === 'undefined' || !window.localStorage) return null;
+  return new LocalStorageConversationStore(window.localStorage);
+}
+
+// ============================================================================
+// CONVERSATION OPERATIONS
+// ============================================================================
+
+export function nuevaConversacion(): Conversacion {
+  const ahora = new Date().toISOString();
+  return { id: crypto.randomUUID(), titulo: TITULO_POR_DEFECTO, creadoEn: ahora, actualizadoEn: ahora, mensajes: [] };
+}
+
+/** First line of the question, cut at a word boundary */
+export function tituloDesdePregunta(pregunta: string): string {
+  const linea = pregunta.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!linea) return TITULO_POR_DEFECTO;
+  if (linea.length <= TITULO_CONVERSACION_MAX) return linea;
+  const corte = linea.slice(0, TITULO_CONVERSACION_MAX - 1);
+  const espacio = corte.lastIndexOf(' ');
+  return `${espacio > TITULO_CONVERSACION_MAX / 2 ? corte.slice(0, espacio) : corte}…`;
+}
+
+/** The snapshot without its product list; the summary keeps the products that matter most */
+export function recortarContexto(contexto: ContextoChatJSON): ContextoGuardado {
+  const params: Partial<ParametrosCliente> = { ...contexto.params };
+  delete params.productos;
+  const validado = validarContextoChat(contexto);
+  return {
+    params: params as Omit<ParametrosCliente, 'productos'>,
+    resultados: contexto.resultados,
+    resumen: validado.ok ? contextoParaPrompt(validado.value) : '',
+  };
+}
+
+/**
+ * The conversation with new messages and snapshot; the title comes from
+ * the first question until one is set.
+ */
+export function actualizarConversacion(
+  conversacion: Conversacion,
+  mensajes: MensajeConversacion[],
+  contexto?: ContextoChatJSON
+): Conversacion {
+  const primera = mensajes.find((m) => m.role === 'user');
+  const titulo =
+    conversacion.titulo === TITULO_POR_DEFECTO && primera ? tituloDesdePregunta(primera.content) : conversacion.titulo;
+  return {
+    ...conversacion,
+    titulo,
+    mensajes,
+    ...(contexto && { contexto: recortarContexto(contexto) }),
+    actualizadoEn: new Date().toISOString(),
+  };
+}
+
+// ============================================================================
+// HISTORY SENT TO THE MODEL
+// ============================================================================
+
+export interface HistorialRecortado {
+  mensajes: { role: 'user' | 'assistant'; content: string }[];
+  omitidos: number; // Earlier messages left out
+}
+
+/**
+ * Keeps the most recent messages within maxMensajes and maxCaracteres.
+ * The last message is always sent, cut to maxCaracteres if needed, and the
+ * kept history never starts with an assistant answer.
+ */
+export function recortarHistorial(
+  mensajes: MensajeConversacion[],
+  maxMensajes = MENSAJES_ENVIADOS_MAX,
+  maxCaracteres = CARACTERES_ENVIADOS_MAX
+): HistorialRecortado {
+  const enviados: HistorialRecortado['mensajes'] = [];
+  let caracteres = 0;
+  for (let i = mensajes.length - 1; i >= 0 && enviados.length < maxMensajes; i--) {
+    const { role, content } = mensajes[i];
+    if (enviados.length === 0) {
+      enviados.unshift({ role, content: content.slice(0, maxCaracteres) });
+      caracteres = enviados[0].content.length;
+      continue;
+    }
+    if (caracteres + content.length > maxCaracteres) break;
+    enviados.unshift({ role, content });
+    caracteres += content.length;
+  }
+  while (enviados.length > 1 && enviados[0].role === 'assistant') enviados.shift();
+  return { mensajes: enviados, omitidos: mensajes.length - enviados.length };
+}
+
+// ============================================================================
+// MARKDOWN EXPORT
+// ============================================================================
+
+const ROLES: Record<MensajeConversacion['role'], string> = { user: 'Usuario', assistant: 'Asistente' };
+
+/** The conversation as Markdown, preceded by the calculator snapshot it was based on */
+export function conversacionAMarkdown(conversacion: Conversacion): string {
+  const lines: string[] = [`# ${conversacion.titulo}`, ''];
+  lines.push(`Creada: ${conversacion.creadoEn} · Actualizada: ${conversacion.actualizadoEn}`, '');
+
+  const contexto = conversacion.contexto;
+  if (contexto) {
+    lines.push('## Datos de la calculadora', '');
+    if (contexto.resumen) lines.push('```', contexto.resumen, '```', '');
+    lines.push('<details><summary>Snapshot (JSON)</summary>', '', '```json');
+    lines.push(JSON.stringify({ params: contexto.params, resultados: contexto.resultados }, null, 2), '```', '');
+    lines.push('</details>', '');
+  }
+
+  lines.push('## Conversación', '');
+  for (const m of conversacion.mensajes) lines.push(...mensajeMarkdown(m, contexto?.params.moneda));
+  return lines.join('\n');
+}
+
+function mensajeMarkdown(m: MensajeConversacion, moneda?: string): string[] {
+  const lines = [`**${ROLES[m.role]}:**`, '', m.content, ''];
+  for (const propuesta of m.propuestas ?? []) {
+    lines.push(`> **Propuesta:** ${propuesta.descripcion}`);
+    for (const accion of propuesta.acciones) lines.push(`> - ${describirAccion(accion, moneda)}`);
+    lines.push('');
+  }
+  return lines;
+}
+
+/** File name for the export: the title with anything unsafe replaced */
+export function nombreArchivoConversacion(conversacion: Conversacion): string {
+  const base = normalizarNombre(conversacion.titulo)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `conversacion-${base || 'ip-roas'}.md`;
+}
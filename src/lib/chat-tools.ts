@@ -0,0 +1,312 @@
+/**
+ * Assistant Tools
+ * ===============
+ * Tools the chat model calls instead of doing arithmetic itself, and the
+ * server-side loop that runs them. Every number the assistant quotes comes
+ * from the engine (calcularTodo, calcularSensibilidad) on the user's inputs.
+ * proponer_cambios does not touch the inputs: it streams a proposal the
+ * user can apply from the chat.
+ */
+
+import type { ModoMargen, ParametrosCliente, SensitivityType } from '@/types/roas';
+import { MODOS_MARGEN } from '@/types/roas';
+import {
+  calcularSensibilidad,
+  calcularTodo,
+  margenNeto,
+  productoMargenMinimo,
+  productosConDeducciones,
+  productosSeleccionados,
+  rangoSensibilidadPorDefecto,
+} from './roas-engine';
+import { numeroAJSON, serializarResultados } from './serialization';
+import { validarRangoSensibilidad, type ValidationError } from './validation';
+import type { HerramientaLLM, LLMClient, LlamadaHerramienta, MensajeLLM } from './llm';
+import { TIPOS_ACCION, aplicarAcciones, validarPropuesta, type PropuestaCambios } from './chat-actions';
+
+/** Model turns with tools before it must answer with what it has */
+export const MAX_RONDAS_HERRAMIENTAS = 5;
+
+/** Points returned per sensitivity sweep, to keep tool results short */
+export const PUNTOS_SENSIBILIDAD_CHAT_MAX = 25;
+
+const TIPOS_SENSIBILIDAD: SensitivityType[] = ['IP', 'TF', 'IE', 'Margen'];
+const MODOS_MARGEN_VALIDOS = MODOS_MARGEN.map((m) => m.value);
+
+export const HERRAMIENTAS_CHAT: HerramientaLLM[] = [
+  {
+    nombre: 'calcular_resultados',
+    descripcion:
+      'Calcula IP-ROAS, VUM, ROAS tradicional mínimo, CPR y costos totales con los datos actuales de la calculadora, e indica el producto crítico.',
+    parametros: { type: 'object', properties: {} },
+  },
+  {
+    nombre: 'simular_escenario',
+    descripcion:
+      'Recalcula las métricas cambiando IP, TF, IE, precios, márgenes o el modo de margen, y las compara con el escenario actual. Los campos omitidos conservan su valor actual.',
+    parametros: {
+      type: 'object',
+      properties: {
+        inversionPublicitaria: { type: 'number', description: 'Nueva inversión publicitaria (IP)' },
+        tarifaFija: { type: 'number', description: 'Nueva tarifa fija (TF)' },
+        ingresoEsperado: { type: 'number', description: 'Nuevo ingreso esperado (IE)' },
+        variacionPrecioPct: { type: 'number', description: 'Cambio porcentual de todos los precios (10 = +10%)' },
+        variacionMargenPct: {
+          type: 'number',
+          description: 'Cambio porcentual del margen bruto de todos los productos (10 = +10%)',
+        },
+        modoMargen: { type: 'string', enum: MODOS_MARGEN_VALIDOS },
+      },
+    },
+  },
+  {
+    nombre: 'calcular_sensibilidad',
+    descripcion:
+      'Barre IP, TF, IE o el margen bruto entre min y max y devuelve IP-ROAS y ROAS tradicional en cada punto. El margen va en decimal (0.3 = 30%).',
+    parametros: {
+      type: 'object',
+      properties: {
+        tipo: { type: 'string', enum: TIPOS_SENSIBILIDAD },
+        min: { type: 'number' },
+        max: { type: 'number' },
+        puntos: { type: 'integer', minimum: 2, maximum: PUNTOS_SENSIBILIDAD_CHAT_MAX },
+      },
+      required: ['tipo'],
+    },
+  },
+  {
+    nombre: 'proponer_cambios',
+    descripcion:
+      'Propone al usuario cambios en la calculadora (fijar IP/TF/IE, agregar, editar o eliminar productos). Se muestran con un botón "Aplicar" y la comparación antes/después; no se aplican hasta que el usuario lo confirme. Los márgenes van en decimal y los precios en la moneda de reporte, como los ves en los datos; al aplicar se convierten a la moneda de cada producto.',
+    parametros: {
+      type: 'object',
+      properties: {
+        descripcion: { type: 'string', description: 'Resumen breve del cambio para el usuario' },
+        acciones: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              tipo: { type: 'string', enum: TIPOS_ACCION },
+              variable: { type: 'string', enum: ['IP', 'TF', 'IE'], description: 'Solo para fijarVariable' },
+              valor: { type: 'number', description: 'Solo para fijarVariable' },
+              nombre: { type: 'string', description: 'Producto a editar o eliminar' },
+              producto: {
+                type: 'object',
+                description: 'Solo para agregarProducto',
+                properties: { nombre: { type: 'string' }, precio: { type: 'number' }, margenBruto: { type: 'number' } },
+              },
+              cambios: {
+                type: 'object',
+                description: 'Solo para editarProducto',
+                properties: { nombre: { type: 'string' }, precio: { type: 'number' }, margenBruto: { type: 'number' } },
+              },
+            },
+            required: ['tipo'],
+          },
+        },
+      },
+      required: ['descripcion', 'acciones'],
+    },
+  },
+];
+
+/** JSON sent back to the model; failed calls get { error } so it can correct them */
+type ResultadoHerramienta = Record<string, unknown>;
+
+function listaErrores(errors: ValidationError[]): string {
+  return errors.map((e) => `${e.campo}: ${e.mensaje}`).join('; ');
+}
+
+function leerArgumentos(argumentos: string): Record<string, unknown> | null {
+  try {
+    const parsed: unknown = JSON.parse(argumentos || '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Optional finite number >= min; problems are collected in errores */
+function numeroOpcional(
+  args: Record<string, unknown>,
+  campo: string,
+  errores: string[],
+  min = -Infinity
+): number | undefined {
+  const valor = args[campo];
+  if (valor === undefined || valor === null) return undefined;
+  if (typeof valor !== 'number' || !Number.isFinite(valor) || valor < min) {
+    errores.push(`${campo} debe ser un número${min > -Infinity ? ` mayor o igual que ${min}` : ''}`);
+    return undefined;
+  }
+  return valor;
+}
+
+function resumen(params: ParametrosCliente): ResultadoHerramienta {
+  const seleccionados = productosSeleccionados(params);
+  const critico = productoMargenMinimo(productosConDeducciones(seleccionados, params.deducciones));
+  return {
+    resultados: serializarResultados(calcularTodo(params)),
+    productoCritico: critico && {
+      nombre: critico.nombre,
+      precio: critico.precio,
+      margenBruto: critico.margenBruto,
+      margenNeto: numeroAJSON(margenNeto(critico)),
+    },
+    productosEnCalculo: seleccionados.length,
+    moneda: params.moneda,
+  };
+}
+
+function simularEscenario(params: ParametrosCliente, args: Record<string, unknown>): ResultadoHerramienta {
+  const errores: string[] = [];
+  const ip = numeroOpcional(args, 'inversionPublicitaria', errores, 0);
+  const tf = numeroOpcional(args, 'tarifaFija', errores, 0);
+  const ie = numeroOpcional(args, 'ingresoEsperado', errores, 0);
+  const precioPct = numeroOpcional(args, 'variacionPrecioPct', errores, -100) ?? 0;
+  const margenPct = numeroOpcional(args, 'variacionMargenPct', errores, -100) ?? 0;
+  const { modoMargen } = args;
+  if (modoMargen !== undefined && !MODOS_MARGEN_VALIDOS.includes(modoMargen as ModoMargen)) {
+    errores.push(`modoMargen debe ser uno de: ${MODOS_MARGEN_VALIDOS.join(', ')}`);
+  }
+  if (errores.length > 0) return { error: errores.join('; ') };
+
+  const escenario: ParametrosCliente = {
+    ...params,
+    inversionPublicitaria: ip ?? params.inversionPublicitaria,
+    tarifaFija: tf ?? params.tarifaFija,
+    ingresoEsperado: ie ?? params.ingresoEsperado,
+    modoMargen: (modoMargen as ModoMargen | undefined) ?? params.modoMargen,
+    productos: params.productos.map((p) => ({
+      ...p,
+      precio: p.precio * (1 + precioPct / 100),
+      margenBruto: Math.min(1, p.margenBruto * (1 + margenPct / 100)),
+    })),
+  };
+  const actual = calcularTodo(params);
+  const nuevo = calcularTodo(escenario);
+  return {
+    actual: serializarResultados(actual),
+    escenario: serializarResultados(nuevo),
+    diferencias: {
+      ipRoas: numeroAJSON(nuevo.ipRoas - actual.ipRoas),
+      vum: numeroAJSON(nuevo.vum - actual.vum),
+      roasMinTradicional: numeroAJSON(nuevo.roasMinTradicional - actual.roasMinTradicional),
+      cprEstimado: numeroAJSON(nuevo.cprEstimado - actual.cprEstimado),
+    },
+  };
+}
+
+function sensibilidad(params: ParametrosCliente, args: Record<string, unknown>): ResultadoHerramienta {
+  const tipo = args.tipo as SensitivityType;
+  if (!TIPOS_SENSIBILIDAD.includes(tipo)) return { error: `tipo debe ser uno de: ${TIPOS_SENSIBILIDAD.join(', ')}` };
+  const porDefecto = rangoSensibilidadPorDefecto(tipo, params);
+  if (!porDefecto) return { error: 'No hay productos en el cálculo' };
+
+  const errores: string[] = [];
+  const puntos = numeroOpcional(args, 'puntos', errores, 2) ?? 10;
+  if (!Number.isInteger(puntos) || puntos > PUNTOS_SENSIBILIDAD_CHAT_MAX) {
+    errores.push(`puntos debe ser un entero entre 2 y ${PUNTOS_SENSIBILIDAD_CHAT_MAX}`);
+  }
+  const min = numeroOpcional(args, 'min', errores) ?? porDefecto.min;
+  const max = numeroOpcional(args, 'max', errores) ?? porDefecto.max;
+  if (errores.length > 0) return { error: errores.join('; ') };
+  const rango = validarRangoSensibilidad(tipo, { min, max, paso: (max - min) / (puntos - 1), escala: 'lineal' });
+  if (!rango.ok) return { error: listaErrores(rango.errors) };
+
+  const data = calcularSensibilidad(tipo, params, rango.value) ?? [];
+  return {
+    tipo,
+    puntos: data.map((d) => ({ x: d.x, ipRoas: numeroAJSON(d.ipRoas), roasTradicional: numeroAJSON(d.roasTradicional) })),
+  };
+}
+
+/** Checks the proposal applies to the current inputs; the user decides whether to apply it */
+function proponerCambios(
+  params: ParametrosCliente,
+  args: Record<string, unknown>
+): { resultado: ResultadoHerramienta; propuesta?: PropuestaCambios } {
+  const propuesta = validarPropuesta(args);
+  if (!propuesta.ok) return { resultado: { error: listaErrores(propuesta.errors) } };
+  const aplicada = aplicarAcciones(params, propuesta.value.acciones);
+  if (!aplicada.ok) return { resultado: { error: listaErrores(aplicada.errors) } };
+  return {
+    resultado: { mostrada: true, nota: 'El usuario verá la propuesta con un botón Aplicar; todavía no se aplicó.' },
+    propuesta: propuesta.value,
+  };
+}
+
+function ejecutarLlamada(
+  llamada: LlamadaHerramienta,
+  params: ParametrosCliente | null
+): { resultado: ResultadoHerramienta; propuesta?: PropuestaCambios } {
+  const args = leerArgumentos(llamada.argumentos);
+  if (!params) return { resultado: { error: 'La calculadora no envió datos; pida al usuario que cargue sus valores' } };
+  if (!args) return { resultado: { error: 'Los argumentos deben ser un objeto JSON' } };
+  switch (llamada.nombre) {
+    case 'calcular_resultados':
+      return { resultado: resumen(params) };
+    case 'simular_escenario':
+      return { resultado: simularEscenario(params, args) };
+    case 'calcular_sensibilidad':
+      return { resultado: sensibilidad(params, args) };
+    case 'proponer_cambios':
+      return proponerCambios(params, args);
+    default:
+      return { resultado: { error: `Herramienta desconocida: ${llamada.nombre}` } };
+  }
+}
+
+/**
+ * Runs one tool call against the calculator inputs and returns the JSON
+ * string sent back to the model; bad calls yield { error }.
+ */
+export function ejecutarHerramienta(llamada: LlamadaHerramienta, params: ParametrosCliente | null): string {
+  return JSON.stringify(ejecutarLlamada(llamada, params).resultado);
+}
+
+/** What the route streams to the browser */
+export type EventoChat =
+  | { tipo: 'texto'; texto: string }
+  | { tipo: 'herramienta'; nombre: string }
+  | { tipo: 'propuesta'; propuesta: PropuestaCambios };
+
+/**
+ * Tool-call loop: asks the model, runs the tools it requests and feeds the
+ * results back until it answers without tools. Text is yielded as it streams,
+ * so the final answer reaches the user token by token. The last round is sent
+ * without tools so the model has to answer.
+ */
+export async function* conversarConHerramientas(
+  cliente: LLMClient,
+  mensajes: MensajeLLM[],
+  params: ParametrosCliente | null,
+  maxRondas = MAX_RONDAS_HERRAMIENTAS
+): AsyncGenerator<EventoChat> {
+  const historial = [...mensajes];
+  for (let ronda = 0; ronda <= maxRondas; ronda++) {
+    const herramientas = ronda < maxRondas ? HERRAMIENTAS_CHAT : [];
+    let texto = '';
+    const llamadas: LlamadaHerramienta[] = [];
+    for await (const evento of cliente.responder({ mensajes: historial, herramientas })) {
+      if (evento.tipo === 'texto') {
+        texto += evento.texto;
+        yield evento;
+      } else {
+        llamadas.push(evento.llamada);
+      }
+    }
+    if (llamadas.length === 0 || herramientas.length === 0) return;
+
+    historial.push({ role: 'assistant', content: texto, llamadas });
+    for (const llamada of llamadas) {
+      yield { tipo: 'herramienta', nombre: llamada.nombre };
+      const { resultado, propuesta } = ejecutarLlamada(llamada, params);
+      if (propuesta) yield { tipo: 'propuesta', propuesta };
+      historial.push({ role: 'tool', llamadaId: llamada.id, content: JSON.stringify(resultado) });
+    }
+  }
+}
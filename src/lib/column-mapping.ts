@@ -0,0 +1,165 @@
+/**
+ * Column Mapping
+ * ==============
+ * Assigns source columns to Producto fields, suggests a mapping from known
+ * aliases and previously confirmed headers, and builds the products.
+ */
+
+import type { Producto } from '@/types/roas';
+import { CSV_COLUMNAS, productoDesdeFila } from './roas-engine';
+import { detectarSeparadorDecimal, type FilaOmitida, type SeparadorDecimal } from './csv';
+import type { KeyValueStorage } from './scenario-store';
+import type { TablaImportada } from './spreadsheet-import';
+
+export type CampoProducto =
+  | 'nombre'
+  | 'precio'
+  | 'margen'
+  | 'participacion'
+  | 'moneda'
+  | 'sku'
+  | 'categoria'
+  | 'en_campana'
+  | 'deducciones';
+
+export const CAMPOS_PRODUCTO: CampoProducto[] = [
+  'nombre',
+  'precio',
+  'margen',
+  'participacion',
+  'moneda',
+  'sku',
+  'categoria',
+  'en_campana',
+  'deducciones',
+];
+
+/** Column index assigned to each field (null = not mapped) */
+export type MapeoColumnas = Record<CampoProducto, number | null>;
+
+/** Normalized header → field, learned from confirmed imports */
+export type MapeosRecordados = Record<string, CampoProducto>;
+
+export interface ResultadoImportacion {
+  productos: Producto[];
+  omitidas: FilaOmitida[];
+  separadorDecimal: SeparadorDecimal;
+}
+
+function normalizarHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '_');
+}
+
+/** A mapping with every field unassigned */
+export function mapeoVacio(): MapeoColumnas {
+  return Object.fromEntries(CAMPOS_PRODUCTO.map((c) => [c, null])) as MapeoColumnas;
+}
+
+/**
+ * Suggests a mapping: remembered headers win over the built-in aliases,
+ * and each column is used at most once.
+ */
+export function sugerirMapeo(headers: string[], recordados: MapeosRecordados = {}): MapeoColumnas {
+  const mapeo = mapeoVacio();
+  const normalizados = headers.map(normalizarHeader);
+  const usadas = new Set<number>();
+
+  normalizados.forEach((h, i) => {
+    const campo = recordados[h];
+    if (campo && mapeo[campo] === null) {
+      mapeo[campo] = i;
+      usadas.add(i);
+    }
+  });
+
+  for (const campo of CAMPOS_PRODUCTO) {
+    if (mapeo[campo] !== null) continue;
+    const aliases: readonly string[] = CSV_COLUMNAS[campo];
+    const i = normalizados.findIndex((h, idx) => !usadas.has(idx) && aliases.includes(h));
+    if (i >= 0) {
+      mapeo[campo] = i;
+      usadas.add(i);
+    }
+  }
+  return mapeo;
+}
+
+/** Whether the mapping has the columns needed to build products */
+export function mapeoCompleto(mapeo: MapeoColumnas): boolean {
+  return mapeo.precio !== null && mapeo.margen !== null;
+}
+
+/**
+ * Builds products from the mapped columns using the same rules as CSV import
+ * (percent margins, decimal separators, skipped-row reasons).
+ */
+export function aplicarMapeo(tabla: TablaImportada, mapeo: MapeoColumnas): ResultadoImportacion {
+  const columnasNumericas = [mapeo.precio, mapeo.margen, mapeo.participacion].filter((c): c is number => c !== null);
+  const separadorDecimal =
+    tabla.separadorDecimal ??
+    detectarSeparadorDecimal(
+      tabla.filas.flatMap((f) => columnasNumericas.map((c) => f.celdas[c]).filter((v) => typeof v === 'string')),
+      ','
+    );
+
+  const texto = (celda: string | number | undefined): string => {
+    if (celda === undefined) return '';
+    if (typeof celda === 'number') {
+      return separadorDecimal === ',' ? String(celda).replace('.', ',') : String(celda);
+    }
+    return celda;
+  };
+
+  const productos: Producto[] = [];
+  const omitidas: FilaOmitida[] = [];
+  for (const { fila, celdas } of tabla.filas) {
+    const row: Record<string, string> = {};
+    for (const campo of CAMPOS_PRODUCTO) {
+      const col = mapeo[campo];
+      if (col !== null) row[campo] = texto(celdas[col]).trim();
+    }
+    const result = productoDesdeFila(row, productos.length + 1, separadorDecimal);
+    if (result.ok) productos.push(result.producto);
+    else omitidas.push({ fila, motivo: result.motivo });
+  }
+
+  return { productos, omitidas, separadorDecimal };
+}
+
+// ============================================================================
+// REMEMBERED MAPPINGS
+// ============================================================================
+
+export const MAPPINGS_STORAGE_KEY = 'ip-roas:mapeos:v1';
+
+export class MappingMemory {
+  constructor(private readonly storage: KeyValueStorage, private readonly key = MAPPINGS_STORAGE_KEY) {}
+
+  cargar(): MapeosRecordados {
+    try {
+      const parsed: unknown = JSON.parse(this.storage.getItem(this.key) ?? '{}');
+      if (typeof parsed !== 'object' || parsed === null) return {};
+      return Object.fromEntries(
+        Object.entries(parsed).filter(([, v]) => CAMPOS_PRODUCTO.includes(v as CampoProducto))
+      ) as MapeosRecordados;
+    } catch {
+      return {};
+    }
+  }
+
+  /** Remembers the header → field assignments of a confirmed import */
+  recordar(headers: string[], mapeo: MapeoColumnas): void {
+    const recordados = this.cargar();
+    for (const campo of CAMPOS_PRODUCTO) {
+      const col = mapeo[campo];
+      if (col === null || !headers[col]) continue;
+      recordados[normalizarHeader(headers[col])] = campo;
+    }
+    this.storage.setItem(this.key, JSON.stringify(recordados));
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Delimited Text Parsing
+ * ======================
+ * RFC 4180 tokenizer with delimiter and decimal-separator detection, used by
+ * every CSV/TSV import. Rows that cannot be used are reported, never dropped
+ * silently.
+ */
+
+export type Delimitador = ',' | ';' | '\t' | '|';
+export type SeparadorDecimal = '.' | ',';
+
+/** A line of the source that was not imported, with the reason */
+export interface FilaOmitida {
+  fila: number; // 1-based line number in the source text
+  motivo: string;
+}
+
+/** A data row keyed by lower-cased header name */
+export interface FilaCSV {
+  fila: number;
+  valores: Record<string, string>;
+}
+
+export interface TablaCSV {
+  headers: string[];
+  filas: FilaCSV[];
+  omitidas: FilaOmitida[];
+  delimitador: Delimitador;
+  separadorDecimal: SeparadorDecimal;
+}
+
+const DELIMITADORES: Delimitador[] = [',', ';', '\t', '|'];
+
+interface RegistroCSV {
+  fila: number;
+  campos: string[];
+}
+
+/**
+ * Splits text into records following RFC 4180: quoted fields may contain the
+ * delimiter, line breaks and doubled quotes (""). Accepts \n, \r\n and \r.
+ */
+export function tokenizarCSV(text: string, delimitador: Delimitador): RegistroCSV[] {
+  const registros: RegistroCSV[] = [];
+  let campos: string[] = [];
+  let campo = '';
+  let enComillas = false;
+  let linea = 1;
+  let inicioRegistro = 1;
+
+  const cerrarRegistro = () => {
+    campos.push(campo);
+    registros.push({ fila: inicioRegistro, campos });
+    campos = [];
+    campo = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+
+    if (enComillas) {
+      if (c === '"') {
+        if (text[i + 1] === '"') {
+          campo += '"';
+          i++;
+        } else {
+          enComillas = false;
+        }
+      } else {
+        if (c === '\n' || (c === '\r' && text[i + 1] !== '\n')) linea++;
+        campo += c;
+      }
+      continue;
+    }
+
+    if (c === '"' && campo.trim() === '') {
+      campo = '';
+      enComillas = true;
+    } else if (c === delimitador) {
+      campos.push(campo);
+      campo = '';
+    } else if (c === '\r' || c === '\n') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      cerrarRegistro();
+      linea++;
+      inicioRegistro = linea;
+    } else {
+      campo += c;
+    }
+  }
+
+  if (campo !== '' || campos.length > 0) cerrarRegistro();
+  return registros;
+}
+
+/** Picks the candidate delimiter that occurs most often in the header line */
+export function detectarDelimitador(text: string): Delimitador {
+  let header = '';
+  let enComillas = false;
+  for (const c of text) {
+    if (c === '"') enComillas = !enComillas;
+    else if (!enComillas && (c === '\n' || c === '\r')) break;
+    else if (!enComillas) header += c;
+  }
+
+  let mejor: Delimitador = ',';
+  let mejorCuenta = 0;
+  for (const d of DELIMITADORES) {
+    const cuenta = header.split(d).length - 1;
+    if (cuenta > mejorCuenta) {
+      mejor = d;
+      mejorCuenta = cuenta;
+    }
+  }
+  return mejor;
+}
+
+function limpiarNumero(valor: string): string {
+  return valor.replace(/[\s$€£%]/g, '');
+}
+
+/**
+ * Votes on the decimal separator from numeric samples. When both '.' and ','
+ * appear, the last one is the decimal mark; grouping-only values such as
+ * "1.234" are ambiguous and ignored. Without votes, semicolon files (Excel in
+ * Spanish locales) default to ',' and everything else to '.'.
+ */
+export function detectarSeparadorDecimal(muestras: string[], delimitador: Delimitador): SeparadorDecimal {
+  let coma = 0;
+  let punto = 0;
+  for (const muestra of muestras) {
+    const v = limpiarNumero(muestra);
+    const iComa = v.lastIndexOf(',');
+    const iPunto = v.lastIndexOf('.');
+    if (iComa >= 0 && iPunto >= 0) {
+      if (iComa > iPunto) coma++;
+      else punto++;
+    } else if (iComa >= 0) {
+      if (!/^[+-]?\d{1,3}(,\d{3})+$/.test(v)) coma++;
+    } else if (iPunto >= 0) {
+      if (!/^[+-]?\d{1,3}(\.\d{3})+$/.test(v)) punto++;
+    }
+  }
+  if (coma !== punto) return coma > punto ? ',' : '.';
+  return delimitador === ';' ? ',' : '.';
+}
+
+/**
+ * Parses a number written with the given decimal separator. Currency symbols,
+ * spaces and '%' are ignored; returns NaN for anything else.
+ */
+export function parseNumero(valor: string, separadorDecimal: SeparadorDecimal): number {
+  let v = limpiarNumero(valor);
+  if (v === '') return NaN;
+  v = separadorDecimal === ',' ? v.replace(/\./g, '').replace(',', '.') : v.replace(/,/g, '');
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(v)) return NaN;
+  return Number(v);
+}
+
+/**
+ * Reads delimited text into header-keyed rows. Detects the delimiter (unless
+ * given) and the decimal separator from the columns listed in
+ * `columnasNumericas`. Strips a UTF-8 BOM and skips blank lines.
+ */
+export function leerTablaCSV(
+  text: string,
+  opciones: { delimitador?: Delimitador; columnasNumericas?: string[] } = {}
+): TablaCSV {
+  const limpio = text.replace(/^\uFEFF/, '');
+  const delimitador = opciones.delimitador ?? detectarDelimitador(limpio);
+  const registros = tokenizarCSV(limpio, delimitador).filter((r) =>
+    r.campos.some((c) => c.trim() !== '')
+  );
+
+  if (registros.length === 0) {
+    return { headers: [], filas: [], omitidas: [], delimitador, separadorDecimal: '.' };
+  }
+
+  const headers = registros[0].campos.map((h) => h.trim().toLowerCase());
+  const filas: FilaCSV[] = [];
+  const omitidas: FilaOmitida[] = [];
+
+  for (const registro of registros.slice(1)) {
+    const campos = registro.campos.map((c) => c.trim());
+    // Spreadsheet exports often pad rows with trailing empty cells
+    while (campos.length > headers.length && campos[campos.length - 1] === '') campos.pop();
+    if (campos.length !== headers.length) {
+      omitidas.push({
+        fila: registro.fila,
+        motivo: `Se esperaban ${headers.length} columnas y se encontraron ${campos.length}`,
+      });
+      continue;
+    }
+    const valores: Record<string, string> = {};
+    headers.forEach((h, idx) => {
+      valores[h] = campos[idx];
+    });
+    filas.push({ fila: registro.fila, valores });
+  }
+
+  const numericas = new Set(opciones.columnasNumericas ?? []);
+  const muestras = filas.flatMap((f) =>
+    Object.entries(f.valores)
+      .filter(([h, v]) => numericas.has(h) && v !== '')
+      .map(([, v]) => v)
+  );
+
+  return {
+    headers,
+    filas,
+    omitidas,
+    delimitador,
+    separadorDecimal: detectarSeparadorDecimal(muestras, delimitador),
+  };
+}
+
+function escaparCampo(valor: string | number, delimitador: Delimitador): string {
+  const texto = typeof valor === 'number' ? (isFinite(valor) ? String(valor) : '') : valor;
+  return /["\r\n]/.test(texto) || texto.includes(delimitador) ? `"${texto.replace(/"/g, '""')}"` : texto;
+}
+
+/**
+ * Writes rows as RFC 4180 text (CRLF line endings, quoted when needed).
+ * Numbers use '.' as decimal mark; non-finite numbers become empty cells.
+ */
+export function escribirCSV(
+  headers: string[],
+  filas: (string | number)[][],
+  delimitador: Delimitador = ','
+): string {
+  return [headers, ...filas].map((fila) => fila.map((v) => escaparCampo(v, delimitador)).join(delimitador)).join('\r\n') + '\r\n';
+}
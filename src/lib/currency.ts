@@ -0,0 +1,180 @@
+/**
+ * Currencies and Exchange Rates
+ * =============================
+ * Offline exchange-rate table (typed in or loaded from a file) and the
+ * conversion of a mixed-currency portfolio into the reporting currency.
+ * The engine itself is currency-agnostic: calcularTodo expects every amount
+ * in one currency, so convertirParametros runs first.
+ */
+
+import type { Moneda, ParametrosCliente, Producto, TablaTasas } from '@/types/roas';
+import { leerTablaCSV, parseNumero, type FilaOmitida } from './csv';
+import { MONEDA_POR_DEFECTO } from './format';
+import type { KeyValueStorage } from './scenario-store';
+import type { ValidationResult } from './validation';
+
+/** Currencies offered in the selectors; any other ISO code can be typed in */
+export const MONEDAS_COMUNES: Moneda[] = ['USD', 'MXN', 'COP', 'EUR', 'ARS', 'CLP', 'PEN', 'BRL'];
+
+export const TABLA_TASAS_VACIA: TablaTasas = { base: MONEDA_POR_DEFECTO, tasas: {} };
+
+export function esCodigoMoneda(value: unknown): value is Moneda {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+}
+
+/** Units of `moneda` per one unit of the base, or null if the rate is unknown */
+function tasa(moneda: Moneda, tabla: TablaTasas): number | null {
+  if (moneda === tabla.base) return 1;
+  const t = tabla.tasas[moneda];
+  return typeof t === 'number' && isFinite(t) && t > 0 ? t : null;
+}
+
+/**
+ * Converts an amount between two currencies through the table's base.
+ * Returns null when either rate is missing.
+ */
+export function convertirMonto(monto: number, de: Moneda, a: Moneda, tabla: TablaTasas): number | null {
+  if (de === a) return monto;
+  const tDe = tasa(de, tabla);
+  const tA = tasa(a, tabla);
+  if (tDe === null || tA === null) return null;
+  return (monto / tDe) * tA;
+}
+
+export interface ConversionParametros {
+  params: ParametrosCliente;
+  /** Currencies without a rate; their products are left out of params */
+  sinTasa: Moneda[];
+  excluidos: Producto[];
+}
+
+/**
+ * Expresses every product price (and fixed deduction) in the reporting
+ * currency (params.moneda). Margins are percentages and do not change; products whose currency has no
+ * rate are excluded and reported rather than mixed in unconverted.
+ */
+export function convertirParametros(params: ParametrosCliente, tabla: TablaTasas): ConversionParametros {
+  const reporte = params.moneda ?? MONEDA_POR_DEFECTO;
+  const productos: Producto[] = [];
+  const excluidos: Producto[] = [];
+  const sinTasa = new Set<Moneda>();
+
+  for (const p of params.productos) {
+    const origen = p.moneda ?? reporte;
+    const precio = convertirMonto(p.precio, origen, reporte, tabla);
+    if (precio === null) {
+      excluidos.push(p);
+      sinTasa.add(origen);
+    } else {
+      const convertido: Producto = { ...p, precio, moneda: reporte };
+      if (p.deducciones) {
+        // Fixed per-unit deductions are in the product's currency too
+        convertido.deducciones = p.deducciones.map((d) =>
+          d.tipo === 'fijo' ? { ...d, valor: convertirMonto(d.valor, origen, reporte, tabla)! } : d
+        );
+      }
+      productos.push(convertido);
+    }
+  }
+
+  return { params: { ...params, moneda: reporte, productos }, sinTasa: Array.from(sinTasa), excluidos };
+}
+
+/**
+ * Strict variant for API input: a product whose currency has no rate is an
+ * error on productos[i].moneda instead of being left out.
+ */
+export function validarConversion(params: ParametrosCliente, tabla: TablaTasas): ValidationResult<ParametrosCliente> {
+  const reporte = params.moneda ?? MONEDA_POR_DEFECTO;
+  const errors = params.productos.flatMap((p, i) => {
+    const origen = p.moneda ?? reporte;
+    return convertirMonto(1, origen, reporte, tabla) === null
+      ? [{ campo: `productos[${i}].moneda`, mensaje: `Sin tasa de cambio de ${origen} a ${reporte}` }]
+      : [];
+  });
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: convertirParametros(params, tabla).params };
+}
+
+// ============================================================================
+// RATES FILE
+// ============================================================================
+
+const COLUMNAS_TASAS = {
+  moneda: ['moneda', 'currency', 'codigo', 'code'],
+  tasa: ['tasa', 'rate', 'tipo_cambio'],
+} as const;
+
+function columna(row: Record<string, string>, aliases: readonly string[]): string {
+  for (const alias of aliases) {
+    if (row[alias]) return row[alias];
+  }
+  return '';
+}
+
+export interface TasasImportadas {
+  tasas: Record<Moneda, number>;
+  omitidas: FilaOmitida[];
+}
+
+/**
+ * Reads a moneda,tasa file (rates per one unit of the current base).
+ * Same delimiter/decimal detection and row report as the catalog import.
+ */
+export function parseTasasCSV(text: string): TasasImportadas {
+  const tabla = leerTablaCSV(text, { columnasNumericas: [...COLUMNAS_TASAS.tasa] });
+  const tasas: Record<Moneda, number> = {};
+  const omitidas = [...tabla.omitidas];
+
+  for (const { fila, valores } of tabla.filas) {
+    const codigo = columna(valores, COLUMNAS_TASAS.moneda).toUpperCase();
+    const texto = columna(valores, COLUMNAS_TASAS.tasa);
+    const valor = parseNumero(texto, tabla.separadorDecimal);
+    if (!esCodigoMoneda(codigo)) {
+      omitidas.push({ fila, motivo: `Código de moneda inválido: "${codigo}"` });
+    } else if (!(valor > 0)) {
+      omitidas.push({ fila, motivo: `Tasa inválida: "${texto}"` });
+    } else {
+      tasas[codigo] = valor;
+    }
+  }
+
+  omitidas.sort((a, b) => a.fila - b.fila);
+  return { tasas, omitidas };
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export const RATES_STORAGE_KEY = 'ip-roas:tasas:v1';
+
+/** Validates an untrusted rates table, dropping entries that are not usable */
+export function tablaTasasDesde(value: unknown): TablaTasas | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { base, tasas } = value as Record<string, unknown>;
+  if (!esCodigoMoneda(base) || typeof tasas !== 'object' || tasas === null) return null;
+  return {
+    base,
+    tasas: Object.fromEntries(
+      Object.entries(tasas).filter(([k, v]) => esCodigoMoneda(k) && typeof v === 'number' && isFinite(v) && v > 0)
+    ),
+  };
+}
+
+/** The user's rates table, kept between visits */
+export class ExchangeRateMemory {
+  constructor(private readonly storage: KeyValueStorage, private readonly key = RATES_STORAGE_KEY) {}
+
+  cargar(): TablaTasas {
+    try {
+      return tablaTasasDesde(JSON.parse(this.storage.getItem(this.key) ?? 'null')) ?? TABLA_TASAS_VACIA;
+    } catch {
+      return TABLA_TASAS_VACIA;
+    }
+  }
+
+  guardar(tabla: TablaTasas): void {
+    this.storage.setItem(this.key, JSON.stringify(tabla));
+  }
+}
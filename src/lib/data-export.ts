@@ -0,0 +1,146 @@
+/**
+ * Data Export
+ * ===========
+ * CSV and .xlsx downloads of the portfolio (with derived columns) and of the
+ * sensitivity series behind each chart. Portfolio CSVs use the nombre,precio,
+ * margen (plus participacion, moneda, sku, categoria, en_campana and
+ * deducciones, when set) headers so parseCSV can import them back.
+ */
+
+import type {
+  Deduccion,
+  Moneda,
+  ParametrosCliente,
+  Producto,
+  SensitivityDataPoint,
+  SensitivityType,
+  TablaTasas,
+} from '@/types/roas';
+import { SENSITIVITY_CONFIGS } from '@/types/roas';
+import { calcularSensibilidad, deduccionesATexto } from './roas-engine';
+import { escribirCSV } from './csv';
+import { portafolioConDerivados } from './proposal';
+import { convertirParametros } from './currency';
+
+/** Reporting currency and rates for the derived columns of a mixed-currency portfolio */
+export interface ConversionExportacion {
+  moneda: Moneda;
+  tasas: TablaTasas;
+}
+
+const PORTAFOLIO_HEADERS = ['nombre', 'precio', 'margen', 'margen_absoluto', 'critico'];
+
+/** Optional product columns, written only when some product sets them */
+const PORTAFOLIO_OPCIONALES: { header: string; valor: (p: Producto) => string | number | undefined }[] = [
+  { header: 'participacion', valor: (p) => p.participacion },
+  { header: 'moneda', valor: (p) => p.moneda },
+  { header: 'sku', valor: (p) => p.sku },
+  { header: 'categoria', valor: (p) => p.categoria },
+  { header: 'en_campana', valor: (p) => (p.enCampana === false ? 'no' : undefined) },
+  { header: 'deducciones', valor: (p) => (p.deducciones?.length ? deduccionesATexto(p.deducciones) : undefined) },
+];
+
+function opcionalesPresentes(productos: Producto[]) {
+  return PORTAFOLIO_OPCIONALES.filter((o) => productos.some((p) => o.valor(p) !== undefined));
+}
+
+function headersPortafolio(productos: Producto[]): string[] {
+  return [...PORTAFOLIO_HEADERS, ...opcionalesPresentes(productos).map((o) => o.header)];
+}
+
+/** Header of the swept column for each sensitivity type */
+const SENSIBILIDAD_X: Record<SensitivityType, string> = {
+  IP: 'inversion_publicitaria',
+  TF: 'tarifa_fija',
+  IE: 'ingreso_esperado',
+  Margen: 'margen_bruto',
+};
+
+const SENSIBILIDAD_HEADERS = (tipo: SensitivityType) => [SENSIBILIDAD_X[tipo], 'ip_roas', 'roas_tradicional'];
+
+function filasPortafolio(
+  productos: Producto[],
+  deducciones: Deduccion[] = [],
+  categorias?: string[],
+  conversion?: ConversionExportacion
+): (string | number)[][] {
+  const opcionales = opcionalesPresentes(productos);
+  const { params, excluidos } = conversion
+    ? convertirParametros(
+        { inversionPublicitaria: 0, tarifaFija: 0, ingresoEsperado: 0, productos, moneda: conversion.moneda },
+        conversion.tasas
+      )
+    : { params: { productos }, excluidos: [] as Producto[] };
+  const derivados = portafolioConDerivados(params.productos, deducciones, categorias);
+  let j = 0;
+  return productos.map((p, i) => {
+    // Products without an exchange rate are outside the calculation: no derived values
+    const d = excluidos.includes(p) ? null : derivados[j++];
+    return [
+      p.nombre,
+      p.precio,
+      p.margenBruto,
+      d ? d.margenAbsoluto : '',
+      d?.critico ? 'si' : 'no',
+      ...opcionales.map((o) => o.valor(productos[i]) ?? ''),
+    ];
+  });
+}
+
+function filasSensibilidad(data: SensitivityDataPoint[]): number[][] {
+  return data.map((d) => [d.x, d.ipRoas, d.roasTradicional]);
+}
+
+/**
+ * Portfolio rows; critico follows the net margin when deducciones are given
+ * and is picked among the products selected by enCampana and categorias.
+ * precio and moneda are written as entered; with a conversion, margen_absoluto
+ * and critico are computed in the reporting currency, as the calculator does.
+ */
+export function portafolioCSV(
+  productos: Producto[],
+  deducciones: Deduccion[] = [],
+  categorias?: string[],
+  conversion?: ConversionExportacion
+): string {
+  return escribirCSV(headersPortafolio(productos), filasPortafolio(productos, deducciones, categorias, conversion));
+}
+
+export function sensibilidadCSV(tipo: SensitivityType, data: SensitivityDataPoint[]): string {
+  return escribirCSV(SENSIBILIDAD_HEADERS(tipo), filasSensibilidad(data));
+}
+
+/**
+ * One workbook with a "Portafolio" sheet and one sheet per sensitivity
+ * series. Non-finite values (e.g. IP-ROAS with IP = 0) are left empty.
+ * params are the inputs as entered: the portfolio sheet matches portafolioCSV
+ * and the series are calculated in the reporting currency.
+ */
+export async function exportarXLSX(
+  params: ParametrosCliente,
+  conversion?: ConversionExportacion,
+  numPoints = 50
+): Promise<ArrayBuffer> {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const limpiar = (fila: (string | number)[]) => fila.map((v) => (typeof v === 'number' && !isFinite(v) ? null : v));
+
+  const portafolio = workbook.addWorksheet('Portafolio');
+  portafolio.addRow(headersPortafolio(params.productos));
+  filasPortafolio(params.productos, params.deducciones, params.categorias, conversion).forEach((f) =>
+    portafolio.addRow(limpiar(f))
+  );
+
+  const calculados = conversion
+    ? convertirParametros({ ...params, moneda: conversion.moneda }, conversion.tasas).params
+    : params;
+  for (const config of SENSITIVITY_CONFIGS) {
+    const data = calcularSensibilidad(config.type, calculados, numPoints);
+    if (!data) continue;
+    const sheet = workbook.addWorksheet(`Sensibilidad ${config.type}`);
+    sheet.addRow(SENSIBILIDAD_HEADERS(config.type));
+    filasSensibilidad(data).forEach((f) => sheet.addRow(limpiar(f)));
+  }
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
@@ -0,0 +1,14 @@
+/**
+ * Triggers a browser download for generated content.
+ */
+export function descargarArchivo(contenido: Blob | ArrayBuffer | string, nombre: string, tipo: string): void {
+  const blob = contenido instanceof Blob ? contenido : new Blob([contenido], { type: tipo });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = nombre;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,78 @@
+/**
+ * Number Formatting
+ * =================
+ * Display helpers shared by the calculator UI, charts and exports. Currency
+ * amounts follow the conventions of the currency's main market (es-MX for
+ * MXN, es-CO for COP, ...) so "$1,234.50" and "$ 1.234,50" both read right.
+ */
+
+import type { Moneda } from '@/types/roas';
+
+export const MONEDA_POR_DEFECTO: Moneda = 'USD';
+
+const LOCALE_POR_MONEDA: Record<Moneda, string> = {
+  USD: 'en-US',
+  MXN: 'es-MX',
+  COP: 'es-CO',
+  EUR: 'es-ES',
+  ARS: 'es-AR',
+  CLP: 'es-CL',
+  PEN: 'es-PE',
+  BRL: 'pt-BR',
+};
+
+/** Locale used to format amounts in the given currency */
+export function localeMoneda(moneda: Moneda): string {
+  return LOCALE_POR_MONEDA[moneda] ?? 'es-MX';
+}
+
+/** Intl formatter for the currency, or null when the code is not a known ISO 4217 code */
+function formateador(moneda: Moneda, opciones: Intl.NumberFormatOptions = {}): Intl.NumberFormat | null {
+  try {
+    return new Intl.NumberFormat(localeMoneda(moneda), { style: 'currency', currency: moneda, ...opciones });
+  } catch {
+    return null;
+  }
+}
+
+/** Narrow currency symbol as written by the locale ("$", "€", "R$"), or the code */
+export function simboloMoneda(moneda: Moneda = MONEDA_POR_DEFECTO): string {
+  const parte = formateador(moneda)
+    ?.formatToParts(0)
+    .find((p) => p.type === 'currency');
+  return parte?.value ?? moneda;
+}
+
+export function formatCurrency(n: number, moneda: Moneda = MONEDA_POR_DEFECTO): string {
+  if (!isFinite(n)) return `${simboloMoneda(moneda)}--`;
+  const f = formateador(moneda, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return f ? f.format(n) : `${moneda} ${n.toFixed(2)}`;
+}
+
+export function formatNumber(n: number, decimals = 4): string {
+  if (!isFinite(n)) return '--';
+  return n.toFixed(decimals);
+}
+
+/** Compact axis label: $50K, $1.5M (or "$50 mil" in Spanish locales) */
+export function formatCurrencyTick(value: number, moneda: Moneda = MONEDA_POR_DEFECTO): string {
+  const compacto = new Intl.NumberFormat(localeMoneda(moneda), {
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(value);
+  return `${simboloMoneda(moneda)}${compacto}`;
+}
+
+export function formatXTick(value: number, format: 'currency' | 'percent', moneda?: Moneda): string {
+  if (format === 'percent') {
+    return `${(value * 100).toFixed(0)}%`;
+  }
+  return formatCurrencyTick(value, moneda);
+}
+
+export function formatXTooltip(value: number, format: 'currency' | 'percent', moneda?: Moneda): string {
+  if (format === 'percent') {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+  return formatCurrency(value, moneda);
+}
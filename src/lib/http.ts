@@ -0,0 +1,10 @@
+/**
+ * Small helpers shared by the route handlers under src/app/api.
+ */
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,146 @@
+/**
+ * LLM Provider Configuration
+ * ==========================
+ * Picks the chat provider and its settings from environment variables:
+ *
+ *   LLM_PROVIDER      groq (default) | openai | ollama
+ *   LLM_MODEL         defaults per provider (MODELO_POR_PROVEEDOR)
+ *   LLM_TEMPERATURE   0–2, default 0.7
+ *   LLM_MAX_TOKENS    positive integer, default 1024
+ *   GROQ_API_KEY      required for groq
+ *   OPENAI_BASE_URL   openai: any OpenAI-compatible server, default api.openai.com
+ *   OPENAI_API_KEY    openai: required unless OPENAI_BASE_URL points elsewhere
+ *   OLLAMA_BASE_URL   ollama: default http://localhost:11434/v1
+ *
+ * Missing credentials and bad values are collected per variable, so the
+ * route and the startup check can say exactly what to set.
+ */
+
+import Groq from 'groq-sdk';
+import type { LLMClient } from './llm';
+import { GroqLLMClient, MODELO_GROQ } from './llm-groq';
+import { OpenAICompatibleLLMClient } from './llm-openai';
+import type { ValidationError, ValidationResult } from './validation';
+
+export type ProveedorLLM = 'groq' | 'openai' | 'ollama';
+
+export const PROVEEDORES_LLM: ProveedorLLM[] = ['groq', 'openai', 'ollama'];
+
+export const MODELO_POR_PROVEEDOR: Record<ProveedorLLM, string> = {
+  groq: MODELO_GROQ,
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+};
+
+export const TEMPERATURA_POR_DEFECTO = 0.7;
+export const MAX_TOKENS_POR_DEFECTO = 1024;
+export const URL_OPENAI = 'https://api.openai.com/v1';
+export const URL_OLLAMA = 'http://localhost:11434/v1';
+
+export interface ConfigLLM {
+  proveedor: ProveedorLLM;
+  modelo: string;
+  temperatura: number;
+  maxTokens: number;
+  baseUrl?: string; // openai and ollama
+  apiKey?: string;
+}
+
+type Entorno = Record<string, string | undefined>;
+
+/** Unset and blank variables both count as missing */
+function leer(env: Entorno, nombre: string): string | undefined {
+  const valor = env[nombre]?.trim();
+  return valor ? valor : undefined;
+}
+
+function leerNumero(
+  env: Entorno,
+  nombre: string,
+  porDefecto: number,
+  esValido: (n: number) => boolean,
+  mensaje: string,
+  errors: ValidationError[]
+): number {
+  const texto = leer(env, nombre);
+  if (texto === undefined) return porDefecto;
+  const n = Number(texto);
+  if (!esValido(n)) errors.push({ campo: nombre, mensaje });
+  return n;
+}
+
+function leerUrl(env: Entorno, nombre: string, porDefecto: string, errors: ValidationError[]): string {
+  const texto = leer(env, nombre) ?? porDefecto;
+  try {
+    const url = new URL(texto);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+  } catch {
+    errors.push({ campo: nombre, mensaje: `"${texto}" no es una URL http(s) válida` });
+  }
+  return texto;
+}
+
+export function leerConfigLLM(env: Entorno = process.env): ValidationResult<ConfigLLM> {
+  const errors: ValidationError[] = [];
+  const proveedor = (leer(env, 'LLM_PROVIDER')?.toLowerCase() ?? 'groq') as ProveedorLLM;
+  if (!PROVEEDORES_LLM.includes(proveedor)) {
+    return {
+      ok: false,
+      errors: [{ campo: 'LLM_PROVIDER', mensaje: `Debe ser uno de: ${PROVEEDORES_LLM.join(', ')}` }],
+    };
+  }
+
+  const config: ConfigLLM = {
+    proveedor,
+    modelo: leer(env, 'LLM_MODEL') ?? MODELO_POR_PROVEEDOR[proveedor],
+    temperatura: leerNumero(
+      env,
+      'LLM_TEMPERATURE',
+      TEMPERATURA_POR_DEFECTO,
+      (n) => Number.isFinite(n) && n >= 0 && n <= 2,
+      'Debe ser un número entre 0 y 2',
+      errors
+    ),
+    maxTokens: leerNumero(
+      env,
+      'LLM_MAX_TOKENS',
+      MAX_TOKENS_POR_DEFECTO,
+      (n) => Number.isInteger(n) && n > 0,
+      'Debe ser un entero positivo',
+      errors
+    ),
+  };
+
+  if (proveedor === 'groq') {
+    config.apiKey = leer(env, 'GROQ_API_KEY');
+    if (!config.apiKey) errors.push({ campo: 'GROQ_API_KEY', mensaje: 'Falta la clave de API de Groq' });
+  } else if (proveedor === 'openai') {
+    config.baseUrl = leerUrl(env, 'OPENAI_BASE_URL', URL_OPENAI, errors);
+    config.apiKey = leer(env, 'OPENAI_API_KEY');
+    // Self-hosted servers often run without authentication; api.openai.com never does
+    if (!config.apiKey && leer(env, 'OPENAI_BASE_URL') === undefined) {
+      errors.push({
+        campo: 'OPENAI_API_KEY',
+        mensaje: 'Falta la clave de API de OpenAI (o define OPENAI_BASE_URL para un servidor propio)',
+      });
+    }
+  } else {
+    config.baseUrl = leerUrl(env, 'OLLAMA_BASE_URL', URL_OLLAMA, errors);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: config };
+}
+
+/** One-line Spanish description of a configuration problem, for logs and the chat */
+export function describirErroresConfig(errors: ValidationError[]): string {
+  return `El asistente no está configurado: ${errors.map((e) => `${e.campo}: ${e.mensaje}`).join('; ')}`;
+}
+
+export function crearClienteLLM(config: ConfigLLM): LLMClient {
+  const { modelo, temperatura, maxTokens } = config;
+  if (config.proveedor === 'groq') {
+    return new GroqLLMClient(new Groq({ apiKey: config.apiKey }), { modelo, temperatura, maxTokens });
+  }
+  return new OpenAICompatibleLLMClient({ baseUrl: config.baseUrl!, apiKey: config.apiKey, modelo, temperatura, maxTokens });
+}
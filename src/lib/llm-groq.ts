@@ -0,0 +1,37 @@
+/**
+ * Groq LLM Client
+ * ===============
+ * LLMClient over groq-sdk's streaming chat completions with tool calling.
+ */
+
+import type Groq from 'groq-sdk';
+import type { ChatCompletionMessageParam } from 'groq-sdk/resources/chat/completions';
+import type { EventoLLM, LLMClient, OpcionesGeneracion, PeticionLLM } from './llm';
+import { eventosDesdeFragmentos, mensajeOpenAI } from './llm-openai';
+
+export const MODELO_GROQ = 'llama-3.3-70b-versatile';
+
+export class GroqLLMClient implements LLMClient {
+  constructor(
+    private readonly groq: Groq,
+    private readonly opciones: OpcionesGeneracion
+  ) {}
+
+  async *responder({ mensajes, herramientas }: PeticionLLM): AsyncIterable<EventoLLM> {
+    const stream = await this.groq.chat.completions.create({
+      model: this.opciones.modelo,
+      // Groq speaks the OpenAI message format
+      messages: mensajes.map(mensajeOpenAI) as ChatCompletionMessageParam[],
+      ...(herramientas.length > 0 && {
+        tools: herramientas.map((h) => ({
+          type: 'function',
+          function: { name: h.nombre, description: h.descripcion, parameters: h.parametros },
+        })),
+      }),
+      stream: true,
+      temperature: this.opciones.temperatura,
+      max_tokens: this.opciones.maxTokens,
+    });
+    yield* eventosDesdeFragmentos(stream);
+  }
+}
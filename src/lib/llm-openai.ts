@@ -0,0 +1,114 @@
+/**
+ * OpenAI-Compatible LLM Client
+ * ============================
+ * LLMClient over any server speaking the OpenAI chat completions API with
+ * streaming (OpenAI itself, vLLM, LM Studio, Ollama's /v1 endpoint...).
+ * Uses fetch directly so self-hosted servers need no extra SDK.
+ */
+
+import type { EventoLLM, LLMClient, LlamadaHerramienta, MensajeLLM, OpcionesGeneracion, PeticionLLM } from './llm';
+
+export interface OpcionesOpenAI extends OpcionesGeneracion {
+  baseUrl: string; // Up to and including /v1
+  apiKey?: string; // Omitted for servers without authentication
+}
+
+/** The part of a streamed chunk the clients read; Groq's chunks share it */
+export interface FragmentoOpenAI {
+  choices: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+}
+
+export function mensajeOpenAI(m: MensajeLLM) {
+  if (m.role === 'tool') return { role: 'tool' as const, content: m.content, tool_call_id: m.llamadaId };
+  if (m.role === 'assistant' && m.llamadas?.length) {
+    return {
+      role: 'assistant' as const,
+      content: m.content || null,
+      tool_calls: m.llamadas.map((l) => ({
+        id: l.id,
+        type: 'function' as const,
+        function: { name: l.nombre, arguments: l.argumentos },
+      })),
+    };
+  }
+  return { role: m.role, content: m.content };
+}
+
+/** Streams text as it arrives; tool calls arrive in fragments keyed by index and are emitted at the end */
+export async function* eventosDesdeFragmentos(fragmentos: AsyncIterable<FragmentoOpenAI>): AsyncIterable<EventoLLM> {
+  const llamadas: LlamadaHerramienta[] = [];
+  for await (const chunk of fragmentos) {
+    const delta = chunk.choices[0]?.delta;
+    if (delta?.content) yield { tipo: 'texto', texto: delta.content };
+    for (const fragmento of delta?.tool_calls ?? []) {
+      const llamada = (llamadas[fragmento.index] ??= { id: '', nombre: '', argumentos: '' });
+      if (fragmento.id) llamada.id = fragmento.id;
+      if (fragmento.function?.name) llamada.nombre += fragmento.function.name;
+      if (fragmento.function?.arguments) llamada.argumentos += fragmento.function.arguments;
+    }
+  }
+  for (const llamada of llamadas) {
+    if (llamada) yield { tipo: 'herramienta', llamada };
+  }
+}
+
+/** Parses a server-sent event stream into the JSON payload of each data line */
+async function* fragmentosSSE(cuerpo: ReadableStream<Uint8Array>): AsyncIterable<FragmentoOpenAI> {
+  const reader = cuerpo.getReader();
+  const decoder = new TextDecoder();
+  let pendiente = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pendiente += decoder.decode(value, { stream: true });
+    const lineas = pendiente.split('\n');
+    pendiente = lineas.pop() ?? '';
+    for (const linea of lineas) {
+      const data = linea.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') return;
+      yield JSON.parse(payload) as FragmentoOpenAI;
+    }
+  }
+}
+
+export class OpenAICompatibleLLMClient implements LLMClient {
+  constructor(
+    private readonly opciones: OpcionesOpenAI,
+    private readonly fetchFn: typeof fetch = fetch
+  ) {}
+
+  async *responder({ mensajes, herramientas }: PeticionLLM): AsyncIterable<EventoLLM> {
+    const { baseUrl, apiKey, modelo, temperatura, maxTokens } = this.opciones;
+    const response = await this.fetchFn(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: modelo,
+        messages: mensajes.map(mensajeOpenAI),
+        ...(herramientas.length > 0 && {
+          tools: herramientas.map((h) => ({
+            type: 'function',
+            function: { name: h.nombre, description: h.descripcion, parameters: h.parametros },
+          })),
+        }),
+        stream: true,
+        temperature: temperatura,
+        max_tokens: maxTokens,
+      }),
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`El proveedor respondió ${response.status} ${response.statusText}`.trim());
+    }
+    yield* eventosDesdeFragmentos(fragmentosSSE(response.body));
+  }
+}
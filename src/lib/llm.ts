@@ -0,0 +1,69 @@
+/**
+ * LLM Client
+ * ==========
+ * Provider-neutral chat interface used by the assistant route, plus a
+ * scripted client that replays canned turns so the tool loop can be tested
+ * without network access.
+ */
+
+/** A tool the model may call; parametros is a JSON Schema object */
+export interface HerramientaLLM {
+  nombre: string;
+  descripcion: string;
+  parametros: Record<string, unknown>;
+}
+
+export interface LlamadaHerramienta {
+  id: string;
+  nombre: string;
+  argumentos: string; // Raw JSON as produced by the model; may be invalid
+}
+
+export type MensajeLLM =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; llamadas?: LlamadaHerramienta[] }
+  | { role: 'tool'; content: string; llamadaId: string };
+
+export interface PeticionLLM {
+  mensajes: MensajeLLM[];
+  herramientas: HerramientaLLM[];
+}
+
+/** Text is streamed as it arrives; tool calls come once complete */
+export type EventoLLM = { tipo: 'texto'; texto: string } | { tipo: 'herramienta'; llamada: LlamadaHerramienta };
+
+/** Sampling settings every provider takes from configuration */
+export interface OpcionesGeneracion {
+  modelo: string;
+  temperatura: number;
+  maxTokens: number;
+}
+
+export interface LLMClient {
+  /** Streams one assistant turn */
+  responder(peticion: PeticionLLM): AsyncIterable<EventoLLM>;
+}
+
+/** One canned assistant turn: text chunks and tool calls to emit */
+export interface TurnoGuionado {
+  texto?: string[];
+  llamadas?: LlamadaHerramienta[];
+}
+
+/**
+ * Replays the given turns in order and records every request it receives.
+ * Running past the script throws, so a test notices an unexpected extra turn.
+ */
+export class ScriptedLLMClient implements LLMClient {
+  readonly peticiones: PeticionLLM[] = [];
+
+  constructor(private readonly turnos: TurnoGuionado[]) {}
+
+  async *responder(peticion: PeticionLLM): AsyncIterable<EventoLLM> {
+    const turno = this.turnos[this.peticiones.length];
+    this.peticiones.push({ ...peticion, mensajes: [...peticion.mensajes] });
+    if (!turno) throw new Error(`Sin turno guionado para la petición ${this.peticiones.length}`);
+    for (const texto of turno.texto ?? []) yield { tipo: 'texto', texto };
+    for (const llamada of turno.llamadas ?? []) yield { tipo: 'herramienta', llamada };
+  }
+}
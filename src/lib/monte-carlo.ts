@@ -0,0 +1,327 @@
+/**
+ * Monte Carlo Risk Simulation
+ * ===========================
+ * Samples IP, TF, IE and price/margin factors from user-given distributions
+ * and runs every draw through calcularTodo, summarising IP-ROAS, VUM and
+ * CPR as percentiles and histograms. The generator is seeded, so the same
+ * configuration always gives the same result. Runs inside a Web Worker in
+ * the UI (monte-carlo.worker.ts); everything here is plain and synchronous.
+ */
+
+import type { Distribucion, ParametrosCliente, ResultadosIPROAS } from '@/types/roas';
+import { calcularTodo, productosSeleccionados } from './roas-engine';
+import type { ValidationError, ValidationResult } from './validation';
+
+export type VariableSimulacion = 'IP' | 'TF' | 'IE' | 'precio' | 'margen';
+
+/** Price and margin are factors on every product (1 = as entered) */
+export const VARIABLES_SIMULACION: { variable: VariableSimulacion; label: string; factor: boolean }[] = [
+  { variable: 'IP', label: 'Inversión Publicitaria', factor: false },
+  { variable: 'TF', label: 'Tarifa Fija', factor: false },
+  { variable: 'IE', label: 'Ingreso Esperado', factor: false },
+  { variable: 'precio', label: 'Precio (× actual)', factor: true },
+  { variable: 'margen', label: 'Margen bruto (× actual)', factor: true },
+];
+
+export const TIPOS_DISTRIBUCION: { value: Distribucion['tipo']; label: string }[] = [
+  { value: 'fijo', label: 'Fijo' },
+  { value: 'uniforme', label: 'Uniforme' },
+  { value: 'triangular', label: 'Triangular' },
+  { value: 'normal', label: 'Normal' },
+];
+
+export type MetricaSimulacion = 'ipRoas' | 'vum' | 'cprEstimado';
+
+export const METRICAS_SIMULACION: { metrica: MetricaSimulacion; label: string }[] = [
+  { metrica: 'ipRoas', label: 'IP-ROAS' },
+  { metrica: 'vum', label: 'VUM' },
+  { metrica: 'cprEstimado', label: 'CPR Estimado' },
+];
+
+export const PERCENTILES = [5, 10, 25, 50, 75, 90, 95];
+export const ITERACIONES_DEFECTO = 5000;
+export const ITERACIONES_MAX = 50000;
+export const CLASES_HISTOGRAMA = 20;
+
+export interface ConfigSimulacion {
+  iteraciones: number;
+  semilla: number;
+  distribuciones: Record<VariableSimulacion, Distribucion>;
+}
+
+export interface ClaseHistograma {
+  desde: number;
+  hasta: number;
+  conteo: number;
+}
+
+export interface ResumenMetrica {
+  media: number;
+  percentiles: Record<number, number>;
+  histograma: ClaseHistograma[];
+  /** Share of valid draws at or below the deterministic (base) value */
+  probHastaBase: number;
+  /** Draws left out: infinite values, or VUM/CPR when the margin is not positive */
+  descartadas: number;
+}
+
+export interface ResultadoSimulacion {
+  iteraciones: number;
+  base: ResultadosIPROAS;
+  metricas: Record<MetricaSimulacion, ResumenMetrica | null>; // null when every draw was discarded
+}
+
+// ============================================================================
+// RANDOM SAMPLING
+// ============================================================================
+
+/** mulberry32: small, fast, seedable PRNG returning values in [0, 1) */
+export function crearGenerador(semilla: number): () => number {
+  let a = semilla >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** One draw from the distribution (inverse CDF for triangular, Box-Muller for normal) */
+export function muestrear(dist: Distribucion, rand: () => number): number {
+  switch (dist.tipo) {
+    case 'fijo':
+      return dist.valor;
+    case 'uniforme':
+      return dist.min + (dist.max - dist.min) * rand();
+    case 'triangular': {
+      const { min, moda, max } = dist;
+      if (max === min) return min;
+      const u = rand();
+      const c = (moda - min) / (max - min);
+      return u < c
+        ? min + Math.sqrt(u * (max - min) * (moda - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - moda));
+    }
+    case 'normal': {
+      const u1 = 1 - rand(); // (0, 1], keeps log finite
+      const u2 = rand();
+      return dist.media + dist.desviacion * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    }
+  }
+}
+
+/** Central value of a distribution: where a fixed input would sit */
+export function centroDistribucion(dist: Distribucion): number {
+  switch (dist.tipo) {
+    case 'fijo':
+      return dist.valor;
+    case 'uniforme':
+      return (dist.min + dist.max) / 2;
+    case 'triangular':
+      return dist.moda;
+    case 'normal':
+      return dist.media;
+  }
+}
+
+/** Switches type keeping the centre, with ±20% (or 10% std) as a starting spread */
+export function convertirDistribucion(dist: Distribucion, tipo: Distribucion['tipo']): Distribucion {
+  const c = centroDistribucion(dist);
+  const d = Math.abs(c) * 0.2;
+  switch (tipo) {
+    case 'fijo':
+      return { tipo, valor: c };
+    case 'uniforme':
+      return { tipo, min: c - d, max: c + d };
+    case 'triangular':
+      return { tipo, min: c - d, moda: c, max: c + d };
+    case 'normal':
+      return { tipo, media: c, desviacion: d / 2 };
+  }
+}
+
+/** Every input fixed at its current value; the simulation then reproduces calcularTodo */
+export function distribucionesPorDefecto(params: ParametrosCliente): Record<VariableSimulacion, Distribucion> {
+  return {
+    IP: { tipo: 'fijo', valor: params.inversionPublicitaria },
+    TF: { tipo: 'fijo', valor: params.tarifaFija },
+    IE: { tipo: 'fijo', valor: params.ingresoEsperado },
+    precio: { tipo: 'fijo', valor: 1 },
+    margen: { tipo: 'fijo', valor: 1 },
+  };
+}
+
+/** Calculator inputs behind IP, TF and IE */
+const ENTRADAS: Record<'IP' | 'TF' | 'IE', 'inversionPublicitaria' | 'tarifaFija' | 'ingresoEsperado'> = {
+  IP: 'inversionPublicitaria',
+  TF: 'tarifaFija',
+  IE: 'ingresoEsperado',
+};
+
+/** True for the IP, TF and IE inputs, whose fixed value follows the calculator */
+export function esEntradaCalculadora(variable: VariableSimulacion): variable is keyof typeof ENTRADAS {
+  return variable in ENTRADAS;
+}
+
+/**
+ * The config with fixed IP, TF and IE set to the current inputs, so edits in
+ * the calculator still reach a simulation whose other settings were changed.
+ */
+export function conEntradasActuales(config: ConfigSimulacion, params: ParametrosCliente): ConfigSimulacion {
+  const distribuciones = { ...config.distribuciones };
+  for (const variable of VARIABLES_SIMULACION.map((v) => v.variable)) {
+    if (esEntradaCalculadora(variable) && distribuciones[variable].tipo === 'fijo') {
+      distribuciones[variable] = { tipo: 'fijo', valor: params[ENTRADAS[variable]] };
+    }
+  }
+  return { ...config, distribuciones };
+}
+
+// ============================================================================
+// SUMMARY STATISTICS
+// ============================================================================
+
+/** Linear-interpolated percentile (0-100) of an ascending array */
+export function percentil(ordenados: number[], p: number): number {
+  if (ordenados.length === 0) return NaN;
+  const pos = (p / 100) * (ordenados.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return ordenados[lo] + (ordenados[hi] - ordenados[lo]) * (pos - lo);
+}
+
+/** Equal-width classes over [min, max]; the last class includes max */
+export function histograma(ordenados: number[], clases = CLASES_HISTOGRAMA): ClaseHistograma[] {
+  if (ordenados.length === 0) return [];
+  const min = ordenados[0];
+  const max = ordenados[ordenados.length - 1];
+  if (min === max) return [{ desde: min, hasta: max, conteo: ordenados.length }];
+  const ancho = (max - min) / clases;
+  const resultado = Array.from({ length: clases }, (_, i) => ({
+    desde: min + ancho * i,
+    hasta: i === clases - 1 ? max : min + ancho * (i + 1),
+    conteo: 0,
+  }));
+  for (const v of ordenados) {
+    resultado[Math.min(clases - 1, Math.floor((v - min) / ancho))].conteo++;
+  }
+  return resultado;
+}
+
+function resumir(valores: number[], base: number, iteraciones: number): ResumenMetrica | null {
+  if (valores.length === 0) return null;
+  const lista = [...valores].sort((a, b) => a - b);
+  return {
+    media: lista.reduce((acc, v) => acc + v, 0) / lista.length,
+    percentiles: Object.fromEntries(PERCENTILES.map((p) => [p, percentil(lista, p)])),
+    histograma: histograma(lista),
+    probHastaBase: lista.filter((v) => v <= base).length / lista.length,
+    descartadas: iteraciones - lista.length,
+  };
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Runs the simulation. Draws are taken in a fixed order (IP, TF, IE, precio,
+ * margen) per iteration; negative draws are floored at 0 and the margin at
+ * 100%. Returns null without selected products, like calcularSensibilidad.
+ */
+export function simular(params: ParametrosCliente, config: ConfigSimulacion): ResultadoSimulacion | null {
+  if (productosSeleccionados(params).length === 0) return null;
+  const rand = crearGenerador(config.semilla);
+  const d = config.distribuciones;
+  const valores: Record<MetricaSimulacion, number[]> = { ipRoas: [], vum: [], cprEstimado: [] };
+
+  for (let i = 0; i < config.iteraciones; i++) {
+    const IP = Math.max(0, muestrear(d.IP, rand));
+    const TF = Math.max(0, muestrear(d.TF, rand));
+    const IE = Math.max(0, muestrear(d.IE, rand));
+    const fPrecio = Math.max(0, muestrear(d.precio, rand));
+    const fMargen = Math.max(0, muestrear(d.margen, rand));
+    const r = calcularTodo({
+      ...params,
+      inversionPublicitaria: IP,
+      tarifaFija: TF,
+      ingresoEsperado: IE,
+      productos: params.productos.map((p) => ({
+        ...p,
+        precio: p.precio * fPrecio,
+        margenBruto: Math.min(1, p.margenBruto * fMargen),
+      })),
+    });
+
+    if (isFinite(r.ipRoas)) valores.ipRoas.push(r.ipRoas);
+    // Without a positive margin there is no break-even: VUM 0 would read as "nothing to sell"
+    if (r.margenMinimoUsado > 0) {
+      valores.vum.push(r.vum);
+      if (isFinite(r.cprEstimado)) valores.cprEstimado.push(r.cprEstimado);
+    }
+  }
+
+  const base = calcularTodo(params);
+  return {
+    iteraciones: config.iteraciones,
+    base,
+    metricas: {
+      ipRoas: resumir(valores.ipRoas, base.ipRoas, config.iteraciones),
+      vum: resumir(valores.vum, base.vum, config.iteraciones),
+      cprEstimado: resumir(valores.cprEstimado, base.cprEstimado, config.iteraciones),
+    },
+  };
+}
+
+// ============================================================================
+// VALIDATION AND WORKER PROTOCOL
+// ============================================================================
+
+function checkDistribucion(dist: Distribucion, campo: string, errors: ValidationError[]): void {
+  const numeros = Object.entries(dist).filter(([k]) => k !== 'tipo');
+  if (numeros.some(([, v]) => typeof v !== 'number' || !isFinite(v))) {
+    errors.push({ campo, mensaje: 'Todos los valores deben ser números finitos' });
+    return;
+  }
+  if (dist.tipo === 'uniforme' && dist.min > dist.max) {
+    errors.push({ campo, mensaje: 'El mínimo no puede superar al máximo' });
+  } else if (dist.tipo === 'triangular' && !(dist.min <= dist.moda && dist.moda <= dist.max)) {
+    errors.push({ campo, mensaje: 'Debe cumplirse mínimo ≤ moda ≤ máximo' });
+  } else if (dist.tipo === 'normal' && dist.desviacion < 0) {
+    errors.push({ campo, mensaje: 'La desviación no puede ser negativa' });
+  }
+}
+
+/** Checks the configuration before a run; errors are addressed as distribuciones.IP, iteraciones, ... */
+export function validarConfigSimulacion(config: ConfigSimulacion): ValidationResult<ConfigSimulacion> {
+  const errors: ValidationError[] = [];
+  if (!Number.isInteger(config.iteraciones) || config.iteraciones < 1 || config.iteraciones > ITERACIONES_MAX) {
+    errors.push({ campo: 'iteraciones', mensaje: `Debe ser un entero entre 1 y ${ITERACIONES_MAX}` });
+  }
+  if (!Number.isInteger(config.semilla)) {
+    errors.push({ campo: 'semilla', mensaje: 'Debe ser un número entero' });
+  }
+  for (const { variable } of VARIABLES_SIMULACION) {
+    checkDistribucion(config.distribuciones[variable], `distribuciones.${variable}`, errors);
+  }
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: config };
+}
+
+/** Message posted to the worker; id lets the UI drop answers to superseded runs */
+export interface SolicitudSimulacion {
+  id: number;
+  params: ParametrosCliente;
+  config: ConfigSimulacion;
+}
+
+export type RespuestaSimulacion =
+  | { id: number; ok: true; resultado: ResultadoSimulacion | null }
+  | { id: number; ok: false; errores: ValidationError[] };
+
+/** Worker entry point, also used inline where Web Workers are unavailable */
+export function atenderSolicitud({ id, params, config }: SolicitudSimulacion): RespuestaSimulacion {
+  const validation = validarConfigSimulacion(config);
+  if (!validation.ok) return { id, ok: false, errores: validation.errors };
+  return { id, ok: true, resultado: simular(params, config) };
+}
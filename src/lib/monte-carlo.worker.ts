@@ -0,0 +1,10 @@
+/**
+ * Web Worker wrapper around the Monte Carlo simulation, so long runs do not
+ * block the UI thread. Loaded with new Worker(new URL(...)) from the risk tab.
+ */
+
+import { atenderSolicitud, type SolicitudSimulacion } from './monte-carlo';
+
+self.onmessage = (event: MessageEvent<SolicitudSimulacion>) => {
+  self.postMessage(atenderSolicitud(event.data));
+};
@@ -0,0 +1,118 @@
+/**
+ * Monthly Campaign Planner
+ * ========================
+ * Splits a contract into months, each with its own IP, TF and IE, and
+ * evaluates every month and the running totals with the engine's own
+ * calcularIpRoas / calcularVum / calcularCprEstimado. The product side
+ * (margin mode, deductions, currency) is shared by all months.
+ */
+
+import type { MesPlan, ParametrosCliente } from '@/types/roas';
+import { calcularCprEstimado, calcularIpRoas, calcularVum, costosTotales } from './roas-engine';
+
+export const MESES_PLAN_MIN = 1;
+export const MESES_PLAN_MAX = 24;
+export const MESES_PLAN_DEFECTO = 6;
+
+const MES_VACIO: MesPlan = { inversionPublicitaria: 0, tarifaFija: 0, ingresoEsperado: 0 };
+
+export type CampoMes = keyof MesPlan;
+
+export const CAMPOS_MES: { campo: CampoMes; label: string }[] = [
+  { campo: 'inversionPublicitaria', label: 'IP' },
+  { campo: 'tarifaFija', label: 'TF' },
+  { campo: 'ingresoEsperado', label: 'IE' },
+];
+
+export interface MetricasMes {
+  ipRoas: number;
+  vum: number;
+  cprEstimado: number;
+  costosTotales: number;
+}
+
+export interface FilaPlan {
+  mes: number; // 1-based
+  entrada: MesPlan;
+  mensual: MetricasMes;
+  /** Running totals up to and including this month; vum is the cumulative break-even */
+  acumulado: MesPlan & MetricasMes;
+}
+
+function limitarMeses(meses: number): number {
+  return Math.min(MESES_PLAN_MAX, Math.max(MESES_PLAN_MIN, Math.round(meses)));
+}
+
+/** Even split of the sidebar totals over the contract months */
+export function repartirPlan(params: ParametrosCliente, meses: number): MesPlan[] {
+  const n = limitarMeses(meses);
+  const mes: MesPlan = {
+    inversionPublicitaria: params.inversionPublicitaria / n,
+    tarifaFija: params.tarifaFija / n,
+    ingresoEsperado: params.ingresoEsperado / n,
+  };
+  return Array.from({ length: n }, () => ({ ...mes }));
+}
+
+/** Shortens the plan or extends it by repeating the last month */
+export function redimensionarPlan(plan: MesPlan[], meses: number): MesPlan[] {
+  const n = limitarMeses(meses);
+  const ultimo = plan[plan.length - 1] ?? MES_VACIO;
+  return Array.from({ length: n }, (_, i) => ({ ...(plan[i] ?? ultimo) }));
+}
+
+/** Copies month `desde` (0-based) into every later month */
+export function copiarHaciaAdelante(plan: MesPlan[], desde: number): MesPlan[] {
+  const origen = plan[desde];
+  if (!origen) return plan;
+  return plan.map((m, i) => (i > desde ? { ...origen } : m));
+}
+
+/**
+ * Compounds one field month over month from `desde` (0-based): every later
+ * month is the previous one times (1 + pct). pct = 0.2 ramps up 20% a month;
+ * negative values ramp down, floored at zero.
+ */
+export function aplicarRampa(plan: MesPlan[], campo: CampoMes, pct: number, desde = 0): MesPlan[] {
+  const resultado = plan.map((m) => ({ ...m }));
+  for (let i = desde + 1; i < resultado.length; i++) {
+    resultado[i][campo] = Math.max(0, resultado[i - 1][campo] * (1 + pct));
+  }
+  return resultado;
+}
+
+/** Plan totals, comparable with the sidebar IP/TF/IE */
+export function totalesPlan(plan: MesPlan[]): MesPlan {
+  return plan.reduce(
+    (acc, m) => ({
+      inversionPublicitaria: acc.inversionPublicitaria + m.inversionPublicitaria,
+      tarifaFija: acc.tarifaFija + m.tarifaFija,
+      ingresoEsperado: acc.ingresoEsperado + m.ingresoEsperado,
+    }),
+    MES_VACIO
+  );
+}
+
+function metricas(params: ParametrosCliente, mes: MesPlan): MetricasMes {
+  const conMes: ParametrosCliente = { ...params, ...mes };
+  const vum = calcularVum(conMes);
+  return {
+    ipRoas: calcularIpRoas(mes.inversionPublicitaria, mes.tarifaFija, mes.ingresoEsperado),
+    vum,
+    cprEstimado: calcularCprEstimado(mes.inversionPublicitaria, vum),
+    costosTotales: costosTotales(conMes),
+  };
+}
+
+/** Per-month and cumulative metrics for the plan */
+export function calcularPlan(params: ParametrosCliente, plan: MesPlan[]): FilaPlan[] {
+  return plan.map((entrada, i) => {
+    const acumulado = totalesPlan(plan.slice(0, i + 1));
+    return {
+      mes: i + 1,
+      entrada,
+      mensual: metricas(params, entrada),
+      acumulado: { ...acumulado, ...metricas(params, acumulado) },
+    };
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Portfolio Editing
+ * =================
+ * Pure helpers behind the product table: undo/redo history, duplicate-name
+ * detection, reordering and the VUM each product would need on its own.
+ */
+
+import type { ParametrosCliente, Producto } from '@/types/roas';
+import { calcularVum, margenNeto, productosConDeducciones } from './roas-engine';
+
+// ============================================================================
+// UNDO / REDO
+// ============================================================================
+
+/** Older states beyond this are dropped */
+export const HISTORIAL_MAX = 50;
+
+export interface Historial<T> {
+  pasado: T[]; // Oldest first
+  presente: T;
+  futuro: T[]; // Next redo first
+}
+
+export function crearHistorial<T>(presente: T): Historial<T> {
+  return { pasado: [], presente, futuro: [] };
+}
+
+/** Makes valor the present state; clears the redo stack. Same reference = no-op */
+export function registrar<T>(historial: Historial<T>, valor: T): Historial<T> {
+  if (valor === historial.presente) return historial;
+  return {
+    pasado: [...historial.pasado, historial.presente].slice(-HISTORIAL_MAX),
+    presente: valor,
+    futuro: [],
+  };
+}
+
+export function deshacer<T>(historial: Historial<T>): Historial<T> {
+  if (historial.pasado.length === 0) return historial;
+  return {
+    pasado: historial.pasado.slice(0, -1),
+    presente: historial.pasado[historial.pasado.length - 1],
+    futuro: [historial.presente, ...historial.futuro],
+  };
+}
+
+export function rehacer<T>(historial: Historial<T>): Historial<T> {
+  if (historial.futuro.length === 0) return historial;
+  return {
+    pasado: [...historial.pasado, historial.presente],
+    presente: historial.futuro[0],
+    futuro: historial.futuro.slice(1),
+  };
+}
+
+// ============================================================================
+// DUPLICATES AND ORDER
+// ============================================================================
+
+/** Case, accent and spacing-insensitive key: "  Café  Molido" and "cafe molido" collide */
+export function normalizarNombre(nombre: string): string {
+  return nombre
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .toLowerCase();
+}
+
+/** Per product, whether another product shares its normalized name */
+export function nombresDuplicados(productos: Producto[]): boolean[] {
+  const conteo = new Map<string, number>();
+  const claves = productos.map((p) => normalizarNombre(p.nombre));
+  claves.forEach((k) => conteo.set(k, (conteo.get(k) ?? 0) + 1));
+  return claves.map((k) => (conteo.get(k) ?? 0) > 1);
+}
+
+/** Whether nombre clashes with a product other than the one at excepto (the row being edited) */
+export function esNombreDuplicado(nombre: string, productos: Producto[], excepto = -1): boolean {
+  const clave = normalizarNombre(nombre);
+  return clave !== '' && productos.some((p, i) => i !== excepto && normalizarNombre(p.nombre) === clave);
+}
+
+/** Moves the product at desde to position hacia; out-of-range moves return the same list */
+export function moverProducto(productos: Producto[], desde: number, hacia: number): Producto[] {
+  if (desde === hacia || desde < 0 || hacia < 0 || desde >= productos.length || hacia >= productos.length) {
+    return productos;
+  }
+  const resultado = [...productos];
+  const [producto] = resultado.splice(desde, 1);
+  resultado.splice(hacia, 0, producto);
+  return resultado;
+}
+
+// ============================================================================
+// PER-PRODUCT IMPACT
+// ============================================================================
+
+/**
+ * VUM if this product were the only one sold, with its own and the global
+ * deductions. Comparing it with the critical product's shows how far each
+ * product is from becoming the binding one. 0 without a positive net margin.
+ */
+export function vumSiSoloSeVende(params: ParametrosCliente, producto: Producto): number {
+  const [neto] = productosConDeducciones([producto], params.deducciones);
+  return calcularVum(params, margenNeto(neto));
+}
@@ -0,0 +1,297 @@
+/**
+ * Proposal PDF
+ * ============
+ * Renders a PropuestaData as a branded A4 PDF. Everything is drawn from the
+ * engine data (text, tables, vector charts), never from a screenshot.
+ */
+
+import type { jsPDF as JsPDF } from 'jspdf';
+import type { Moneda, SensitivityConfig, SensitivityDataPoint } from '@/types/roas';
+import type { PropuestaData, TarjetaMetrica } from './proposal';
+import { formatCurrency, formatNumber, formatXTick } from './format';
+import { margenAbsoluto, margenNeto } from './roas-engine';
+
+type RGB = [number, number, number];
+
+const BRAND: RGB = [91, 33, 182];
+const TEXT: RGB = [30, 30, 46];
+const MUTED: RGB = [100, 116, 139];
+const GRID: RGB = [226, 232, 240];
+const IP_ROAS: RGB = [167, 139, 250];
+const ROAS_TRAD: RGB = [249, 115, 22];
+
+const CARD_COLORS: Record<TarjetaMetrica['color'], RGB> = {
+  purple: [167, 139, 250],
+  green: [16, 185, 129],
+  orange: [249, 115, 22],
+  cyan: [6, 182, 212],
+};
+
+const PAGE_W = 210;
+const PAGE_H = 297;
+const MARGIN = 15;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+
+function formatFecha(fecha: Date): string {
+  return fecha.toLocaleDateString('es-MX', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+function sectionTitle(doc: JsPDF, text: string, y: number): number {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(...BRAND);
+  doc.text(text, MARGIN, y);
+  return y + 6;
+}
+
+function drawHeader(doc: JsPDF, data: PropuestaData): number {
+  doc.setFillColor(...BRAND);
+  doc.rect(0, 0, PAGE_W, 32, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text('Propuesta IP-ROAS', MARGIN, 15);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text('SaleADS.ai - Metodología IP-ROAS v1.3', MARGIN, 22);
+  const right = [data.cliente, formatFecha(data.fecha)].filter(Boolean).join(' | ');
+  doc.text(right, PAGE_W - MARGIN, 22, { align: 'right' });
+  return 44;
+}
+
+function drawInputs(doc: JsPDF, data: PropuestaData, y: number): number {
+  y = sectionTitle(doc, 'Parámetros de entrada', y);
+  const filas: [string, number][] = [
+    ['Inversión Publicitaria (IP)', data.params.inversionPublicitaria],
+    ['Tarifa Fija (TF)', data.params.tarifaFija],
+    ['Ingreso Esperado (IE)', data.params.ingresoEsperado],
+    ['Costos Totales (IP + TF + IE)', data.resultados.costosTotales],
+  ];
+  doc.setFontSize(10);
+  for (const [label, value] of filas) {
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...MUTED);
+    doc.text(label, MARGIN, y);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...TEXT);
+    doc.text(formatCurrency(value, data.moneda), MARGIN + 90, y, { align: 'right' });
+    y += 6;
+  }
+  return y + 4;
+}
+
+function drawCards(doc: JsPDF, tarjetas: TarjetaMetrica[], y: number): number {
+  y = sectionTitle(doc, 'Resultados', y);
+  const gap = 4;
+  const w = (CONTENT_W - gap * (tarjetas.length - 1)) / tarjetas.length;
+  const h = 30;
+  tarjetas.forEach((t, i) => {
+    const x = MARGIN + i * (w + gap);
+    doc.setFillColor(248, 250, 252);
+    doc.rect(x, y, w, h, 'F');
+    doc.setFillColor(...CARD_COLORS[t.color]);
+    doc.rect(x, y, 1.5, h, 'F');
+    doc.setTextColor(...TEXT);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(t.value, x + w / 2, y + 9, { align: 'center' });
+    doc.setFontSize(9);
+    doc.text(t.label, x + w / 2, y + 15, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    doc.setTextColor(...MUTED);
+    doc.text(doc.splitTextToSize(t.description, w - 6), x + w / 2, y + 20, { align: 'center' });
+  });
+  return y + h + 10;
+}
+
+function drawPortfolio(doc: JsPDF, data: PropuestaData, y: number): number {
+  y = sectionTitle(doc, 'Portafolio de productos', y);
+  const cols = [
+    { label: 'Nombre', x: MARGIN + 2, align: 'left' as const },
+    { label: 'Precio', x: MARGIN + 110, align: 'right' as const },
+    { label: 'Margen %', x: MARGIN + 140, align: 'right' as const },
+    { label: 'Margen $', x: MARGIN + CONTENT_W - 2, align: 'right' as const },
+  ];
+
+  const header = (yy: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    cols.forEach((c) => doc.text(c.label, c.x, yy, { align: c.align }));
+    doc.setDrawColor(...GRID);
+    doc.line(MARGIN, yy + 2, MARGIN + CONTENT_W, yy + 2);
+    return yy + 7;
+  };
+
+  y = header(y);
+  doc.setFontSize(9);
+  for (const fila of data.portafolio) {
+    if (y > PAGE_H - 25) {
+      doc.addPage();
+      y = header(MARGIN + 5);
+    }
+    if (fila.critico) {
+      doc.setFillColor(255, 237, 213);
+      doc.rect(MARGIN, y - 4.5, CONTENT_W, 6.5, 'F');
+    }
+    doc.setFont('helvetica', fila.critico ? 'bold' : 'normal');
+    doc.setTextColor(...TEXT);
+    const nombre = doc.splitTextToSize(fila.nombre + (fila.critico ? ' (crítico)' : ''), 95)[0];
+    doc.text(nombre, cols[0].x, y);
+    doc.text(formatCurrency(fila.precio, data.moneda), cols[1].x, y, { align: 'right' });
+    doc.text(`${(fila.margenBruto * 100).toFixed(1)}%`, cols[2].x, y, { align: 'right' });
+    doc.text(formatCurrency(fila.margenAbsoluto, data.moneda), cols[3].x, y, { align: 'right' });
+    y += 6.5;
+  }
+  return y + 6;
+}
+
+function drawCritical(doc: JsPDF, data: PropuestaData, y: number): number {
+  const p = data.productoCritico;
+  if (!p) return y;
+  if (y > PAGE_H - 50) {
+    doc.addPage();
+    y = MARGIN + 5;
+  }
+  y = sectionTitle(doc, 'Producto crítico', y);
+  doc.setDrawColor(...ROAS_TRAD);
+  doc.setLineWidth(0.6);
+  doc.rect(MARGIN, y - 2, CONTENT_W, 26);
+  doc.setLineWidth(0.2);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...ROAS_TRAD);
+  doc.text(p.nombre, MARGIN + 4, y + 4);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT);
+  const neto = p.deducciones?.length ? `    Margen neto: ${formatCurrency(margenNeto(p), data.moneda)}` : '';
+  doc.text(
+    `Precio: ${formatCurrency(p.precio, data.moneda)}    Margen %: ${(p.margenBruto * 100).toFixed(1)}%    Margen $: ${formatCurrency(margenAbsoluto(p), data.moneda)}${neto}`,
+    MARGIN + 4,
+    y + 11
+  );
+  doc.setTextColor(...MUTED);
+  doc.setFontSize(8);
+  doc.text(
+    doc.splitTextToSize(
+      'Es el producto con menor margen absoluto. Los cálculos de VUM, ROAS Tradicional y CPR se basan en este producto.',
+      CONTENT_W - 8
+    ),
+    MARGIN + 4,
+    y + 17
+  );
+  return y + 32;
+}
+
+function drawChart(
+  doc: JsPDF,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  config: SensitivityConfig,
+  data: SensitivityDataPoint[],
+  moneda: Moneda
+): void {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  doc.setTextColor(...TEXT);
+  doc.text(doc.splitTextToSize(config.title, w)[0], x, y);
+
+  const plot = { x: x + 12, y: y + 8, w: w - 14, h: h - 22 };
+  const values = data.flatMap((d) => [d.ipRoas, d.roasTradicional]).filter((v) => isFinite(v));
+  if (data.length < 2 || values.length === 0) return;
+
+  let yMin = Math.min(...values);
+  let yMax = Math.max(...values);
+  const pad = (yMax - yMin) * 0.05 || Math.abs(yMax) * 0.05 || 1;
+  yMin -= pad;
+  yMax += pad;
+  const xMin = data[0].x;
+  const xMax = data[data.length - 1].x;
+  const sx = (v: number) => plot.x + ((v - xMin) / (xMax - xMin || 1)) * plot.w;
+  const sy = (v: number) => plot.y + plot.h - ((v - yMin) / (yMax - yMin)) * plot.h;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6.5);
+  doc.setTextColor(...MUTED);
+  doc.setDrawColor(...GRID);
+  for (let i = 0; i <= 4; i++) {
+    const v = yMin + ((yMax - yMin) * i) / 4;
+    doc.line(plot.x, sy(v), plot.x + plot.w, sy(v));
+    doc.text(formatNumber(v, 2), plot.x - 1.5, sy(v) + 1, { align: 'right' });
+  }
+  for (let i = 0; i <= 4; i++) {
+    const v = xMin + ((xMax - xMin) * i) / 4;
+    doc.text(formatXTick(v, config.xFormat, moneda), sx(v), plot.y + plot.h + 4, { align: 'center' });
+  }
+  doc.text(config.xLabel, plot.x + plot.w / 2, plot.y + plot.h + 9, { align: 'center' });
+
+  const series: [keyof Omit<SensitivityDataPoint, 'x'>, RGB][] = [
+    ['ipRoas', IP_ROAS],
+    ['roasTradicional', ROAS_TRAD],
+  ];
+  doc.setLineWidth(0.5);
+  for (const [key, color] of series) {
+    doc.setDrawColor(...color);
+    for (let i = 1; i < data.length; i++) {
+      const a = data[i - 1][key];
+      const b = data[i][key];
+      if (isFinite(a) && isFinite(b)) doc.line(sx(data[i - 1].x), sy(a), sx(data[i].x), sy(b));
+    }
+  }
+  doc.setLineWidth(0.2);
+
+  const legendY = y + h - 2;
+  series.forEach(([key, color], i) => {
+    const lx = plot.x + i * 35;
+    doc.setFillColor(...color);
+    doc.rect(lx, legendY - 2, 4, 2, 'F');
+    doc.setTextColor(...MUTED);
+    doc.text(key === 'ipRoas' ? 'IP-ROAS' : 'ROAS Tradicional', lx + 5.5, legendY);
+  });
+}
+
+function drawCharts(doc: JsPDF, data: PropuestaData): void {
+  if (data.sensibilidad.length === 0) return;
+  doc.addPage();
+  let y = sectionTitle(doc, 'Análisis de sensibilidad', MARGIN + 5) + 2;
+  const gap = 8;
+  const w = (CONTENT_W - gap) / 2;
+  const h = 80;
+  data.sensibilidad.forEach(({ config, data: puntos }, i) => {
+    const col = i % 2;
+    if (i > 0 && col === 0) y += h + gap;
+    drawChart(doc, MARGIN + col * (w + gap), y, w, h, config, puntos, data.moneda);
+  });
+}
+
+function drawFooters(doc: JsPDF): void {
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text('Calculadora IP-ROAS v1.3 | SaleADS.ai', MARGIN, PAGE_H - 8);
+    doc.text(`${i} / ${pages}`, PAGE_W - MARGIN, PAGE_H - 8, { align: 'right' });
+  }
+}
+
+/** Builds the proposal PDF and returns its bytes */
+export async function generarPropuestaPDF(data: PropuestaData): Promise<ArrayBuffer> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  let y = drawHeader(doc, data);
+  y = drawInputs(doc, data, y);
+  y = drawCards(doc, data.tarjetas, y);
+  if (data.portafolio.length > 0) y = drawPortfolio(doc, data, y);
+  drawCritical(doc, data, y);
+  drawCharts(doc, data);
+  drawFooters(doc);
+
+  return doc.output('arraybuffer');
+}
@@ -0,0 +1,125 @@
+/**
+ * Client Proposal
+ * ===============
+ * Collects everything the exported proposal shows, computed from the engine
+ * so the document always matches calcularTodo.
+ */
+
+import type {
+  Deduccion,
+  Moneda,
+  ParametrosCliente,
+  Producto,
+  ResultadosIPROAS,
+  SensitivityConfig,
+  SensitivityDataPoint,
+} from '@/types/roas';
+import { SENSITIVITY_CONFIGS } from '@/types/roas';
+import {
+  calcularSensibilidad,
+  calcularTodo,
+  margenAbsoluto,
+  margenNeto,
+  pesosMezcla,
+  productoMargenMinimo,
+  productosConDeducciones,
+  productosSeleccionados,
+  estaSeleccionado,
+} from './roas-engine';
+import { formatCurrency, formatNumber, MONEDA_POR_DEFECTO } from './format';
+
+/** One of the four headline metrics (UI MetricCard and PDF) */
+export interface TarjetaMetrica {
+  color: 'purple' | 'green' | 'orange' | 'cyan';
+  value: string;
+  label: string;
+  description: string;
+}
+
+export function tarjetasMetricas(r: ResultadosIPROAS, moneda: Moneda = MONEDA_POR_DEFECTO): TarjetaMetrica[] {
+  return [
+    { color: 'purple', value: formatNumber(r.ipRoas), label: 'IP-ROAS', description: '¿Cuánto debe generar cada peso invertido?' },
+    { color: 'green', value: `${r.vum.toLocaleString('en-US')} unidades`, label: 'VUM', description: '¿Cuántas unidades debo vender?' },
+    { color: 'orange', value: formatNumber(r.roasMinTradicional), label: 'ROAS Tradicional', description: '¿Retorno mínimo en ventas totales?' },
+    { color: 'cyan', value: formatCurrency(r.cprEstimado, moneda), label: 'CPR Estimado', description: '¿Cuánto me cuesta cada venta?' },
+  ];
+}
+
+export interface FilaPortafolio {
+  nombre: string;
+  precio: number;
+  margenBruto: number;
+  margenAbsoluto: number;
+  margenNeto: number; // After the product's own and the global deductions
+  critico: boolean;
+  pesoMezcla: number; // Normalized sales-mix weight among the selected products (0-1); 0 when left out
+  seleccionado: boolean; // In the campaign and in the category filter
+}
+
+/**
+ * Portfolio rows with the derived columns shown in the summary tab. The
+ * critical product and mix weights only consider the campaign selection.
+ */
+export function portafolioConDerivados(
+  productos: Producto[],
+  deducciones: Deduccion[] = [],
+  categorias?: string[]
+): FilaPortafolio[] {
+  const netos = productosConDeducciones(productos, deducciones);
+  const seleccion = productos.map((p) => estaSeleccionado(p, categorias));
+  const critico = productoMargenMinimo(netos.filter((_, i) => seleccion[i]));
+  const pesosSeleccion = pesosMezcla(productos.filter((_, i) => seleccion[i]));
+  let j = 0;
+  return productos.map((p, i) => ({
+    nombre: p.nombre,
+    precio: p.precio,
+    margenBruto: p.margenBruto,
+    margenAbsoluto: margenAbsoluto(p),
+    margenNeto: margenNeto(netos[i]),
+    critico: seleccion[i] && netos[i] === critico,
+    pesoMezcla: seleccion[i] ? pesosSeleccion[j++] : 0,
+    seleccionado: seleccion[i],
+  }));
+}
+
+export interface PropuestaData {
+  fecha: Date;
+  cliente: string;
+  params: ParametrosCliente;
+  moneda: Moneda; // Currency of every amount in the document
+  resultados: ResultadosIPROAS;
+  tarjetas: TarjetaMetrica[];
+  portafolio: FilaPortafolio[];
+  productoCritico: Producto | null;
+  sensibilidad: { config: SensitivityConfig; data: SensitivityDataPoint[] }[];
+}
+
+/**
+ * params must already be in a single currency (see convertirParametros).
+ * The document lists only the products selected for the campaign.
+ */
+export function construirPropuesta(
+  params: ParametrosCliente,
+  cliente = '',
+  fecha: Date = new Date()
+): PropuestaData {
+  const resultados = calcularTodo(params);
+  const moneda = params.moneda ?? MONEDA_POR_DEFECTO;
+  const seleccionados = productosSeleccionados(params);
+  const productoCritico = productoMargenMinimo(productosConDeducciones(seleccionados, params.deducciones));
+
+  return {
+    fecha,
+    cliente,
+    params,
+    moneda,
+    resultados,
+    tarjetas: tarjetasMetricas(resultados, moneda),
+    portafolio: portafolioConDerivados(seleccionados, params.deducciones),
+    productoCritico,
+    sensibilidad: SENSITIVITY_CONFIGS.flatMap((config) => {
+      const data = calcularSensibilidad(config.type, params, 50);
+      return data ? [{ config, data }] : [];
+    }),
+  };
+}
@@ -6,12 +6,31 @@
  */
 
 import type {
+  Deduccion,
   Producto,
   ParametrosCliente,
   ResultadosIPROAS,
   SensitivityType,
   SensitivityDataPoint,
+  RangoSensibilidad,
+  SensitivityGrid,
+  GoalSeekMetric,
+  GoalSeekVariable,
+  GoalSeekResult,
+  ModoMargen,
+  TornadoMetric,
+  TornadoResult,
+  TornadoBar,
+  TornadoVariable,
 } from '@/types/roas';
+import { SIN_CATEGORIA } from '@/types/roas';
+import {
+  leerTablaCSV,
+  parseNumero,
+  type Delimitador,
+  type FilaOmitida,
+  type SeparadorDecimal,
+} from './csv';
 
 // ============================================================================
 // HELPER FUNCTIONS (match Python Producto/ParametrosCliente properties)
@@ -27,14 +46,138 @@ export function costosTotales(params: ParametrosCliente): number {
   return params.inversionPublicitaria + params.tarifaFija + params.ingresoEsperado;
 }
 
-/** ParametrosCliente.producto_margen_minimo → min by margen_absoluto */
+/** Amount lost per unit to the product's deductions */
+export function deduccionUnitaria(producto: Producto): number {
+  return (producto.deducciones ?? []).reduce(
+    (acc, d) => acc + (d.tipo === 'porcentaje' ? d.valor * producto.precio : d.valor),
+    0
+  );
+}
+
+/**
+ * Net contribution margin per unit: margen_absoluto minus deductions.
+ * Equals margenAbsoluto when the product has no deductions.
+ */
+export function margenNeto(producto: Producto): number {
+  return margenAbsoluto(producto) - deduccionUnitaria(producto);
+}
+
+/** Products with the global deductions appended to their own */
+export function productosConDeducciones(productos: Producto[], globales: Deduccion[] = []): Producto[] {
+  if (globales.length === 0) return productos;
+  return productos.map((p) => ({ ...p, deducciones: [...(p.deducciones ?? []), ...globales] }));
+}
+
+/** One line of the gross → net margin breakdown */
+export interface LineaDesglose {
+  concepto: string;
+  alcance: 'producto' | 'global';
+  monto: number; // Per unit, already applied to precio for percentages
+}
+
+export interface DesgloseMargen {
+  bruto: number;
+  lineas: LineaDesglose[];
+  neto: number;
+}
+
+/** Gross margin, each deduction (own and global) and the resulting net margin */
+export function desgloseMargen(producto: Producto, globales: Deduccion[] = []): DesgloseMargen {
+  const linea = (d: Deduccion, alcance: LineaDesglose['alcance']): LineaDesglose => ({
+    concepto: d.concepto,
+    alcance,
+    monto: d.tipo === 'porcentaje' ? d.valor * producto.precio : d.valor,
+  });
+  const lineas = [
+    ...(producto.deducciones ?? []).map((d) => linea(d, 'producto')),
+    ...globales.map((d) => linea(d, 'global')),
+  ];
+  const bruto = margenAbsoluto(producto);
+  return { bruto, lineas, neto: bruto - lineas.reduce((acc, l) => acc + l.monto, 0) };
+}
+
+/**
+ * ParametrosCliente.producto_margen_minimo → min by margen_absoluto.
+ * Uses the net margin, so pass productosConDeducciones when global
+ * deductions apply.
+ */
 export function productoMargenMinimo(productos: Producto[]): Producto | null {
   if (productos.length === 0) return null;
   return productos.reduce((min, p) =>
-    margenAbsoluto(p) < margenAbsoluto(min) ? p : min
+    margenNeto(p) < margenNeto(min) ? p : min
   );
 }
 
+// ============================================================================
+// SALES MIX
+// ============================================================================
+
+/** Name reported as productoCritico when the blended mix is used */
+export const PRODUCTO_MEZCLA = 'Mezcla de ventas';
+
+/**
+ * Normalized sales-mix weights. Products without participacion weigh 0 when
+ * any product has one; if none do, the mix is uniform.
+ */
+export function pesosMezcla(productos: Producto[]): number[] {
+  const pesos = productos.map((p) => Math.max(0, p.participacion ?? 0));
+  const total = pesos.reduce((a, b) => a + b, 0);
+  if (total <= 0) return productos.map(() => 1 / productos.length);
+  return pesos.map((w) => w / total);
+}
+
+/**
+ * Synthetic product with the mix-weighted average price, absolute margin and
+ * per-unit deductions, so margenAbsoluto / margenNeto of the result are the
+ * blended margins.
+ */
+export function productoMezcla(productos: Producto[]): Producto | null {
+  if (productos.length === 0) return null;
+  const pesos = pesosMezcla(productos);
+  const ponderado = (f: (p: Producto) => number) => productos.reduce((acc, p, i) => acc + pesos[i] * f(p), 0);
+  const precio = ponderado((p) => p.precio);
+  const margen = ponderado(margenAbsoluto);
+  const deduccion = ponderado(deduccionUnitaria);
+  const mezcla: Producto = { nombre: PRODUCTO_MEZCLA, precio, margenBruto: precio > 0 ? margen / precio : 0 };
+  if (deduccion > 0) mezcla.deducciones = [{ concepto: 'Deducciones ponderadas', tipo: 'fijo', valor: deduccion }];
+  return mezcla;
+}
+
+// ============================================================================
+// CAMPAIGN SELECTION
+// ============================================================================
+
+export function categoriaDe(producto: Producto): string {
+  return producto.categoria?.trim() || SIN_CATEGORIA;
+}
+
+/** In the campaign (enCampana not false) and in one of the selected categories, if any */
+export function estaSeleccionado(producto: Producto, categorias?: string[]): boolean {
+  if (producto.enCampana === false) return false;
+  return !categorias || categorias.length === 0 || categorias.includes(categoriaDe(producto));
+}
+
+/** The subset of products the calculation runs over */
+export function productosSeleccionados(params: Pick<ParametrosCliente, 'productos' | 'categorias'>): Producto[] {
+  return params.productos.filter((p) => estaSeleccionado(p, params.categorias));
+}
+
+/** Distinct categories in first-appearance order, SIN_CATEGORIA for uncategorised products */
+export function categoriasDe(productos: Producto[]): string[] {
+  return Array.from(new Set(productos.map(categoriaDe)));
+}
+
+/**
+ * Product whose margin and price drive VUM, ROAS Tradicional and CPR:
+ * the critical product (peorCaso) or the blended mix (mezcla) of the
+ * selected products. Global deductions are already folded into its
+ * deducciones.
+ */
+export function productoReferencia(params: ParametrosCliente): Producto | null {
+  const productos = productosConDeducciones(productosSeleccionados(params), params.deducciones);
+  return params.modoMargen === 'mezcla' ? productoMezcla(productos) : productoMargenMinimo(productos);
+}
+
 // ============================================================================
 // CORE CALCULATIONS (match CalculadoraIPROAS methods exactly)
 // ============================================================================
@@ -49,14 +192,14 @@ export function calcularIpRoas(IP: number, TF: number, IE: number): number {
 }
 
 /**
- * VUM = ceil(costos_totales / margen_absoluto)
+ * VUM = ceil(costos_totales / margen_absoluto), using the net margin
  * Python: calcular_vum
  */
 export function calcularVum(params: ParametrosCliente, margenAbs?: number): number {
   if (margenAbs === undefined) {
-    const producto = productoMargenMinimo(params.productos);
-    if (!producto || margenAbsoluto(producto) <= 0) return 0;
-    margenAbs = margenAbsoluto(producto);
+    const producto = productoReferencia(params);
+    if (!producto || margenNeto(producto) <= 0) return 0;
+    margenAbs = margenNeto(producto);
   }
   if (margenAbs <= 0) return 0;
   return Math.ceil(costosTotales(params) / margenAbs);
@@ -110,7 +253,7 @@ export function fRoasTradicional(
  * Python: CalculadoraIPROAS.calcular_todo
  */
 export function calcularTodo(params: ParametrosCliente): ResultadosIPROAS {
-  const producto = productoMargenMinimo(params.productos);
+  const producto = productoReferencia(params);
   if (!producto) {
     return {
       ipRoas: 0,
@@ -139,12 +282,39 @@ export function calcularTodo(params: ParametrosCliente): ResultadosIPROAS {
     roasMinTradicional,
     cprEstimado,
     costosTotales: costosTotales(params),
-    margenMinimoUsado: margenAbsoluto(producto),
+    margenMinimoUsado: margenNeto(producto),
     precioProductoMinimo: producto.precio,
     productoCritico: producto.nombre,
   };
 }
 
+export interface ResultadoCategoria {
+  categoria: string;
+  productos: number; // Products of the category in the campaign
+  resultados: ResultadosIPROAS;
+}
+
+/**
+ * Results as if the campaign promoted a single category, for every category
+ * with products in the campaign. Costs are the full IP/TF/IE in each case.
+ */
+export function calcularPorCategoria(params: ParametrosCliente): ResultadoCategoria[] {
+  const enCampana = params.productos.filter((p) => estaSeleccionado(p));
+  return categoriasDe(enCampana).map((categoria) => ({
+    categoria,
+    productos: enCampana.filter((p) => categoriaDe(p) === categoria).length,
+    resultados: calcularTodo({ ...params, categorias: [categoria] }),
+  }));
+}
+
+/** Results under each margin mode, for side-by-side comparison */
+export function compararModosMargen(params: ParametrosCliente): Record<ModoMargen, ResultadosIPROAS> {
+  return {
+    peorCaso: calcularTodo({ ...params, modoMargen: 'peorCaso' }),
+    mezcla: calcularTodo({ ...params, modoMargen: 'mezcla' }),
+  };
+}
+
 // ============================================================================
 // SENSITIVITY ANALYSIS (match calcular_sensibilidad exactly)
 // ============================================================================
@@ -158,116 +328,683 @@ function linspace(start: number, end: number, n: number): number[] {
   return Array.from({ length: n }, (_, i) => start + step * i);
 }
 
+/** Inputs of one sensitivity evaluation (margen as decimal of p*, deduccion per unit) */
+interface PuntoSensibilidad {
+  IP: number;
+  TF: number;
+  IE: number;
+  margenPct: number;
+  deduccion: number;
+}
+
+/** Current value of a swept parameter, before any fallback defaults */
+function valorActual(tipo: SensitivityType, params: ParametrosCliente, producto: Producto): number {
+  switch (tipo) {
+    case 'IP':
+      return params.inversionPublicitaria;
+    case 'TF':
+      return params.tarifaFija;
+    case 'IE':
+      return params.ingresoEsperado;
+    case 'Margen':
+      return producto.margenBruto;
+  }
+}
+
 /**
- * Computes sensitivity data for a given parameter.
- * Returns an array of data points for charting.
- * Python: calcular_sensibilidad
+ * Sweep range for a parameter: ±50% around the current value, with the
+ * Python fallbacks (IP = 10000, TF/IE = 5000, margen = 30%) when it is <= 0.
  */
-export function calcularSensibilidad(
+function rangoSensibilidad(
   tipo: SensitivityType,
   params: ParametrosCliente,
-  numPoints: number = 50
-): SensitivityDataPoint[] | null {
-  const producto = productoMargenMinimo(params.productos);
-  if (!producto) return null;
-
-  const mStar = margenAbsoluto(producto);
-  const pStar = producto.precio;
-  let IP = params.inversionPublicitaria;
-  let TF = params.tarifaFija;
-  let IE = params.ingresoEsperado;
-
-  let xValues: number[];
-
+  producto: Producto
+): [number, number] {
   switch (tipo) {
     case 'IP': {
+      let IP = params.inversionPublicitaria;
       if (IP <= 0) IP = 10000;
-      const xMin = Math.max(100, IP * 0.5);
-      const xMax = IP * 1.5;
-      xValues = linspace(xMin, xMax, numPoints);
-      return xValues.map((x) => ({
-        x,
-        ipRoas: calcularIpRoas(x, TF, IE),
-        roasTradicional: fRoasTradicional(x, TF, IE, mStar, pStar),
-      }));
+      return [Math.max(100, IP * 0.5), IP * 1.5];
     }
     case 'TF': {
+      let TF = params.tarifaFija;
       if (TF <= 0) TF = 5000;
-      const xMin = Math.max(0, TF * 0.5);
-      const xMax = TF * 1.5;
-      xValues = linspace(xMin, xMax, numPoints);
-      return xValues.map((x) => ({
-        x,
-        ipRoas: calcularIpRoas(IP, x, IE),
-        roasTradicional: fRoasTradicional(IP, x, IE, mStar, pStar),
-      }));
+      return [Math.max(0, TF * 0.5), TF * 1.5];
     }
     case 'IE': {
+      let IE = params.ingresoEsperado;
       if (IE <= 0) IE = 5000;
-      const xMin = Math.max(0, IE * 0.5);
-      const xMax = IE * 1.5;
-      xValues = linspace(xMin, xMax, numPoints);
-      return xValues.map((x) => ({
-        x,
-        ipRoas: calcularIpRoas(IP, TF, x),
-        roasTradicional: fRoasTradicional(IP, TF, x, mStar, pStar),
-      }));
+      return [Math.max(0, IE * 0.5), IE * 1.5];
     }
     case 'Margen': {
       let margenPct = producto.margenBruto;
       if (margenPct <= 0) margenPct = 0.3;
-      const xMin = Math.max(0.05, margenPct * 0.5);
-      const xMax = Math.min(0.95, margenPct * 1.5);
-      xValues = linspace(xMin, xMax, numPoints);
-      return xValues.map((x) => ({
-        x,
-        ipRoas: calcularIpRoas(IP, TF, IE), // IP-ROAS does not depend on margin
-        roasTradicional: fRoasTradicional(IP, TF, IE, pStar * x, pStar),
-      }));
+      return [Math.max(0.05, margenPct * 0.5), Math.min(0.95, margenPct * 1.5)];
+    }
+  }
+}
+
+function conValor(punto: PuntoSensibilidad, tipo: SensitivityType, x: number): PuntoSensibilidad {
+  return tipo === 'Margen' ? { ...punto, margenPct: x } : { ...punto, [tipo]: x };
+}
+
+function evaluarPunto(punto: PuntoSensibilidad, pStar: number): { ipRoas: number; roasTradicional: number } {
+  return {
+    ipRoas: calcularIpRoas(punto.IP, punto.TF, punto.IE), // IP-ROAS does not depend on margin
+    roasTradicional: fRoasTradicional(punto.IP, punto.TF, punto.IE, pStar * punto.margenPct - punto.deduccion, pStar),
+  };
+}
+
+function puntoBase(params: ParametrosCliente, producto: Producto): PuntoSensibilidad {
+  return {
+    IP: params.inversionPublicitaria,
+    TF: params.tarifaFija,
+    IE: params.ingresoEsperado,
+    margenPct: producto.margenBruto,
+    deduccion: deduccionUnitaria(producto),
+  };
+}
+
+export const SENSIBILIDAD_PUNTOS_DEFECTO = 50;
+export const SENSIBILIDAD_PUNTOS_MAX = 1000;
+
+/** The ±50% sweep with the Python fallbacks, at the default resolution */
+export function rangoSensibilidadPorDefecto(tipo: SensitivityType, params: ParametrosCliente): RangoSensibilidad | null {
+  const producto = productoReferencia(params);
+  if (!producto) return null;
+  const [min, max] = rangoSensibilidad(tipo, params, producto);
+  return { min, max, paso: (max - min) / (SENSIBILIDAD_PUNTOS_DEFECTO - 1), escala: 'lineal' };
+}
+
+/**
+ * Sample positions of a sweep: min, min + paso, ... and always max itself.
+ * On a log scale the same number of points is spaced geometrically.
+ */
+export function valoresRango(rango: RangoSensibilidad): number[] {
+  const { min, max, paso, escala } = rango;
+  if (!(max > min) || !(paso > 0)) return [min];
+  const n = Math.min(SENSIBILIDAD_PUNTOS_MAX, Math.ceil((max - min) / paso - 1e-9) + 1);
+  if (escala === 'log' && min > 0) {
+    return Array.from({ length: n }, (_, i) => (i === n - 1 ? max : min * Math.pow(max / min, i / (n - 1))));
+  }
+  return Array.from({ length: n }, (_, i) => (i === n - 1 ? max : min + paso * i));
+}
+
+/**
+ * Computes sensitivity data for a given parameter, either over the default
+ * range with numPoints points or over a user-defined range.
+ * Returns an array of data points for charting.
+ * Python: calcular_sensibilidad
+ */
+export function calcularSensibilidad(
+  tipo: SensitivityType,
+  params: ParametrosCliente,
+  resolucion: number | RangoSensibilidad = SENSIBILIDAD_PUNTOS_DEFECTO
+): SensitivityDataPoint[] | null {
+  const producto = productoReferencia(params);
+  if (!producto) return null;
+
+  const pStar = producto.precio;
+  const base = puntoBase(params, producto);
+  const xs =
+    typeof resolucion === 'number'
+      ? linspace(...rangoSensibilidad(tipo, params, producto), resolucion)
+      : valoresRango(resolucion);
+  return xs.map((x) => ({
+    x,
+    ...evaluarPunto(conValor(base, tipo, x), pStar),
+  }));
+}
+
+/** Above this many VUM steps in the range, jump points are not generated */
+export const SENSIBILIDAD_SALTOS_MAX = 500;
+
+/** A sweep ready to draw: samples plus a before/after pair at every VUM step */
+export interface CurvaSensibilidad {
+  rango: RangoSensibilidad;
+  muestras: SensitivityDataPoint[];
+  /** Samples merged with two points at each jump, so the staircase has exact vertical edges */
+  puntos: SensitivityDataPoint[];
+  saltos: number[]; // x where VUM = ceil(costos / m*) changes value
+  saltosTotales: number; // May exceed saltos.length (Infinity as m* approaches 0)
+  actual: number; // Current value of the swept input
+}
+
+interface SaltoVum {
+  x: number;
+  vumAntes: number;
+  vumDespues: number;
+}
+
+/**
+ * Exact positions where VUM steps inside the range. For IP/TF/IE, costs grow
+ * with x and VUM goes k → k+1 right after costos = k·m*. For Margen, m* grows
+ * with x and VUM drops k+1 → k at m* = costos / k.
+ */
+function saltosVum(
+  tipo: SensitivityType,
+  base: PuntoSensibilidad,
+  pStar: number,
+  min: number,
+  max: number
+): { saltos: SaltoVum[]; total: number } {
+  const ninguno = { saltos: [], total: 0 };
+  const costos = base.IP + base.TF + base.IE;
+
+  if (tipo !== 'Margen') {
+    const mStar = pStar * base.margenPct - base.deduccion;
+    if (mStar <= 0) return ninguno;
+    const otros = costos - base[tipo];
+    const kDesde = Math.ceil((otros + min) / mStar);
+    const kHasta = Math.ceil((otros + max) / mStar) - 1;
+    const total = Math.max(0, kHasta - kDesde + 1);
+    if (total > SENSIBILIDAD_SALTOS_MAX) return { saltos: [], total };
+    const saltos = Array.from({ length: total }, (_, i) => {
+      const k = kDesde + i;
+      return { x: k * mStar - otros, vumAntes: k, vumDespues: k + 1 };
+    });
+    return { saltos: saltos.filter((s) => s.x >= min && s.x < max), total };
+  }
+
+  const mStarEn = (x: number) => pStar * x - base.deduccion;
+  if (costos <= 0 || mStarEn(max) <= 0) return ninguno;
+  if (mStarEn(min) <= 0) return { saltos: [], total: Infinity };
+  const kDesde = Math.ceil(costos / mStarEn(max));
+  const kHasta = Math.ceil(costos / mStarEn(min)) - 1;
+  const total = Math.max(0, kHasta - kDesde + 1);
+  if (total > SENSIBILIDAD_SALTOS_MAX) return { saltos: [], total };
+  const saltos = Array.from({ length: total }, (_, i) => {
+    const k = kHasta - i; // Ascending x
+    return { x: (costos / k + base.deduccion) / pStar, vumAntes: k + 1, vumDespues: k };
+  });
+  return { saltos: saltos.filter((s) => s.x > min && s.x <= max), total };
+}
+
+/**
+ * Sensitivity over a user range (default: rangoSensibilidadPorDefecto) with
+ * the VUM steps located exactly, so ROAS tradicional can be drawn as a
+ * staircase with straight segments instead of a smoothed curve.
+ */
+export function calcularCurvaSensibilidad(
+  tipo: SensitivityType,
+  params: ParametrosCliente,
+  rango?: RangoSensibilidad
+): CurvaSensibilidad | null {
+  const producto = productoReferencia(params);
+  const r = rango ?? rangoSensibilidadPorDefecto(tipo, params);
+  if (!producto || !r) return null;
+
+  const pStar = producto.precio;
+  const base = puntoBase(params, producto);
+  const muestras = calcularSensibilidad(tipo, params, r)!;
+  const { saltos, total } = saltosVum(tipo, base, pStar, r.min, r.max);
+
+  const enSalto = (x: number, vum: number): SensitivityDataPoint => {
+    const p = conValor(base, tipo, x);
+    return { x, ipRoas: calcularIpRoas(p.IP, p.TF, p.IE), roasTradicional: calcularRoasMinTradicional(p.IP, vum, pStar) };
+  };
+  // Order at equal x: value before the step, any sample, value after
+  const puntos = [
+    ...saltos.map((s) => ({ orden: 0, punto: enSalto(s.x, s.vumAntes) })),
+    ...muestras.map((punto) => ({ orden: 1, punto })),
+    ...saltos.map((s) => ({ orden: 2, punto: enSalto(s.x, s.vumDespues) })),
+  ]
+    .sort((a, b) => a.punto.x - b.punto.x || a.orden - b.orden)
+    .map((p) => p.punto);
+
+  return {
+    rango: r,
+    muestras,
+    puntos,
+    saltos: saltos.map((s) => s.x),
+    saltosTotales: total,
+    actual: valorActual(tipo, params, producto),
+  };
+}
+
+/**
+ * Two-parameter variant of calcularSensibilidad: sweeps xTipo and yTipo over
+ * the same ranges and returns IP-ROAS / ROAS tradicional matrices.
+ */
+export function calcularSensibilidad2D(
+  xTipo: SensitivityType,
+  yTipo: SensitivityType,
+  params: ParametrosCliente,
+  numPoints: number = 25
+): SensitivityGrid | null {
+  const producto = productoReferencia(params);
+  if (!producto || xTipo === yTipo) return null;
+
+  const pStar = producto.precio;
+  const base = puntoBase(params, producto);
+
+  const x = linspace(...rangoSensibilidad(xTipo, params, producto), numPoints);
+  const y = linspace(...rangoSensibilidad(yTipo, params, producto), numPoints);
+  const ipRoas: number[][] = [];
+  const roasTradicional: number[][] = [];
+
+  for (const yv of y) {
+    const filaIp: number[] = [];
+    const filaTrad: number[] = [];
+    for (const xv of x) {
+      const r = evaluarPunto(conValor(conValor(base, yTipo, yv), xTipo, xv), pStar);
+      filaIp.push(r.ipRoas);
+      filaTrad.push(r.roasTradicional);
     }
-    default:
-      return null;
+    ipRoas.push(filaIp);
+    roasTradicional.push(filaTrad);
   }
+
+  return {
+    xType: xTipo,
+    yType: yTipo,
+    x,
+    y,
+    ipRoas,
+    roasTradicional,
+    actual: { x: valorActual(xTipo, params, producto), y: valorActual(yTipo, params, producto) },
+  };
+}
+
+// ============================================================================
+// TORNADO ANALYSIS (one input at a time, ±variacion)
+// ============================================================================
+
+/** Evaluation point plus the p* it is priced at, since the tornado also moves price */
+interface PuntoTornado extends PuntoSensibilidad {
+  pStar: number;
+}
+
+function evaluarTornado(punto: PuntoTornado): Record<TornadoMetric, number> {
+  const mStar = punto.pStar * punto.margenPct - punto.deduccion;
+  const costos = { inversionPublicitaria: punto.IP, tarifaFija: punto.TF, ingresoEsperado: punto.IE, productos: [] };
+  return {
+    ...evaluarPunto(punto, punto.pStar),
+    vum: mStar > 0 ? calcularVum(costos, mStar) : Infinity,
+  };
+}
+
+/** The point with one input scaled by factor; percentage deductions follow the price */
+function escalarTornado(base: PuntoTornado, variable: TornadoVariable, factor: number, producto: Producto): PuntoTornado {
+  switch (variable) {
+    case 'IP':
+    case 'TF':
+    case 'IE':
+      return { ...base, [variable]: base[variable] * factor };
+    case 'Precio': {
+      const pStar = base.pStar * factor;
+      return { ...base, pStar, deduccion: deduccionUnitaria({ ...producto, precio: pStar }) };
+    }
+    case 'Margen':
+      return { ...base, margenPct: Math.min(1, base.margenPct * factor) };
+  }
+}
+
+function valorTornado(punto: PuntoTornado, variable: TornadoVariable): number {
+  return variable === 'Precio' ? punto.pStar : variable === 'Margen' ? punto.margenPct : punto[variable];
+}
+
+/**
+ * Moves each input (IP, TF, IE, price and margin of the reference product)
+ * down and up by `variacion` with the others fixed, and reports IP-ROAS,
+ * ROAS tradicional and VUM at both ends. Returns null without products or
+ * when variacion is not in (0, 1).
+ */
+export function calcularTornado(params: ParametrosCliente, variacion: number = 0.2): TornadoResult | null {
+  const producto = productoReferencia(params);
+  if (!producto || !(variacion > 0 && variacion < 1)) return null;
+
+  const base: PuntoTornado = {
+    IP: params.inversionPublicitaria,
+    TF: params.tarifaFija,
+    IE: params.ingresoEsperado,
+    margenPct: producto.margenBruto,
+    deduccion: deduccionUnitaria(producto),
+    pStar: producto.precio,
+  };
+  const variables: TornadoVariable[] = ['IP', 'TF', 'IE', 'Precio', 'Margen'];
+
+  const barras = variables.map((variable): TornadoBar => {
+    const bajo = escalarTornado(base, variable, 1 - variacion, producto);
+    const alto = escalarTornado(base, variable, 1 + variacion, producto);
+    const mBajo = evaluarTornado(bajo);
+    const mAlto = evaluarTornado(alto);
+    const metrica = (m: TornadoMetric) => ({
+      bajo: mBajo[m],
+      alto: mAlto[m],
+      swing: isFinite(mBajo[m]) && isFinite(mAlto[m]) ? Math.abs(mAlto[m] - mBajo[m]) : Infinity,
+    });
+    return {
+      variable,
+      bajo: valorTornado(bajo, variable),
+      alto: valorTornado(alto, variable),
+      metricas: { ipRoas: metrica('ipRoas'), roasTradicional: metrica('roasTradicional'), vum: metrica('vum') },
+    };
+  });
+
+  return { variacion, base: evaluarTornado(base), barras };
+}
+
+/** Bars ranked by their swing in one metric, largest first */
+export function ordenarTornado(resultado: TornadoResult, metrica: TornadoMetric): TornadoBar[] {
+  // || 0 keeps ties between infinite swings (NaN difference) in their original order
+  return [...resultado.barras].sort((a, b) => b.metricas[metrica].swing - a.metricas[metrica].swing || 0);
+}
+
+// ============================================================================
+// GOAL SEEK (inverse of the core formulas)
+// ============================================================================
+
+const GOAL_SEEK_PARAM: Record<GoalSeekVariable, keyof Omit<ParametrosCliente, 'productos'>> = {
+  IP: 'inversionPublicitaria',
+  TF: 'tarifaFija',
+  IE: 'ingresoEsperado',
+};
+
+function conVariable(params: ParametrosCliente, variable: GoalSeekVariable, valor: number): ParametrosCliente {
+  return { ...params, [GOAL_SEEK_PARAM[variable]]: valor };
+}
+
+/**
+ * Bisection for a monotone predicate: returns the bracket [lo, hi] where
+ * pred(lo) is false and pred(hi) is true, narrowed to one cent.
+ */
+function biseccion(pred: (x: number) => boolean, lo: number, hi: number): [number, number] {
+  for (let i = 0; i < 200 && hi - lo > 0.005; i++) {
+    const mid = (lo + hi) / 2;
+    if (pred(mid)) hi = mid;
+    else lo = mid;
+  }
+  return [lo, hi];
+}
+
+/**
+ * IP-ROAS is continuous, so every variable has a closed form:
+ *   IP = (TF + IE) / (R - 1),  TF = (R - 1)·IP - IE,  IE = (R - 1)·IP - TF
+ */
+function goalSeekIpRoas(params: ParametrosCliente, variable: GoalSeekVariable, objetivo: number): number | null {
+  const IP = params.inversionPublicitaria;
+  const TF = params.tarifaFija;
+  const IE = params.ingresoEsperado;
+  let valor: number;
+  switch (variable) {
+    case 'IP':
+      if (objetivo <= 1 || TF + IE <= 0) return null;
+      valor = (TF + IE) / (objetivo - 1);
+      break;
+    case 'TF':
+      valor = (objetivo - 1) * IP - IE;
+      break;
+    case 'IE':
+      valor = (objetivo - 1) * IP - TF;
+      break;
+  }
+  return valor > 0 || (valor === 0 && variable !== 'IP') ? valor : null;
+}
+
+/**
+ * VUM is a ceil step, so the target is read as a ceiling on units:
+ * returns the largest value of the variable that keeps VUM <= objetivo.
+ */
+function goalSeekVum(params: ParametrosCliente, variable: GoalSeekVariable, objetivo: number, mStar: number): number | null {
+  const vumCon = (x: number) => calcularVum(conVariable(params, variable, x), mStar);
+  if (vumCon(0) > objetivo) return null;
+  const [lo] = biseccion((x) => vumCon(x) > objetivo, 0, Math.max(objetivo * mStar, 0) + 1);
+  const redondeado = Math.ceil(lo * 100) / 100;
+  return vumCon(redondeado) <= objetivo ? redondeado : Math.floor(lo * 100) / 100;
+}
+
+/**
+ * ROAS tradicional for TF/IE: non-decreasing step, returns the smallest value
+ * that reaches the target. For IP the curve is a sawtooth that falls towards
+ * p* / m*, so we return the smallest IP at which the required ROAS drops to the
+ * target, via fixed-point iteration on the ceil segment.
+ */
+function goalSeekRoasTradicional(
+  params: ParametrosCliente,
+  variable: GoalSeekVariable,
+  objetivo: number,
+  mStar: number,
+  pStar: number
+): number | null {
+  const IP = params.inversionPublicitaria;
+  const TF = params.tarifaFija;
+  const IE = params.ingresoEsperado;
+
+  if (variable === 'IP') {
+    // Continuous relaxation p*(IP + C)/(m*·IP) = R gives a lower bound
+    const C = TF + IE;
+    if (objetivo * mStar <= pStar) return null;
+    let x = Math.max(C / (objetivo * mStar / pStar - 1), 0.01);
+    for (let i = 0; i < 1000; i++) {
+      const needed = (pStar * Math.ceil((x + C) / mStar)) / objetivo;
+      if (needed <= x) return Math.ceil(x * 100) / 100;
+      x = needed;
+    }
+    return null;
+  }
+
+  if (IP <= 0) return null;
+  const roasCon = (x: number) => {
+    const p = conVariable(params, variable, x);
+    return fRoasTradicional(p.inversionPublicitaria, p.tarifaFija, p.ingresoEsperado, mStar, pStar);
+  };
+  if (roasCon(0) >= objetivo) return 0;
+  const hi = (objetivo * IP * mStar) / pStar + mStar;
+  const [, upper] = biseccion((x) => roasCon(x) >= objetivo, 0, hi);
+  const redondeado = Math.floor(upper * 100) / 100;
+  return roasCon(redondeado) >= objetivo ? redondeado : Math.ceil(upper * 100) / 100;
+}
+
+/**
+ * Finds the value of IP, TF or IE that hits a target IP-ROAS, VUM or
+ * ROAS tradicional, keeping the other inputs fixed.
+ * Returns null when the target cannot be reached with a non-negative value.
+ */
+export function goalSeek(
+  params: ParametrosCliente,
+  metrica: GoalSeekMetric,
+  variable: GoalSeekVariable,
+  objetivo: number
+): GoalSeekResult | null {
+  if (!isFinite(objetivo) || objetivo <= 0) return null;
+
+  let valor: number | null;
+  let metodo: GoalSeekResult['metodo'] = 'numerico';
+
+  if (metrica === 'ipRoas') {
+    valor = goalSeekIpRoas(params, variable, objetivo);
+    metodo = 'analitico';
+  } else {
+    const producto = productoReferencia(params);
+    if (!producto || margenNeto(producto) <= 0) return null;
+    const mStar = margenNeto(producto);
+    valor =
+      metrica === 'vum'
+        ? goalSeekVum(params, variable, objetivo, mStar)
+        : goalSeekRoasTradicional(params, variable, objetivo, mStar, producto.precio);
+  }
+
+  if (valor === null || !isFinite(valor)) return null;
+
+  const resultados = calcularTodo(conVariable(params, variable, valor));
+  const alcanzado =
+    metrica === 'ipRoas' ? resultados.ipRoas : metrica === 'vum' ? resultados.vum : resultados.roasMinTradicional;
+
+  return { variable, valor, metrica, objetivo, alcanzado, metodo };
 }
 
 // ============================================================================
 // CSV PARSING (match the CSV import logic from streamlit_app.py)
 // ============================================================================
 
+/** Column aliases accepted for each Producto field */
+export const CSV_COLUMNAS = {
+  nombre: ['nombre', 'name'],
+  precio: ['precio', 'price'],
+  margen: ['margen', 'margen_bruto', 'margin'],
+  participacion: ['participacion', 'mix', 'share', 'unidades'],
+  moneda: ['moneda', 'currency', 'divisa'],
+  sku: ['sku', 'codigo', 'código', 'code'],
+  categoria: ['categoria', 'categoría', 'category'],
+  en_campana: ['en_campana', 'en_campaña', 'incluido', 'in_campaign'],
+  deducciones: ['deducciones', 'deductions'],
+} as const;
+
+/** Accepted values of the en_campana column; an empty cell counts as included */
+const EN_CAMPANA_VALORES: Record<string, boolean> = {
+  si: true,
+  sí: true,
+  s: true,
+  yes: true,
+  y: true,
+  true: true,
+  '1': true,
+  x: true,
+  no: false,
+  n: false,
+  false: false,
+  '0': false,
+};
+
 /**
- * Parses CSV text into an array of Producto objects.
+ * Per-product deductions as one CSV cell: entries separated by ';', each the
+ * concept followed by its value, percentages with '%' (e.g. "IVA 16%; Envío 25").
+ * Fixed amounts are per unit, in the product's currency.
+ */
+export function deduccionesATexto(deducciones: Deduccion[]): string {
+  return deducciones
+    .map((d) => `${d.concepto} ${d.tipo === 'porcentaje' ? `${Number((d.valor * 100).toPrecision(12))}%` : d.valor}`)
+    .join('; ');
+}
+
+/** Reads a deducciones cell written by deduccionesATexto; null if an entry is malformed */
+export function deduccionesDesdeTexto(texto: string, separadorDecimal: SeparadorDecimal = '.'): Deduccion[] | null {
+  const deducciones: Deduccion[] = [];
+  for (const entrada of texto.split(';').map((e) => e.trim()).filter(Boolean)) {
+    const m = /^(.+?)\s+(\S+?)(%?)$/.exec(entrada);
+    if (!m) return null;
+    const porcentaje = m[3] === '%';
+    const valor = parseNumero(m[2], separadorDecimal);
+    if (isNaN(valor) || valor < 0 || (porcentaje && valor > 100)) return null;
+    deducciones.push({ concepto: m[1], tipo: porcentaje ? 'porcentaje' : 'fijo', valor: porcentaje ? valor / 100 : valor });
+  }
+  return deducciones;
+}
+
+const CSV_COLUMNAS_NUMERICAS = [...CSV_COLUMNAS.precio, ...CSV_COLUMNAS.margen, ...CSV_COLUMNAS.participacion];
+
+function columna(row: Record<string, string>, aliases: readonly string[]): string {
+  for (const alias of aliases) {
+    if (row[alias]) return row[alias];
+  }
+  return '';
+}
+
+export type ProductoDesdeFila = { ok: true; producto: Producto } | { ok: false; motivo: string };
+
+/**
+ * Builds a Producto from a CSV row.
  * Supports column names: nombre/name, precio/price, margen/margen_bruto/margin
+ * and the optional participacion/mix/share/unidades sales-mix weight,
+ * moneda/currency ISO code, sku, categoria, en_campana (si/no) and
+ * deducciones (see deduccionesATexto).
  * If margen > 1, assumes percentage (e.g., 35 → 0.35)
  */
-export function parseCSV(csvText: string): Producto[] {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) return [];
-
-  const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
-  const productos: Producto[] = [];
+export function productoDesdeFila(
+  row: Record<string, string>,
+  posicion: number,
+  separadorDecimal: SeparadorDecimal = '.'
+): ProductoDesdeFila {
+  const nombre = columna(row, CSV_COLUMNAS.nombre) || `P${posicion}`;
+  const precioTexto = columna(row, CSV_COLUMNAS.precio);
+  const margenTexto = columna(row, CSV_COLUMNAS.margen);
 
-  for (let i = 1; i < lines.length; i++) {
-    const values = lines[i].split(',').map((v) => v.trim());
-    if (values.length < headers.length) continue;
+  if (!precioTexto) return { ok: false, motivo: 'Precio vacío' };
+  if (!margenTexto) return { ok: false, motivo: 'Margen vacío' };
 
-    const row: Record<string, string> = {};
-    headers.forEach((h, idx) => {
-      row[h] = values[idx];
-    });
+  const precio = parseNumero(precioTexto, separadorDecimal);
+  let margen = parseNumero(margenTexto, separadorDecimal);
+  if (isNaN(precio)) return { ok: false, motivo: `Precio no numérico: "${precioTexto}"` };
+  if (isNaN(margen)) return { ok: false, motivo: `Margen no numérico: "${margenTexto}"` };
+  if (precio < 0 || margen < 0) return { ok: false, motivo: 'Precio o margen negativo' };
 
-    const nombre = row['nombre'] || row['name'] || `P${productos.length + 1}`;
-    const precio = parseFloat(row['precio'] || row['price'] || '0');
-    let margen = parseFloat(row['margen'] || row['margen_bruto'] || row['margin'] || '0');
+  // If margen > 1, assume it's a percentage
+  if (margen > 1) {
+    margen = margen / 100;
+  }
+  if (margen > 1) return { ok: false, motivo: `Margen mayor a 100%: "${margenTexto}"` };
 
-    // If margen > 1, assume it's a percentage
-    if (margen > 1) {
-      margen = margen / 100;
+  const producto: Producto = { nombre, precio, margenBruto: margen };
+  const participacionTexto = columna(row, CSV_COLUMNAS.participacion);
+  if (participacionTexto) {
+    const participacion = parseNumero(participacionTexto, separadorDecimal);
+    if (isNaN(participacion) || participacion < 0) {
+      return { ok: false, motivo: `Participación inválida: "${participacionTexto}"` };
     }
+    producto.participacion = participacion;
+  }
+
+  const moneda = columna(row, CSV_COLUMNAS.moneda).toUpperCase();
+  if (moneda) {
+    if (!/^[A-Z]{3}$/.test(moneda)) return { ok: false, motivo: `Moneda inválida: "${moneda}"` };
+    producto.moneda = moneda;
+  }
+
+  const sku = columna(row, CSV_COLUMNAS.sku).trim();
+  if (sku) producto.sku = sku;
+  const categoria = columna(row, CSV_COLUMNAS.categoria).trim();
+  if (categoria) producto.categoria = categoria;
+  const enCampanaTexto = columna(row, CSV_COLUMNAS.en_campana).trim();
+  if (enCampanaTexto) {
+    const enCampana = EN_CAMPANA_VALORES[enCampanaTexto.toLowerCase()];
+    if (enCampana === undefined) return { ok: false, motivo: `En campaña inválido: "${enCampanaTexto}" (use si/no)` };
+    if (!enCampana) producto.enCampana = false;
+  }
 
-    if (!isNaN(precio) && !isNaN(margen)) {
-      productos.push({ nombre, precio, margenBruto: margen });
+  const deduccionesTexto = columna(row, CSV_COLUMNAS.deducciones).trim();
+  if (deduccionesTexto) {
+    const deducciones = deduccionesDesdeTexto(deduccionesTexto, separadorDecimal);
+    if (!deducciones) {
+      return { ok: false, motivo: `Deducciones inválidas: "${deduccionesTexto}" (use "IVA 16%; Envío 25")` };
     }
+    if (deducciones.length > 0) producto.deducciones = deducciones;
   }
 
-  return productos;
+  return { ok: true, producto };
+}
+
+/** Products read from a CSV plus every line that was skipped and why */
+export interface CSVImportReport {
+  productos: Producto[];
+  omitidas: FilaOmitida[];
+  delimitador: Delimitador;
+  separadorDecimal: SeparadorDecimal;
+}
+
+/**
+ * Parses CSV/TSV text into products, reporting skipped rows.
+ * Delimiter (, ; tab |) and decimal separator are detected automatically.
+ */
+export function parseCSVConReporte(csvText: string): CSVImportReport {
+  const tabla = leerTablaCSV(csvText, { columnasNumericas: CSV_COLUMNAS_NUMERICAS });
+  const productos: Producto[] = [];
+  const omitidas = [...tabla.omitidas];
+
+  for (const { fila, valores } of tabla.filas) {
+    const result = productoDesdeFila(valores, productos.length + 1, tabla.separadorDecimal);
+    if (result.ok) productos.push(result.producto);
+    else omitidas.push({ fila, motivo: result.motivo });
+  }
+
+  omitidas.sort((a, b) => a.fila - b.fila);
+  return { productos, omitidas, delimitador: tabla.delimitador, separadorDecimal: tabla.separadorDecimal };
+}
+
+/**
+ * Parses CSV text into an array of Producto objects.
+ * See parseCSVConReporte for the skipped-row report.
+ */
+export function parseCSV(csvText: string): Producto[] {
+  return parseCSVConReporte(csvText).productos;
 }
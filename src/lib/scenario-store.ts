@@ -0,0 +1,160 @@
+/**
+ * Saved Scenarios
+ * ===============
+ * Persistence for named scenarios behind an async interface, so the
+ * localStorage backend can later be swapped for a server store.
+ */
+
+import type { EscenarioGuardado, ParametrosCliente, ResultadosIPROAS, TablaTasas } from '@/types/roas';
+import { validarParametros } from './validation';
+import { tablaTasasDesde } from './currency';
+
+export interface ScenarioStore {
+  list(): Promise<EscenarioGuardado[]>;
+  get(id: string): Promise<EscenarioGuardado | null>;
+  save(escenario: EscenarioGuardado): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/** Minimal subset of the Web Storage API used by LocalStorageScenarioStore */
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export const SCENARIOS_STORAGE_KEY = 'ip-roas:escenarios:v1';
+
+function esEscenarioGuardado(value: unknown): value is EscenarioGuardado {
+  if (typeof value !== 'object' || value === null) return false;
+  const e = value as Record<string, unknown>;
+  return (
+    typeof e.id === 'string' &&
+    typeof e.nombre === 'string' &&
+    typeof e.creadoEn === 'string' &&
+    typeof e.actualizadoEn === 'string' &&
+    validarParametros(e.parametros).ok &&
+    (e.tasas === undefined || tablaTasasDesde(e.tasas) !== null)
+  );
+}
+
+/**
+ * Stores all scenarios as one JSON array under SCENARIOS_STORAGE_KEY.
+ * Entries that fail validation (older formats, manual edits) are dropped on read.
+ */
+export class LocalStorageScenarioStore implements ScenarioStore {
+  constructor(private readonly storage: KeyValueStorage, private readonly key = SCENARIOS_STORAGE_KEY) {}
+
+  private read(): EscenarioGuardado[] {
+    try {
+      const raw = this.storage.getItem(this.key);
+      const parsed: unknown = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter(esEscenarioGuardado) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(escenarios: EscenarioGuardado[]): void {
+    this.storage.setItem(this.key, JSON.stringify(escenarios));
+  }
+
+  async list(): Promise<EscenarioGuardado[]> {
+    return this.read();
+  }
+
+  async get(id: string): Promise<EscenarioGuardado | null> {
+    return this.read().find((e) => e.id === id) ?? null;
+  }
+
+  async save(escenario: EscenarioGuardado): Promise<void> {
+    const escenarios = this.read();
+    const index = escenarios.findIndex((e) => e.id === escenario.id);
+    if (index >= 0) escenarios[index] = escenario;
+    else escenarios.push(escenario);
+    this.write(escenarios);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter((e) => e.id !== id));
+  }
+}
+
+/** Browser store, or null during server rendering */
+export function createScenarioStore(): ScenarioStore | null {
+  if (typeof window === 'undefined' || !window.localStorage) return null;
+  return new LocalStorageScenarioStore(window.localStorage);
+}
+
+// ============================================================================
+// SCENARIO OPERATIONS
+// ============================================================================
+
+/** The rates are kept only when some are loaded, so the scenario recalculates as it was saved */
+export function nuevoEscenario(nombre: string, parametros: ParametrosCliente, tasas?: TablaTasas): EscenarioGuardado {
+  const ahora = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    nombre,
+    parametros,
+    creadoEn: ahora,
+    actualizadoEn: ahora,
+    ...(tasas && Object.keys(tasas.tasas).length > 0 && { tasas }),
+  };
+}
+
+export async function duplicarEscenario(store: ScenarioStore, id: string): Promise<EscenarioGuardado | null> {
+  const original = await store.get(id);
+  if (!original) return null;
+  const copia = nuevoEscenario(
+    `${original.nombre} (copia)`,
+    structuredClone(original.parametros),
+    original.tasas && structuredClone(original.tasas)
+  );
+  await store.save(copia);
+  return copia;
+}
+
+export async function renombrarEscenario(
+  store: ScenarioStore,
+  id: string,
+  nombre: string
+): Promise<EscenarioGuardado | null> {
+  const escenario = await store.get(id);
+  if (!escenario || !nombre.trim()) return null;
+  const renombrado = { ...escenario, nombre: nombre.trim(), actualizadoEn: new Date().toISOString() };
+  await store.save(renombrado);
+  return renombrado;
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+export interface DeltaMetrica {
+  clave: keyof Omit<ResultadosIPROAS, 'productoCritico'>;
+  etiqueta: string;
+  a: number;
+  b: number;
+  delta: number;            // b - a
+  deltaPct: number | null;  // null when a is 0 or non-finite
+  mejora: boolean | null;   // Whether B is better than A; null when equal
+}
+
+/** Metrics compared side by side; `menorEsMejor` marks which direction helps the client */
+const METRICAS_COMPARADAS: { clave: DeltaMetrica['clave']; etiqueta: string; menorEsMejor: boolean }[] = [
+  { clave: 'ipRoas', etiqueta: 'IP-ROAS', menorEsMejor: true },
+  { clave: 'vum', etiqueta: 'VUM', menorEsMejor: true },
+  { clave: 'roasMinTradicional', etiqueta: 'ROAS Tradicional', menorEsMejor: true },
+  { clave: 'cprEstimado', etiqueta: 'CPR Estimado', menorEsMejor: false },
+  { clave: 'costosTotales', etiqueta: 'Costos Totales', menorEsMejor: true },
+  { clave: 'margenMinimoUsado', etiqueta: 'Margen Mínimo', menorEsMejor: false },
+  { clave: 'precioProductoMinimo', etiqueta: 'Precio Producto Crítico', menorEsMejor: false },
+];
+
+export function compararResultados(a: ResultadosIPROAS, b: ResultadosIPROAS): DeltaMetrica[] {
+  return METRICAS_COMPARADAS.map(({ clave, etiqueta, menorEsMejor }) => {
+    const va = a[clave];
+    const vb = b[clave];
+    const delta = vb - va;
+    const deltaPct = isFinite(va) && va !== 0 && isFinite(delta) ? delta / Math.abs(va) : null;
+    const mejora = va === vb ? null : menorEsMejor ? vb < va : vb > va;
+    return { clave, etiqueta, a: va, b: vb, delta, deltaPct, mejora };
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * JSON Serialization
+ * ==================
+ * Converts engine outputs to JSON-safe shapes and back.
+ */
+
+import type { ResultadosIPROAS } from '@/types/roas';
+import type { NumeroJSON, ResultadosIPROASJSON, ResultadoEscenarioJSON } from '@/types/api';
+import type { ResultadoEscenario } from './batch';
+
+/** Infinity → 'Infinity', NaN → 'NaN'; finite numbers pass through */
+export function numeroAJSON(n: number): NumeroJSON {
+  if (Number.isFinite(n)) return n;
+  if (Number.isNaN(n)) return 'NaN';
+  return n > 0 ? 'Infinity' : '-Infinity';
+}
+
+/** Inverse of numeroAJSON */
+export function numeroDesdeJSON(n: NumeroJSON): number {
+  if (typeof n === 'number') return n;
+  if (n === 'Infinity') return Infinity;
+  if (n === '-Infinity') return -Infinity;
+  return NaN;
+}
+
+export function serializarResultados(r: ResultadosIPROAS): ResultadosIPROASJSON {
+  return {
+    ipRoas: numeroAJSON(r.ipRoas),
+    vum: numeroAJSON(r.vum),
+    roasMinTradicional: numeroAJSON(r.roasMinTradicional),
+    cprEstimado: numeroAJSON(r.cprEstimado),
+    costosTotales: numeroAJSON(r.costosTotales),
+    margenMinimoUsado: numeroAJSON(r.margenMinimoUsado),
+    precioProductoMinimo: numeroAJSON(r.precioProductoMinimo),
+    productoCritico: r.productoCritico,
+  };
+}
+
+export function deserializarResultados(r: ResultadosIPROASJSON): ResultadosIPROAS {
+  return {
+    ipRoas: numeroDesdeJSON(r.ipRoas),
+    vum: numeroDesdeJSON(r.vum),
+    roasMinTradicional: numeroDesdeJSON(r.roasMinTradicional),
+    cprEstimado: numeroDesdeJSON(r.cprEstimado),
+    costosTotales: numeroDesdeJSON(r.costosTotales),
+    margenMinimoUsado: numeroDesdeJSON(r.margenMinimoUsado),
+    precioProductoMinimo: numeroDesdeJSON(r.precioProductoMinimo),
+    productoCritico: r.productoCritico,
+  };
+}
+
+export function serializarResultadoEscenario(r: ResultadoEscenario): ResultadoEscenarioJSON {
+  return r.ok ? { ...r, resultados: serializarResultados(r.resultados) } : r;
+}
@@ -0,0 +1,78 @@
+/**
+ * Spreadsheet Import
+ * ==================
+ * Reads .xlsx workbooks (and CSV text) into a neutral table of cells that the
+ * column-mapping step turns into products.
+ */
+
+import type { CellValue } from 'exceljs';
+import { leerTablaCSV, type SeparadorDecimal } from './csv';
+
+export type Celda = string | number;
+
+/** Header row plus data rows; `fila` is the 1-based row number in the source */
+export interface TablaImportada {
+  headers: string[];
+  filas: { fila: number; celdas: Celda[] }[];
+  separadorDecimal?: SeparadorDecimal; // Known for CSV; detected later for .xlsx
+}
+
+export interface HojaImportada {
+  nombre: string;
+  tabla: TablaImportada;
+}
+
+/** Flattens ExcelJS cell values (formulas, rich text, links) to a string or number */
+function celdaDesdeValor(value: CellValue): Celda {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if ('richText' in value) return value.richText.map((r) => r.text).join('');
+  if ('hyperlink' in value) return value.text;
+  if ('result' in value) return value.result === undefined ? '' : celdaDesdeValor(value.result);
+  if ('error' in value) return value.error;
+  return '';
+}
+
+/**
+ * Loads every worksheet of an .xlsx file. The first non-empty row of each
+ * sheet is taken as the header row; empty rows are skipped.
+ */
+export async function leerLibroExcel(data: ArrayBuffer): Promise<HojaImportada[]> {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets.map((sheet) => {
+    const filas: TablaImportada['filas'] = [];
+    let headers: string[] | null = null;
+
+    sheet.eachRow((row, rowNumber) => {
+      const celdas: Celda[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, col) => {
+        celdas[col - 1] = celdaDesdeValor(cell.value);
+      });
+      for (let i = 0; i < celdas.length; i++) {
+        if (celdas[i] === undefined) celdas[i] = '';
+      }
+      const normalizadas = celdas.map((c) => (typeof c === 'string' ? c.trim() : c));
+      if (normalizadas.every((c) => c === '')) return;
+
+      if (!headers) headers = normalizadas.map(String);
+      else filas.push({ fila: rowNumber, celdas: normalizadas });
+    });
+
+    return { nombre: sheet.name, tabla: { headers: headers ?? [], filas } };
+  });
+}
+
+/** Wraps CSV/TSV text in the same table shape used for workbooks */
+export function tablaDesdeCSV(text: string): TablaImportada {
+  const tabla = leerTablaCSV(text);
+  return {
+    headers: tabla.headers,
+    filas: tabla.filas.map(({ fila, valores }) => ({ fila, celdas: tabla.headers.map((h) => valores[h]) })),
+    separadorDecimal: tabla.separadorDecimal,
+  };
+}
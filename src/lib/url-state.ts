@@ -0,0 +1,212 @@
+/**
+ * Shareable URL State
+ * ===================
+ * Encodes the calculator inputs into a compact, versioned query parameter:
+ *
+ *   ?s=v1.<base64url(JSON [ip, tf, ie,
+ *                          [[nombre, precio, margen, mix?, moneda?, deducciones?, sku?, categoria?, enCampana?], ...],
+ *                          tab, modo?, moneda?, [base, [[moneda, tasa], ...]]?, deducciones?, plan?, categorias?])>
+ *
+ * where deducciones is [[concepto, tipo, valor], ...], plan is [[ip, tf, ie], ...] per month,
+ * enCampana is 0 for a product left out of the campaign and categorias is the category filter.
+ *
+ * Trailing optional elements are omitted when unset (null when a later one
+ * is present), so older v1 links decode unchanged.
+ *
+ * Within v1 the layout may only grow by appending optional elements, to the
+ * payload or to a product tuple; every field added since the first release
+ * was added that way. Bump URL_STATE_VERSION (and keep a decoder for the old
+ * one) for any other change: removing, reordering or reinterpreting an
+ * element, or adding a required one.
+ */
+
+import type { Deduccion, MesPlan, ParametrosCliente, TablaTasas } from '@/types/roas';
+import { validarParametros, validarPlanMensual } from './validation';
+import { tablaTasasDesde } from './currency';
+
+export const URL_STATE_PARAM = 's';
+export const URL_STATE_VERSION = 'v1';
+
+/** Tabs of the main calculator view */
+export const CALCULATOR_TABS = ['resumen', 'IP', 'TF', 'IE', 'Margen', 'tornado', 'plan', 'riesgo', 'real', 'mapa', 'comparar'] as const;
+export type CalculatorTab = (typeof CALCULATOR_TABS)[number];
+
+export interface CalculatorUrlState {
+  params: ParametrosCliente;
+  tab: CalculatorTab;
+  tasas?: TablaTasas; // Exchange rates needed to reproduce a mixed-currency portfolio
+  plan?: MesPlan[]; // Monthly planner, when the user has set one up
+}
+
+export type UrlStateDecodeResult =
+  | { ok: true; state: CalculatorUrlState }
+  | { ok: false; error: string };
+
+type Opcional<T> = T | null | undefined;
+type DeduccionV1 = [string, string, number];
+type ProductoV1 = [
+  string,
+  number,
+  number,
+  Opcional<number>?,
+  Opcional<string>?,
+  Opcional<DeduccionV1[]>?,
+  Opcional<string>?,
+  Opcional<string>?,
+  Opcional<0>?,
+];
+type TasasV1 = [string, [string, number][]];
+type MesV1 = [number, number, number];
+type PayloadV1 = [
+  number,
+  number,
+  number,
+  ProductoV1[],
+  string,
+  Opcional<string>?,
+  Opcional<string>?,
+  Opcional<TasasV1>?,
+  Opcional<DeduccionV1[]>?,
+  Opcional<MesV1[]>?,
+  Opcional<string[]>?,
+];
+
+function deduccionesV1(deducciones: Deduccion[] | undefined): DeduccionV1[] | null {
+  return deducciones && deducciones.length > 0 ? deducciones.map((d) => [d.concepto, d.tipo, d.valor]) : null;
+}
+
+/** Back to objects; anything malformed is left for validarParametros to reject */
+function deduccionesDesdeV1(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (!Array.isArray(value)) return value;
+  return value.map((d) => (Array.isArray(d) ? { concepto: d[0], tipo: d[1], valor: d[2] } : d));
+}
+
+/** Drops trailing unset elements; earlier gaps become null in the JSON */
+function sinOpcionalesFinales<T extends unknown[]>(tupla: T): T {
+  const copia = [...tupla];
+  while (copia.length > 0 && (copia[copia.length - 1] === undefined || copia[copia.length - 1] === null)) copia.pop();
+  return copia as T;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+function isCalculatorTab(value: unknown): value is CalculatorTab {
+  return typeof value === 'string' && (CALCULATOR_TABS as readonly string[]).includes(value);
+}
+
+export function encodeUrlState({ params, tab, tasas, plan }: CalculatorUrlState): string {
+  const conTasas = tasas && Object.keys(tasas.tasas).length > 0;
+  const payload = sinOpcionalesFinales<PayloadV1>([
+    params.inversionPublicitaria,
+    params.tarifaFija,
+    params.ingresoEsperado,
+    params.productos.map((p) =>
+      sinOpcionalesFinales<ProductoV1>([
+        p.nombre,
+        p.precio,
+        p.margenBruto,
+        p.participacion ?? null,
+        p.moneda ?? null,
+        deduccionesV1(p.deducciones),
+        p.sku ?? null,
+        p.categoria ?? null,
+        p.enCampana === false ? 0 : null,
+      ])
+    ),
+    tab,
+    params.modoMargen === 'mezcla' ? params.modoMargen : null,
+    params.moneda ?? null,
+    conTasas ? [tasas.base, Object.entries(tasas.tasas)] : null,
+    deduccionesV1(params.deducciones),
+    plan ? plan.map((m) => [m.inversionPublicitaria, m.tarifaFija, m.ingresoEsperado]) : null,
+    params.categorias ?? null,
+  ]);
+  return `${URL_STATE_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Decodes a value produced by encodeUrlState. Never throws: malformed or
+ * unsupported links come back as { ok: false } with a user-facing message.
+ */
+export function decodeUrlState(encoded: string): UrlStateDecodeResult {
+  const dot = encoded.indexOf('.');
+  const version = dot >= 0 ? encoded.slice(0, dot) : '';
+  if (version !== URL_STATE_VERSION) {
+    return { ok: false, error: 'El enlace corresponde a una versión no compatible de la calculadora.' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded.slice(dot + 1)));
+  } catch {
+    return { ok: false, error: 'El enlace está dañado y no se pudo leer.' };
+  }
+
+  if (!Array.isArray(payload) || payload.length < 4 || !Array.isArray(payload[3])) {
+    return { ok: false, error: 'El enlace está dañado y no se pudo leer.' };
+  }
+
+  const [ip, tf, ie, productos, tab, modoMargen, moneda, tasasV1, deducciones, planV1, categorias] = payload as PayloadV1;
+  const validation = validarParametros({
+    inversionPublicitaria: ip,
+    tarifaFija: tf,
+    ingresoEsperado: ie,
+    productos: productos.map((p) =>
+      Array.isArray(p)
+        ? {
+            nombre: p[0],
+            precio: p[1],
+            margenBruto: p[2],
+            participacion: p[3] ?? undefined,
+            moneda: p[4] ?? undefined,
+            deducciones: deduccionesDesdeV1(p[5]),
+            sku: p[6] ?? undefined,
+            categoria: p[7] ?? undefined,
+            enCampana: p[8] === 0 ? false : undefined,
+          }
+        : p
+    ),
+    modoMargen: modoMargen ?? undefined,
+    moneda: moneda ?? undefined,
+    deducciones: deduccionesDesdeV1(deducciones),
+    categorias: categorias ?? undefined,
+  });
+  if (!validation.ok) {
+    return { ok: false, error: 'El enlace contiene valores inválidos.' };
+  }
+
+  const state: CalculatorUrlState = { params: validation.value, tab: isCalculatorTab(tab) ? tab : 'resumen' };
+  if (tasasV1) {
+    const tasas = Array.isArray(tasasV1) && Array.isArray(tasasV1[1])
+      ? tablaTasasDesde({ base: tasasV1[0], tasas: Object.fromEntries(tasasV1[1].filter(Array.isArray)) })
+      : null;
+    if (!tasas) return { ok: false, error: 'El enlace contiene valores inválidos.' };
+    state.tasas = tasas;
+  }
+  if (planV1) {
+    const plan = validarPlanMensual(
+      Array.isArray(planV1)
+        ? planV1.map((m) =>
+            Array.isArray(m) ? { inversionPublicitaria: m[0], tarifaFija: m[1], ingresoEsperado: m[2] } : m
+          )
+        : planV1
+    );
+    if (!plan.ok) return { ok: false, error: 'El enlace contiene valores inválidos.' };
+    state.plan = plan.value;
+  }
+  return { ok: true, state };
+}
@@ -0,0 +1,254 @@
+/**
+ * Input Validation
+ * ================
+ * Runtime checks for untrusted JSON (API bodies, URLs, storage) before it
+ * reaches the calculation engine.
+ */
+
+import type {
+  Deduccion,
+  Producto,
+  ParametrosCliente,
+  ModoMargen,
+  MesPlan,
+  RangoSensibilidad,
+  SensitivityType,
+} from '@/types/roas';
+import { MODOS_MARGEN } from '@/types/roas';
+import { esCodigoMoneda } from './currency';
+import { MESES_PLAN_MAX, MESES_PLAN_MIN } from './monthly-plan';
+import { SENSIBILIDAD_PUNTOS_MAX } from './roas-engine';
+
+/** A single validation problem, addressed by a dotted field path */
+export interface ValidationError {
+  campo: string;
+  mensaje: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: ValidationError[] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNonNegative(
+  value: unknown,
+  campo: string,
+  errors: ValidationError[]
+): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push({ campo, mensaje: 'Debe ser un número finito' });
+    return 0;
+  }
+  if (value < 0) {
+    errors.push({ campo, mensaje: 'No puede ser negativo' });
+  }
+  return value;
+}
+
+/** Optional ISO 4217 code (three upper-case letters) */
+function checkMoneda(value: unknown, campo: string, errors: ValidationError[]): void {
+  if (value !== undefined && !esCodigoMoneda(value)) {
+    errors.push({ campo, mensaje: 'Debe ser un código de moneda ISO 4217 (p. ej. MXN)' });
+  }
+}
+
+/** Optional non-empty text; returns it trimmed */
+function checkTexto(value: unknown, campo: string, errors: ValidationError[]): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ campo, mensaje: 'Debe ser un texto no vacío' });
+    return undefined;
+  }
+  return value.trim();
+}
+
+const TIPOS_DEDUCCION: Deduccion['tipo'][] = ['porcentaje', 'fijo'];
+
+/**
+ * Validates an optional list of deductions. Percentages are decimals in
+ * [0, 1]; fixed amounts are non-negative.
+ */
+function checkDeducciones(value: unknown, campo: string, errors: ValidationError[]): Deduccion[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push({ campo, mensaje: 'Debe ser una lista' });
+    return undefined;
+  }
+  return value.flatMap((d, i): Deduccion[] => {
+    const c = `${campo}[${i}]`;
+    if (!isRecord(d)) {
+      errors.push({ campo: c, mensaje: 'Debe ser un objeto' });
+      return [];
+    }
+    const antes = errors.length;
+    if (typeof d.concepto !== 'string' || d.concepto.trim() === '') {
+      errors.push({ campo: `${c}.concepto`, mensaje: 'Debe ser un texto no vacío' });
+    }
+    if (!TIPOS_DEDUCCION.includes(d.tipo as Deduccion['tipo'])) {
+      errors.push({ campo: `${c}.tipo`, mensaje: `Debe ser uno de: ${TIPOS_DEDUCCION.join(', ')}` });
+    }
+    const valor = checkNonNegative(d.valor, `${c}.valor`, errors);
+    if (d.tipo === 'porcentaje' && valor > 1) {
+      errors.push({ campo: `${c}.valor`, mensaje: 'Debe ser un decimal entre 0 y 1' });
+    }
+    if (errors.length > antes) return [];
+    return [{ concepto: (d.concepto as string).trim(), tipo: d.tipo as Deduccion['tipo'], valor }];
+  });
+}
+
+/**
+ * Validates a single Producto.
+ * margenBruto must be a decimal in [0, 1] (0.30 = 30%).
+ */
+export function validarProducto(input: unknown, campo = 'producto'): ValidationResult<Producto> {
+  const errors: ValidationError[] = [];
+  if (!isRecord(input)) {
+    return { ok: false, errors: [{ campo, mensaje: 'Debe ser un objeto' }] };
+  }
+
+  const { nombre, precio, margenBruto, participacion, moneda, deducciones, enCampana } = input;
+  if (typeof nombre !== 'string' || nombre.trim() === '') {
+    errors.push({ campo: `${campo}.nombre`, mensaje: 'Debe ser un texto no vacío' });
+  }
+  const precioNum = checkNonNegative(precio, `${campo}.precio`, errors);
+  const margenNum = checkNonNegative(margenBruto, `${campo}.margenBruto`, errors);
+  if (typeof margenBruto === 'number' && margenBruto > 1) {
+    errors.push({ campo: `${campo}.margenBruto`, mensaje: 'Debe ser un decimal entre 0 y 1' });
+  }
+
+  const participacionNum =
+    participacion === undefined ? undefined : checkNonNegative(participacion, `${campo}.participacion`, errors);
+  checkMoneda(moneda, `${campo}.moneda`, errors);
+  const deduccionesOk = checkDeducciones(deducciones, `${campo}.deducciones`, errors);
+  const sku = checkTexto(input.sku, `${campo}.sku`, errors);
+  const categoria = checkTexto(input.categoria, `${campo}.categoria`, errors);
+  if (enCampana !== undefined && typeof enCampana !== 'boolean') {
+    errors.push({ campo: `${campo}.enCampana`, mensaje: 'Debe ser verdadero o falso' });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  const producto: Producto = { nombre: (nombre as string).trim(), precio: precioNum, margenBruto: margenNum };
+  if (participacionNum !== undefined) producto.participacion = participacionNum;
+  if (moneda !== undefined) producto.moneda = moneda as string;
+  if (deduccionesOk !== undefined) producto.deducciones = deduccionesOk;
+  if (sku !== undefined) producto.sku = sku;
+  if (categoria !== undefined) producto.categoria = categoria;
+  if (enCampana === false) producto.enCampana = false;
+  return { ok: true, value: producto };
+}
+
+const MODOS_MARGEN_VALIDOS = MODOS_MARGEN.map((m) => m.value);
+
+/**
+ * Validates a ParametrosCliente object.
+ * Collects every problem instead of stopping at the first one.
+ */
+export function validarParametros(input: unknown): ValidationResult<ParametrosCliente> {
+  if (!isRecord(input)) {
+    return { ok: false, errors: [{ campo: '', mensaje: 'El cuerpo debe ser un objeto JSON' }] };
+  }
+
+  const errors: ValidationError[] = [];
+  const inversionPublicitaria = checkNonNegative(input.inversionPublicitaria, 'inversionPublicitaria', errors);
+  const tarifaFija = checkNonNegative(input.tarifaFija, 'tarifaFija', errors);
+  const ingresoEsperado = checkNonNegative(input.ingresoEsperado, 'ingresoEsperado', errors);
+
+  const productos: Producto[] = [];
+  if (!Array.isArray(input.productos)) {
+    errors.push({ campo: 'productos', mensaje: 'Debe ser una lista' });
+  } else {
+    input.productos.forEach((p, i) => {
+      const result = validarProducto(p, `productos[${i}]`);
+      if (result.ok) productos.push(result.value);
+      else errors.push(...result.errors);
+    });
+  }
+
+  const { modoMargen, moneda } = input;
+  checkMoneda(moneda, 'moneda', errors);
+  const deducciones = checkDeducciones(input.deducciones, 'deducciones', errors);
+  const { categorias } = input;
+  if (
+    categorias !== undefined &&
+    (!Array.isArray(categorias) || !categorias.every((c) => typeof c === 'string' && c.trim() !== ''))
+  ) {
+    errors.push({ campo: 'categorias', mensaje: 'Debe ser una lista de textos no vacíos' });
+  }
+  if (modoMargen !== undefined && !MODOS_MARGEN_VALIDOS.includes(modoMargen as ModoMargen)) {
+    errors.push({ campo: 'modoMargen', mensaje: `Debe ser uno de: ${MODOS_MARGEN_VALIDOS.join(', ')}` });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  const value: ParametrosCliente = { inversionPublicitaria, tarifaFija, ingresoEsperado, productos };
+  if (modoMargen !== undefined) value.modoMargen = modoMargen as ModoMargen;
+  if (moneda !== undefined) value.moneda = moneda as string;
+  if (deducciones !== undefined) value.deducciones = deducciones;
+  if (categorias !== undefined) value.categorias = (categorias as string[]).map((c) => c.trim());
+  return { ok: true, value };
+}
+
+/** Validates a monthly plan: MESES_PLAN_MIN..MESES_PLAN_MAX months of non-negative IP/TF/IE */
+export function validarPlanMensual(input: unknown): ValidationResult<MesPlan[]> {
+  if (!Array.isArray(input) || input.length < MESES_PLAN_MIN || input.length > MESES_PLAN_MAX) {
+    return {
+      ok: false,
+      errors: [{ campo: 'plan', mensaje: `Debe ser una lista de ${MESES_PLAN_MIN} a ${MESES_PLAN_MAX} meses` }],
+    };
+  }
+
+  const errors: ValidationError[] = [];
+  const plan = input.map((m, i): MesPlan => {
+    const campo = `plan[${i}]`;
+    if (!isRecord(m)) {
+      errors.push({ campo, mensaje: 'Debe ser un objeto' });
+      return { inversionPublicitaria: 0, tarifaFija: 0, ingresoEsperado: 0 };
+    }
+    return {
+      inversionPublicitaria: checkNonNegative(m.inversionPublicitaria, `${campo}.inversionPublicitaria`, errors),
+      tarifaFija: checkNonNegative(m.tarifaFija, `${campo}.tarifaFija`, errors),
+      ingresoEsperado: checkNonNegative(m.ingresoEsperado, `${campo}.ingresoEsperado`, errors),
+    };
+  });
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: plan };
+}
+
+/**
+ * A sensitivity sweep must have min < max, a step giving at most
+ * SENSIBILIDAD_PUNTOS_MAX points, margins within 0–100% and a log scale only
+ * for a strictly positive IP range.
+ */
+export function validarRangoSensibilidad(
+  tipo: SensitivityType,
+  rango: RangoSensibilidad
+): ValidationResult<RangoSensibilidad> {
+  const { min, max, paso, escala } = rango;
+  const errors: ValidationError[] = [];
+
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max) {
+    errors.push({ campo: 'max', mensaje: 'Debe ser mayor que el mínimo' });
+  } else if (tipo === 'Margen' && (min < 0 || max > 1)) {
+    errors.push({ campo: 'min', mensaje: 'El margen debe estar entre 0% y 100%' });
+  } else if (min < 0) {
+    errors.push({ campo: 'min', mensaje: 'No puede ser negativo' });
+  }
+
+  if (!Number.isFinite(paso) || paso <= 0) {
+    errors.push({ campo: 'paso', mensaje: 'Debe ser mayor que 0' });
+  } else if (max > min && (max - min) / paso + 1 > SENSIBILIDAD_PUNTOS_MAX) {
+    errors.push({ campo: 'paso', mensaje: `Genera más de ${SENSIBILIDAD_PUNTOS_MAX} puntos` });
+  }
+
+  if (escala === 'log' && tipo !== 'IP') {
+    errors.push({ campo: 'escala', mensaje: 'La escala logarítmica solo está disponible para IP' });
+  } else if (escala === 'log' && !(min > 0)) {
+    errors.push({ campo: 'min', mensaje: 'Debe ser mayor que 0 en escala logarítmica' });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: rango };
+}
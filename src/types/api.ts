@@ -0,0 +1,60 @@
+/**
+ * HTTP API Types
+ * JSON shapes returned by the routes under src/app/api.
+ */
+
+import type { Moneda, ParametrosCliente, Producto } from './roas';
+import type { ValidationError } from '@/lib/validation';
+
+/**
+ * JSON has no Infinity/NaN (JSON.stringify turns them into null), so
+ * non-finite engine values are sent as explicit string markers.
+ */
+export type NumeroJSON = number | 'Infinity' | '-Infinity' | 'NaN';
+
+/** ResultadosIPROAS with every numeric field made JSON-safe */
+export interface ResultadosIPROASJSON {
+  ipRoas: NumeroJSON;
+  vum: NumeroJSON;
+  roasMinTradicional: NumeroJSON;
+  cprEstimado: NumeroJSON;
+  costosTotales: NumeroJSON;
+  margenMinimoUsado: NumeroJSON;
+  precioProductoMinimo: NumeroJSON;
+  productoCritico: string;
+}
+
+/** POST /api/calculate response */
+export interface CalculateResponse {
+  resultados: ResultadosIPROASJSON;
+  productoCritico: Producto | null;
+}
+
+/** Error body shared by the calculation routes */
+export interface ApiErrorResponse {
+  error: string;
+  detalles?: ValidationError[];
+}
+
+/** One entry of the POST /api/calculate/batch response */
+export type ResultadoEscenarioJSON =
+  | { nombre: string; ok: true; resultados: ResultadosIPROASJSON }
+  | { nombre: string; ok: false; errores: ValidationError[] };
+
+/** POST /api/calculate/batch response */
+export interface BatchResponse {
+  escenarios: ResultadoEscenarioJSON[];
+  totalOk: number;
+  totalError: number;
+}
+
+/**
+ * Calculator snapshot sent with each POST /api/chat message. params are
+ * already in the reporting currency; sinTasa lists currencies whose products
+ * were left out for lack of an exchange rate.
+ */
+export interface ContextoChatJSON {
+  params: ParametrosCliente;
+  resultados: ResultadosIPROASJSON;
+  sinTasa?: Moneda[];
+}
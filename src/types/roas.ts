@@ -8,16 +8,86 @@ export interface Producto {
   nombre: string;
   precio: number;
   margenBruto: number; // Percentage as decimal (0.30 = 30%)
+  participacion?: number; // Sales-mix weight (share or expected units), used by 'mezcla'
+  moneda?: Moneda;        // Currency of precio; defaults to ParametrosCliente.moneda
+  deducciones?: Deduccion[]; // Per-unit costs specific to this product
+  sku?: string;
+  categoria?: string;
+  enCampana?: boolean;    // false = listed but left out of the calculation
 }
 
+/** Filter key for products without a categoria */
+export const SIN_CATEGORIA = 'Sin categor\u00eda';
+
+/**
+ * A cost lost on every unit sold (VAT, marketplace commission, payment fee,
+ * shipping). 'porcentaje' is a decimal of precio (0.16 = 16%); 'fijo' is an
+ * amount per unit in the product's currency.
+ */
+export interface Deduccion {
+  concepto: string;
+  tipo: 'porcentaje' | 'fijo';
+  valor: number;
+}
+
+/** Common deductions offered as one-click presets; values are editable afterwards */
+export const DEDUCCIONES_SUGERIDAS: Deduccion[] = [
+  { concepto: 'IVA', tipo: 'porcentaje', valor: 0.16 },
+  { concepto: 'Comisi\u00f3n marketplace', tipo: 'porcentaje', valor: 0.15 },
+  { concepto: 'Pasarela de pago', tipo: 'porcentaje', valor: 0.036 },
+  { concepto: 'Env\u00edo', tipo: 'fijo', valor: 0 },
+];
+
+/** ISO 4217 currency code, e.g. 'MXN', 'COP', 'USD' */
+export type Moneda = string;
+
+/**
+ * Exchange rates entered by the user: tasas[X] is how many units of X equal
+ * one unit of base (the base itself is implicitly 1).
+ */
+export interface TablaTasas {
+  base: Moneda;
+  tasas: Record<Moneda, number>;
+}
+
+/**
+ * How VUM / ROAS Tradicional / CPR pick the margin and price:
+ * - peorCaso: every sale is the product with the lowest absolute margin (Python)
+ * - mezcla: weighted average margin and price by each product's participacion
+ */
+export type ModoMargen = 'peorCaso' | 'mezcla';
+
+export const MODOS_MARGEN: { value: ModoMargen; label: string }[] = [
+  { value: 'peorCaso', label: 'Peor caso (producto cr\u00edtico)' },
+  { value: 'mezcla', label: 'Mezcla de ventas ponderada' },
+];
+
 /** Client input parameters (Python: ParametrosCliente) */
 export interface ParametrosCliente {
   inversionPublicitaria: number; // IP
   tarifaFija: number;           // TF
   ingresoEsperado: number;      // IE
   productos: Producto[];
+  modoMargen?: ModoMargen;      // Defaults to 'peorCaso'
+  moneda?: Moneda;              // Reporting currency of IP/TF/IE and all results
+  deducciones?: Deduccion[];    // Applied to every product; fixed amounts in moneda
+  categorias?: string[];        // Only products in these categories are calculated; unset = all
 }
 
+/** One month of a time-phased campaign, with its own IP, TF and IE */
+export interface MesPlan {
+  inversionPublicitaria: number;
+  tarifaFija: number;
+  ingresoEsperado: number;
+}
+
+/** Probability distribution of an uncertain input in the risk simulation */
+export type Distribucion =
+  | { tipo: 'fijo'; valor: number }
+  | { tipo: 'uniforme'; min: number; max: number }
+  | { tipo: 'triangular'; min: number; moda: number; max: number }
+  | { tipo: 'normal'; media: number; desviacion: number };
+
 /** Calculation results (Python: ResultadosIPROAS) */
 export interface ResultadosIPROAS {
   ipRoas: number;
@@ -40,6 +110,29 @@ export interface SensitivityDataPoint {
   roasTradicional: number;
 }
 
+/** Two-parameter sensitivity grid; matrices are indexed [yIndex][xIndex] */
+export interface SensitivityGrid {
+  xType: SensitivityType;
+  yType: SensitivityType;
+  x: number[];
+  y: number[];
+  ipRoas: number[][];
+  roasTradicional: number[][];
+  actual: { x: number; y: number }; // Current input values on each axis
+}
+
+/**
+ * User-defined sweep for a sensitivity chart (Margen as decimal). paso sets
+ * the resolution: (max - min) / paso + 1 points, spaced geometrically when
+ * escala is 'log' (IP only).
+ */
+export interface RangoSensibilidad {
+  min: number;
+  max: number;
+  paso: number;
+  escala: 'lineal' | 'log';
+}
+
 /** Configuration for a sensitivity chart */
 export interface SensitivityConfig {
   type: SensitivityType;
@@ -55,3 +148,65 @@ export const SENSITIVITY_CONFIGS: SensitivityConfig[] = [
   { type: 'IE', title: 'Sensibilidad IP-ROAS vs Ingreso Esperado', xLabel: 'Ingreso Esperado ($)', xFormat: 'currency' },
   { type: 'Margen', title: 'Sensibilidad IP-ROAS vs Margen Bruto', xLabel: 'Margen Bruto (%)', xFormat: 'percent' },
 ];
+
+/** A named set of client parameters evaluated as one scenario */
+export interface Escenario {
+  nombre: string;
+  parametros: ParametrosCliente;
+}
+
+/** Goal seek: which metric to hit and which input to move */
+export type GoalSeekMetric = 'ipRoas' | 'vum' | 'roasTradicional';
+export type GoalSeekVariable = 'IP' | 'TF' | 'IE';
+
+/** Outcome of a goal seek search */
+export interface GoalSeekResult {
+  variable: GoalSeekVariable;
+  valor: number;          // Value to set on the variable
+  metrica: GoalSeekMetric;
+  objetivo: number;       // Requested target
+  alcanzado: number;      // Metric value actually obtained with `valor`
+  metodo: 'analitico' | 'numerico';
+}
+
+/** Tornado analysis: inputs moved by ±variacion and the metrics whose swing is ranked */
+export type TornadoVariable = 'IP' | 'TF' | 'IE' | 'Precio' | 'Margen';
+export type TornadoMetric = 'ipRoas' | 'roasTradicional' | 'vum';
+
+/** One input of the tornado, evaluated at both ends of its range */
+export interface TornadoBar {
+  variable: TornadoVariable;
+  bajo: number;  // Input value at -variacion
+  alto: number;  // Input value at +variacion
+  /** Metric at each end; swing = |alto - bajo|, Infinity when an end has no positive margin */
+  metricas: Record<TornadoMetric, { bajo: number; alto: number; swing: number }>;
+}
+
+export interface TornadoResult {
+  variacion: number; // Decimal, e.g. 0.2 for ±20%
+  base: Record<TornadoMetric, number>;
+  barras: TornadoBar[];
+}
+
+export const TORNADO_VARIABLES: { variable: TornadoVariable; label: string; format: 'currency' | 'percent' }[] = [
+  { variable: 'IP', label: 'Inversi\u00f3n Publicitaria', format: 'currency' },
+  { variable: 'TF', label: 'Tarifa Fija', format: 'currency' },
+  { variable: 'IE', label: 'Ingreso Esperado', format: 'currency' },
+  { variable: 'Precio', label: 'Precio del producto cr\u00edtico', format: 'currency' },
+  { variable: 'Margen', label: 'Margen Bruto', format: 'percent' },
+];
+
+/** Axis pairs offered by the 2D sensitivity heatmap */
+export const SENSITIVITY_2D_PAIRS: { x: SensitivityType; y: SensitivityType; title: string }[] = [
+  { x: 'IP', y: 'TF', title: 'Inversi\u00f3n Publicitaria \u00d7 Tarifa Fija' },
+  { x: 'IP', y: 'IE', title: 'Inversi\u00f3n Publicitaria \u00d7 Ingreso Esperado' },
+  { x: 'TF', y: 'Margen', title: 'Tarifa Fija \u00d7 Margen Bruto' },
+];
+
+/** A scenario persisted by the user (proposal A, proposal B, ...) */
+export interface EscenarioGuardado extends Escenario {
+  id: string;
+  creadoEn: string;       // ISO timestamp
+  actualizadoEn: string;  // ISO timestamp
+  tasas?: TablaTasas;     // Exchange rates loaded when saved, for products in other currencies
+}